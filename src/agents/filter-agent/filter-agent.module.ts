@@ -6,13 +6,21 @@
  * - Imported the OpenAI module
  * - Provided and exported the FilterAgentService
  * - Added forwardRef() to break circular dependency
+ * - Imported the locations module to resolve places against the location lookup
+ * - Imported the exchange rates module to convert price filters to MXN
  */
 import { Module, forwardRef } from '@nestjs/common';
 import { FilterAgentService } from './filter-agent.service';
 import { OpenAiModule } from '../../openai/openai.module';
+import { LocationsModule } from '../../locations/locations.module';
+import { ExchangeRatesModule } from '../../exchange-rates/exchange-rates.module';
 
 @Module({
-  imports: [forwardRef(() => OpenAiModule)],
+  imports: [
+    forwardRef(() => OpenAiModule),
+    LocationsModule,
+    ExchangeRatesModule,
+  ],
   providers: [FilterAgentService],
   exports: [FilterAgentService],
 })
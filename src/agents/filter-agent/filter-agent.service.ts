@@ -7,11 +7,27 @@
  * - Added methods to handle property filtering queries
  * - Added forwardRef() to break circular dependency with OpenAiService
  * - Removed static cities list and implemented dynamic location detection
+ * - Fallback query detects foreclosures (remate) and vacation rentals
+ * - City filters are resolved through the location lookup to the spellings
+ *   stored in the listings, so accents and typos no longer miss listings
+ * - Price conditions are moved to the normalized priceMXN, converted from the
+ *   currency of the query ("menos de 300 mil dólares")
+ * - Fallback query detects furnished and pet-friendly rentals
  */
 import { Injectable, Logger, Inject, forwardRef } from '@nestjs/common';
 import { OpenAiService } from '../../openai/openai.service';
 import { Agent, AgentInput, AgentOutput } from '../interfaces/agent.interface';
 import { SYSTEM_MESSAGE } from '../../openai/system-messages/filter-agent';
+import { LocationsService } from '../../locations/locations.service';
+import { ExchangeRatesService } from '../../exchange-rates/exchange-rates.service';
+import {
+  detectQueryCurrency,
+  parseCurrency,
+} from '../../exchange-rates/utils/currency';
+import { Currency } from '../../property/interfaces/property-filters.interface';
+
+// Operators of a price condition converted to priceMXN
+const PRICE_OPERATORS = ['$eq', '$ne', '$lt', '$lte', '$gt', '$gte'];
 
 @Injectable()
 export class FilterAgentService implements Agent {
@@ -24,6 +40,8 @@ export class FilterAgentService implements Agent {
   constructor(
     @Inject(forwardRef(() => OpenAiService))
     private readonly openAiService: OpenAiService,
+    private readonly locationsService: LocationsService,
+    private readonly exchangeRatesService: ExchangeRatesService,
   ) {}
 
   async canHandle(input: AgentInput): Promise<boolean> {
@@ -51,6 +69,7 @@ export class FilterAgentService implements Agent {
         extraActions?: Record<string, any>[];
         sort?: Record<string, 1 | -1>;
         projection?: Record<string, 1 | 0>;
+        currency?: string;
       }
 
       const response =
@@ -87,13 +106,22 @@ export class FilterAgentService implements Agent {
         };
       }
 
+      const currency =
+        parseCurrency(response.currency) ??
+        detectQueryCurrency(input.query) ??
+        'MXN';
+
       return {
         response: response.message,
         data: {
-          mongoQuery: response.mongoQuery,
+          mongoQuery: this.normalizePriceFilters(
+            await this.resolveLocationFilters(response.mongoQuery),
+            currency,
+          ),
           extraActions: response.extraActions,
-          sort: response.sort,
+          sort: response.sort && this.normalizePriceSort(response.sort),
           projection: response.projection,
+          currency,
         },
       };
     } catch (error) {
@@ -151,7 +179,15 @@ export class FilterAgentService implements Agent {
       );
       
       if (locationResponse.location) {
-        basicQuery['location.city'] = { $regex: locationResponse.location, $options: 'i' };
+        Object.assign(
+          basicQuery,
+          (await this.buildLocationFilter(locationResponse.location)) ?? {
+            'location.city': {
+              $regex: locationResponse.location,
+              $options: 'i',
+            },
+          },
+        );
         this.logger.debug(`Detected location: ${locationResponse.location}`);
       }
     } catch (error) {
@@ -159,8 +195,17 @@ export class FilterAgentService implements Agent {
       // Continue without location filter if there's an error
     }
 
-    // Check for operation type
-    if (lowercaseQuery.includes('renta') || lowercaseQuery.includes('rentar')) {
+    // Check for operation type, refined by the listing category
+    if (lowercaseQuery.includes('remate')) {
+      basicQuery.operationType = 'Venta';
+      basicQuery.listingCategory = 'foreclosure';
+    } else if (lowercaseQuery.includes('vacacional')) {
+      basicQuery.operationType = 'Renta';
+      basicQuery.listingCategory = 'vacation';
+    } else if (
+      lowercaseQuery.includes('renta') ||
+      lowercaseQuery.includes('rentar')
+    ) {
       basicQuery.operationType = 'Renta';
     } else if (
       lowercaseQuery.includes('venta') ||
@@ -169,6 +214,20 @@ export class FilterAgentService implements Agent {
       basicQuery.operationType = 'Venta';
     }
 
+    // Check for rental terms, which only rentals have
+    if (/\bamueblad[oa]s?\b/.test(lowercaseQuery)) {
+      basicQuery.operationType = 'Renta';
+      basicQuery['rental.furnished'] = !/\b(sin|no) amueblad/.test(
+        lowercaseQuery,
+      );
+    }
+    if (/\b(mascotas?|pet friendly)\b/.test(lowercaseQuery)) {
+      basicQuery.operationType = 'Renta';
+      basicQuery['rental.petsAllowed'] = !/\b(sin|no \w+) mascotas?\b/.test(
+        lowercaseQuery,
+      );
+    }
+
     // If we couldn't create any filters, return a simple query that will match most properties
     if (Object.keys(basicQuery).length === 0) {
       return { status: 'available' };
@@ -176,4 +235,145 @@ export class FilterAgentService implements Agent {
 
     return basicQuery;
   }
+
+  /**
+   * Filter on a free-text place through the location lookup, so "Zapópan" or
+   * "monterey" match the spellings stored in the listings; a state mentioned as
+   * a city filters on location.state
+   * @param place The place as written by the user or the AI
+   * @returns The location filter, or null when the place is unknown
+   */
+  private async buildLocationFilter(
+    place: string,
+  ): Promise<Record<string, any> | null> {
+    const resolved = await this.locationsService.resolveLocation(place);
+    if (!resolved) {
+      return null;
+    }
+
+    this.logger.debug(
+      `Resolved location "${place}" to ${resolved.kind} ${resolved.name}`,
+    );
+    const field =
+      resolved.kind === 'state' ? 'location.state' : 'location.city';
+    return {
+      [field]:
+        resolved.variants.length > 1
+          ? { $in: resolved.variants }
+          : resolved.name,
+    };
+  }
+
+  /**
+   * Replace the location.city conditions of an AI-generated query (a plain
+   * name or a simple $regex, also inside $and and $or) with the place they
+   * resolve to; conditions that do not resolve are left as they are
+   */
+  private async resolveLocationFilters(
+    mongoQuery: Record<string, any>,
+  ): Promise<Record<string, any>> {
+    try {
+      const resolvedQuery: Record<string, any> = { ...mongoQuery };
+
+      for (const operator of ['$and', '$or']) {
+        if (Array.isArray(resolvedQuery[operator])) {
+          resolvedQuery[operator] = await Promise.all(
+            resolvedQuery[operator].map((condition: Record<string, any>) =>
+              this.resolveLocationFilters(condition),
+            ),
+          );
+        }
+      }
+
+      const condition = resolvedQuery['location.city'] as
+        | string
+        | { $regex?: unknown }
+        | undefined;
+      const place =
+        typeof condition === 'string'
+          ? condition
+          : typeof condition?.$regex === 'string'
+            ? condition.$regex.replace(/^\^|\$$/g, '')
+            : null;
+
+      // Leave alternations and other real patterns to MongoDB
+      if (!place || /[|()[\]*+?\\]/.test(place)) {
+        return resolvedQuery;
+      }
+
+      const locationFilter = await this.buildLocationFilter(place);
+      if (!locationFilter) {
+        return resolvedQuery;
+      }
+
+      delete resolvedQuery['location.city'];
+      return { ...resolvedQuery, ...locationFilter };
+    } catch (error) {
+      this.logger.error(
+        `Error resolving locations: ${(error as Error).message}`,
+      );
+      return mongoQuery;
+    }
+  }
+
+  /**
+   * Move the price conditions of an AI-generated query (a plain amount or
+   * comparison operators, also inside $and and $or) to priceMXN, converting
+   * the amounts from the currency of the query, so listings priced in other
+   * currencies are compared at the current exchange rate
+   */
+  private normalizePriceFilters(
+    mongoQuery: Record<string, any>,
+    currency: Currency,
+  ): Record<string, any> {
+    const normalizedQuery: Record<string, any> = { ...mongoQuery };
+
+    for (const operator of ['$and', '$or']) {
+      if (Array.isArray(normalizedQuery[operator])) {
+        normalizedQuery[operator] = normalizedQuery[operator].map(
+          (condition: Record<string, any>) =>
+            this.normalizePriceFilters(condition, currency),
+        );
+      }
+    }
+
+    const condition = normalizedQuery.price as unknown;
+    if (typeof condition === 'number') {
+      delete normalizedQuery.price;
+      normalizedQuery.priceMXN = this.exchangeRatesService.toMXN(
+        condition,
+        currency,
+      );
+    } else if (
+      condition &&
+      typeof condition === 'object' &&
+      Object.entries(condition).every(
+        ([operator, amount]) =>
+          PRICE_OPERATORS.includes(operator) && typeof amount === 'number',
+      )
+    ) {
+      delete normalizedQuery.price;
+      normalizedQuery.priceMXN = Object.fromEntries(
+        Object.entries(condition as Record<string, number>).map(
+          ([operator, amount]) => [
+            operator,
+            this.exchangeRatesService.toMXN(amount, currency),
+          ],
+        ),
+      );
+    }
+
+    return normalizedQuery;
+  }
+
+  private normalizePriceSort(
+    sort: Record<string, 1 | -1>,
+  ): Record<string, 1 | -1> {
+    return Object.fromEntries(
+      Object.entries(sort).map(([field, direction]) => [
+        field === 'price' ? 'priceMXN' : field,
+        direction,
+      ]),
+    );
+  }
 }
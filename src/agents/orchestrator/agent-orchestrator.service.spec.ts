@@ -0,0 +1,112 @@
+import { AgentOrchestratorService } from './agent-orchestrator.service';
+import { OpenAiService } from '../../openai/openai.service';
+import { PropertyService } from '../../property/property.service';
+import { ConversationService } from '../../conversation/conversation.service';
+import { Agent, AgentInput, AgentOutput } from '../interfaces/agent.interface';
+
+const nearbyPlaces = [
+  {
+    results: [
+      {
+        name: 'Hospital Civil',
+        location: { lat: 20.6868, lng: -103.3456 },
+        types: ['hospital'],
+      },
+    ],
+  },
+];
+
+const filterQuery = { propertyType: 'house', 'features.bedrooms': 3 };
+
+const mapsQuery = {
+  'location.city': { $regex: 'Guadalajara', $options: 'i' },
+  _proximityFilter: {
+    coordinates: [{ lat: 20.6868, lng: -103.3456, name: 'Hospital Civil' }],
+    maxDistance: 20,
+    logicalOperator: 'OR',
+  },
+};
+
+function mockAgent(name: string, output: AgentOutput): Agent {
+  return {
+    name,
+    description: name,
+    requiredInputs: [],
+    canHandle: jest.fn().mockResolvedValue(true),
+    process: jest.fn().mockResolvedValue(output),
+  };
+}
+
+describe('AgentOrchestratorService', () => {
+  let processWithAgents: (
+    agents: Agent[],
+    input: AgentInput,
+  ) => Promise<AgentOutput>;
+
+  const filterAgent = () =>
+    mockAgent('FilterAgent', {
+      response: 'Encontré casas de 3 recámaras.',
+      data: { mongoQuery: { ...filterQuery } },
+    });
+  const mapsAgent = () =>
+    mockAgent('MapsAgent', {
+      response: 'Hay un hospital cerca.',
+      data: { nearbyPlaces, mongoQuery: { ...mapsQuery } },
+    });
+
+  beforeEach(() => {
+    const openAiService = {
+      processConversation: jest.fn().mockResolvedValue('Respuesta combinada'),
+    };
+    const service = new AgentOrchestratorService(
+      openAiService as unknown as OpenAiService,
+      {} as PropertyService,
+      {} as ConversationService,
+    );
+
+    // Access the private method using type assertion
+    const orchestrator = service as unknown as {
+      processWithAgents: typeof processWithAgents;
+    };
+    processWithAgents = (agents, input) =>
+      orchestrator.processWithAgents(agents, input);
+  });
+
+  it('restricts the FilterAgent query to the nearby places at the top level', async () => {
+    const result = await processWithAgents([filterAgent(), mapsAgent()], {
+      query: 'casa de 3 recámaras cerca de un hospital en Guadalajara',
+      conversationHistory: [],
+      additionalContext: { location: 'Guadalajara', amenities: ['hospital'] },
+    });
+
+    expect(result.data?.mongoQuery).toEqual({
+      ...filterQuery,
+      _proximityFilter: {
+        coordinates: [
+          {
+            lat: 20.6868,
+            lng: -103.3456,
+            name: 'Hospital Civil',
+            type: 'hospital',
+          },
+        ],
+        maxDistance: 20,
+        logicalOperator: 'OR',
+      },
+    });
+    expect(result.data?.nearbyPlaces).toBe(nearbyPlaces);
+  });
+
+  it('lifts the proximity filter out of merged queries', async () => {
+    const result = await processWithAgents([filterAgent(), mapsAgent()], {
+      query: 'casa de 3 recámaras cerca de un hospital',
+      conversationHistory: [],
+      additionalContext: {},
+    });
+
+    expect(result.data?.mongoQuery).toEqual({
+      $and: [filterQuery, { 'location.city': mapsQuery['location.city'] }],
+      _proximityFilter: mapsQuery._proximityFilter,
+    });
+  });
+});
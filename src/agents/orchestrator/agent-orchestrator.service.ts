@@ -10,6 +10,11 @@
  * - Enhanced mergeMongoQueries to handle empty queries and ensure valid MongoDB queries
  * - Updated to use utility functions from conversation-utils.ts for better context sharing
  * - Added ValidatorAgent to validate inputs before processing with other agents
+ * - Replaced in-memory cross-validation of properties with a _proximityFilter
+ *   added to the mongoQuery and resolved natively by PropertyService
+ * - Merged queries keep the _proximityFilter at the top level, where
+ *   PropertyService looks for it
+ * - The proximity filter uses the radius the MapsAgent searched places in
  */
 import { Injectable, Logger, Inject, forwardRef } from '@nestjs/common';
 import { OpenAiService } from '../../openai/openai.service';
@@ -19,6 +24,9 @@ import { ChatMessage } from '../interfaces/agent.interface';
 import { PropertyService } from '../../property/property.service';
 import { ConversationService } from '../../conversation/conversation.service';
 import { appendPreviousResultToConversationHistory } from '../utils/conversation-utils';
+import { buildProximityFilter } from '../utils/proximity-utils';
+import { ProximityFilter } from '../../property/interfaces/proximity-filter.interface';
+import { MapsResponse } from '../../maps/interfaces/maps.interfaces';
 
 interface AgentDecision {
   agents: string[];
@@ -386,7 +394,6 @@ export class AgentOrchestratorService {
 
     // Execute agents sequentially, passing results from one to the next
     let currentResult: AgentOutput | null = null;
-    let properties: any[] = [];
 
     // Special case for FilterAgent + MapsAgent
     if (
@@ -400,32 +407,10 @@ export class AgentOrchestratorService {
         'Using special case for FilterAgent + MapsAgent with location and amenities',
       );
 
-      // Process with FilterAgent first to get properties
+      // Process with FilterAgent first to get the base query
       const filterResult = await filterAgent.process(input);
 
-      // If we have a mongoQuery, execute it to get properties
-      if (filterResult.data?.mongoQuery) {
-        try {
-          const queryResult = await this.propertyService.executeQuery({
-            query: JSON.stringify(filterResult.data.mongoQuery),
-            options: filterResult.data.sort
-              ? { sort: filterResult.data.sort }
-              : undefined,
-          });
-
-          properties = queryResult.data;
-
-          // Add properties to the result data
-          filterResult.data.properties = properties;
-        } catch (error) {
-          this.logger.error(
-            `Error executing query: ${error.message}`,
-            error.stack,
-          );
-        }
-      }
-
-      // Process with MapsAgent to filter properties by proximity
+      // Process with MapsAgent to find the nearby places
       const mapsInput: AgentInput = {
         query: input.query,
         // Enhance conversation history with the previous agent result
@@ -433,14 +418,22 @@ export class AgentOrchestratorService {
           input.conversationHistory,
           filterResult,
         ),
-        additionalContext: {
-          ...input.additionalContext,
-          properties,
-        },
+        additionalContext: input.additionalContext,
       };
 
       const mapsResult = await mapsAgent.process(mapsInput);
 
+      // Restrict the FilterAgent query to properties near the places; the
+      // MapsAgent query only repeats that restriction, so it is dropped
+      if (filterResult.data?.mongoQuery && mapsResult.data?.nearbyPlaces) {
+        filterResult.data.mongoQuery = this.addProximityFilter(
+          filterResult.data.mongoQuery,
+          mapsResult.data.nearbyPlaces,
+          input.additionalContext?.logicalOperator || 'OR',
+        );
+        mapsResult.data = { ...mapsResult.data, mongoQuery: undefined };
+      }
+
       // Combine the results
       currentResult = await this.combineResults([filterResult, mapsResult]);
     } else {
@@ -596,13 +589,34 @@ export class AgentOrchestratorService {
       return nonEmptyQueries[0];
     }
 
+    // PropertyService only reads a top-level _proximityFilter, so lift it out
+    // of the queries before nesting them under $and
+    const proximityFilters: ProximityFilter[] = [];
+    const baseQueries = nonEmptyQueries
+      .map(({ _proximityFilter, ...query }) => {
+        if (_proximityFilter) {
+          proximityFilters.push(_proximityFilter as ProximityFilter);
+        }
+        return query;
+      })
+      .filter((query) => Object.keys(query).length > 0);
+
+    if (proximityFilters.length > 1) {
+      this.logger.warn(
+        `Only one proximity filter is supported, keeping the first of ${proximityFilters.length}`,
+      );
+    }
+
     // Merge multiple queries using $and operator
     this.logger.debug(
-      `Merging ${nonEmptyQueries.length} queries with $and operator`,
+      `Merging ${baseQueries.length} queries with $and operator`,
     );
-    return {
-      $and: nonEmptyQueries,
-    };
+    const mergedQuery =
+      baseQueries.length > 1 ? { $and: baseQueries } : baseQueries[0] || {};
+
+    return proximityFilters.length > 0
+      ? { ...mergedQuery, _proximityFilter: proximityFilters[0] }
+      : mergedQuery;
   }
 
   /**
@@ -696,46 +710,26 @@ export class AgentOrchestratorService {
 
         const filterResult = await filterAgent.process(filterInput);
 
-        // 4. If we have a mongoQuery, execute it to get properties
+        // 4. If we have a mongoQuery, restrict it to properties near the places
         if (filterResult.data?.mongoQuery) {
-          try {
-            const queryResult = await this.propertyService.executeQuery({
-              query: JSON.stringify(filterResult.data.mongoQuery),
-              options: filterResult.data.sort
-                ? { sort: filterResult.data.sort }
-                : undefined,
-            });
-
-            const properties = queryResult.data;
-
-            // 5. Cross-validate properties with nearby places
-            const validatedProperties = this.crossValidateResults(
-              properties,
-              mapsResult.data.nearbyPlaces,
-              agentDecision.extractedInputs.logicalOperator || 'OR',
-            );
-
-            // 6. Combine the results
-            return {
-              response: filterResult.response,
-              data: {
-                ...filterResult.data,
-                ...mapsResult.data,
-                properties: validatedProperties,
-                originalProperties: properties,
-                validatedCount: validatedProperties.length,
-                totalCount: properties.length,
-              },
-            };
-          } catch (error) {
-            this.logger.error(
-              `Error executing query: ${error.message}`,
-              error.stack,
-            );
-
-            // If there's an error, return the filter result
-            return filterResult;
-          }
+          const logicalOperator =
+            agentDecision.extractedInputs.logicalOperator || 'OR';
+          const mongoQuery = this.addProximityFilter(
+            filterResult.data.mongoQuery,
+            mapsResult.data.nearbyPlaces,
+            logicalOperator,
+          );
+
+          // 5. Combine the results; the proximity query is executed natively
+          // by PropertyService so counts and statistics stay accurate
+          return {
+            response: filterResult.response,
+            data: {
+              ...filterResult.data,
+              ...mapsResult.data,
+              mongoQuery,
+            },
+          };
         }
 
         // If there's no mongoQuery, return the filter result
@@ -760,128 +754,32 @@ export class AgentOrchestratorService {
   }
 
   /**
-   * Cross-validate properties with nearby places to find properties near amenities
-   * @param properties The properties to check
+   * Add a proximity filter over the nearby places to a MongoDB query
+   * @param mongoQuery The MongoDB query to restrict
    * @param nearbyPlacesResponses The nearby places responses from MapsAgent
    * @param logicalOperator The logical operator (AND or OR)
-   * @returns The properties that are near amenities
+   * @returns The MongoDB query with a _proximityFilter, or the original query
+   * if there are no place coordinates
    */
-  private crossValidateResults(
-    properties: any[],
-    nearbyPlacesResponses: any[],
-    logicalOperator: string = 'OR',
-  ): any[] {
-    // Extract all place coordinates from the results
-    const allPlaceCoordinates = nearbyPlacesResponses.flatMap((response) =>
-      response.results.map((place: any) => ({
-        lat: place.location.lat,
-        lng: place.location.lng,
-        name: place.name,
-        type: place.types[0] || 'place',
-      })),
-    );
-
-    // If we don't have any place coordinates, return all properties
-    if (allPlaceCoordinates.length === 0) {
-      this.logger.warn('No place coordinates found for cross-validation');
-      return properties;
-    }
-
-    this.logger.debug(
-      `Found ${allPlaceCoordinates.length} place coordinates for cross-validation`,
-    );
-
-    // Filter properties that have coordinates
-    const propertiesWithCoordinates = properties.filter(
-      (property) =>
-        property.location &&
-        property.location.coordinates &&
-        property.location.coordinates.lat &&
-        property.location.coordinates.lng,
+  private addProximityFilter(
+    mongoQuery: Record<string, any>,
+    nearbyPlacesResponses: MapsResponse[],
+    logicalOperator: 'AND' | 'OR' = 'OR',
+  ): Record<string, any> {
+    const proximityFilter = buildProximityFilter(
+      nearbyPlacesResponses,
+      logicalOperator,
     );
 
-    if (propertiesWithCoordinates.length === 0) {
-      this.logger.warn(
-        'No properties with coordinates found for cross-validation',
-      );
-      return properties;
+    if (!proximityFilter) {
+      this.logger.warn('No place coordinates found for proximity filtering');
+      return mongoQuery;
     }
 
     this.logger.debug(
-      `Found ${propertiesWithCoordinates.length} properties with coordinates`,
+      `Found ${proximityFilter.coordinates.length} place coordinates for proximity filtering`,
     );
 
-    // Filter properties by distance
-    return propertiesWithCoordinates.filter((property) => {
-      // Calculate distance to each coordinate
-      const distances = allPlaceCoordinates.map((coord) => ({
-        distance: this.calculateDistance(
-          property.location.coordinates.lat,
-          property.location.coordinates.lng,
-          coord.lat,
-          coord.lng,
-        ),
-        name: coord.name,
-        type: coord.type,
-      }));
-
-      // Apply logical operator
-      if (logicalOperator === 'AND') {
-        // For AND, we need at least one place of each type within 10km
-        // Group distances by type
-        const typeGroups: Record<string, any[]> = {};
-        distances.forEach((d) => {
-          if (!typeGroups[d.type]) {
-            typeGroups[d.type] = [];
-          }
-          typeGroups[d.type].push(d);
-        });
-
-        // Check if each type has at least one place within 10km
-        return Object.values(typeGroups).every((group) =>
-          group.some((d) => d.distance <= 10),
-        );
-      } else {
-        // For OR, we need at least one place of any type within 10km
-        return distances.some((d) => d.distance <= 10);
-      }
-    });
-  }
-
-  /**
-   * Calculate distance between two coordinates using the Haversine formula
-   * @param lat1 Latitude of first point
-   * @param lng1 Longitude of first point
-   * @param lat2 Latitude of second point
-   * @param lng2 Longitude of second point
-   * @returns Distance in kilometers
-   */
-  private calculateDistance(
-    lat1: number,
-    lng1: number,
-    lat2: number,
-    lng2: number,
-  ): number {
-    const R = 6371; // Radius of the earth in km
-    const dLat = this.deg2rad(lat2 - lat1);
-    const dLng = this.deg2rad(lng2 - lng1);
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(this.deg2rad(lat1)) *
-        Math.cos(this.deg2rad(lat2)) *
-        Math.sin(dLng / 2) *
-        Math.sin(dLng / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    const distance = R * c; // Distance in km
-    return distance;
-  }
-
-  /**
-   * Convert degrees to radians
-   * @param deg Degrees
-   * @returns Radians
-   */
-  private deg2rad(deg: number): number {
-    return deg * (Math.PI / 180);
+    return { ...mongoQuery, _proximityFilter: proximityFilter };
   }
 }
@@ -0,0 +1,56 @@
+/**
+ * Proximity Utilities
+ *
+ * Changes:
+ * - Created utility to turn MapsAgent nearby places into a _proximityFilter
+ *   that PropertyService.executeQuery resolves with native geospatial queries
+ * - Typed the nearby places responses and shared the search radius used by
+ *   the MapsAgent place search and the proximity filter
+ */
+import {
+  ProximityCoordinate,
+  ProximityFilter,
+} from '../../property/interfaces/proximity-filter.interface';
+import { MapsResponse } from '../../maps/interfaces/maps.interfaces';
+
+/**
+ * Radius in kilometers around the searched location in which nearby places
+ * are looked up, and around each place in which properties are matched
+ */
+export const PLACE_SEARCH_RADIUS_KM = 20;
+
+/**
+ * Build a proximity filter from the nearby places found by the MapsAgent
+ * @param nearbyPlacesResponses Array of nearby places responses
+ * @param logicalOperator 'AND' or 'OR' operator for combining proximity conditions
+ * @param maxDistance Maximum distance in kilometers
+ * @returns The proximity filter, or null if there are no place coordinates
+ */
+export function buildProximityFilter(
+  nearbyPlacesResponses: MapsResponse[],
+  logicalOperator: 'AND' | 'OR' = 'OR',
+  maxDistance: number = PLACE_SEARCH_RADIUS_KM,
+): ProximityFilter | null {
+  // Extract all place coordinates from the results
+  const coordinates = (nearbyPlacesResponses || []).flatMap((response) =>
+    (response?.results || []).flatMap((place): ProximityCoordinate[] => {
+      const { lat, lng } = place.location || {};
+      if (lat == null || lng == null) {
+        return [];
+      }
+      return [
+        { lat, lng, name: place.name, type: place.types?.[0] || 'place' },
+      ];
+    }),
+  );
+
+  if (coordinates.length === 0) {
+    return null;
+  }
+
+  return {
+    coordinates,
+    maxDistance,
+    logicalOperator,
+  };
+}
@@ -5,6 +5,14 @@
  * - Added MapsModule to the imports array
  * - Added GOOGLE_MAPS_API_KEY to the validation schema (optional)
  * - Added AgentsModule to the imports array
+ * - Added SYNC_WITHDRAWAL_GRACE_HOURS to the validation schema (default: 72)
+ * - Added DuplicatesModule to the imports array
+ * - Added DELETED_PROPERTY_RETENTION_DAYS to the validation schema (default: 30)
+ * - Added the webhook dispatcher settings to the validation schema
+ * - Added SavedSearchesModule and SAVED_SEARCH_MATCH_INTERVAL_MS (default: 15 minutes)
+ * - Added LocationsModule and LOCATION_LOOKUP_REFRESH_INTERVAL_MS (default: 1 hour)
+ * - Added the media storage settings MEDIA_STORAGE_DIR and MEDIA_PUBLIC_URL
+ * - Added DEFAULT_USD_MXN_RATE, the dollar rate seeded into an empty exchange-rate table (default: 18)
  */
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
@@ -19,6 +27,9 @@ import { OpenAiModule } from './openai/openai.module';
 import { ConversationModule } from './conversation/conversation.module';
 import { MapsModule } from './maps/maps.module';
 import { AgentsModule } from './agents/agents.module';
+import { DuplicatesModule } from './duplicates/duplicates.module';
+import { SavedSearchesModule } from './saved-searches/saved-searches.module';
+import { LocationsModule } from './locations/locations.module';
 
 @Module({
   imports: [
@@ -32,6 +43,17 @@ import { AgentsModule } from './agents/agents.module';
           .default('development'),
         OPENAI_API_KEY: Joi.string().required(),
         GOOGLE_MAPS_API_KEY: Joi.string().optional(),
+        SYNC_WITHDRAWAL_GRACE_HOURS: Joi.number().min(0).default(72),
+        DELETED_PROPERTY_RETENTION_DAYS: Joi.number().min(0).default(30),
+        WEBHOOK_DISPATCH_INTERVAL_MS: Joi.number().min(0).default(15000),
+        WEBHOOK_TIMEOUT_MS: Joi.number().min(1).default(10000),
+        SAVED_SEARCH_MATCH_INTERVAL_MS: Joi.number().min(0).default(900000),
+        LOCATION_LOOKUP_REFRESH_INTERVAL_MS: Joi.number()
+          .min(0)
+          .default(3600000),
+        MEDIA_STORAGE_DIR: Joi.string().default('uploads/media'),
+        MEDIA_PUBLIC_URL: Joi.string().allow('').default(''),
+        DEFAULT_USD_MXN_RATE: Joi.number().positive().default(18),
       }),
     }),
     DatabaseModule,
@@ -41,6 +63,9 @@ import { AgentsModule } from './agents/agents.module';
     ConversationModule,
     MapsModule,
     AgentsModule,
+    DuplicatesModule,
+    SavedSearchesModule,
+    LocationsModule,
   ],
   controllers: [AppController],
   providers: [AppService],
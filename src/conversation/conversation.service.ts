@@ -5,6 +5,7 @@
  * - Updated prepareMessagesForAI to prioritize property-specific context
  * - Added support for currentPropertyId to maintain context between filtering and property-specific queries
  * - Improved message handling to ensure property details are always included when needed
+ * - Added appendMessages to record an exchange answered without the AI
  */
 import { Injectable } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
@@ -231,6 +232,29 @@ Respond in Spanish and keep track of all property requirements mentioned so far.
     return messages;
   }
 
+  /**
+   * Record messages without asking the AI for a response
+   * @param sessionId The session ID
+   * @param messages The messages to append, in order
+   */
+  async appendMessages(
+    sessionId: string,
+    messages: Pick<Message, 'role' | 'content'>[],
+  ): Promise<void> {
+    const timestamp = new Date();
+    await this.conversationModel.updateOne(
+      { sessionId, isActive: true },
+      {
+        $push: {
+          messages: {
+            $each: messages.map((message) => ({ ...message, timestamp })),
+          },
+        },
+        $set: { lastUpdated: timestamp },
+      },
+    );
+  }
+
   async deactivateSession(sessionId: string): Promise<void> {
     await this.conversationModel.updateOne({ sessionId }, { isActive: false });
   }
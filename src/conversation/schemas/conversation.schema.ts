@@ -89,6 +89,10 @@ export class Conversation {
   @Prop({ type: String })
   currentPropertyId?: string;
 
+  // Properties discussed most recently, newest last; "¿cuál es mejor?" compares them
+  @Prop({ type: [String], default: [] })
+  recentPropertyIds: string[];
+
   @Prop({ type: Date, default: Date.now })
   lastUpdated: Date;
 
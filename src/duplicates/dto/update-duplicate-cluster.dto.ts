@@ -0,0 +1,17 @@
+import { IsArray, IsIn, IsMongoId, IsOptional } from 'class-validator';
+import { DuplicateClusterStatus } from '../schemas/duplicate-cluster.schema';
+
+export class UpdateDuplicateClusterDto {
+  @IsIn(['confirmed', 'rejected'])
+  @IsOptional()
+  status?: Exclude<DuplicateClusterStatus, 'auto'>;
+
+  @IsMongoId()
+  @IsOptional()
+  canonicalId?: string;
+
+  @IsArray()
+  @IsMongoId({ each: true })
+  @IsOptional()
+  removeMemberIds?: string[];
+}
@@ -0,0 +1,73 @@
+/**
+ * Duplicates Controller
+ *
+ * Changes:
+ * - Created the admin endpoints to run duplicate detection and to review,
+ *   confirm, reject or edit the resulting clusters
+ */
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { DuplicatesService } from './duplicates.service';
+import { UpdateDuplicateClusterDto } from './dto/update-duplicate-cluster.dto';
+import { DuplicateClusterStatus } from './schemas/duplicate-cluster.schema';
+import {
+  DuplicateClusterView,
+  DuplicateDetectionSummary,
+} from './interfaces/duplicate-cluster-view.interface';
+import { PageInfo } from '../property/utils/cursor-pagination';
+
+const CLUSTER_STATUSES: DuplicateClusterStatus[] = [
+  'auto',
+  'confirmed',
+  'rejected',
+];
+
+@Controller('admin/duplicates')
+export class DuplicatesController {
+  constructor(private readonly duplicatesService: DuplicatesService) {}
+
+  @Get()
+  async findAll(
+    @Query('status') status?: DuplicateClusterStatus,
+    @Query('limit') limit?: string,
+    @Query('cursor') cursor?: string,
+  ): Promise<{ clusters: DuplicateClusterView[]; pagination: PageInfo }> {
+    if (status && !CLUSTER_STATUSES.includes(status)) {
+      throw new BadRequestException(
+        `status must be one of: ${CLUSTER_STATUSES.join(', ')}`,
+      );
+    }
+    return this.duplicatesService.findClusters(status, { limit, cursor });
+  }
+
+  @Post('detect')
+  @HttpCode(200)
+  async detect(): Promise<DuplicateDetectionSummary> {
+    return this.duplicatesService.detectDuplicates();
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string): Promise<DuplicateClusterView> {
+    return this.duplicatesService.findCluster(id);
+  }
+
+  @Patch(':id')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateDuplicateClusterDto,
+  ): Promise<DuplicateClusterView> {
+    return this.duplicatesService.updateCluster(id, updateDto);
+  }
+}
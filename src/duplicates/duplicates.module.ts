@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { DuplicatesController } from './duplicates.controller';
+import { DuplicatesService } from './duplicates.service';
+import { Property, PropertySchema } from '../property/schemas/property.schema';
+import {
+  DuplicateCluster,
+  DuplicateClusterSchema,
+} from './schemas/duplicate-cluster.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Property.name, schema: PropertySchema },
+      { name: DuplicateCluster.name, schema: DuplicateClusterSchema },
+    ]),
+  ],
+  controllers: [DuplicatesController],
+  providers: [DuplicatesService],
+  exports: [DuplicatesService],
+})
+export class DuplicatesModule {}
@@ -0,0 +1,86 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { DuplicatesService } from './duplicates.service';
+import { Property } from '../property/schemas/property.schema';
+import { DuplicateCluster } from './schemas/duplicate-cluster.schema';
+
+// Chainable stand-in for a mongoose query resolving to the given result
+function mockQuery<T>(result: T) {
+  const query = {
+    lean: () => query,
+    exec: jest.fn().mockResolvedValue(result),
+  };
+  return query;
+}
+
+describe('DuplicatesService', () => {
+  let service: DuplicatesService;
+
+  const [canonicalId, alternateId, removedId] = [1, 2, 3].map(
+    () => new Types.ObjectId(),
+  );
+  const cluster = {
+    _id: new Types.ObjectId(),
+    canonicalId,
+    memberIds: [canonicalId, alternateId, removedId],
+    status: 'auto',
+    matches: [],
+  };
+
+  const mockPropertyModel = {
+    find: jest.fn(() => mockQuery([])),
+    updateMany: jest.fn(() => mockQuery({ modifiedCount: 1 })),
+  };
+
+  const mockDuplicateClusterModel = {
+    findById: jest.fn(() => mockQuery(cluster)),
+    findByIdAndUpdate: jest.fn(() =>
+      mockQuery({ ...cluster, status: 'confirmed' }),
+    ),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DuplicatesService,
+        { provide: getModelToken(Property.name), useValue: mockPropertyModel },
+        {
+          provide: getModelToken(DuplicateCluster.name),
+          useValue: mockDuplicateClusterModel,
+        },
+      ],
+    }).compile();
+
+    service = module.get<DuplicatesService>(DuplicatesService);
+  });
+
+  describe('updateCluster', () => {
+    it('links and unlinks the listings without bumping their updatedAt', async () => {
+      await service.updateCluster(String(cluster._id), {
+        status: 'confirmed',
+        removeMemberIds: [String(removedId)],
+      });
+
+      expect(mockPropertyModel.updateMany).toHaveBeenCalledTimes(2);
+      for (const [, update, options] of mockPropertyModel.updateMany.mock
+        .calls as unknown as [unknown, { $set: object }, object][]) {
+        expect(update.$set).not.toHaveProperty('updatedAt');
+        expect(options).toEqual({ timestamps: false });
+      }
+    });
+
+    it('unlinks every listing of a rejected cluster without bumping their updatedAt', async () => {
+      await service.updateCluster(String(cluster._id), { status: 'rejected' });
+
+      expect(mockPropertyModel.updateMany).toHaveBeenCalledTimes(1);
+      expect(mockPropertyModel.updateMany).toHaveBeenCalledWith(
+        expect.anything(),
+        { $set: { duplicateOf: null } },
+        { timestamps: false },
+      );
+    });
+  });
+});
@@ -0,0 +1,464 @@
+/**
+ * Duplicates Service
+ *
+ * Changes:
+ * - Created the duplicate detection pass: listings are paired by coordinate
+ *   proximity, price tolerance, matching features and title similarity, the
+ *   pairs are clustered, and the alternates of each cluster are linked to a
+ *   canonical listing through Property.duplicateOf
+ * - Added the admin review of the clusters: confirm, reject, change the
+ *   canonical listing or remove members
+ * - Linking and unlinking duplicates no longer bumps updatedAt, which would
+ *   report every clustered listing as changed to the saved searches
+ * - Candidates are paired on priceMXN rather than their listed price
+ * - Reviewing a cluster links and unlinks its listings without touching
+ *   their updatedAt either
+ */
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  Property,
+  PropertyDocument,
+} from '../property/schemas/property.schema';
+import {
+  DuplicateCluster,
+  DuplicateClusterDocument,
+  DuplicateClusterStatus,
+} from './schemas/duplicate-cluster.schema';
+import { UpdateDuplicateClusterDto } from './dto/update-duplicate-cluster.dto';
+import {
+  DuplicateClusterView,
+  DuplicateDetectionSummary,
+  DuplicateMemberSummary,
+} from './interfaces/duplicate-cluster-view.interface';
+import {
+  DUPLICATE_MAX_DISTANCE_METERS,
+  DUPLICATE_PRICE_TOLERANCE,
+  DuplicateCandidate,
+  DuplicatePairScore,
+  clusterPairs,
+  pickCanonical,
+  scoreDuplicatePair,
+} from './utils/duplicate-scoring';
+import {
+  PageInfo,
+  PaginationOptions,
+  buildPage,
+  resolvePage,
+} from '../property/utils/cursor-pagination';
+
+interface Candidate extends DuplicateCandidate {
+  _id: Types.ObjectId;
+  operationType: string;
+  propertyType: string;
+  location: { point?: { type: 'Point'; coordinates: [number, number] } };
+}
+
+type ClusterRecord = DuplicateCluster & { _id: Types.ObjectId };
+
+interface ClusterMembers {
+  _id: Types.ObjectId;
+  canonicalId: Types.ObjectId;
+  memberIds: Types.ObjectId[];
+}
+
+const CANDIDATE_PROJECTION = {
+  title: 1,
+  description: 1,
+  price: 1,
+  priceMXN: 1,
+  images: 1,
+  features: 1,
+  operationType: 1,
+  propertyType: 1,
+  'location.point': 1,
+  createdAt: 1,
+};
+
+const MEMBER_PROJECTION = {
+  title: 1,
+  price: 1,
+  operationType: 1,
+  'location.city': 1,
+  'location.address': 1,
+  'agent.name': 1,
+  'agent.company': 1,
+  source: 1,
+  images: { $slice: 1 },
+};
+
+@Injectable()
+export class DuplicatesService {
+  private readonly logger = new Logger(DuplicatesService.name);
+
+  constructor(
+    @InjectModel(Property.name) private propertyModel: Model<PropertyDocument>,
+    @InjectModel(DuplicateCluster.name)
+    private duplicateClusterModel: Model<DuplicateClusterDocument>,
+  ) {}
+
+  /**
+   * Cluster likely duplicate listings and link the alternates to a canonical listing
+   * Confirmed clusters are kept as-is, members of rejected clusters are not paired
+   * again, and the clusters of the previous pass are replaced
+   * @returns Detection summary
+   */
+  async detectDuplicates(): Promise<DuplicateDetectionSummary> {
+    const startTime = Date.now();
+
+    const [confirmed, rejected] = await Promise.all([
+      this.findClusterMembers('confirmed'),
+      this.findClusterMembers('rejected'),
+    ]);
+    const lockedIds = confirmed.flatMap((cluster) => cluster.memberIds);
+    const rejectedPairs = new Set(
+      rejected.flatMap((cluster) => this.getPairKeys(cluster.memberIds)),
+    );
+
+    const baseQuery = {
+      _id: { $nin: lockedIds },
+      status: { $ne: 'withdrawn' },
+      deletedAt: null,
+      priceMXN: { $gt: 0 },
+      'location.point': { $exists: true },
+    };
+
+    const candidates = new Map<string, Candidate>();
+    const pairs: [string, string][] = [];
+    const bestMatches = new Map<string, DuplicatePairScore>();
+    let scanned = 0;
+
+    const cursor = this.propertyModel
+      .find(baseQuery, CANDIDATE_PROJECTION)
+      .lean<Candidate>()
+      .cursor();
+
+    for await (const listing of cursor) {
+      scanned++;
+      if (!listing.location.point) {
+        continue;
+      }
+
+      // Only look ahead (_id greater) so each pair is scored once
+      const neighbours = await this.propertyModel
+        .aggregate<Candidate & { distance: number }>([
+          {
+            $geoNear: {
+              near: listing.location.point,
+              distanceField: 'distance',
+              maxDistance: DUPLICATE_MAX_DISTANCE_METERS,
+              spherical: true,
+              key: 'location.point',
+              query: {
+                ...baseQuery,
+                _id: { $gt: listing._id, $nin: lockedIds },
+                operationType: listing.operationType,
+                propertyType: listing.propertyType,
+                // Compare in MXN so listings in other currencies can match
+                priceMXN: {
+                  $gte: listing.priceMXN! * (1 - DUPLICATE_PRICE_TOLERANCE),
+                  $lte: listing.priceMXN! * (1 + DUPLICATE_PRICE_TOLERANCE),
+                },
+              },
+            },
+          },
+          { $project: { ...CANDIDATE_PROJECTION, distance: 1 } },
+        ])
+        .exec();
+
+      for (const neighbour of neighbours) {
+        const [idA, idB] = [String(listing._id), String(neighbour._id)];
+        if (rejectedPairs.has(this.getPairKey(idA, idB))) {
+          continue;
+        }
+
+        const match = scoreDuplicatePair(
+          listing,
+          neighbour,
+          neighbour.distance,
+        );
+        if (!match) {
+          continue;
+        }
+
+        pairs.push([idA, idB]);
+        candidates.set(idA, listing);
+        candidates.set(idB, neighbour);
+        for (const id of [idA, idB]) {
+          if ((bestMatches.get(id)?.score ?? 0) < match.score) {
+            bestMatches.set(id, match);
+          }
+        }
+      }
+    }
+
+    const clusters = clusterPairs(pairs).map((ids) => {
+      const members = ids.map((id) => candidates.get(id) as Candidate);
+      const canonical = pickCanonical(members);
+      return {
+        canonicalId: canonical._id,
+        memberIds: members.map((member) => member._id),
+        matches: members
+          .filter((member) => member !== canonical)
+          .map((member) => ({
+            propertyId: member._id,
+            ...(bestMatches.get(String(member._id)) as DuplicatePairScore),
+          })),
+        status: 'auto' as const,
+      };
+    });
+
+    // Replace the clusters of the previous pass and relink the alternates
+    await this.duplicateClusterModel.deleteMany({ status: 'auto' }).exec();
+    if (clusters.length > 0) {
+      await this.duplicateClusterModel.insertMany(clusters);
+    }
+
+    const linked = await this.relinkDuplicates([...clusters, ...confirmed]);
+
+    const duration = Date.now() - startTime;
+    const summary = {
+      scanned,
+      clusters: clusters.length,
+      linked,
+      duration: `${duration}ms`,
+      timestamp: new Date(),
+    };
+
+    this.logger.log('Duplicate detection completed', summary);
+    return summary;
+  }
+
+  /**
+   * List duplicate clusters for review, newest first
+   * @param status Optional cluster status to filter by
+   * @param options Page size and cursor
+   * @returns The clusters with a summary of their listings, and the page info
+   */
+  async findClusters(
+    status?: DuplicateClusterStatus,
+    options: PaginationOptions = {},
+  ): Promise<{ clusters: DuplicateClusterView[]; pagination: PageInfo }> {
+    const query = status ? { status } : {};
+    const page = resolvePage(undefined, { createdAt: -1 }, options);
+
+    const docs = await this.duplicateClusterModel
+      .find(
+        Object.keys(page.filter).length > 0
+          ? { $and: [query, page.filter] }
+          : query,
+      )
+      .sort(page.sort)
+      .limit(page.limit + 1)
+      .lean<ClusterRecord[]>()
+      .exec();
+
+    const { data, pagination } = buildPage(docs, page);
+    return { clusters: await this.toViews(data), pagination };
+  }
+
+  async findCluster(id: string): Promise<DuplicateClusterView> {
+    const cluster = await this.getCluster(id);
+    const [view] = await this.toViews([cluster]);
+    return view;
+  }
+
+  /**
+   * Apply an admin review to a cluster
+   * Any change confirms the cluster unless it is rejected, so later passes keep it;
+   * a cluster left with a single listing is rejected
+   * @param id The cluster ID
+   * @param updateDto The review
+   * @returns The updated cluster
+   */
+  async updateCluster(
+    id: string,
+    updateDto: UpdateDuplicateClusterDto,
+  ): Promise<DuplicateClusterView> {
+    const cluster = await this.getCluster(id);
+    const memberIds = cluster.memberIds.map(String);
+
+    const removedIds = (updateDto.removeMemberIds || []).filter((memberId) =>
+      memberIds.includes(memberId),
+    );
+    const remainingIds = memberIds.filter(
+      (memberId) => !removedIds.includes(memberId),
+    );
+    const canonicalId = updateDto.canonicalId || String(cluster.canonicalId);
+
+    if (!remainingIds.includes(canonicalId)) {
+      throw new BadRequestException(
+        'canonicalId must be one of the remaining listings of the cluster',
+      );
+    }
+
+    const status: DuplicateClusterStatus =
+      updateDto.status === 'rejected' || remainingIds.length < 2
+        ? 'rejected'
+        : 'confirmed';
+
+    // A rejected cluster keeps all its listings, so they are not paired again
+    const update =
+      status === 'rejected'
+        ? { status }
+        : {
+            status,
+            canonicalId: new Types.ObjectId(canonicalId),
+            memberIds: remainingIds.map(
+              (memberId) => new Types.ObjectId(memberId),
+            ),
+            matches: cluster.matches.filter(
+              (match) =>
+                remainingIds.includes(String(match.propertyId)) &&
+                String(match.propertyId) !== canonicalId,
+            ),
+          };
+
+    const updated = (await this.duplicateClusterModel
+      .findByIdAndUpdate(
+        cluster._id,
+        { $set: { ...update, reviewedAt: new Date() } },
+        { new: true },
+      )
+      .lean<ClusterRecord>()
+      .exec()) as ClusterRecord;
+
+    // Unlink everything the cluster no longer covers, then link the alternates
+    const unlinkIds = status === 'rejected' ? memberIds : removedIds;
+    await this.propertyModel
+      .updateMany(
+        { _id: { $in: [...unlinkIds, canonicalId] } },
+        { $set: { duplicateOf: null } },
+        { timestamps: false },
+      )
+      .exec();
+    if (status === 'confirmed') {
+      await this.propertyModel
+        .updateMany(
+          {
+            _id: {
+              $in: remainingIds.filter((memberId) => memberId !== canonicalId),
+            },
+          },
+          { $set: { duplicateOf: new Types.ObjectId(canonicalId) } },
+          { timestamps: false },
+        )
+        .exec();
+    }
+
+    this.logger.log(`Duplicate cluster ${id} reviewed: ${status}`);
+    const [view] = await this.toViews([updated]);
+    return view;
+  }
+
+  /**
+   * Link the alternates of the given clusters to their canonical listing and
+   * unlink every other listing
+   * @param clusters The clusters to apply
+   * @returns Number of linked alternates
+   */
+  private async relinkDuplicates(
+    clusters: Pick<ClusterMembers, 'canonicalId' | 'memberIds'>[],
+  ): Promise<number> {
+    const links = clusters.flatMap((cluster) =>
+      cluster.memberIds
+        .filter((memberId) => !memberId.equals(cluster.canonicalId))
+        .map((memberId) => ({ memberId, canonicalId: cluster.canonicalId })),
+    );
+
+    await this.propertyModel
+      .updateMany(
+        {
+          duplicateOf: { $ne: null },
+          _id: { $nin: links.map((link) => link.memberId) },
+        },
+        { $set: { duplicateOf: null } },
+        { timestamps: false },
+      )
+      .exec();
+
+    if (links.length > 0) {
+      await this.propertyModel.bulkWrite(
+        links.map((link) => ({
+          updateOne: {
+            filter: { _id: link.memberId },
+            update: { $set: { duplicateOf: link.canonicalId } },
+            // Linking a duplicate does not change the listing itself
+            timestamps: false,
+          },
+        })),
+      );
+    }
+
+    return links.length;
+  }
+
+  private async findClusterMembers(
+    status: DuplicateClusterStatus,
+  ): Promise<ClusterMembers[]> {
+    return this.duplicateClusterModel
+      .find({ status }, { canonicalId: 1, memberIds: 1 })
+      .lean<ClusterMembers[]>()
+      .exec();
+  }
+
+  private async getCluster(id: string): Promise<ClusterRecord> {
+    const cluster = Types.ObjectId.isValid(id)
+      ? await this.duplicateClusterModel
+          .findById(id)
+          .lean<ClusterRecord>()
+          .exec()
+      : null;
+
+    if (!cluster) {
+      throw new NotFoundException(`Duplicate cluster with ID ${id} not found`);
+    }
+    return cluster;
+  }
+
+  private async toViews(
+    clusters: ClusterRecord[],
+  ): Promise<DuplicateClusterView[]> {
+    const members = await this.propertyModel
+      .find(
+        { _id: { $in: clusters.flatMap((cluster) => cluster.memberIds) } },
+        MEMBER_PROJECTION,
+      )
+      .lean<Omit<DuplicateMemberSummary, 'isCanonical'>[]>()
+      .exec();
+    const membersById = new Map(
+      members.map((member) => [String(member._id), member]),
+    );
+
+    return clusters.map((cluster) => ({
+      _id: cluster._id,
+      canonicalId: cluster.canonicalId,
+      status: cluster.status,
+      matches: cluster.matches,
+      reviewedAt: cluster.reviewedAt,
+      members: cluster.memberIds
+        .map((memberId) => membersById.get(String(memberId)))
+        .filter((member) => member !== undefined)
+        .map((member) => ({
+          ...member,
+          isCanonical: member._id.equals(cluster.canonicalId),
+        })),
+    }));
+  }
+
+  private getPairKeys(ids: Types.ObjectId[]): string[] {
+    return ids.flatMap((a, index) =>
+      ids.slice(index + 1).map((b) => this.getPairKey(String(a), String(b))),
+    );
+  }
+
+  private getPairKey(a: string, b: string): string {
+    return a < b ? `${a}:${b}` : `${b}:${a}`;
+  }
+}
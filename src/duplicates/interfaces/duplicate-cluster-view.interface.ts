@@ -0,0 +1,34 @@
+import { Types } from 'mongoose';
+import {
+  DuplicateClusterStatus,
+  DuplicateMatch,
+} from '../schemas/duplicate-cluster.schema';
+
+export interface DuplicateMemberSummary {
+  _id: Types.ObjectId;
+  title: string;
+  price: number;
+  operationType: string;
+  location: { city: string; address: string };
+  agent: { name: string; company: string };
+  source?: string;
+  images: string[];
+  isCanonical: boolean;
+}
+
+export interface DuplicateClusterView {
+  _id: Types.ObjectId;
+  canonicalId: Types.ObjectId;
+  status: DuplicateClusterStatus;
+  matches: DuplicateMatch[];
+  reviewedAt: Date | null;
+  members: DuplicateMemberSummary[];
+}
+
+export interface DuplicateDetectionSummary {
+  scanned: number;
+  clusters: number;
+  linked: number;
+  duration: string;
+  timestamp: Date;
+}
@@ -0,0 +1,64 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema, Types } from 'mongoose';
+
+export type DuplicateClusterDocument = DuplicateCluster & Document;
+
+/**
+ * - auto: found by the detection pass, replaced on the next pass
+ * - confirmed: accepted by an admin, kept as-is by later passes
+ * - rejected: not duplicates; later passes do not link its members again
+ */
+export type DuplicateClusterStatus = 'auto' | 'confirmed' | 'rejected';
+
+@Schema({ _id: false })
+export class DuplicateMatch {
+  @Prop({ required: true, type: MongooseSchema.Types.ObjectId })
+  propertyId: Types.ObjectId;
+
+  @Prop({ required: true, type: Number })
+  score: number;
+
+  @Prop({ type: [String], default: [] })
+  reasons: string[];
+}
+
+const DuplicateMatchSchema = SchemaFactory.createForClass(DuplicateMatch);
+
+@Schema({ timestamps: true })
+export class DuplicateCluster {
+  @Prop({
+    required: true,
+    type: MongooseSchema.Types.ObjectId,
+    ref: 'Property',
+  })
+  canonicalId: Types.ObjectId;
+
+  // All the listings of the cluster, canonical included
+  @Prop({
+    required: true,
+    type: [MongooseSchema.Types.ObjectId],
+    ref: 'Property',
+  })
+  memberIds: Types.ObjectId[];
+
+  // Why each alternate was matched to the canonical listing
+  @Prop({ type: [DuplicateMatchSchema], default: [] })
+  matches: DuplicateMatch[];
+
+  @Prop({
+    required: true,
+    type: String,
+    enum: ['auto', 'confirmed', 'rejected'],
+    default: 'auto',
+  })
+  status: DuplicateClusterStatus;
+
+  @Prop({ type: Date, default: null })
+  reviewedAt: Date | null;
+}
+
+export const DuplicateClusterSchema =
+  SchemaFactory.createForClass(DuplicateCluster);
+
+DuplicateClusterSchema.index({ status: 1 });
+DuplicateClusterSchema.index({ memberIds: 1 });
@@ -0,0 +1,97 @@
+import {
+  DuplicateCandidate,
+  clusterPairs,
+  pickCanonical,
+  scoreDuplicatePair,
+  titleSimilarity,
+} from './duplicate-scoring';
+
+describe('duplicate scoring', () => {
+  const listing = (
+    id: string,
+    overrides: Partial<DuplicateCandidate> = {},
+  ): DuplicateCandidate => ({
+    _id: id,
+    title: 'Casa en venta en Providencia con jardín',
+    price: 4500000,
+    features: { bedrooms: 3, bathrooms: 2, constructionSize: 220 },
+    ...overrides,
+  });
+
+  it('scores the same listing from two sources as a duplicate', () => {
+    const match = scoreDuplicatePair(
+      listing('a'),
+      listing('b', {
+        title: 'CASA PROVIDENCIA CON JARDIN',
+        price: 4450000,
+        features: { bedrooms: 3, bathrooms: 2, constructionSize: 215 },
+      }),
+      20,
+    );
+
+    expect(match).not.toBeNull();
+    expect(match?.score).toBeGreaterThan(0.8);
+    expect(match?.reasons).toContain('20m apart');
+    expect(match?.reasons).toContain(
+      'same bedrooms, bathrooms, constructionSize',
+    );
+  });
+
+  it('rejects pairs that are too far apart or outside the price tolerance', () => {
+    expect(scoreDuplicatePair(listing('a'), listing('b'), 400)).toBeNull();
+    expect(
+      scoreDuplicatePair(listing('a'), listing('b', { price: 5200000 }), 10),
+    ).toBeNull();
+  });
+
+  it('applies the price tolerance to the MXN prices', () => {
+    const match = scoreDuplicatePair(
+      listing('a', { priceMXN: 4500000 }),
+      listing('b', { price: 250000, priceMXN: 4480000 }),
+      10,
+    );
+
+    expect(match).not.toBeNull();
+  });
+
+  it('rejects units of the same building with different rooms', () => {
+    const match = scoreDuplicatePair(
+      listing('a'),
+      listing('b', { features: { bedrooms: 2, bathrooms: 2 } }),
+      0,
+    );
+
+    expect(match).toBeNull();
+  });
+
+  it('compares titles ignoring accents, case and filler words', () => {
+    expect(
+      titleSimilarity('Departamento en Zapopan', 'DEPARTAMENTO ZAPOPÁN'),
+    ).toBe(1);
+    expect(titleSimilarity('Casa en Tlaquepaque', 'Terreno Tonalá')).toBe(0);
+    expect(titleSimilarity('', 'Casa')).toBe(0);
+  });
+
+  it('groups chained pairs into one cluster', () => {
+    const clusters = clusterPairs([
+      ['a', 'b'],
+      ['c', 'd'],
+      ['b', 'e'],
+    ]);
+
+    expect(clusters.map((ids) => ids.sort())).toEqual([
+      ['a', 'b', 'e'],
+      ['c', 'd'],
+    ]);
+  });
+
+  it('picks the most complete listing as canonical, then the oldest', () => {
+    const sparse = listing('a', { images: [] });
+    const complete = listing('b', { images: ['1.jpg', '2.jpg'] });
+    expect(pickCanonical([sparse, complete])).toBe(complete);
+
+    const older = listing('c', { createdAt: new Date('2024-01-01') });
+    const newer = listing('d', { createdAt: new Date('2024-06-01') });
+    expect(pickCanonical([newer, older])).toBe(older);
+  });
+});
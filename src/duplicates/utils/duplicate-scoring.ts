@@ -0,0 +1,264 @@
+/**
+ * Duplicate Scoring Utilities
+ *
+ * Changes:
+ * - Created the pair scoring used to detect duplicate listings: coordinate
+ *   proximity, price tolerance, matching features and title similarity
+ * - Added union-find clustering of matched pairs and canonical selection
+ * - The price tolerance applies to the MXN prices, so the same listing
+ *   published in pesos and in dollars still pairs up
+ */
+
+// Candidates must be this close to each other
+export const DUPLICATE_MAX_DISTANCE_METERS = 150;
+
+// Candidates' prices must differ by at most this fraction
+export const DUPLICATE_PRICE_TOLERANCE = 0.05;
+
+// Minimum weighted score for a pair to be considered a duplicate
+export const DUPLICATE_SCORE_THRESHOLD = 0.6;
+
+const WEIGHTS = {
+  proximity: 0.3,
+  price: 0.3,
+  features: 0.2,
+  title: 0.2,
+};
+
+// Words that say nothing about which listing it is
+const TITLE_STOPWORDS = new Set([
+  'de',
+  'del',
+  'la',
+  'el',
+  'los',
+  'las',
+  'en',
+  'y',
+  'con',
+  'a',
+  'un',
+  'una',
+  'venta',
+  'renta',
+  'se',
+  'vende',
+]);
+
+export interface DuplicateCandidate {
+  _id: { toString(): string };
+  title: string;
+  description?: string;
+  price: number;
+  priceMXN?: number | null;
+  images?: string[];
+  features?: {
+    bedrooms?: number | null;
+    bathrooms?: number | null;
+    constructionSize?: number | null;
+    lotSize?: number | null;
+  };
+  createdAt?: Date;
+}
+
+export interface DuplicatePairScore {
+  score: number;
+  reasons: string[];
+}
+
+/**
+ * Score how likely two listings are the same property
+ * Callers pre-select candidates by distance, operation type and price range
+ * @param a A listing
+ * @param b Another listing
+ * @param distanceMeters Distance between the two listings
+ * @returns The score and the reasons, or null if they cannot be duplicates
+ */
+export function scoreDuplicatePair(
+  a: DuplicateCandidate,
+  b: DuplicateCandidate,
+  distanceMeters: number,
+): DuplicatePairScore | null {
+  if (distanceMeters > DUPLICATE_MAX_DISTANCE_METERS) {
+    return null;
+  }
+
+  const priceDifference = relativeDifference(
+    a.priceMXN ?? a.price,
+    b.priceMXN ?? b.price,
+  );
+  if (priceDifference > DUPLICATE_PRICE_TOLERANCE) {
+    return null;
+  }
+
+  // Units of the same building share location and price, but not always rooms
+  const features = compareFeatures(a.features, b.features);
+  if (features.mismatches.length > 0) {
+    return null;
+  }
+
+  const proximity = 1 - distanceMeters / DUPLICATE_MAX_DISTANCE_METERS;
+  const price = 1 - priceDifference / DUPLICATE_PRICE_TOLERANCE;
+  const title = titleSimilarity(a.title, b.title);
+
+  const score =
+    WEIGHTS.proximity * proximity +
+    WEIGHTS.price * price +
+    WEIGHTS.features * features.score +
+    WEIGHTS.title * title;
+
+  if (score < DUPLICATE_SCORE_THRESHOLD) {
+    return null;
+  }
+
+  return {
+    score: round(score),
+    reasons: [
+      `${Math.round(distanceMeters)}m apart`,
+      priceDifference === 0
+        ? 'same price'
+        : `price within ${round(priceDifference * 100)}%`,
+      ...(features.matches.length > 0
+        ? [`same ${features.matches.join(', ')}`]
+        : []),
+      `title similarity ${round(title)}`,
+    ],
+  };
+}
+
+/**
+ * Similarity of two titles: Dice coefficient of their significant words,
+ * ignoring case, accents and punctuation
+ * @param a A title
+ * @param b Another title
+ * @returns Similarity from 0 to 1
+ */
+export function titleSimilarity(a: string = '', b: string = ''): number {
+  const wordsA = titleWords(a);
+  const wordsB = titleWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) {
+    return 0;
+  }
+
+  let shared = 0;
+  wordsA.forEach((word) => {
+    if (wordsB.has(word)) {
+      shared++;
+    }
+  });
+  return (2 * shared) / (wordsA.size + wordsB.size);
+}
+
+/**
+ * Group matched pairs into clusters (connected components)
+ * @param pairs Pairs of listing IDs
+ * @returns Clusters of listing IDs, each with at least two members
+ */
+export function clusterPairs(pairs: [string, string][]): string[][] {
+  const parents = new Map<string, string>();
+  const find = (id: string): string => {
+    const parent = parents.get(id) ?? id;
+    if (parent === id) {
+      return id;
+    }
+    const root = find(parent);
+    parents.set(id, root);
+    return root;
+  };
+
+  for (const [a, b] of pairs) {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) {
+      parents.set(rootB, rootA);
+    }
+  }
+
+  const clusters = new Map<string, string[]>();
+  for (const id of new Set(pairs.flat())) {
+    const root = find(id);
+    clusters.set(root, [...(clusters.get(root) || []), id]);
+  }
+  return Array.from(clusters.values()).filter((ids) => ids.length > 1);
+}
+
+/**
+ * Pick the canonical listing of a cluster: the most complete one, then the oldest
+ * @param members The listings of the cluster
+ * @returns The canonical listing
+ */
+export function pickCanonical<T extends DuplicateCandidate>(members: T[]): T {
+  return [...members].sort(
+    (a, b) =>
+      completeness(b) - completeness(a) ||
+      (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0),
+  )[0];
+}
+
+function completeness(listing: DuplicateCandidate): number {
+  const features = Object.values(listing.features || {}).filter(
+    (value) => typeof value === 'number' && value > 0,
+  ).length;
+  return (
+    (listing.images?.length || 0) +
+    features +
+    Math.min((listing.description?.length || 0) / 200, 5)
+  );
+}
+
+function compareFeatures(
+  a: DuplicateCandidate['features'] = {},
+  b: DuplicateCandidate['features'] = {},
+): { score: number; matches: string[]; mismatches: string[] } {
+  const matches: string[] = [];
+  const mismatches: string[] = [];
+
+  for (const field of ['bedrooms', 'bathrooms'] as const) {
+    const valueA = a[field];
+    const valueB = b[field];
+    if (!valueA || !valueB) {
+      continue;
+    }
+    (valueA === valueB ? matches : mismatches).push(field);
+  }
+
+  for (const field of ['constructionSize', 'lotSize'] as const) {
+    const valueA = a[field];
+    const valueB = b[field];
+    if (!valueA || !valueB) {
+      continue;
+    }
+    // Sizes are often rounded differently by each agency
+    (relativeDifference(valueA, valueB) <= 0.1 ? matches : mismatches).push(
+      field,
+    );
+  }
+
+  const compared = matches.length + mismatches.length;
+  return {
+    // Nothing to compare is neither evidence for nor against
+    score: compared > 0 ? matches.length / compared : 0.5,
+    matches,
+    mismatches,
+  };
+}
+
+function titleWords(title: string): Set<string> {
+  return new Set(
+    title
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length > 0 && !TITLE_STOPWORDS.has(word)),
+  );
+}
+
+function relativeDifference(a: number, b: number): number {
+  const largest = Math.max(Math.abs(a), Math.abs(b));
+  return largest === 0 ? 0 : Math.abs(a - b) / largest;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,12 @@
+import { IsNumber, IsOptional, IsPositive, IsString } from 'class-validator';
+
+export class UpdateExchangeRateDto {
+  // Pesos per unit of the currency
+  @IsNumber()
+  @IsPositive()
+  rateToMXN: number;
+
+  @IsString()
+  @IsOptional()
+  updatedBy?: string;
+}
@@ -0,0 +1,40 @@
+/**
+ * Exchange Rates Controller
+ *
+ * Changes:
+ * - Created the admin endpoints listing and setting the exchange rates used
+ *   to normalize prices to MXN
+ */
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Put,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ExchangeRatesService } from './exchange-rates.service';
+import { UpdateExchangeRateDto } from './dto/update-exchange-rate.dto';
+import { Currency } from '../property/interfaces/property-filters.interface';
+
+@Controller('admin/exchange-rates')
+export class ExchangeRatesController {
+  constructor(private readonly exchangeRatesService: ExchangeRatesService) {}
+
+  @Get()
+  async findAll(): Promise<
+    { currency: Currency; rateToMXN: number; updatedAt?: Date }[]
+  > {
+    return this.exchangeRatesService.findAll();
+  }
+
+  @Put(':currency')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async setRate(
+    @Param('currency') currency: string,
+    @Body() updateDto: UpdateExchangeRateDto,
+  ): Promise<{ currency: Currency; rateToMXN: number; repriced: number }> {
+    return this.exchangeRatesService.setRate(currency, updateDto);
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ExchangeRatesController } from './exchange-rates.controller';
+import { ExchangeRatesService } from './exchange-rates.service';
+import {
+  ExchangeRate,
+  ExchangeRateSchema,
+} from './schemas/exchange-rate.schema';
+import { Property, PropertySchema } from '../property/schemas/property.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: ExchangeRate.name, schema: ExchangeRateSchema },
+      { name: Property.name, schema: PropertySchema },
+    ]),
+  ],
+  controllers: [ExchangeRatesController],
+  providers: [ExchangeRatesService],
+  exports: [ExchangeRatesService],
+})
+export class ExchangeRatesModule {}
@@ -0,0 +1,236 @@
+/**
+ * Exchange Rates Service
+ *
+ * Changes:
+ * - Created the exchange-rate table behind the normalized MXN price: rates
+ *   are kept in memory for synchronous conversions, reloaded every minute,
+ *   and a rate change reprices the listings in that currency
+ */
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import {
+  ExchangeRate,
+  ExchangeRateDocument,
+} from './schemas/exchange-rate.schema';
+import {
+  Property,
+  PropertyDocument,
+} from '../property/schemas/property.schema';
+import { Currency } from '../property/interfaces/property-filters.interface';
+import { UpdateExchangeRateDto } from './dto/update-exchange-rate.dto';
+import { CURRENCIES, convertAmount } from './utils/currency';
+
+// Other instances pick up rate changes after this long
+const RATE_RELOAD_INTERVAL_MS = 60 * 1000;
+
+@Injectable()
+export class ExchangeRatesService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ExchangeRatesService.name);
+  private rates = new Map<Currency, number>([['MXN', 1]]);
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    @InjectModel(ExchangeRate.name)
+    private exchangeRateModel: Model<ExchangeRateDocument>,
+    @InjectModel(Property.name)
+    private propertyModel: Model<PropertyDocument>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      // Seed the dollar so USD listings can be normalized from the start
+      await this.exchangeRateModel.updateOne(
+        { currency: 'USD' },
+        {
+          $setOnInsert: {
+            rateToMXN: Number(
+              this.configService.get<number>('DEFAULT_USD_MXN_RATE') ?? 18,
+            ),
+          },
+        },
+        { upsert: true },
+      );
+      await this.loadRates();
+    } catch (error) {
+      this.logger.error(
+        `Error loading exchange rates: ${(error as Error).message}`,
+      );
+    }
+
+    this.timer = setInterval(
+      () =>
+        void this.loadRates().catch((error: Error) =>
+          this.logger.error(`Error reloading exchange rates: ${error.message}`),
+        ),
+      RATE_RELOAD_INTERVAL_MS,
+    );
+    // Do not keep scripts alive just for the reload
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async findAll(): Promise<
+    { currency: Currency; rateToMXN: number; updatedAt?: Date }[]
+  > {
+    const rates = await this.exchangeRateModel
+      .find(
+        {},
+        { _id: 0, currency: 1, rateToMXN: 1, updatedBy: 1, updatedAt: 1 },
+      )
+      .sort({ currency: 1 })
+      .lean<(ExchangeRate & { updatedAt?: Date })[]>()
+      .exec();
+    return [{ currency: 'MXN', rateToMXN: 1 }, ...rates];
+  }
+
+  /**
+   * Set the rate of a currency and reprice its listings
+   * @param currency The currency
+   * @param updateDto Pesos per unit of the currency
+   * @returns The new rate and how many listings were repriced
+   */
+  async setRate(
+    currency: string,
+    updateDto: UpdateExchangeRateDto,
+  ): Promise<{ currency: Currency; rateToMXN: number; repriced: number }> {
+    const code = this.assertCurrency(currency);
+    if (code === 'MXN') {
+      throw new BadRequestException('The rate of MXN is always 1');
+    }
+
+    await this.exchangeRateModel.updateOne(
+      { currency: code },
+      {
+        $set: {
+          rateToMXN: updateDto.rateToMXN,
+          updatedBy: updateDto.updatedBy ?? null,
+        },
+      },
+      { upsert: true },
+    );
+    this.rates.set(code, updateDto.rateToMXN);
+
+    const repriced = await this.repriceListings(code);
+    this.logger.log(
+      `Exchange rate of ${code} set to ${updateDto.rateToMXN} MXN, ${repriced} listings repriced`,
+    );
+    return { currency: code, rateToMXN: updateDto.rateToMXN, repriced };
+  }
+
+  /**
+   * Pesos per unit of a currency
+   * @param currency The currency; defaults to MXN
+   */
+  getRate(currency: string = 'MXN'): number {
+    const rate = this.rates.get(this.assertCurrency(currency));
+    if (!rate) {
+      throw new BadRequestException(`No exchange rate set for ${currency}`);
+    }
+    return rate;
+  }
+
+  toMXN(amount: number, currency: string = 'MXN'): number {
+    return convertAmount(amount, this.getRate(currency), 1);
+  }
+
+  fromMXN(amount: number, currency: string = 'MXN'): number {
+    return convertAmount(amount, 1, this.getRate(currency));
+  }
+
+  /**
+   * Add the price of each listing in the caller's currency
+   * @param properties The listings
+   * @param currency The caller's currency; defaults to MXN
+   * @returns The listings with displayPrice and displayCurrency
+   */
+  withDisplayPrice<
+    T extends { price?: number; currency?: Currency; priceMXN?: number | null },
+  >(
+    properties: T[],
+    currency: string = 'MXN',
+  ): (T & { displayPrice: number; displayCurrency: Currency })[] {
+    const displayCurrency = this.assertCurrency(currency);
+    return properties.map((property) => ({
+      ...property,
+      displayPrice: this.fromMXN(
+        property.priceMXN ??
+          this.toMXN(property.price ?? 0, property.currency ?? 'MXN'),
+        displayCurrency,
+      ),
+      displayCurrency,
+    }));
+  }
+
+  /**
+   * Recompute priceMXN from price and the current rates; listings stored
+   * before currencies existed are priced in MXN
+   * @param currency Only reprice the listings in this currency
+   * @returns How many listings changed
+   */
+  async repriceListings(currency?: Currency): Promise<number> {
+    let modified = 0;
+    for (const code of currency ? [currency] : CURRENCIES) {
+      const result = await this.propertyModel.updateMany(
+        code === 'MXN'
+          ? { currency: { $in: ['MXN', null] } }
+          : { currency: code },
+        [
+          {
+            $set: {
+              priceMXN: {
+                $round: [{ $multiply: ['$price', this.getRate(code)] }, 2],
+              },
+            },
+          },
+        ],
+        { timestamps: false },
+      );
+      modified += result.modifiedCount;
+    }
+    return modified;
+  }
+
+  private async loadRates(): Promise<void> {
+    const rates = await this.exchangeRateModel
+      .find({}, { currency: 1, rateToMXN: 1 })
+      .lean<ExchangeRate[]>()
+      .exec();
+    this.rates = new Map<Currency, number>([
+      ['MXN', 1],
+      ...rates.map((rate): [Currency, number] => [
+        rate.currency,
+        rate.rateToMXN,
+      ]),
+    ]);
+  }
+
+  /**
+   * Check a currency code given by a caller, in any case
+   * @param currency The code
+   * @returns The currency, or a BadRequestException if it is not supported
+   */
+  assertCurrency(currency: string): Currency {
+    const code = currency.toUpperCase() as Currency;
+    if (!CURRENCIES.includes(code)) {
+      throw new BadRequestException(
+        `currency must be one of: ${CURRENCIES.join(', ')}`,
+      );
+    }
+    return code;
+  }
+}
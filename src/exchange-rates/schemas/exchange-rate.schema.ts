@@ -0,0 +1,22 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { Currency } from '../../property/interfaces/property-filters.interface';
+
+export type ExchangeRateDocument = ExchangeRate & Document;
+
+/**
+ * Pesos per unit of a foreign currency; MXN itself is always 1
+ */
+@Schema({ timestamps: true })
+export class ExchangeRate {
+  @Prop({ required: true, type: String, enum: ['USD'], unique: true })
+  currency: Exclude<Currency, 'MXN'>;
+
+  @Prop({ required: true, type: Number })
+  rateToMXN: number;
+
+  @Prop({ type: String, default: null })
+  updatedBy: string | null;
+}
+
+export const ExchangeRateSchema = SchemaFactory.createForClass(ExchangeRate);
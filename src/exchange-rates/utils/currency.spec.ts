@@ -0,0 +1,38 @@
+import { convertAmount, detectQueryCurrency, parseCurrency } from './currency';
+
+describe('parseCurrency', () => {
+  it('reads the codes and names used by feeds and users', () => {
+    expect(parseCurrency('USD')).toBe('USD');
+    expect(parseCurrency(' U$S ')).toBe('USD');
+    expect(parseCurrency('Dólares')).toBe('USD');
+    expect(parseCurrency('MN')).toBe('MXN');
+    expect(parseCurrency('mxn')).toBe('MXN');
+  });
+
+  it('returns null for unsupported or missing currencies', () => {
+    expect(parseCurrency('EUR')).toBeNull();
+    expect(parseCurrency(undefined)).toBeNull();
+  });
+});
+
+describe('detectQueryCurrency', () => {
+  it('detects prices in dollars', () => {
+    expect(
+      detectQueryCurrency('casa en Mazatlán de menos de 300 mil dólares'),
+    ).toBe('USD');
+    expect(detectQueryCurrency('depa hasta 250k USD')).toBe('USD');
+    expect(detectQueryCurrency('terreno de 100 mil dlls')).toBe('USD');
+  });
+
+  it('ignores queries without dollars', () => {
+    expect(detectQueryCurrency('casa de menos de 3 millones')).toBeNull();
+  });
+});
+
+describe('convertAmount', () => {
+  it('converts through the peso rates and rounds to cents', () => {
+    expect(convertAmount(300000, 17.5, 1)).toBe(5250000);
+    expect(convertAmount(1000000, 1, 17.5)).toBe(57142.86);
+    expect(convertAmount(1500, 1, 1)).toBe(1500);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Currency Utilities
+ *
+ * Changes:
+ * - Created the currency helpers behind the normalized MXN price: parsing
+ *   the currency codes of the feeds and the queries, and rounding conversions
+ */
+import { Currency } from '../../property/interfaces/property-filters.interface';
+import { foldText } from '../../property/utils/text-search';
+
+export const CURRENCIES: Currency[] = ['MXN', 'USD'];
+
+// Spellings of each currency found in feeds and user queries, folded
+const CURRENCY_ALIASES: Record<Currency, string[]> = {
+  MXN: ['mxn', 'mn', 'mxp', '$', 'pesos', 'peso'],
+  USD: ['usd', 'us$', 'u$s', 'dls', 'dlls', 'dolares', 'dolar', 'dollars'],
+};
+
+/**
+ * Read a currency code or name ("USD", "U$S", "MN", "dólares")
+ * @param value The code or name
+ * @returns The currency, or null if it is not supported
+ */
+export function parseCurrency(value: unknown): Currency | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const normalized = foldText(value.trim());
+  return (
+    CURRENCIES.find((currency) =>
+      CURRENCY_ALIASES[currency].includes(normalized),
+    ) ?? null
+  );
+}
+
+/**
+ * Detect a price given in US dollars in a user's query, e.g. "menos de 300
+ * mil dólares" or "hasta 250k USD"
+ * @param query The user's query
+ * @returns USD when the query mentions dollars, otherwise null
+ */
+export function detectQueryCurrency(query: string): Currency | null {
+  return /(\bd[oó]lar(es)?\b|\busd\b|\bus\$|\bdll?s\b|\bdollars?\b)/i.test(
+    query,
+  )
+    ? 'USD'
+    : null;
+}
+
+/**
+ * Convert an amount between currencies, rounded to cents
+ * @param amount The amount
+ * @param fromRate Pesos per unit of the source currency
+ * @param toRate Pesos per unit of the target currency
+ */
+export function convertAmount(
+  amount: number,
+  fromRate: number,
+  toRate: number,
+): number {
+  return Math.round(((amount * fromRate) / toRate) * 100) / 100;
+}
@@ -0,0 +1,29 @@
+export type LocationKind = 'state' | 'city' | 'address';
+
+export const LOCATION_KINDS: LocationKind[] = ['state', 'city', 'address'];
+
+export interface LocationSuggestion {
+  kind: LocationKind;
+  name: string;
+  city: string | null;
+  state: string | null;
+  listingCount: number;
+}
+
+/**
+ * A free-text place resolved to the values stored in the listings
+ */
+export interface ResolvedLocation {
+  kind: 'state' | 'city';
+  name: string;
+  city: string | null;
+  state: string | null;
+  // Every spelling of the place found in the listings, canonical first
+  variants: string[];
+}
+
+export interface LocationLookupRebuildSummary {
+  scanned: number;
+  entries: number;
+  removed: number;
+}
@@ -0,0 +1,76 @@
+/**
+ * Location Lookup Refresher Service
+ *
+ * Changes:
+ * - Created the scheduled rebuild of the location lookup every
+ *   LOCATION_LOOKUP_REFRESH_INTERVAL_MS, plus a first build when it is empty
+ */
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LocationsService } from './locations.service';
+
+@Injectable()
+export class LocationLookupRefresherService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(LocationLookupRefresherService.name);
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly locationsService: LocationsService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    const interval = Number(
+      this.configService.get<number>('LOCATION_LOOKUP_REFRESH_INTERVAL_MS') ??
+        3600000,
+    );
+    if (interval > 0) {
+      this.timer = setInterval(() => void this.refresh(), interval);
+      // Do not keep scripts alive just for the refresher
+      this.timer.unref();
+
+      // Without a first build the autocomplete would stay empty until the first tick
+      void this.locationsService
+        .isLookupEmpty()
+        .then((empty) => (empty ? this.refresh() : undefined))
+        .catch((error: Error) =>
+          this.logger.error(
+            `Error checking the location lookup: ${error.message}`,
+          ),
+        );
+    }
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async refresh(): Promise<void> {
+    // Skip a tick while the previous rebuild is still going
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.locationsService.rebuildLookup();
+    } catch (error) {
+      this.logger.error(
+        `Location lookup rebuild failed: ${(error as Error).message}`,
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Locations Controller
+ *
+ * Changes:
+ * - Created GET /locations/autocomplete, suggesting states, cities and
+ *   address fragments from the location lookup
+ */
+import { BadRequestException, Controller, Get, Query } from '@nestjs/common';
+import { LocationsService } from './locations.service';
+import {
+  LOCATION_KINDS,
+  LocationKind,
+  LocationSuggestion,
+} from './interfaces/location-suggestion.interface';
+
+@Controller('locations')
+export class LocationsController {
+  constructor(private readonly locationsService: LocationsService) {}
+
+  @Get('autocomplete')
+  async autocomplete(
+    @Query('q') q: string = '',
+    @Query('limit') limit?: string,
+    @Query('kind') kind?: string,
+  ): Promise<LocationSuggestion[]> {
+    if (kind && !LOCATION_KINDS.includes(kind as LocationKind)) {
+      throw new BadRequestException(
+        `kind must be one of: ${LOCATION_KINDS.join(', ')}`,
+      );
+    }
+
+    const parsedLimit = limit !== undefined ? Number(limit) : undefined;
+    if (parsedLimit !== undefined && !Number.isFinite(parsedLimit)) {
+      throw new BadRequestException('limit must be a number');
+    }
+
+    return this.locationsService.autocomplete(q, {
+      limit: parsedLimit,
+      kind: kind as LocationKind | undefined,
+    });
+  }
+}
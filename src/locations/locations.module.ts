@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { LocationsController } from './locations.controller';
+import { LocationsService } from './locations.service';
+import { LocationLookupRefresherService } from './location-lookup-refresher.service';
+import {
+  LocationLookup,
+  LocationLookupSchema,
+} from './schemas/location-lookup.schema';
+import { Property, PropertySchema } from '../property/schemas/property.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: LocationLookup.name, schema: LocationLookupSchema },
+      { name: Property.name, schema: PropertySchema },
+    ]),
+  ],
+  controllers: [LocationsController],
+  providers: [LocationsService, LocationLookupRefresherService],
+  exports: [LocationsService],
+})
+export class LocationsModule {}
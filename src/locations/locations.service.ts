@@ -0,0 +1,330 @@
+/**
+ * Locations Service
+ *
+ * Changes:
+ * - Created the location lookup: the states, cities and address fragments of
+ *   the visible listings with their listing counts, rebuilt from the property
+ *   collection and queried by the autocomplete and the FilterAgent
+ */
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { AnyBulkWriteOperation, Model } from 'mongoose';
+import {
+  Property,
+  PropertyDocument,
+} from '../property/schemas/property.schema';
+import {
+  LocationLookup,
+  LocationLookupDocument,
+} from './schemas/location-lookup.schema';
+import {
+  LocationKind,
+  LocationLookupRebuildSummary,
+  LocationSuggestion,
+  ResolvedLocation,
+} from './interfaces/location-suggestion.interface';
+import { extractAddressFragments } from './utils/address-fragments';
+import { VISIBLE_LISTING_FILTER } from '../property/utils/listing-visibility';
+import { correctTerms, foldText } from '../property/utils/text-search';
+
+export const DEFAULT_AUTOCOMPLETE_LIMIT = 10;
+export const MAX_AUTOCOMPLETE_LIMIT = 25;
+
+// Upserts sent per bulkWrite during a rebuild
+const REBUILD_BATCH_SIZE = 1000;
+
+interface LookupTally {
+  kind: LocationKind;
+  normalized: string;
+  spellings: Map<string, number>;
+  cities: Map<string, number>;
+  states: Map<string, number>;
+  listingCount: number;
+}
+
+interface ListingLocation {
+  location?: { state?: string; city?: string; address?: string };
+}
+
+@Injectable()
+export class LocationsService {
+  private readonly logger = new Logger(LocationsService.name);
+
+  constructor(
+    @InjectModel(LocationLookup.name)
+    private locationLookupModel: Model<LocationLookupDocument>,
+    @InjectModel(Property.name)
+    private propertyModel: Model<PropertyDocument>,
+  ) {}
+
+  /**
+   * Suggest states, cities and address fragments for a partial query, ignoring
+   * accents and case; names starting with the query come first, then names
+   * with a word starting with it, each ranked by listing count
+   * @param query What the user typed so far
+   * @param options Maximum number of suggestions, and an optional kind
+   * @returns The suggestions
+   */
+  async autocomplete(
+    query: string,
+    options: { limit?: number; kind?: LocationKind } = {},
+  ): Promise<LocationSuggestion[]> {
+    const normalized = this.normalize(query);
+    if (!normalized) {
+      return [];
+    }
+
+    const limit = Math.min(
+      Math.max(Math.floor(options.limit ?? DEFAULT_AUTOCOMPLETE_LIMIT), 1),
+      MAX_AUTOCOMPLETE_LIMIT,
+    );
+    const escaped = normalized.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const kindFilter = options.kind ? { kind: options.kind } : {};
+    const projection = {
+      _id: 0,
+      kind: 1,
+      name: 1,
+      city: 1,
+      state: 1,
+      listingCount: 1,
+    };
+
+    // The anchored prefix query uses the { normalized, listingCount } index
+    const prefixMatches = await this.locationLookupModel
+      .find(
+        { ...kindFilter, normalized: { $regex: `^${escaped}` } },
+        projection,
+      )
+      .sort({ listingCount: -1, normalized: 1 })
+      .limit(limit)
+      .lean<LocationSuggestion[]>()
+      .exec();
+
+    if (prefixMatches.length >= limit) {
+      return prefixMatches;
+    }
+
+    const wordMatches = await this.locationLookupModel
+      .find(
+        {
+          ...kindFilter,
+          normalized: {
+            $regex: `\\s${escaped}`,
+            $not: new RegExp(`^${escaped}`),
+          },
+        },
+        projection,
+      )
+      .sort({ listingCount: -1, normalized: 1 })
+      .limit(limit - prefixMatches.length)
+      .lean<LocationSuggestion[]>()
+      .exec();
+
+    return [...prefixMatches, ...wordMatches];
+  }
+
+  /**
+   * Resolve a free-text place ("guadalajara", "Zapópan", "monterey") to the
+   * city or state stored in the listings: an exact match first, then the
+   * busiest place starting with the text, then the closest spelling
+   * @param text The place as written by the user
+   * @returns The place, or null when nothing in the lookup is close enough
+   */
+  async resolveLocation(text: string): Promise<ResolvedLocation | null> {
+    const normalized = this.normalize(text)
+      .replace(/^(en|de|ciudad de|municipio de|estado de)\s+/, '')
+      .trim();
+    if (!normalized) {
+      return null;
+    }
+
+    const exact =
+      (await this.findPlace({ kind: 'city', normalized })) ??
+      (await this.findPlace({ kind: 'state', normalized }));
+    if (exact) {
+      return exact;
+    }
+
+    const escaped = normalized.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const prefix = await this.findPlace({
+      kind: 'city',
+      normalized: { $regex: `^${escaped}` },
+    });
+    if (prefix) {
+      return prefix;
+    }
+
+    const places = await this.locationLookupModel
+      .find({ kind: { $in: ['city', 'state'] } }, { _id: 0, normalized: 1 })
+      .lean<{ normalized: string }[]>()
+      .exec();
+    const correction = correctTerms(
+      [normalized],
+      places.map((place) => place.normalized),
+    )[normalized];
+
+    return correction
+      ? ((await this.findPlace({ kind: 'city', normalized: correction })) ??
+          (await this.findPlace({ kind: 'state', normalized: correction })))
+      : null;
+  }
+
+  /**
+   * Rebuild the lookup from the visible listings; entries for places no
+   * visible listing mentions anymore are removed
+   * @returns How many listings were scanned and entries written or removed
+   */
+  async rebuildLookup(): Promise<LocationLookupRebuildSummary> {
+    const startedAt = new Date();
+    const tallies = new Map<string, LookupTally>();
+    let scanned = 0;
+
+    const cursor = this.propertyModel
+      .find(VISIBLE_LISTING_FILTER, {
+        'location.state': 1,
+        'location.city': 1,
+        'location.address': 1,
+      })
+      .lean<ListingLocation>()
+      .cursor();
+
+    for await (const listing of cursor) {
+      scanned++;
+      const state = listing.location?.state?.trim();
+      const city = listing.location?.city?.trim();
+      const address = listing.location?.address?.trim();
+
+      if (state) {
+        this.tally(tallies, 'state', state, null, state);
+      }
+      if (city) {
+        this.tally(tallies, 'city', city, city, state ?? null);
+      }
+      if (address) {
+        const excluded = [city, state].filter((name): name is string =>
+          Boolean(name),
+        );
+        for (const fragment of extractAddressFragments(address, excluded)) {
+          this.tally(tallies, 'address', fragment, city ?? null, state ?? null);
+        }
+      }
+    }
+
+    const operations: AnyBulkWriteOperation<LocationLookup>[] = [];
+    for (const tally of tallies.values()) {
+      const variants = this.rankSpellings(tally.spellings);
+      const city = this.rankSpellings(tally.cities)[0] ?? null;
+      const state = this.rankSpellings(tally.states)[0] ?? null;
+      operations.push({
+        updateOne: {
+          filter: {
+            kind: tally.kind,
+            normalized: tally.normalized,
+            city,
+            state,
+          },
+          update: {
+            $set: {
+              name: variants[0],
+              variants,
+              listingCount: tally.listingCount,
+              refreshedAt: startedAt,
+            },
+          },
+          upsert: true,
+        },
+      });
+    }
+
+    for (let i = 0; i < operations.length; i += REBUILD_BATCH_SIZE) {
+      await this.locationLookupModel.bulkWrite(
+        operations.slice(i, i + REBUILD_BATCH_SIZE),
+        { ordered: false },
+      );
+    }
+
+    const { deletedCount } = await this.locationLookupModel.deleteMany({
+      refreshedAt: { $lt: startedAt },
+    });
+
+    this.logger.log(
+      `Location lookup rebuilt from ${scanned} listings: ${tallies.size} entries, ${deletedCount} removed`,
+    );
+    return { scanned, entries: tallies.size, removed: deletedCount };
+  }
+
+  async isLookupEmpty(): Promise<boolean> {
+    return (await this.locationLookupModel.estimatedDocumentCount()) === 0;
+  }
+
+  private async findPlace(
+    filter: Record<string, any>,
+  ): Promise<ResolvedLocation | null> {
+    return this.locationLookupModel
+      .findOne(filter, {
+        _id: 0,
+        kind: 1,
+        name: 1,
+        city: 1,
+        state: 1,
+        variants: 1,
+      })
+      .sort({ listingCount: -1 })
+      .lean<ResolvedLocation>()
+      .exec();
+  }
+
+  private tally(
+    tallies: Map<string, LookupTally>,
+    kind: LocationKind,
+    name: string,
+    city: string | null,
+    state: string | null,
+  ): void {
+    const normalized = this.normalize(name);
+    if (!normalized) {
+      return;
+    }
+
+    // A state only counts once per name; cities and fragments are told apart
+    // by the place they belong to
+    const key = [
+      kind,
+      normalized,
+      kind === 'state' ? '' : this.normalize(city ?? ''),
+      this.normalize(state ?? ''),
+    ].join('|');
+
+    let tally = tallies.get(key);
+    if (!tally) {
+      tally = {
+        kind,
+        normalized,
+        spellings: new Map(),
+        cities: new Map(),
+        states: new Map(),
+        listingCount: 0,
+      };
+      tallies.set(key, tally);
+    }
+
+    tally.listingCount++;
+    tally.spellings.set(name, (tally.spellings.get(name) ?? 0) + 1);
+    if (city && kind !== 'state') {
+      tally.cities.set(city, (tally.cities.get(city) ?? 0) + 1);
+    }
+    if (state) {
+      tally.states.set(state, (tally.states.get(state) ?? 0) + 1);
+    }
+  }
+
+  private rankSpellings(spellings: Map<string, number>): string[] {
+    return Array.from(spellings.entries())
+      .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+      .map(([spelling]) => spelling);
+  }
+
+  private normalize(text: string): string {
+    return foldText(text).replace(/\s+/g, ' ').trim();
+  }
+}
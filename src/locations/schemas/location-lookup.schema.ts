@@ -0,0 +1,50 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { LocationKind } from '../interfaces/location-suggestion.interface';
+
+export type LocationLookupDocument = LocationLookup & Document;
+
+/**
+ * A state, city or address fragment found in the listings, with how many
+ * visible listings mention it; rebuilt from the property collection
+ */
+@Schema({ timestamps: true })
+export class LocationLookup {
+  @Prop({ required: true, type: String, enum: ['state', 'city', 'address'] })
+  kind: LocationKind;
+
+  // Canonical spelling, as stored in the listings
+  @Prop({ required: true, type: String })
+  name: string;
+
+  // Every spelling found in the listings, canonical (most common) first
+  @Prop({ type: [String], default: [] })
+  variants: string[];
+
+  // Accent-folded, lowercase name used for matching
+  @Prop({ required: true, type: String })
+  normalized: string;
+
+  @Prop({ type: String, default: null })
+  city: string | null;
+
+  @Prop({ type: String, default: null })
+  state: string | null;
+
+  @Prop({ required: true, type: Number, default: 0 })
+  listingCount: number;
+
+  // Start of the rebuild that last saw the entry; older entries are removed
+  @Prop({ required: true, type: Date })
+  refreshedAt: Date;
+}
+
+export const LocationLookupSchema =
+  SchemaFactory.createForClass(LocationLookup);
+
+// One entry per place, and prefix matching ranked by listing count
+LocationLookupSchema.index(
+  { kind: 1, normalized: 1, city: 1, state: 1 },
+  { unique: true },
+);
+LocationLookupSchema.index({ normalized: 1, listingCount: -1 });
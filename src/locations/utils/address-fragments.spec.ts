@@ -0,0 +1,22 @@
+import { extractAddressFragments } from './address-fragments';
+
+describe('extractAddressFragments', () => {
+  it('keeps streets and colonias without numbers or postal codes', () => {
+    expect(
+      extractAddressFragments(
+        'Av. Chapultepec 480, Col. Americana, C.P. 44160, Guadalajara, Jalisco, México',
+        ['Guadalajara', 'Jalisco'],
+      ),
+    ).toEqual(['Av. Chapultepec', 'Col. Americana']);
+  });
+
+  it('drops house numbers in their usual spellings', () => {
+    expect(
+      extractAddressFragments('Calle Hidalgo #12-B, Centro; Priv. Roble No. 5'),
+    ).toEqual(['Calle Hidalgo', 'Centro', 'Priv. Roble']);
+  });
+
+  it('returns nothing for addresses without usable parts', () => {
+    expect(extractAddressFragments('123, S/N, MX')).toEqual([]);
+  });
+});
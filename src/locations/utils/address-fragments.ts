@@ -0,0 +1,54 @@
+/**
+ * Address Fragment Utilities
+ *
+ * Changes:
+ * - Created the extraction of the searchable parts of an address (streets,
+ *   colonias) for the location autocomplete
+ */
+import { foldText } from '../../property/utils/text-search';
+
+// Fragments shorter than this are not useful suggestions
+const MIN_FRAGMENT_LENGTH = 4;
+
+// Parts of an address that never identify a place on their own
+const GENERIC_FRAGMENTS = new Set(['mexico', 'mex', 'mx', 'sin numero', 's/n']);
+
+/**
+ * Split an address into the fragments suggested by the autocomplete, e.g.
+ * "Av. Chapultepec 480, Col. Americana, Guadalajara" gives "Av. Chapultepec"
+ * and "Col. Americana"
+ * @param address The address of a listing
+ * @param excluded Names already suggested on their own, like the city and state
+ * @returns The fragments, without house numbers or postal codes
+ */
+export function extractAddressFragments(
+  address: string,
+  excluded: string[] = [],
+): string[] {
+  const excludedNames = new Set(excluded.map((name) => foldText(name).trim()));
+
+  const fragments = address
+    .split(/[,;]/)
+    .map((part) =>
+      part
+        // Postal codes
+        .replace(/\b(c\.?\s?p\.?)\s*\d{4,5}\b/gi, '')
+        .replace(/\b\d{5}\b/g, '')
+        // House numbers: "#12", "No. 12", "123", "12-A"
+        .replace(/(#|\bno\.?|\bnum\.?)\s*\d+(-?[a-z])?\b/gi, '')
+        .replace(/\b\d+(-?[a-z])?\b/gi, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/^[-.\s]+|[-.\s]+$/g, ''),
+    )
+    .filter((fragment) => {
+      const normalized = foldText(fragment);
+      return (
+        normalized.length >= MIN_FRAGMENT_LENGTH &&
+        !GENERIC_FRAGMENTS.has(normalized) &&
+        !excludedNames.has(normalized)
+      );
+    });
+
+  return Array.from(new Set(fragments));
+}
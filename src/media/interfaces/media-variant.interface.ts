@@ -0,0 +1,38 @@
+export type MediaVariantName = 'original' | 'large' | 'medium' | 'thumbnail';
+
+export const MEDIA_VARIANT_NAMES: MediaVariantName[] = [
+  'original',
+  'large',
+  'medium',
+  'thumbnail',
+];
+
+/**
+ * One encoded rendition of an uploaded image, ready to be stored
+ */
+export interface ProcessedImageVariant {
+  name: MediaVariantName;
+  buffer: Buffer;
+  contentType: string;
+  extension: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * An uploaded image as returned by the API, with the URL of each variant
+ */
+export interface MediaView {
+  id: string;
+  originalName: string | null;
+  uploadedBy: string | null;
+  variants: {
+    name: MediaVariantName;
+    url: string;
+    contentType: string;
+    width: number;
+    height: number;
+    size: number;
+  }[];
+  createdAt?: Date;
+}
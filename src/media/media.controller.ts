@@ -0,0 +1,77 @@
+/**
+ * Media Controller
+ *
+ * Changes:
+ * - Created the image upload endpoint and the routes serving the stored
+ *   variants of each image
+ */
+import {
+  BadRequestException,
+  Controller,
+  Delete,
+  Get,
+  Headers,
+  Param,
+  Post,
+  StreamableFile,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { MediaService } from './media.service';
+import {
+  MEDIA_VARIANT_NAMES,
+  MediaVariantName,
+  MediaView,
+} from './interfaces/media-variant.interface';
+
+// Maximum size of an uploaded image
+const MAX_MEDIA_FILE_SIZE = 15 * 1024 * 1024; // 15MB
+
+@Controller('media')
+export class MediaController {
+  constructor(private readonly mediaService: MediaService) {}
+
+  @Post()
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_MEDIA_FILE_SIZE } }),
+  )
+  async upload(
+    @UploadedFile()
+    file: { buffer: Buffer; originalname: string } | undefined,
+    @Headers('x-user-id') userId?: string,
+  ): Promise<MediaView> {
+    if (!file) {
+      throw new BadRequestException('An image file is required');
+    }
+    return this.mediaService.upload(file, userId);
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string): Promise<MediaView> {
+    return this.mediaService.findOne(id);
+  }
+
+  @Get(':id/:variant')
+  async getFile(
+    @Param('id') id: string,
+    @Param('variant') variant: string,
+  ): Promise<StreamableFile> {
+    if (!MEDIA_VARIANT_NAMES.includes(variant as MediaVariantName)) {
+      throw new BadRequestException(
+        `variant must be one of: ${MEDIA_VARIANT_NAMES.join(', ')}`,
+      );
+    }
+
+    const { stream, contentType } = await this.mediaService.getFile(
+      id,
+      variant as MediaVariantName,
+    );
+    return new StreamableFile(stream, { type: contentType });
+  }
+
+  @Delete(':id')
+  async remove(@Param('id') id: string): Promise<void> {
+    return this.mediaService.remove(id);
+  }
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { MediaController } from './media.controller';
+import { MediaService } from './media.service';
+import { Media, MediaSchema } from './schemas/media.schema';
+import { Property, PropertySchema } from '../property/schemas/property.schema';
+import { MediaStorage } from './storage/media-storage';
+import { LocalMediaStorage } from './storage/local-media-storage';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Media.name, schema: MediaSchema },
+      { name: Property.name, schema: PropertySchema },
+    ]),
+  ],
+  controllers: [MediaController],
+  providers: [
+    MediaService,
+    // Local disk for now; swap the class to move the files elsewhere
+    { provide: MediaStorage, useClass: LocalMediaStorage },
+  ],
+  exports: [MediaService],
+})
+export class MediaModule {}
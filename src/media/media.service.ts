@@ -0,0 +1,235 @@
+/**
+ * Media Service
+ *
+ * Changes:
+ * - Created the upload pipeline for listing images: duplicate detection by
+ *   content hash, EXIF stripping, resized variants and thumbnail, kept in the
+ *   configured media storage
+ */
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { Readable } from 'stream';
+import { Media, MediaDocument, MediaVariant } from './schemas/media.schema';
+import {
+  Property,
+  PropertyDocument,
+} from '../property/schemas/property.schema';
+import { MediaStorage } from './storage/media-storage';
+import {
+  MediaVariantName,
+  MediaView,
+} from './interfaces/media-variant.interface';
+import { hashContent, processImage } from './utils/image-processing';
+
+type MediaRecord = Media & { _id: Types.ObjectId; createdAt?: Date };
+
+export interface UploadedImage {
+  buffer: Buffer;
+  originalname: string;
+}
+
+@Injectable()
+export class MediaService {
+  private readonly logger = new Logger(MediaService.name);
+
+  constructor(
+    @InjectModel(Media.name) private mediaModel: Model<MediaDocument>,
+    @InjectModel(Property.name)
+    private propertyModel: Model<PropertyDocument>,
+    private readonly mediaStorage: MediaStorage,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Store an uploaded image with its variants
+   * @param file The uploaded file
+   * @param uploadedBy Who uploaded it, if known
+   * @returns The stored media
+   */
+  async upload(file: UploadedImage, uploadedBy?: string): Promise<MediaView> {
+    const hash = hashContent(file.buffer);
+    await this.assertNotUploaded(hash);
+
+    let variants: Awaited<ReturnType<typeof processImage>>;
+    try {
+      variants = await processImage(file.buffer);
+    } catch (error) {
+      throw new BadRequestException((error as Error).message);
+    }
+
+    const id = new Types.ObjectId();
+    const stored: MediaVariant[] = [];
+    try {
+      for (const variant of variants) {
+        const key = `${id.toString()}/${variant.name}.${variant.extension}`;
+        await this.mediaStorage.save(key, variant.buffer);
+        stored.push({
+          name: variant.name,
+          key,
+          contentType: variant.contentType,
+          width: variant.width,
+          height: variant.height,
+          size: variant.buffer.length,
+        });
+      }
+
+      const media = await this.mediaModel.create({
+        _id: id,
+        hash,
+        originalName: file.originalname || null,
+        uploadedBy: uploadedBy || null,
+        variants: stored,
+      });
+
+      this.logger.log(
+        `Stored media ${id.toString()} (${stored.length} variants) in ${this.mediaStorage.name} storage`,
+      );
+      return this.toView(media.toObject<MediaRecord>());
+    } catch (error) {
+      // Do not leave orphan files behind
+      await Promise.all(
+        stored.map((variant) => this.mediaStorage.delete(variant.key)),
+      );
+
+      // Two uploads of the same file at once: the unique index decides
+      if ((error as { code?: number }).code === 11000) {
+        await this.assertNotUploaded(hash);
+      }
+      throw error;
+    }
+  }
+
+  async findOne(id: string): Promise<MediaView> {
+    return this.toView(await this.getMedia(id));
+  }
+
+  /**
+   * Open a stored variant of an image
+   * @param id The media ID
+   * @param variantName The variant
+   * @returns The file and its content type
+   */
+  async getFile(
+    id: string,
+    variantName: MediaVariantName,
+  ): Promise<{ stream: Readable; contentType: string }> {
+    const media = await this.getMedia(id);
+    const variant = media.variants.find(({ name }) => name === variantName);
+    if (!variant) {
+      throw new NotFoundException(
+        `Variant ${variantName} of media ${id} not found`,
+      );
+    }
+
+    return {
+      stream: await this.mediaStorage.read(variant.key),
+      contentType: variant.contentType,
+    };
+  }
+
+  /**
+   * Delete an image and its files; images still used by a listing are kept
+   * @param id The media ID
+   */
+  async remove(id: string): Promise<void> {
+    const media = await this.getMedia(id);
+
+    const usedBy = await this.propertyModel.countDocuments({
+      mediaIds: media._id,
+    });
+    if (usedBy > 0) {
+      throw new ConflictException(
+        `Media ${id} is still used by ${usedBy} properties`,
+      );
+    }
+
+    await this.mediaModel.deleteOne({ _id: media._id });
+    await Promise.all(
+      media.variants.map((variant) => this.mediaStorage.delete(variant.key)),
+    );
+  }
+
+  /**
+   * Look up the images attached to a listing
+   * @param ids The media IDs, in display order
+   * @returns The media, in the same order
+   */
+  async findMany(ids: string[]): Promise<MediaView[]> {
+    const invalidIds = ids.filter((id) => !Types.ObjectId.isValid(id));
+    const records = invalidIds.length
+      ? []
+      : await this.mediaModel
+          .find({ _id: { $in: ids } })
+          .lean<MediaRecord[]>()
+          .exec();
+
+    const byId = new Map(records.map((media) => [String(media._id), media]));
+    const missingIds = ids.filter((id) => !byId.has(id));
+    if (missingIds.length > 0) {
+      throw new BadRequestException(
+        `Unknown media IDs: ${missingIds.join(', ')}`,
+      );
+    }
+
+    return ids.map((id) => this.toView(byId.get(id)!));
+  }
+
+  /**
+   * Public URL of a variant of an image
+   */
+  getUrl(id: string, variantName: MediaVariantName): string {
+    const baseUrl = (
+      this.configService.get<string>('MEDIA_PUBLIC_URL') ?? ''
+    ).replace(/\/+$/, '');
+    return `${baseUrl}/media/${id}/${variantName}`;
+  }
+
+  private async getMedia(id: string): Promise<MediaRecord> {
+    const media = Types.ObjectId.isValid(id)
+      ? await this.mediaModel.findById(id).lean<MediaRecord>()
+      : null;
+    if (!media) {
+      throw new NotFoundException(`Media with ID ${id} not found`);
+    }
+    return media;
+  }
+
+  private async assertNotUploaded(hash: string): Promise<void> {
+    const existing = await this.mediaModel
+      .findOne({ hash }, { _id: 1 })
+      .lean<{ _id: Types.ObjectId }>()
+      .exec();
+    if (existing) {
+      throw new ConflictException({
+        message: `This image was already uploaded as media ${String(existing._id)}`,
+        mediaId: String(existing._id),
+      });
+    }
+  }
+
+  private toView(media: MediaRecord): MediaView {
+    const id = String(media._id);
+    return {
+      id,
+      originalName: media.originalName,
+      uploadedBy: media.uploadedBy,
+      variants: media.variants.map((variant) => ({
+        name: variant.name,
+        url: this.getUrl(id, variant.name),
+        contentType: variant.contentType,
+        width: variant.width,
+        height: variant.height,
+        size: variant.size,
+      })),
+      createdAt: media.createdAt,
+    };
+  }
+}
@@ -0,0 +1,57 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { MediaVariantName } from '../interfaces/media-variant.interface';
+
+export type MediaDocument = Media & Document;
+
+@Schema({ _id: false })
+export class MediaVariant {
+  @Prop({
+    required: true,
+    type: String,
+    enum: ['original', 'large', 'medium', 'thumbnail'],
+  })
+  name: MediaVariantName;
+
+  // Storage key of the file
+  @Prop({ required: true, type: String })
+  key: string;
+
+  @Prop({ required: true, type: String })
+  contentType: string;
+
+  @Prop({ required: true, type: Number })
+  width: number;
+
+  @Prop({ required: true, type: Number })
+  height: number;
+
+  // Size in bytes
+  @Prop({ required: true, type: Number })
+  size: number;
+}
+
+const MediaVariantSchema = SchemaFactory.createForClass(MediaVariant);
+
+/**
+ * An uploaded listing image; the stored files carry no EXIF metadata
+ */
+@Schema({ timestamps: true })
+export class Media {
+  // SHA-256 of the uploaded file, to reject duplicate uploads
+  @Prop({ required: true, type: String })
+  hash: string;
+
+  @Prop({ type: String, default: null })
+  originalName: string | null;
+
+  @Prop({ type: String, default: null })
+  uploadedBy: string | null;
+
+  @Prop({ type: [MediaVariantSchema], default: [] })
+  variants: MediaVariant[];
+}
+
+export const MediaSchema = SchemaFactory.createForClass(Media);
+
+MediaSchema.index({ hash: 1 }, { unique: true });
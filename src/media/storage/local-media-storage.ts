@@ -0,0 +1,59 @@
+/**
+ * Local Media Storage
+ *
+ * Changes:
+ * - Created the storage backend keeping media files on local disk, under
+ *   MEDIA_STORAGE_DIR
+ */
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createReadStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { MediaStorage } from './media-storage';
+
+@Injectable()
+export class LocalMediaStorage extends MediaStorage {
+  readonly name = 'local';
+  private readonly root: string;
+
+  constructor(configService: ConfigService) {
+    super();
+    this.root = path.resolve(
+      configService.get<string>('MEDIA_STORAGE_DIR') ?? 'uploads/media',
+    );
+  }
+
+  async save(key: string, content: Buffer): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+
+  async read(key: string): Promise<Readable> {
+    const filePath = this.resolvePath(key);
+    try {
+      await fs.access(filePath);
+    } catch {
+      throw new NotFoundException(`Media file ${key} not found`);
+    }
+    return createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolvePath(key), { force: true });
+  }
+
+  /**
+   * Map a storage key to a path under the root, refusing keys that would
+   * escape it
+   */
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new NotFoundException(`Media file ${key} not found`);
+    }
+    return filePath;
+  }
+}
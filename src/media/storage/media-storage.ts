@@ -0,0 +1,15 @@
+import { Readable } from 'stream';
+
+/**
+ * Where the media files are kept; bound to LocalMediaStorage in MediaModule,
+ * other backends (e.g. object storage) implement the same methods
+ */
+export abstract class MediaStorage {
+  /** Name of the backend, for logs */
+  abstract readonly name: string;
+  abstract save(key: string, content: Buffer): Promise<void>;
+  /** Stream a stored file; rejects with NotFoundException if it is missing */
+  abstract read(key: string): Promise<Readable>;
+  /** Remove a stored file; missing files are ignored */
+  abstract delete(key: string): Promise<void>;
+}
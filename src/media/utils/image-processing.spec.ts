@@ -0,0 +1,90 @@
+import * as sharp from 'sharp';
+import { hashContent, processImage } from './image-processing';
+
+function createJpeg(width: number, height: number): Promise<Buffer> {
+  return sharp({
+    create: { width, height, channels: 3, background: '#3a7bd5' },
+  })
+    .jpeg()
+    .withMetadata({
+      orientation: 6,
+      exif: {
+        IFD0: { Make: 'Camera' },
+        IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '20/1 40/1 0/1' },
+      },
+    })
+    .toBuffer();
+}
+
+describe('processImage', () => {
+  it('strips the EXIF metadata from the original and every variant', async () => {
+    const upload = await createJpeg(400, 300);
+    expect((await sharp(upload).metadata()).exif).toBeDefined();
+
+    const variants = await processImage(upload);
+
+    for (const variant of variants) {
+      const metadata = await sharp(variant.buffer).metadata();
+      expect(metadata.exif).toBeUndefined();
+    }
+  });
+
+  it('applies the EXIF orientation before dropping it', async () => {
+    const [original] = await processImage(await createJpeg(400, 300));
+
+    expect(original).toMatchObject({
+      name: 'original',
+      contentType: 'image/jpeg',
+      extension: 'jpg',
+      width: 300,
+      height: 400,
+    });
+  });
+
+  it('renders resized variants without enlarging small images', async () => {
+    const variants = await processImage(await createJpeg(2000, 1000));
+
+    expect(
+      variants.map(({ name, width, height, contentType }) => ({
+        name,
+        width,
+        height,
+        contentType,
+      })),
+    ).toEqual([
+      {
+        name: 'original',
+        width: 1000,
+        height: 2000,
+        contentType: 'image/jpeg',
+      },
+      { name: 'large', width: 800, height: 1600, contentType: 'image/webp' },
+      { name: 'medium', width: 400, height: 800, contentType: 'image/webp' },
+      { name: 'thumbnail', width: 320, height: 240, contentType: 'image/webp' },
+    ]);
+  });
+
+  it('rejects files that are not supported images', async () => {
+    await expect(processImage(Buffer.from('not an image'))).rejects.toThrow(
+      'The file is not a readable image',
+    );
+
+    const gif = await sharp({
+      create: { width: 10, height: 10, channels: 3, background: '#000' },
+    })
+      .gif()
+      .toBuffer();
+    await expect(processImage(gif)).rejects.toThrow(
+      'Unsupported image format gif',
+    );
+  });
+});
+
+describe('hashContent', () => {
+  it('gives the same hash for the same bytes only', () => {
+    expect(hashContent(Buffer.from('a'))).toBe(hashContent(Buffer.from('a')));
+    expect(hashContent(Buffer.from('a'))).not.toBe(
+      hashContent(Buffer.from('b')),
+    );
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Image Processing Utilities
+ *
+ * Changes:
+ * - Created the processing of uploaded listing images: re-encoding without
+ *   EXIF metadata (GPS location included), resized variants and thumbnail
+ */
+import { createHash } from 'crypto';
+import * as sharp from 'sharp';
+import {
+  MediaVariantName,
+  ProcessedImageVariant,
+} from '../interfaces/media-variant.interface';
+
+// Formats accepted for upload, by sharp format name
+export const SUPPORTED_IMAGE_FORMATS = ['jpeg', 'png', 'webp', 'avif'];
+
+// Resized renditions; the original keeps its size
+const RESIZED_VARIANTS: {
+  name: Exclude<MediaVariantName, 'original'>;
+  width: number;
+  height: number;
+  fit: 'inside' | 'cover';
+}[] = [
+  { name: 'large', width: 1600, height: 1600, fit: 'inside' },
+  { name: 'medium', width: 800, height: 800, fit: 'inside' },
+  { name: 'thumbnail', width: 320, height: 240, fit: 'cover' },
+];
+
+const VARIANT_QUALITY = 80;
+const ORIGINAL_QUALITY = 90;
+
+/**
+ * SHA-256 of a file's content, used to detect duplicate uploads
+ */
+export function hashContent(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Re-encode an uploaded image and render its variants; the output carries no
+ * metadata, and the EXIF orientation is applied to the pixels before it is dropped
+ * @param content The uploaded file
+ * @returns The original, re-encoded in its format, followed by the WebP variants
+ */
+export async function processImage(
+  content: Buffer,
+): Promise<ProcessedImageVariant[]> {
+  let format: string | undefined;
+  try {
+    ({ format } = await sharp(content).metadata());
+  } catch {
+    throw new Error('The file is not a readable image');
+  }
+  if (!format || !SUPPORTED_IMAGE_FORMATS.includes(format)) {
+    throw new Error(
+      `Unsupported image format ${format ?? 'unknown'}, expected one of: ${SUPPORTED_IMAGE_FORMATS.join(', ')}`,
+    );
+  }
+
+  // sharp drops all metadata unless asked to keep it
+  const oriented = sharp(content).rotate();
+  const original = await oriented
+    .clone()
+    .toFormat(format as keyof sharp.FormatEnum, { quality: ORIGINAL_QUALITY })
+    .toBuffer({ resolveWithObject: true });
+
+  const variants: ProcessedImageVariant[] = [
+    {
+      name: 'original',
+      buffer: original.data,
+      contentType: `image/${original.info.format}`,
+      extension: original.info.format === 'jpeg' ? 'jpg' : original.info.format,
+      width: original.info.width,
+      height: original.info.height,
+    },
+  ];
+
+  for (const variant of RESIZED_VARIANTS) {
+    const { data, info } = await oriented
+      .clone()
+      .resize(variant.width, variant.height, {
+        fit: variant.fit,
+        withoutEnlargement: true,
+      })
+      .webp({ quality: VARIANT_QUALITY })
+      .toBuffer({ resolveWithObject: true });
+    variants.push({
+      name: variant.name,
+      buffer: data,
+      contentType: 'image/webp',
+      extension: 'webp',
+      width: info.width,
+      height: info.height,
+    });
+  }
+
+  return variants;
+}
@@ -0,0 +1,33 @@
+export type NeighborhoodGeometryType = 'Polygon' | 'MultiPolygon';
+
+/**
+ * A colonia read from a GeoJSON feature, ready to be stored
+ */
+export interface NeighborhoodInput {
+  name: string;
+  city: string | null;
+  state: string | null;
+  geometry: {
+    type: NeighborhoodGeometryType;
+    coordinates: number[][][] | number[][][][];
+  };
+}
+
+export interface NeighborhoodImportFailure {
+  // Position of the feature in the file
+  feature: number;
+  name?: string;
+  reason: string;
+}
+
+export interface NeighborhoodImportSummary {
+  source: string;
+  imported: number;
+  failed: number;
+  failures: NeighborhoodImportFailure[];
+}
+
+export interface NeighborhoodAssignmentSummary {
+  scanned: number;
+  updated: number;
+}
@@ -0,0 +1,28 @@
+/**
+ * Neighborhoods Controller
+ *
+ * Changes:
+ * - Created the endpoints listing the imported colonias and showing the
+ *   polygon of one
+ */
+import { Controller, Get, Param, Query } from '@nestjs/common';
+import { NeighborhoodsService } from './neighborhoods.service';
+import { Neighborhood } from './schemas/neighborhood.schema';
+
+@Controller('neighborhoods')
+export class NeighborhoodsController {
+  constructor(private readonly neighborhoodsService: NeighborhoodsService) {}
+
+  @Get()
+  async findAll(
+    @Query('city') city?: string,
+    @Query('state') state?: string,
+  ): Promise<Omit<Neighborhood, 'geometry'>[]> {
+    return this.neighborhoodsService.findAll({ city, state });
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string): Promise<Neighborhood> {
+    return this.neighborhoodsService.findOne(id);
+  }
+}
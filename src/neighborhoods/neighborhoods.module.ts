@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { NeighborhoodsController } from './neighborhoods.controller';
+import { NeighborhoodsService } from './neighborhoods.service';
+import {
+  Neighborhood,
+  NeighborhoodSchema,
+} from './schemas/neighborhood.schema';
+import { Property, PropertySchema } from '../property/schemas/property.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Neighborhood.name, schema: NeighborhoodSchema },
+      { name: Property.name, schema: PropertySchema },
+    ]),
+  ],
+  controllers: [NeighborhoodsController],
+  providers: [NeighborhoodsService],
+  exports: [NeighborhoodsService],
+})
+export class NeighborhoodsModule {}
@@ -0,0 +1,197 @@
+/**
+ * Neighborhoods Service
+ *
+ * Changes:
+ * - Created the colonia polygons: import from GeoJSON, point-in-polygon lookup
+ *   of a listing's colonia through the 2dsphere index, and the reassignment
+ *   of every stored listing after an import
+ */
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { AnyBulkWriteOperation, Model, Types } from 'mongoose';
+import {
+  Neighborhood,
+  NeighborhoodDocument,
+} from './schemas/neighborhood.schema';
+import {
+  GeoPoint,
+  Property,
+  PropertyDocument,
+} from '../property/schemas/property.schema';
+import {
+  NeighborhoodAssignmentSummary,
+  NeighborhoodImportSummary,
+} from './interfaces/neighborhood.interface';
+import { parseNeighborhoodFeatures } from './utils/geojson-neighborhoods';
+import { foldText } from '../property/utils/text-search';
+
+// Listing updates sent per bulkWrite during a reassignment
+const ASSIGNMENT_BATCH_SIZE = 500;
+
+type NeighborhoodRecord = Neighborhood & { _id: Types.ObjectId };
+
+@Injectable()
+export class NeighborhoodsService {
+  private readonly logger = new Logger(NeighborhoodsService.name);
+
+  constructor(
+    @InjectModel(Neighborhood.name)
+    private neighborhoodModel: Model<NeighborhoodDocument>,
+    @InjectModel(Property.name)
+    private propertyModel: Model<PropertyDocument>,
+  ) {}
+
+  /**
+   * List the colonias, without their polygons
+   * @param filters Optional city and state
+   */
+  async findAll(
+    filters: { city?: string; state?: string } = {},
+  ): Promise<Omit<NeighborhoodRecord, 'geometry'>[]> {
+    const query: Record<string, any> = {};
+    if (filters.city) {
+      query.city = filters.city;
+    }
+    if (filters.state) {
+      query.state = filters.state;
+    }
+
+    return this.neighborhoodModel
+      .find(query, { geometry: 0 })
+      .sort({ state: 1, city: 1, normalized: 1 })
+      .lean<Omit<NeighborhoodRecord, 'geometry'>[]>()
+      .exec();
+  }
+
+  async findOne(id: string): Promise<NeighborhoodRecord> {
+    const neighborhood = Types.ObjectId.isValid(id)
+      ? await this.neighborhoodModel.findById(id).lean<NeighborhoodRecord>()
+      : null;
+    if (!neighborhood) {
+      throw new NotFoundException(`Neighborhood with ID ${id} not found`);
+    }
+    return neighborhood;
+  }
+
+  /**
+   * Import the colonias of a GeoJSON FeatureCollection; a colonia already
+   * stored for the same city and state gets the new polygon
+   * @param geojson The parsed file
+   * @param source Name of the file, recorded on each colonia
+   * @param defaults City and state of the features that do not name them
+   * @returns How many colonias were imported, and why the others were not
+   */
+  async importGeoJson(
+    geojson: unknown,
+    source: string,
+    defaults: { city?: string; state?: string } = {},
+  ): Promise<NeighborhoodImportSummary> {
+    const { neighborhoods, failures } = parseNeighborhoodFeatures(geojson);
+    let imported = 0;
+
+    // One at a time, so a polygon MongoDB cannot index fails on its own
+    for (const { feature, ...neighborhood } of neighborhoods) {
+      const city = neighborhood.city ?? defaults.city ?? null;
+      const state = neighborhood.state ?? defaults.state ?? null;
+      const normalized = foldText(neighborhood.name);
+      try {
+        await this.neighborhoodModel.updateOne(
+          { normalized, city, state },
+          {
+            $set: {
+              name: neighborhood.name,
+              source,
+              geometry: neighborhood.geometry,
+            },
+          },
+          { upsert: true },
+        );
+        imported++;
+      } catch (error) {
+        failures.push({
+          feature,
+          name: neighborhood.name,
+          reason: (error as Error).message,
+        });
+      }
+    }
+
+    failures.sort((a, b) => a.feature - b.feature);
+    this.logger.log(
+      `Imported ${imported} neighborhoods from ${source}, ${failures.length} failed`,
+    );
+    return { source, imported, failed: failures.length, failures };
+  }
+
+  /**
+   * Find the colonia containing a point
+   * @param point The GeoJSON point of a listing
+   * @returns The colonia's name, or null outside every imported colonia
+   */
+  async findNameForPoint(point?: GeoPoint): Promise<string | null> {
+    if (!point) {
+      return null;
+    }
+
+    const neighborhood = await this.neighborhoodModel
+      .findOne(
+        { geometry: { $geoIntersects: { $geometry: point } } },
+        { _id: 0, name: 1 },
+      )
+      .lean<{ name: string }>()
+      .exec();
+    return neighborhood?.name ?? null;
+  }
+
+  /**
+   * Recompute location.neighborhood for every listing with a point, e.g.
+   * after importing new polygons; listings whose colonia did not change are
+   * left alone, and updatedAt is not touched
+   * @returns How many listings were checked and updated
+   */
+  async assignProperties(): Promise<NeighborhoodAssignmentSummary> {
+    let scanned = 0;
+    let updated = 0;
+    let batch: AnyBulkWriteOperation<Property>[] = [];
+
+    const cursor = this.propertyModel
+      .find(
+        { 'location.point': { $exists: true } },
+        { 'location.point': 1, 'location.neighborhood': 1 },
+      )
+      .lean<{
+        _id: Types.ObjectId;
+        location: { point: GeoPoint; neighborhood?: string | null };
+      }>()
+      .cursor();
+
+    for await (const listing of cursor) {
+      scanned++;
+      const neighborhood = await this.findNameForPoint(listing.location.point);
+      if (neighborhood === (listing.location.neighborhood ?? null)) {
+        continue;
+      }
+
+      batch.push({
+        updateOne: {
+          filter: { _id: listing._id },
+          update: { $set: { 'location.neighborhood': neighborhood } },
+          timestamps: false,
+        },
+      });
+      if (batch.length >= ASSIGNMENT_BATCH_SIZE) {
+        updated += (await this.propertyModel.bulkWrite(batch)).modifiedCount;
+        batch = [];
+      }
+    }
+
+    if (batch.length > 0) {
+      updated += (await this.propertyModel.bulkWrite(batch)).modifiedCount;
+    }
+
+    this.logger.log(
+      `Assigned neighborhoods: ${updated} of ${scanned} listings updated`,
+    );
+    return { scanned, updated };
+  }
+}
@@ -0,0 +1,58 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+import { NeighborhoodGeometryType } from '../interfaces/neighborhood.interface';
+
+export type NeighborhoodDocument = Neighborhood & Document;
+
+/**
+ * GeoJSON polygon of a colonia
+ * Note: GeoJSON stores positions as [lng, lat]
+ */
+@Schema({ _id: false })
+export class NeighborhoodGeometry {
+  @Prop({ required: true, type: String, enum: ['Polygon', 'MultiPolygon'] })
+  type: NeighborhoodGeometryType;
+
+  @Prop({ required: true, type: MongooseSchema.Types.Mixed })
+  coordinates: number[][][] | number[][][][];
+}
+
+const NeighborhoodGeometrySchema =
+  SchemaFactory.createForClass(NeighborhoodGeometry);
+
+@Schema({ timestamps: true })
+export class Neighborhood {
+  @Prop({ required: true, type: String })
+  name: string;
+
+  // Accent-folded, lowercase name used for matching
+  @Prop({ required: true, type: String })
+  normalized: string;
+
+  @Prop({ type: String, default: null })
+  city: string | null;
+
+  @Prop({ type: String, default: null })
+  state: string | null;
+
+  // GeoJSON file the polygon was imported from
+  @Prop({ required: true, type: String })
+  source: string;
+
+  @Prop({ required: true, type: NeighborhoodGeometrySchema })
+  geometry: NeighborhoodGeometry;
+}
+
+export const NeighborhoodSchema = SchemaFactory.createForClass(Neighborhood);
+
+// Index for the point-in-polygon lookup of a listing's colonia
+NeighborhoodSchema.index(
+  { geometry: '2dsphere' },
+  { name: 'NeighborhoodGeometryIndex' },
+);
+
+// A re-import replaces the polygon of a colonia instead of duplicating it
+NeighborhoodSchema.index(
+  { normalized: 1, city: 1, state: 1 },
+  { unique: true },
+);
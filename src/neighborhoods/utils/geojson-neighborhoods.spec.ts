@@ -0,0 +1,91 @@
+import { parseNeighborhoodFeatures } from './geojson-neighborhoods';
+
+const square = [
+  [-103.37, 20.67],
+  [-103.36, 20.67],
+  [-103.36, 20.68],
+  [-103.37, 20.68],
+  [-103.37, 20.67],
+];
+
+describe('parseNeighborhoodFeatures', () => {
+  it('reads the name, city and state from the usual properties', () => {
+    const { neighborhoods, failures } = parseNeighborhoodFeatures({
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          properties: {
+            NOMBRE: ' Americana ',
+            MUNICIPIO: 'Guadalajara',
+            ESTADO: 'Jalisco',
+          },
+          geometry: { type: 'Polygon', coordinates: [square] },
+        },
+      ],
+    });
+
+    expect(failures).toEqual([]);
+    expect(neighborhoods).toEqual([
+      {
+        feature: 0,
+        name: 'Americana',
+        city: 'Guadalajara',
+        state: 'Jalisco',
+        geometry: { type: 'Polygon', coordinates: [square] },
+      },
+    ]);
+  });
+
+  it('closes open rings of multipolygons', () => {
+    const { neighborhoods } = parseNeighborhoodFeatures({
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          properties: { colonia: 'Providencia' },
+          geometry: {
+            type: 'MultiPolygon',
+            coordinates: [[square.slice(0, 4)]],
+          },
+        },
+      ],
+    });
+
+    expect(neighborhoods[0].geometry.coordinates).toEqual([[square]]);
+    expect(neighborhoods[0].city).toBeNull();
+  });
+
+  it('reports features without a name or a usable polygon', () => {
+    const { neighborhoods, failures } = parseNeighborhoodFeatures({
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          properties: {},
+          geometry: { type: 'Polygon', coordinates: [square] },
+        },
+        {
+          type: 'Feature',
+          properties: { name: 'Centro' },
+          geometry: { type: 'Point', coordinates: [-103.35, 20.67] },
+        },
+        {
+          type: 'Feature',
+          properties: { name: 'Lafayette' },
+          geometry: { type: 'Polygon', coordinates: [square.slice(0, 2)] },
+        },
+      ],
+    });
+
+    expect(neighborhoods).toEqual([]);
+    expect(failures.map((failure) => failure.feature)).toEqual([0, 1, 2]);
+    expect(failures[1]).toMatchObject({ name: 'Centro' });
+  });
+
+  it('rejects anything but a feature collection', () => {
+    expect(() => parseNeighborhoodFeatures({ type: 'Feature' })).toThrow(
+      'Expected a GeoJSON FeatureCollection',
+    );
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * GeoJSON Neighborhood Utilities
+ *
+ * Changes:
+ * - Created the parsing of colonia polygons from GeoJSON feature collections,
+ *   as published by municipalities and INEGI
+ */
+import {
+  NeighborhoodImportFailure,
+  NeighborhoodInput,
+} from '../interfaces/neighborhood.interface';
+
+// Feature properties holding the name, city and state, by preference
+const NAME_PROPERTIES = [
+  'name',
+  'nombre',
+  'colonia',
+  'nom_col',
+  'NOMBRE',
+  'COLONIA',
+  'NOM_COL',
+];
+const CITY_PROPERTIES = [
+  'city',
+  'municipio',
+  'ciudad',
+  'nom_mun',
+  'MUNICIPIO',
+  'NOM_MUN',
+];
+const STATE_PROPERTIES = [
+  'state',
+  'estado',
+  'entidad',
+  'nom_ent',
+  'ESTADO',
+  'NOM_ENT',
+];
+
+type Position = number[];
+
+/**
+ * Read the colonias of a GeoJSON FeatureCollection; features without a name
+ * or without a valid Polygon/MultiPolygon are reported instead of imported
+ * @param geojson The parsed file
+ * @returns The colonias, by feature position, and the features left out
+ */
+export function parseNeighborhoodFeatures(geojson: unknown): {
+  neighborhoods: (NeighborhoodInput & { feature: number })[];
+  failures: NeighborhoodImportFailure[];
+} {
+  const collection = geojson as { type?: string; features?: unknown };
+  if (
+    collection?.type !== 'FeatureCollection' ||
+    !Array.isArray(collection.features)
+  ) {
+    throw new Error('Expected a GeoJSON FeatureCollection');
+  }
+
+  const neighborhoods: (NeighborhoodInput & { feature: number })[] = [];
+  const failures: NeighborhoodImportFailure[] = [];
+
+  collection.features.forEach((value: unknown, feature: number) => {
+    const { properties, geometry } = (value ?? {}) as {
+      properties?: Record<string, unknown> | null;
+      geometry?: { type?: string; coordinates?: unknown } | null;
+    };
+    const name = pickProperty(properties, NAME_PROPERTIES);
+    if (!name) {
+      failures.push({ feature, reason: 'Missing colonia name' });
+      return;
+    }
+
+    let coordinates: Position[][] | Position[][][] | null = null;
+    if (geometry?.type === 'Polygon') {
+      coordinates = normalizePolygon(geometry.coordinates);
+    } else if (
+      geometry?.type === 'MultiPolygon' &&
+      Array.isArray(geometry.coordinates)
+    ) {
+      const polygons = geometry.coordinates
+        .map(normalizePolygon)
+        .filter((polygon): polygon is Position[][] => polygon !== null);
+      coordinates =
+        polygons.length > 0 && polygons.length === geometry.coordinates.length
+          ? polygons
+          : null;
+    }
+
+    if (!coordinates) {
+      failures.push({
+        feature,
+        name,
+        reason: `Expected a valid Polygon or MultiPolygon geometry, got ${geometry?.type ?? 'none'}`,
+      });
+      return;
+    }
+
+    neighborhoods.push({
+      feature,
+      name,
+      city: pickProperty(properties, CITY_PROPERTIES),
+      state: pickProperty(properties, STATE_PROPERTIES),
+      geometry: {
+        type: geometry!.type as 'Polygon' | 'MultiPolygon',
+        coordinates,
+      },
+    });
+  });
+
+  return { neighborhoods, failures };
+}
+
+function pickProperty(
+  properties: Record<string, unknown> | null | undefined,
+  keys: string[],
+): string | null {
+  for (const key of keys) {
+    const value = properties?.[key];
+    if (typeof value === 'string' && value.trim()) {
+      return value.trim().replace(/\s+/g, ' ');
+    }
+  }
+  return null;
+}
+
+/**
+ * Check the rings of a polygon, closing the ones whose last position does not
+ * repeat the first
+ * @returns The rings, or null if a ring is too short or a position is out of range
+ */
+function normalizePolygon(rings: unknown): Position[][] | null {
+  if (!Array.isArray(rings) || rings.length === 0) {
+    return null;
+  }
+
+  const normalized: Position[][] = [];
+  for (const ring of rings) {
+    if (!Array.isArray(ring) || !ring.every(isPosition)) {
+      return null;
+    }
+
+    const positions = ring as Position[];
+    const [first] = positions;
+    const last = positions[positions.length - 1];
+    const closed =
+      first && (first[0] !== last[0] || first[1] !== last[1])
+        ? [...positions, first]
+        : positions;
+
+    // A closed ring needs three distinct positions plus the closing one
+    if (closed.length < 4) {
+      return null;
+    }
+    normalized.push(closed);
+  }
+
+  return normalized;
+}
+
+function isPosition(value: unknown): boolean {
+  return (
+    Array.isArray(value) &&
+    value.length >= 2 &&
+    typeof value[0] === 'number' &&
+    typeof value[1] === 'number' &&
+    Math.abs(value[0]) <= 180 &&
+    Math.abs(value[1]) <= 90
+  );
+}
@@ -3,6 +3,7 @@
  *
  * Changes:
  * - Created a new DTO for handling queries with property context
+ * - Added the optional userId owning the favorites the chat saves to
  */
 import { IsString, IsOptional, IsUUID } from 'class-validator';
 
@@ -16,4 +17,8 @@ export class PropertyQueryDto {
   @IsOptional()
   @IsUUID()
   sessionId?: string;
+
+  @IsOptional()
+  @IsString()
+  userId?: string;
 }
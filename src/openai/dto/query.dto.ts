@@ -8,4 +8,9 @@ export class QueryDto {
   @IsString()
   @IsOptional()
   sessionId?: string;
+
+  // Owner of the favorites the chat saves to; the session's own list when omitted
+  @IsString()
+  @IsOptional()
+  userId?: string;
 }
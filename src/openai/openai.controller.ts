@@ -8,6 +8,20 @@
  * - Updated to store currentPropertyId in conversation for better context handling
  * - Fixed extraActions property in the response of the query endpoint
  * - Added ResponseAgentService to enhance the final response to the user
+ * - Search results of the query endpoint include cursor pagination metadata;
+ *   further pages are fetched from POST /property-search with the returned
+ *   mongoQuery and sort, and metadata.pagination.nextCursor as options.cursor
+ * - "guárdala en mis favoritos" adds the property being discussed to the
+ *   favorites of the userId, or of the session, without calling the agents;
+ *   search results flag the properties already shortlisted
+ * - "¿cuál es mejor?" compares the properties discussed last with
+ *   PropertyService.compareProperties, once two properties were discussed
+ *   and the question does not name a zone or city; otherwise the agents
+ *   answer it
+ * - When an agent lists properties alongside its query, the chat results are
+ *   the page of that query, matching the returned pagination and statistics
+ * - Chat search results carry their displayPrice in the currency the query
+ *   was asked in
  */
 import {
   Controller,
@@ -37,6 +51,14 @@ import { AgentOrchestratorService } from '../agents/orchestrator/agent-orchestra
 import { ConversationDocument } from '../conversation/schemas/conversation.schema';
 import { ChatMessage } from '../agents/interfaces/agent.interface';
 import { ResponseAgentService } from '../agents/response-agent/response-agent.service';
+import { ShortlistsService } from '../shortlists/shortlists.service';
+import { isAddToFavoritesRequest } from '../shortlists/utils/favorite-intent';
+import { parseCurrency } from '../exchange-rates/utils/currency';
+import {
+  MAX_COMPARED_PROPERTIES,
+  formatComparisonSummary,
+  isComparisonRequest,
+} from '../property/utils/property-comparison';
 
 interface QueryResponse {
   sessionId: string;
@@ -62,6 +84,7 @@ export class OpenAiController {
     private readonly conversationService: ConversationService,
     private readonly agentOrchestratorService: AgentOrchestratorService,
     private readonly responseAgentService: ResponseAgentService,
+    private readonly shortlistsService: ShortlistsService,
   ) {}
 
   @Post('query')
@@ -72,7 +95,7 @@ export class OpenAiController {
       let sessionId = queryDto.sessionId;
 
       // Get or create conversation
-      let conversation;
+      let conversation: ConversationDocument | null;
       if (!sessionId) {
         sessionId = await this.conversationService.createSession();
         conversation =
@@ -87,6 +110,61 @@ export class OpenAiController {
         }
       }
 
+      // Save the property being discussed without going through the agents
+      if (isAddToFavoritesRequest(queryDto.message)) {
+        const favorite = await this.saveFavorite(
+          sessionId,
+          queryDto.message,
+          conversation?.currentPropertyId,
+          queryDto.userId,
+        );
+        return {
+          sessionId,
+          response: favorite.response,
+          searchResults: {
+            data: [],
+            metadata: {
+              executionTime: 0,
+              statistics: {
+                totalInDatabase: 0,
+                matchingResults: 0,
+                percentageMatch: 0,
+              },
+            },
+          },
+          extraActions: favorite.extraActions,
+        };
+      }
+
+      // Compare the properties being discussed without going through the agents
+      const recentPropertyIds = conversation?.recentPropertyIds || [];
+      if (isComparisonRequest(queryDto.message, recentPropertyIds.length)) {
+        const comparison = await this.compareDiscussedProperties(
+          sessionId,
+          queryDto.message,
+          recentPropertyIds,
+        );
+        return {
+          sessionId,
+          response: comparison.response,
+          searchResults: {
+            data: await this.shortlistsService.flagShortlisted(
+              comparison.properties,
+              { userId: queryDto.userId, sessionId },
+            ),
+            metadata: {
+              executionTime: 0,
+              statistics: {
+                totalInDatabase: comparison.properties.length,
+                matchingResults: comparison.properties.length,
+                percentageMatch: 100,
+              },
+            },
+          },
+          extraActions: comparison.extraActions,
+        };
+      }
+
       // Get conversation history
       const conversationHistory = this.prepareConversationHistory(conversation);
 
@@ -133,8 +211,13 @@ export class OpenAiController {
         };
       }
 
-      // If we have properties directly in the result, use them
-      if (result.data?.properties && Array.isArray(result.data.properties)) {
+      // If we have properties directly in the result and no search to page
+      // through, use them as they are
+      if (
+        result.data?.properties &&
+        Array.isArray(result.data.properties) &&
+        !result.data.mongoQuery
+      ) {
         this.logger.debug(
           `Using ${result.data.properties.length} properties from result`,
         );
@@ -191,27 +274,17 @@ export class OpenAiController {
                 sort: result.data.sort,
                 projection: result.data.projection,
               },
+              currency: parseCurrency(result.data.currency) ?? undefined,
             };
 
             searchResults =
               await this.propertyService.executeQuery(executeQueryDto);
 
+            // Properties listed by the agent are not used here: the page of
+            // the query is what its pagination and statistics describe
             this.logger.debug(
               `Query returned ${searchResults.data.length} results`,
             );
-
-            // If we have properties from the MapsAgent filtering, use those instead
-            if (
-              result.data.properties &&
-              Array.isArray(result.data.properties)
-            ) {
-              this.logger.debug(
-                `Using ${result.data.properties.length} filtered properties from MapsAgent`,
-              );
-              searchResults.data = result.data.properties;
-              searchResults.metadata.statistics.matchingResults =
-                result.data.properties.length;
-            }
           } else {
             this.logger.warn(
               `Invalid MongoDB query structure: ${JSON.stringify(result.data.mongoQuery)}`,
@@ -350,6 +423,12 @@ export class OpenAiController {
         // Continue with the original response in case of error
       }
 
+      // Flag the results already in the session's or the user's shortlists
+      searchResults.data = await this.shortlistsService.flagShortlisted(
+        searchResults.data,
+        { userId: queryDto.userId, sessionId },
+      );
+
       return {
         sessionId,
         response: result.response,
@@ -415,8 +494,24 @@ export class OpenAiController {
 
       // Store the current property ID in the conversation
       conversation.currentPropertyId = propertyId;
+      conversation.recentPropertyIds = [
+        ...(conversation.recentPropertyIds || []).filter(
+          (recentId) => recentId !== propertyId,
+        ),
+        propertyId,
+      ].slice(-MAX_COMPARED_PROPERTIES);
       await conversation.save();
 
+      if (isAddToFavoritesRequest(message)) {
+        const favorite = await this.saveFavorite(
+          sessionId,
+          message,
+          propertyId,
+          propertyQueryDto.userId,
+        );
+        return { sessionId, response: favorite.response };
+      }
+
       // Always add the property context as a system message for this request
       // This ensures the property details are included in the context
       await this.conversationService.addMessage({
@@ -464,6 +559,104 @@ export class OpenAiController {
     }
   }
 
+  /**
+   * Add the property being discussed to the favorites and record the exchange
+   * @param sessionId The session ID
+   * @param message The user's message
+   * @param propertyId The property being discussed, if any
+   * @param userId The user owning the favorites, if known
+   * @returns The reply and the action for the client
+   */
+  private async saveFavorite(
+    sessionId: string,
+    message: string,
+    propertyId: string | undefined,
+    userId?: string,
+  ): Promise<{ response: string; extraActions: Record<string, any>[] }> {
+    let response: string;
+    let extraActions: Record<string, any>[] = [];
+
+    if (!propertyId) {
+      response =
+        'Aún no estamos viendo ninguna propiedad. Abre la que te interesa y pídeme de nuevo que la guarde en tus favoritos.';
+    } else {
+      try {
+        const favorites = await this.shortlistsService.addFavorite(
+          { userId, sessionId },
+          propertyId,
+        );
+        response = '¡Listo! Guardé esta propiedad en tus favoritos.';
+        extraActions = [
+          {
+            action: 'favorite',
+            context: 'the property was added to the favorites',
+            propertyId,
+            shortlistId: String(favorites._id),
+          },
+        ];
+      } catch (error) {
+        this.logger.error(`Error saving favorite: ${(error as Error).message}`);
+        response =
+          'Lo siento, no pude guardar esta propiedad en tus favoritos. Por favor, intenta de nuevo.';
+      }
+    }
+
+    await this.conversationService.appendMessages(sessionId, [
+      { role: 'user', content: message },
+      { role: 'assistant', content: response },
+    ]);
+    return { response, extraActions };
+  }
+
+  /**
+   * Compare the properties discussed last and record the exchange
+   * @param sessionId The session ID
+   * @param message The user's message
+   * @param recentPropertyIds The properties discussed most recently, at least two
+   * @returns The reply, the compared properties and the comparison action
+   */
+  private async compareDiscussedProperties(
+    sessionId: string,
+    message: string,
+    recentPropertyIds: string[],
+  ): Promise<{
+    response: string;
+    properties: Property[];
+    extraActions: Record<string, any>[];
+  }> {
+    const ids = recentPropertyIds.slice(-MAX_COMPARED_PROPERTIES);
+    let properties: Property[] = [];
+    let response: string;
+    let extraActions: Record<string, any>[] = [];
+
+    try {
+      const comparison = await this.propertyService.compareProperties(ids);
+      response = formatComparisonSummary(comparison);
+      extraActions = [
+        {
+          action: 'compare',
+          context: 'the user asked which of the listings is better',
+          comparison,
+        },
+      ];
+      properties = await Promise.all(
+        ids.map((id) => this.propertyService.findOne(id)),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Error comparing properties: ${(error as Error).message}`,
+      );
+      response =
+        'Lo siento, no pude comparar estas propiedades. Por favor, intenta de nuevo.';
+    }
+
+    await this.conversationService.appendMessages(sessionId, [
+      { role: 'user', content: message },
+      { role: 'assistant', content: response },
+    ]);
+    return { response, properties, extraActions };
+  }
+
   /**
    * Create a system message with property context
    * @param property The property to create context for
@@ -534,7 +727,7 @@ export class OpenAiController {
 
   // Helper method to prepare conversation history for the agent orchestrator
   private prepareConversationHistory(
-    conversation: ConversationDocument,
+    conversation: ConversationDocument | null,
   ): ChatMessage[] {
     if (
       !conversation ||
@@ -5,6 +5,7 @@
  * - Added AgentsModule to imports to resolve dependency injection
  * - Added forwardRef() to break circular dependency with AgentsModule
  * - Added ResponseAgentModule to imports to resolve dependency injection
+ * - Added ShortlistsModule so the chat can save properties to the favorites
  */
 import { Module, forwardRef } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
@@ -14,11 +15,13 @@ import { ConversationModule } from '../conversation/conversation.module';
 import { PropertyModule } from '../property/property.module';
 import { AgentsModule } from '../agents/agents.module';
 import { ResponseAgentModule } from '../agents/response-agent/response-agent.module';
+import { ShortlistsModule } from '../shortlists/shortlists.module';
 
 @Module({
   imports: [
     ConfigModule,
     PropertyModule,
+    ShortlistsModule,
     forwardRef(() => ConversationModule),
     forwardRef(() => AgentsModule),
     forwardRef(() => ResponseAgentModule),
@@ -5,6 +5,10 @@
  * - Enhanced instructions for extraActions property
  * - Added more examples for extraActions
  * - Improved formatting for better readability
+ * - Added the listingCategory field for foreclosures and vacation rentals
+ * - Added the top-level currency field for prices given in US dollars, and
+ *   the "mil" / "millones" amounts
+ * - Added the rental terms (rental.furnished, rental.petsAllowed, ...)
  */
 import { ROLE } from './role';
 
@@ -31,6 +35,12 @@ ${ROLE}
   - "Renta"
   - "Desarrollo"
 
+- **ListingCategory (for field \`listingCategory\`):**  
+  Must be one of the following exact strings:
+  - "standard"
+  - "foreclosure" (remates, propiedades adjudicadas o de recuperación bancaria; always with operationType "Venta")
+  - "vacation" (rentas vacacionales o temporales; always with operationType "Renta")
+
 - **Amenity (for field \`amenities\`):**  
   Must be one of the following exact strings:
   - "Alberca"
@@ -54,7 +64,7 @@ ${ROLE}
 - **Additional Schema Fields:**  
   The complete property schema includes:
   - **title** (string) and **description** (string)
-  - **price** (number)
+  - **price** (number, in the currency named by the top-level \`currency\` field)
   - **location** (object) with fields:
     - \`state\` (string)
     - \`city\` (string)
@@ -67,6 +77,12 @@ ${ROLE}
     - \`lotSize\` (number)
     - \`parking\` (number)
     - \`floors\` (number)
+  - **rental** (object, only on listings with operationType "Renta"; a term the listing does not state is null) with fields:
+    - \`furnished\` (boolean)
+    - \`petsAllowed\` (boolean)
+    - \`minLeaseMonths\` (number, the shortest lease accepted, in months)
+    - \`depositMonths\` (number, the security deposit in months of rent; 0 means no deposit)
+    - \`utilitiesIncluded\` (boolean)
   - **images** (array of strings)
   - **propertyAge** (number)
   - **maintenanceFee** (number)
@@ -83,7 +99,8 @@ Your response must be a valid JSON object with the following structure:
       "action": "maps",
       "context": "the user is looking for a property near a park, gym, hospital, etc."
     }
-  ]
+  ],
+  "currency": "MXN"
 }
 \`\`\`
 - **"message" Field:**  
@@ -111,6 +128,9 @@ Your response must be a valid JSON object with the following structure:
     - "maps": Used when the user is looking for properties near specific locations or amenities.
   - The context should be a clear description of what the user is looking for, e.g., "the user is looking for a property near a park".
   - IMPORTANT: Always include this field as an ARRAY, even if it's empty. If there are no extra actions, use an empty array: \`"extraActions": []\`.
+- **"currency" Field:**
+  - The currency of the amounts in the price conditions: "USD" when the user gives the price in dollars ("dólares", "dls", "USD"), otherwise "MXN".
+  - Write the amount exactly as the user said it; never convert it to the other currency. The conversion uses the current exchange rate.
 
 **Conversion Guidelines:**  
 
@@ -134,7 +154,10 @@ Your response must be a valid JSON object with the following structure:
      }
      \`\`\`
     - For price constraints, determine if the query implies a minimum (\`$gte\`) or maximum (\`$lte\`) price and construct the query accordingly.
+    - Expand spoken amounts: "mil" multiplies by 1,000 and "millón" / "millones" by 1,000,000 (e.g. "300 mil" is 300000, "2.5 millones" is 2500000). "Menos de 300 mil dólares" is \`"price": { "$lte": 300000 }\` with \`"currency": "USD"\`.
     - Include amenities or other features if mentioned.
+    - Rental terms always go with \`"operationType": "Renta"\`: "amueblado" maps to \`"rental.furnished": true\` ("sin amueblar" to \`false\`), "que acepte mascotas" or "pet friendly" to \`"rental.petsAllowed": true\`, "servicios incluidos" to \`"rental.utilitiesIncluded": true\`, "sin depósito" to \`"rental.depositMonths": 0\`, and a lease the user can commit to ("por 6 meses", "contrato corto") to \`"rental.minLeaseMonths": { "$lte": 6 }\`.
+    - Only filter by \`listingCategory\` when the user asks for it: "remate", "remates" or "adjudicada" map to \`"listingCategory": "foreclosure"\` with \`"operationType": "Venta"\`, and "vacacional", "para vacacionar", "por temporada" or "por noche" map to \`"listingCategory": "vacation"\` with \`"operationType": "Renta"\`.
 
 - **Output Formatting:**  
   - Return a JSON object strictly following the defined structure.
@@ -161,6 +184,37 @@ Your response must be a valid JSON object with the following structure:
   }
   \`\`\`
 
+  Q - "Busco casas en remate en Tijuana"
+  A - 
+  \`\`\`json
+  {
+    "message": "¡Claro! Te muestro las casas en remate que tenemos en Tijuana.",
+    "query": { "propertyType": "Casas", "operationType": "Venta", "listingCategory": "foreclosure", "location.city": "Tijuana" },
+    "extraActions": []
+  }
+  \`\`\`
+
+  Q - "Busco un departamento amueblado que acepte mascotas en Monterrey"
+  A - 
+  \`\`\`json
+  {
+    "message": "¡Claro! Te muestro departamentos amueblados en renta que aceptan mascotas en Monterrey.",
+    "query": { "propertyType": "Departamentos", "operationType": "Renta", "rental.furnished": true, "rental.petsAllowed": true, "location.city": "Monterrey" },
+    "extraActions": []
+  }
+  \`\`\`
+
+  Q - "Casas en venta en Cancún por menos de 300 mil dólares"
+  A - 
+  \`\`\`json
+  {
+    "message": "¡Claro! Te muestro casas en venta en Cancún por menos de 300 mil dólares.",
+    "query": { "propertyType": "Casas", "operationType": "Venta", "location.city": "Cancún", "price": {"$lte": 300000} },
+    "extraActions": [],
+    "currency": "USD"
+  }
+  \`\`\`
+
   Q - "Quiero un departamento cerca de un parque"
   A - 
   \`\`\`json
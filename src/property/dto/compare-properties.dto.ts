@@ -0,0 +1,18 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsMongoId,
+} from 'class-validator';
+import {
+  MAX_COMPARED_PROPERTIES,
+  MIN_COMPARED_PROPERTIES,
+} from '../utils/property-comparison';
+
+export class ComparePropertiesDto {
+  @IsArray()
+  @ArrayMinSize(MIN_COMPARED_PROPERTIES)
+  @ArrayMaxSize(MAX_COMPARED_PROPERTIES)
+  @IsMongoId({ each: true })
+  ids: string[];
+}
@@ -8,14 +8,20 @@ import {
   Min,
   IsNotEmpty,
   IsEmail,
+  IsMongoId,
+  IsBoolean,
+  IsInt,
+  IsDateString,
 } from 'class-validator';
-import { Type } from 'class-transformer';
+import { Transform, TransformFnParams, Type } from 'class-transformer';
 import {
   PropertyTypeName,
   OperationType,
+  ListingCategory,
   PropertyEntityType,
   PropertyStatus,
   Amenity,
+  Currency,
 } from '../interfaces/property-filters.interface';
 
 class CoordinatesDto {
@@ -72,6 +78,67 @@ class PropertyFeaturesDto {
   floors?: number;
 }
 
+const TRUE_VALUES = ['true', 'sí', 'si', '1'];
+const FALSE_VALUES = ['false', 'no', '0'];
+
+/**
+ * Read a boolean from the original value of an imported cell; its implicit
+ * conversion would turn any non-empty text, 'false' included, into true
+ */
+function toBoolean({ obj, key }: TransformFnParams): unknown {
+  const value = (obj as Record<string, unknown>)[key];
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const text = value.trim().toLowerCase();
+  if (TRUE_VALUES.includes(text)) {
+    return true;
+  }
+  if (FALSE_VALUES.includes(text)) {
+    return false;
+  }
+  // Left as-is so the @IsBoolean validation reports it
+  return value;
+}
+
+class RentalTermsDto {
+  @Transform(toBoolean)
+  @IsBoolean()
+  @IsOptional()
+  furnished?: boolean;
+
+  @Transform(toBoolean)
+  @IsBoolean()
+  @IsOptional()
+  petsAllowed?: boolean;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  minLeaseMonths?: number;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  depositMonths?: number;
+
+  @Transform(toBoolean)
+  @IsBoolean()
+  @IsOptional()
+  utilitiesIncluded?: boolean;
+}
+
+class DevelopmentDetailsDto {
+  @IsString()
+  @IsOptional()
+  builder?: string;
+
+  @IsDateString()
+  @IsOptional()
+  deliveryDate?: string;
+}
+
 class AgentDto {
   @IsString()
   @IsNotEmpty()
@@ -136,6 +203,10 @@ export class CreatePropertyDto {
   @IsEnum(['Venta', 'Renta', 'Desarrollo'])
   operationType: OperationType;
 
+  @IsEnum(['standard', 'foreclosure', 'vacation'])
+  @IsOptional()
+  listingCategory?: ListingCategory;
+
   @IsEnum(['development', 'property'])
   type: PropertyEntityType;
 
@@ -143,6 +214,10 @@ export class CreatePropertyDto {
   @Min(0)
   price: number;
 
+  @IsEnum(['MXN', 'USD'])
+  @IsOptional()
+  currency?: Currency;
+
   @ValidateNested()
   @Type(() => PropertyLocationDto)
   location: PropertyLocationDto;
@@ -151,6 +226,19 @@ export class CreatePropertyDto {
   @Type(() => PropertyFeaturesDto)
   features: PropertyFeaturesDto;
 
+  // Terms of a rental (operationType Renta)
+  @ValidateNested()
+  @Type(() => RentalTermsDto)
+  @IsOptional()
+  rental?: RentalTermsDto;
+
+  // Builder and delivery date of a development (type development); its units
+  // are added through POST /properties/:id/units
+  @ValidateNested()
+  @Type(() => DevelopmentDetailsDto)
+  @IsOptional()
+  development?: DevelopmentDetailsDto;
+
   @IsArray()
   @IsEnum(
     [
@@ -165,10 +253,23 @@ export class CreatePropertyDto {
   )
   amenities: Amenity[];
 
+  // Filled from mediaIds for listings with uploaded images
   @IsArray()
   @IsString({ each: true })
   @IsNotEmpty({ each: true })
-  images: string[];
+  @IsOptional()
+  images?: string[];
+
+  // Images uploaded through POST /media, in display order
+  @IsArray()
+  @IsMongoId({ each: true })
+  @IsOptional()
+  mediaIds?: string[];
+
+  // Defaults to the first of mediaIds
+  @IsMongoId()
+  @IsOptional()
+  coverMediaId?: string;
 
   @IsNumber()
   @IsOptional()
@@ -4,8 +4,11 @@ import {
   IsObject,
   IsOptional,
   IsNumber,
+  IsBoolean,
+  IsIn,
   Min,
   Max,
+  ValidateNested,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 
@@ -17,6 +20,20 @@ export class QueryOptionsDto {
   @IsObject()
   @IsOptional()
   projection?: Record<string, 1 | 0>;
+
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number;
+
+  @IsString()
+  @IsOptional()
+  cursor?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  facets?: boolean;
 }
 
 export class ExecuteQueryDto {
@@ -25,5 +42,12 @@ export class ExecuteQueryDto {
   query: string;
 
   @IsOptional()
+  @ValidateNested()
+  @Type(() => QueryOptionsDto)
   options?: QueryOptionsDto;
+
+  // Currency of the displayPrice of each listing and of the price statistics
+  @IsIn(['MXN', 'USD'])
+  @IsOptional()
+  currency?: 'MXN' | 'USD';
 }
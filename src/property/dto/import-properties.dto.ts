@@ -0,0 +1,42 @@
+import { IsBoolean, IsIn, IsObject, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ColumnMapping, ImportFormat } from '../utils/import-parser';
+
+/**
+ * Multipart fields sent along with the uploaded file
+ */
+export class ImportPropertiesDto {
+  @IsIn(['csv', 'ndjson'])
+  @IsOptional()
+  format?: ImportFormat;
+
+  // Sent as a JSON object mapping CreatePropertyDto paths to source columns,
+  // e.g. {"title": "Nombre", "location.city": "Ciudad"}
+  @Transform(({ value }: { value: unknown }) => parseJsonObject(value))
+  @IsObject()
+  @IsOptional()
+  mapping?: ColumnMapping;
+
+  @Transform(({ value }: { value: unknown }) =>
+    value === 'true' || value === '1'
+      ? true
+      : value === 'false'
+        ? false
+        : value,
+  )
+  @IsBoolean()
+  @IsOptional()
+  dryRun?: boolean;
+}
+
+function parseJsonObject(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    // Left as-is so the @IsObject validation reports it
+    return value;
+  }
+}
@@ -1,6 +1,29 @@
-import { IsString } from 'class-validator';
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsIn,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
 
 export class SearchPropertiesDto {
   @IsString()
   query: string;
+
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number;
+
+  @IsString()
+  @IsOptional()
+  cursor?: string;
+
+  @IsIn(['MXN', 'USD'])
+  @IsOptional()
+  currency?: 'MXN' | 'USD';
 }
@@ -0,0 +1,20 @@
+export type ImportRowStatus = 'created' | 'updated' | 'failed';
+
+export interface ImportRowResult {
+  /** 1-based row number in the upload, excluding the CSV header */
+  row: number;
+  /** In a dry run, the status the row would have had */
+  status: ImportRowStatus;
+  id?: string;
+  title?: string;
+  errors?: string[];
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  total: number;
+  created: number;
+  updated: number;
+  failed: number;
+  rows: ImportRowResult[];
+}
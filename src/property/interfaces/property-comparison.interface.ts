@@ -0,0 +1,52 @@
+import { OperationType, PropertyTypeName } from './property-filters.interface';
+
+/**
+ * One compared field, with a value per property in request order
+ */
+export interface ComparisonField {
+  field: string;
+  values: (number | null)[];
+  // Difference against the first property; null when either value is missing
+  deltas: (number | null)[];
+  // Index of the most favorable value, null when there is no clear winner
+  best: number | null;
+}
+
+export interface ComparisonAmenity {
+  amenity: string;
+  values: boolean[];
+}
+
+/**
+ * A property against the median of the listings of its city, property type
+ * and operation type
+ */
+export interface MarketPosition {
+  city: string;
+  propertyType: PropertyTypeName;
+  operationType: OperationType;
+  sampleSize: number;
+  medianPrice: number | null;
+  medianPricePerConstructionM2: number | null;
+  // Percentage above (positive) or below (negative) the median
+  priceVsMedian: number | null;
+  pricePerConstructionM2VsMedian: number | null;
+  position: 'below' | 'at' | 'above' | null;
+}
+
+export interface ComparedProperty {
+  _id: string;
+  title: string;
+  propertyType: PropertyTypeName;
+  operationType: OperationType;
+  city: string;
+  state: string;
+  image: string | null;
+  marketPosition: MarketPosition;
+}
+
+export interface PropertyComparison {
+  properties: ComparedProperty[];
+  fields: ComparisonField[];
+  amenities: ComparisonAmenity[];
+}
@@ -15,8 +15,13 @@ export type PropertyTypeName =
   | 'Terrenos';
 
 export type OperationType = 'Venta' | 'Renta' | 'Desarrollo';
+// Refines the operation: foreclosures (remate) are sales, vacation rentals are rentals
+export type ListingCategory = 'standard' | 'foreclosure' | 'vacation';
 export type PropertyEntityType = 'development' | 'property';
-export type PropertyStatus = 'available' | 'sold' | 'rented';
+export type PropertyStatus = 'available' | 'sold' | 'rented' | 'withdrawn';
+export type PriceChangeSource = 'create' | 'update' | 'sync' | 'import';
+// Currency a listing is priced in; priceMXN holds the price in pesos
+export type Currency = 'MXN' | 'USD';
 export type Amenity =
   | 'Alberca'
   | 'Circuito Cerrado'
@@ -31,12 +36,16 @@ export interface PropertyFilters {
   description?: string;
   propertyType?: PropertyTypeName[];
   operationType?: OperationType[];
+  listingCategory?: ListingCategory[];
   type?: PropertyEntityType[];
   minPrice?: number;
   maxPrice?: number;
+  // Currency of minPrice and maxPrice, and of the returned displayPrice
+  currency?: Currency;
   location?: {
     state?: string[];
     city?: string[];
+    neighborhood?: string[];
     address?: string;
     coordinates?: {
       lat?: number;
@@ -57,6 +66,16 @@ export interface PropertyFilters {
     parking?: number;
     floors?: number;
   };
+  // Rental terms; listings that do not state a term never match its filter
+  rental?: {
+    furnished?: boolean;
+    petsAllowed?: boolean;
+    utilitiesIncluded?: boolean;
+    // Longest acceptable minimum lease, in months
+    maxLeaseMonths?: number;
+    // Largest acceptable deposit, in months of rent
+    maxDepositMonths?: number;
+  };
   amenities?: Amenity[];
   status?: PropertyStatus[];
   maintenanceFee?: {
@@ -64,4 +83,6 @@ export interface PropertyFilters {
     max?: number;
   };
   sortBy?: 'price asc' | 'price desc' | 'age asc' | 'age desc';
+  limit?: number;
+  cursor?: string;
 }
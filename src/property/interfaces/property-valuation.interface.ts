@@ -0,0 +1,32 @@
+// What the comparables' prices were scaled by to match the valued property
+export type ValuationBasis = 'constructionSize' | 'lotSize' | 'price';
+
+export interface ValuationComparable {
+  _id: string;
+  title: string;
+  price: number;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  constructionSize: number | null;
+  lotSize: number | null;
+  distanceMeters: number | null;
+  pricePerM2: number | null;
+  // The comparable's price scaled to the valued property's size
+  adjustedPrice: number;
+  // Similarity to the valued property, from 0 to 1
+  weight: number;
+}
+
+export interface PropertyValuation {
+  estimatedPrice: number | null;
+  priceRange: { min: number; max: number } | null;
+  pricePerM2: number | null;
+  basis: ValuationBasis;
+  // From 0 (no comparables) to 1
+  confidence: number;
+  // The listing's own price against the estimate, when it has one
+  listingPrice: number | null;
+  priceVsEstimate: number | null;
+  marketPosition: 'below' | 'within' | 'above' | null;
+  comparables: ValuationComparable[];
+}
@@ -0,0 +1,25 @@
+/**
+ * A point of interest used to filter properties by proximity
+ */
+export interface ProximityCoordinate {
+  lat: number;
+  lng: number;
+  name?: string;
+  type?: string;
+  /** Search radius around this point in kilometers (overrides maxDistance) */
+  radius?: number;
+}
+
+/**
+ * Special `_proximityFilter` field accepted by executeQuery
+ *
+ * - OR: the property must be within range of ANY coordinate
+ * - AND: the property must be within range of at least one coordinate
+ *   of EACH place type (e.g. near a hospital AND near a park)
+ */
+export interface ProximityFilter {
+  coordinates: ProximityCoordinate[];
+  /** Default search radius in kilometers */
+  maxDistance?: number;
+  logicalOperator?: 'AND' | 'OR';
+}
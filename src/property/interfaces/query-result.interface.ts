@@ -1,7 +1,12 @@
+import { PageInfo } from '../utils/cursor-pagination';
+import { SearchFacets } from './search-facets.interface';
+
 export interface QueryResult<T> {
   data: T[];
+  facets?: SearchFacets;
   metadata: {
     executionTime: number;
+    pagination?: PageInfo;
     statistics: {
       totalInDatabase: number;
       matchingResults: number;
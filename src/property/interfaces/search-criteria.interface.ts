@@ -0,0 +1,10 @@
+import { PropertyFilters } from './property-filters.interface';
+
+/**
+ * A search stored for later: findAll filters, or a MongoDB query as built by
+ * the chat agents (which takes precedence)
+ */
+export interface SearchCriteria {
+  filters?: PropertyFilters | null;
+  query?: Record<string, any> | null;
+}
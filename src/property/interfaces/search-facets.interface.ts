@@ -0,0 +1,21 @@
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface RangeFacetCount {
+  /** Inclusive lower bound */
+  min: number;
+  /** Exclusive upper bound, null for the open-ended last bucket */
+  max: number | null;
+  count: number;
+}
+
+export interface SearchFacets {
+  propertyType: FacetCount[];
+  operationType: FacetCount[];
+  city: FacetCount[];
+  bedrooms: FacetCount[];
+  amenities: FacetCount[];
+  price: RangeFacetCount[];
+}
@@ -0,0 +1,11 @@
+import { Property } from '../schemas/property.schema';
+
+/**
+ * A property returned by findSimilarProperties
+ */
+export type SimilarProperty = Property & {
+  // From 0 to 1
+  similarityScore: number;
+  // Main reasons, e.g. "mismo barrio", "precio similar"
+  similarityReasons: string[];
+};
@@ -0,0 +1,8 @@
+import { ListingCategory } from './property-filters.interface';
+
+export interface SyncOptions {
+  /** Feed file the records were read from, recorded with the sync run */
+  file?: string;
+  /** Category of every listing of the feed, overriding the adapter's */
+  listingCategory?: ListingCategory;
+}
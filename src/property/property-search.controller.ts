@@ -2,25 +2,40 @@ import {
   Controller,
   Post,
   Body,
+  Headers,
   HttpCode,
   UsePipes,
   ValidationPipe,
 } from '@nestjs/common';
 import { PropertyService } from './property.service';
+import { ShortlistsService } from '../shortlists/shortlists.service';
 import { ExecuteQueryDto } from './dto/execute-query.dto';
 import { QueryResult } from './interfaces/query-result.interface';
 import { Property } from './schemas/property.schema';
 
 @Controller('property-search')
 export class PropertySearchController {
-  constructor(private readonly propertyService: PropertyService) {}
+  constructor(
+    private readonly propertyService: PropertyService,
+    private readonly shortlistsService: ShortlistsService,
+  ) {}
 
   @Post()
   @HttpCode(200)
   @UsePipes(new ValidationPipe({ transform: true }))
   async executeQuery(
     @Body() executeQueryDto: ExecuteQueryDto,
+    @Headers('x-user-id') userId?: string,
+    @Headers('x-session-id') sessionId?: string,
   ): Promise<QueryResult<Property>> {
-    return this.propertyService.executeQuery(executeQueryDto);
+    const result = await this.propertyService.executeQuery(executeQueryDto);
+    return {
+      ...result,
+      // Results are flagged with the caller's shortlists
+      data: await this.shortlistsService.flagShortlisted(result.data, {
+        userId,
+        sessionId,
+      }),
+    };
   }
 }
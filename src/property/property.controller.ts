@@ -6,6 +6,23 @@
  * - Added query parameters:
  *   - includeSimilar: Set to 'true' to include similar properties in the response
  *   - similarLimit: Optional number of similar properties to return (default: 4)
+ *   Similar properties carry a similarityScore and their similarityReasons
+ * - Added GET /properties/:id/price-history to retrieve a property's price changes
+ * - Added cursor pagination to GET /properties and POST /properties/search:
+ *   pass `limit` and the `nextCursor` of the previous page as `cursor`
+ * - Added POST /properties/import to bulk load CSV or NDJSON files:
+ *   multipart `file`, optional `format`, `mapping` (JSON) and `dryRun` fields
+ * - Added GET /properties/export?format=csv|geojson|kml streaming every
+ *   property matching the findAll filters, or a stored MongoDB `query`
+ * - DELETE /properties/:id archives the property, recording the optional
+ *   X-User-Id header as deletedBy; POST /properties/:id/restore restores it
+ * - GET /properties, GET /properties/:id and POST /properties/search flag
+ *   the properties in the shortlists of the X-User-Id or X-Session-Id caller
+ * - Added POST /properties/compare comparing two to four properties by `ids`
+ * - Added GET /properties/:id/valuation, and POST /properties/valuation for a
+ *   listing that is not saved yet
+ * - Added GET and POST /properties/:id/units for the units of a development;
+ *   a new unit takes the fields it does not set from the development
  */
 import {
   Controller,
@@ -16,16 +33,47 @@ import {
   Body,
   Param,
   Query,
+  Headers,
+  HttpCode,
+  UploadedFile,
+  UseInterceptors,
+  UsePipes,
+  ValidationPipe,
+  BadRequestException,
+  StreamableFile,
 } from '@nestjs/common';
+import { Readable } from 'stream';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { PropertyService } from './property.service';
+import { ShortlistsService } from '../shortlists/shortlists.service';
 import { CreatePropertyDto } from './dto/create-property.dto';
 import { PropertyFilters } from './interfaces/property-filters.interface';
-import { Property } from './schemas/property.schema';
+import { Property, PriceHistoryEntry } from './schemas/property.schema';
 import { SearchPropertiesDto } from './dto/search-properties.dto';
+import { ComparePropertiesDto } from './dto/compare-properties.dto';
+import { PropertyComparison } from './interfaces/property-comparison.interface';
+import { PropertyValuation } from './interfaces/property-valuation.interface';
+import { SimilarProperty } from './interfaces/similar-property.interface';
+import { PageInfo } from './utils/cursor-pagination';
+import { ImportPropertiesDto } from './dto/import-properties.dto';
+import { ImportReport } from './interfaces/import-report.interface';
+import { detectImportFormat, parseImportFile } from './utils/import-parser';
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  ExportFormat,
+  serializeProperties,
+} from './utils/property-export';
+
+// Maximum size of an uploaded import file
+const MAX_IMPORT_FILE_SIZE = 20 * 1024 * 1024; // 20MB
 
 @Controller('properties')
 export class PropertyController {
-  constructor(private readonly propertyService: PropertyService) {}
+  constructor(
+    private readonly propertyService: PropertyService,
+    private readonly shortlistsService: ShortlistsService,
+  ) {}
 
   @Post()
   async create(
@@ -34,11 +82,75 @@ export class PropertyController {
     return this.propertyService.create(createPropertyDto);
   }
 
+  @Post('import')
+  @HttpCode(200)
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_FILE_SIZE } }),
+  )
+  @UsePipes(new ValidationPipe({ transform: true }))
+  async import(
+    @UploadedFile()
+    file:
+      | { buffer: Buffer; originalname: string; mimetype: string }
+      | undefined,
+    @Body() importDto: ImportPropertiesDto,
+  ): Promise<ImportReport> {
+    if (!file) {
+      throw new BadRequestException('A CSV or NDJSON file is required');
+    }
+
+    const format =
+      importDto.format || detectImportFormat(file.originalname, file.mimetype);
+    if (!format) {
+      throw new BadRequestException(
+        'Could not detect the file format, set format to csv or ndjson',
+      );
+    }
+
+    const rows = parseImportFile(file.buffer.toString('utf-8'), format);
+    return this.propertyService.importProperties(
+      rows,
+      importDto.mapping,
+      importDto.dryRun,
+    );
+  }
+
+  @Post('compare')
+  @HttpCode(200)
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async compare(
+    @Body() compareDto: ComparePropertiesDto,
+  ): Promise<PropertyComparison> {
+    return this.propertyService.compareProperties(compareDto.ids);
+  }
+
+  @Post('valuation')
+  @HttpCode(200)
+  @UsePipes(new ValidationPipe({ transform: true }))
+  async valueListing(
+    @Body() createPropertyDto: CreatePropertyDto,
+  ): Promise<PropertyValuation> {
+    return this.propertyService.valueListing(createPropertyDto);
+  }
+
   @Get()
   async findAll(
     @Query() filters: PropertyFilters,
-  ): Promise<{ properties: Property[]; total: number }> {
-    return this.propertyService.findAll(filters);
+    @Headers('x-user-id') userId?: string,
+    @Headers('x-session-id') sessionId?: string,
+  ): Promise<{
+    properties: Property[];
+    total: number;
+    pagination: PageInfo;
+  }> {
+    const result = await this.propertyService.findAll(filters);
+    return {
+      ...result,
+      properties: await this.shortlistsService.flagShortlisted(
+        result.properties,
+        { userId, sessionId },
+      ),
+    };
   }
 
   @Get('homepage')
@@ -46,23 +158,83 @@ export class PropertyController {
     return this.propertyService.getHomepageData();
   }
 
+  @Get('export')
+  export(
+    @Query() filters: PropertyFilters,
+    @Query('format') format: ExportFormat = 'csv',
+    @Query('query') query?: string,
+  ): StreamableFile {
+    if (!EXPORT_FORMATS.includes(format)) {
+      throw new BadRequestException(
+        `format must be one of: ${EXPORT_FORMATS.join(', ')}`,
+      );
+    }
+
+    const properties = this.propertyService.exportProperties(filters, query);
+    return new StreamableFile(
+      Readable.from(serializeProperties(properties, format)),
+      {
+        type: EXPORT_CONTENT_TYPES[format],
+        disposition: `attachment; filename="properties.${format}"`,
+      },
+    );
+  }
+
   @Get(':id')
   async findOne(
     @Param('id') id: string,
     @Query('includeSimilar') includeSimilar?: string,
     @Query('similarLimit') similarLimit?: number,
-  ): Promise<Property | { property: Property; similarProperties: Property[] }> {
+    @Headers('x-user-id') userId?: string,
+    @Headers('x-session-id') sessionId?: string,
+  ): Promise<
+    Property | { property: Property; similarProperties: SimilarProperty[] }
+  > {
+    const owner = { userId, sessionId };
     const property = await this.propertyService.findOne(id);
+    const [flaggedProperty] = await this.shortlistsService.flagShortlisted(
+      [property],
+      owner,
+    );
 
     // If includeSimilar is true, return similar properties
     if (includeSimilar === 'true') {
       const limit = similarLimit || 4; // Default to 4 similar properties
       const similarProperties =
         await this.propertyService.findSimilarProperties(property, limit);
-      return { property, similarProperties };
+      return {
+        property: flaggedProperty,
+        similarProperties: await this.shortlistsService.flagShortlisted(
+          similarProperties,
+          owner,
+        ),
+      };
     }
 
-    return property;
+    return flaggedProperty;
+  }
+
+  @Get(':id/valuation')
+  async getValuation(@Param('id') id: string): Promise<PropertyValuation> {
+    return this.propertyService.getValuation(id);
+  }
+
+  @Get(':id/price-history')
+  async getPriceHistory(@Param('id') id: string): Promise<PriceHistoryEntry[]> {
+    return this.propertyService.getPriceHistory(id);
+  }
+
+  @Get(':id/units')
+  async findUnits(@Param('id') id: string): Promise<Property[]> {
+    return this.propertyService.findUnits(id);
+  }
+
+  @Post(':id/units')
+  async createUnit(
+    @Param('id') id: string,
+    @Body() unitData: Partial<CreatePropertyDto>,
+  ): Promise<Property> {
+    return this.propertyService.createUnit(id, unitData);
   }
 
   @Put(':id')
@@ -74,12 +246,32 @@ export class PropertyController {
   }
 
   @Delete(':id')
-  async remove(@Param('id') id: string): Promise<void> {
-    return this.propertyService.remove(id);
+  async remove(
+    @Param('id') id: string,
+    @Headers('x-user-id') deletedBy?: string,
+  ): Promise<void> {
+    return this.propertyService.remove(id, deletedBy);
+  }
+
+  @Post(':id/restore')
+  @HttpCode(200)
+  async restore(@Param('id') id: string): Promise<Property> {
+    return this.propertyService.restore(id);
   }
 
   @Post('search')
-  async search(@Body() searchDto: SearchPropertiesDto) {
-    return this.propertyService.searchProperties(searchDto);
+  async search(
+    @Body() searchDto: SearchPropertiesDto,
+    @Headers('x-user-id') userId?: string,
+    @Headers('x-session-id') sessionId?: string,
+  ) {
+    const result = await this.propertyService.searchProperties(searchDto);
+    return {
+      ...result,
+      data: await this.shortlistsService.flagShortlisted(result.data, {
+        userId,
+        sessionId,
+      }),
+    };
   }
 }
@@ -1,18 +1,57 @@
-import { Module } from '@nestjs/common';
+/**
+ * Property Module
+ *
+ * Changes:
+ * - Added the property source registry, registering the built-in adapters
+ * - Imported SyncModule so sync runs are recorded in the run history
+ * - Imported WebhooksModule so property changes are published as events
+ * - Imported ShortlistsModule to flag the properties the caller shortlisted
+ * - Imported SearchSynonymsModule for the synonyms of the text search
+ * - Imported NeighborhoodsModule to place listings in their colonia
+ * - Imported MediaModule for the images uploaded to listings
+ * - Imported ExchangeRatesModule to normalize listing prices to MXN
+ */
+import { Module, OnModuleInit } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { PropertyController } from './property.controller';
 import { PropertySearchController } from './property-search.controller';
 import { PropertyService } from './property.service';
 import { Property, PropertySchema } from './schemas/property.schema';
+import { PropertySourceRegistry } from './sources/property-source.registry';
+import { ScraperSourceAdapter } from './sources/scraper-source.adapter';
+import { SyncModule } from '../sync/sync.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+import { ShortlistsModule } from '../shortlists/shortlists.module';
+import { SearchSynonymsModule } from '../search-synonyms/search-synonyms.module';
+import { NeighborhoodsModule } from '../neighborhoods/neighborhoods.module';
+import { MediaModule } from '../media/media.module';
+import { ExchangeRatesModule } from '../exchange-rates/exchange-rates.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: Property.name, schema: PropertySchema },
     ]),
+    SyncModule,
+    WebhooksModule,
+    ShortlistsModule,
+    SearchSynonymsModule,
+    NeighborhoodsModule,
+    MediaModule,
+    ExchangeRatesModule,
   ],
   controllers: [PropertyController, PropertySearchController],
-  providers: [PropertyService],
-  exports: [PropertyService],
+  providers: [PropertyService, PropertySourceRegistry, ScraperSourceAdapter],
+  exports: [PropertyService, PropertySourceRegistry],
 })
-export class PropertyModule {}
+export class PropertyModule implements OnModuleInit {
+  constructor(
+    private readonly propertySourceRegistry: PropertySourceRegistry,
+    private readonly scraperSourceAdapter: ScraperSourceAdapter,
+  ) {}
+
+  onModuleInit() {
+    // Register the built-in property sources
+    this.propertySourceRegistry.register(this.scraperSourceAdapter);
+  }
+}
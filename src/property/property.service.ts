@@ -10,6 +10,75 @@
  *   - Same city (if available)
  *   - Similar number of bedrooms and bathrooms (±1)
  *   - Available status
+ * - Added price history tracking: every price change from create, update and
+ *   sync is appended to priceHistory, exposed through getPriceHistory
+ * - Replaced in-memory proximity filtering with native geospatial queries:
+ *   location.point is kept in sync with location.coordinates and indexed as
+ *   2dsphere, and _proximityFilter is translated to $geoWithin/$geoNear
+ * - Added cursor-based pagination to findAll, executeQuery and searchProperties
+ * - Added an optional facets mode to executeQuery: a single $facet aggregation
+ *   over the match stage returns counts per property type, operation type,
+ *   city, bedrooms, amenity and price range
+ * - Added importProperties: validates uploaded rows against CreatePropertyDto
+ *   and upserts them with the sync identifier, returning a row-by-row report
+ * - Added exportProperties: streams every property matching the findAll
+ *   filters or a stored MongoDB query through a cursor
+ * - Moved the scraper mapping out of transformPropertyData into source
+ *   adapters; syncProperties takes the name of the adapter to use
+ * - Added stale listing withdrawal: sync stamps each listing with its source,
+ *   feed ID and lastSeenAt, withdrawMissingProperties withdraws the listings
+ *   missing from a complete run, and withdrawn listings are hidden from
+ *   search and statistics until they reappear in the feed
+ * - Listings linked to a canonical listing through duplicateOf are left out of
+ *   executeQuery and findAll by the shared visibility filter; findOne still
+ *   returns them
+ * - syncProperties records each run in the sync run history, with per-field
+ *   diffs of the listings it changed; unchanged listings are only stamped as
+ *   seen, and created listings are now counted (the upserted document always
+ *   had an _id, so every listing used to be counted as updated)
+ * - Added the listingCategory filter (foreclosures and vacation rentals); a
+ *   sync can set the category of a whole feed
+ * - remove archives the property (deletedAt/deletedBy) instead of deleting
+ *   it; archived properties are hidden by the visibility filter, can be
+ *   restored, and are purged after DELETED_PROPERTY_RETENTION_DAYS
+ * - create, update, remove, restore, syncProperties and
+ *   withdrawMissingProperties publish property events to the webhook outbox
+ * - Added findChangedSince for the saved search matcher: listings matching
+ *   stored filters or a stored query that changed after a date
+ * - Added compareProperties: two to four listings side by side, each placed
+ *   against the median of its city, property type and operation type
+ * - Added getValuation and valueListing estimating a price range from
+ *   weighted comparables, for a stored listing or an unsaved one
+ * - findSimilarProperties ranks candidates by a similarity score, relaxing
+ *   its filters until it finds enough, and returns each score with its reasons
+ * - searchProperties searches accent-folded searchFields with a Spanish text
+ *   index, expands terms with the synonym dictionary and corrects near-miss
+ *   terms when nothing matches; rebuildSearchIndex migrates stored listings
+ * - location.neighborhood is set from the imported colonia polygons on
+ *   create, update, sync and import, and can be filtered on
+ * - create and update attach uploaded images (mediaIds, coverMediaId) and
+ *   rebuild images from their URLs, cover first
+ * - Listings keep their own currency; priceMXN holds the price converted at
+ *   the current exchange rate, and the price filters, price sorts and price
+ *   facet use it. findAll and searchProperties take the caller's currency
+ *   for the price bounds and return each listing's displayPrice in it
+ * - Added the rental filters (furnished, pets, utilities, minimum lease and
+ *   deposit) over the rental terms of a listing
+ * - Added development units: listings linked to a development through
+ *   developmentId, created with createUnit. Their count, availability and
+ *   price range are rolled up to the development, whose price becomes the
+ *   "desde" price, and findAll returns the development of the matching units
+ *   in their place, with the units that matched
+ * - The facet buckets are labelled by the search-facets utilities
+ * - Sync stamps, withdrawals and development roll-ups leave updatedAt as is,
+ *   and findChangedSince pages on (updatedAt, _id)
+ * - executeQuery and searchProperties roll matching units up to their
+ *   development like findAll, and getHomepageData counts a development
+ *   through its units
+ * - withdrawMissingProperties also withdraws listings never stamped with
+ *   lastSeenAt, and publishes events only for the listings it withdrew
+ * - The matching and total counts of executeQuery and searchProperties count
+ *   a development and its matching units once, like their result page
  */
 import {
   Injectable,
@@ -18,76 +87,271 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
-import { Property, PropertyDocument } from './schemas/property.schema';
+import { ConfigService } from '@nestjs/config';
+import { Model, PipelineStage, Types } from 'mongoose';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import {
+  Property,
+  PropertyDocument,
+  PriceHistoryEntry,
+  GeoPoint,
+} from './schemas/property.schema';
 import { CreatePropertyDto } from './dto/create-property.dto';
 import { PropertyFilters } from './interfaces/property-filters.interface';
 import {
-  PropertyTypeName,
-  OperationType,
-  Amenity,
+  Currency,
+  PriceChangeSource,
 } from './interfaces/property-filters.interface';
 import { ExecuteQueryDto } from './dto/execute-query.dto';
 import { QueryResult } from './interfaces/query-result.interface';
+import {
+  ImportReport,
+  ImportRowResult,
+} from './interfaces/import-report.interface';
+import { SearchFacets } from './interfaces/search-facets.interface';
 import { SearchPropertiesDto } from './dto/search-properties.dto';
+import { SyncOptions } from './interfaces/sync-options.interface';
+import { SearchCriteria } from './interfaces/search-criteria.interface';
+import { PropertyComparison } from './interfaces/property-comparison.interface';
+import { PropertyValuation } from './interfaces/property-valuation.interface';
+import { SimilarProperty } from './interfaces/similar-property.interface';
+import {
+  ProximityFilter,
+  ProximityCoordinate,
+} from './interfaces/proximity-filter.interface';
 
-interface PropertyLocation {
-  state: string;
-  city: string;
-  address: string;
-  coordinates: {
-    lat: number;
-    lng: number;
-  };
-}
+import {
+  PageRequest,
+  SortSpec,
+  buildCursorFilter,
+  buildPage,
+  resolvePage,
+  withSortFields,
+} from './utils/cursor-pagination';
+import {
+  ColumnMapping,
+  ParsedRow,
+  applyColumnMapping,
+  formatValidationErrors,
+} from './utils/import-parser';
+import { PropertySourceRegistry } from './sources/property-source.registry';
+import {
+  COUNTED_LISTING_FILTER,
+  LISTED_LISTING_FILTER,
+  VISIBLE_LISTING_FILTER,
+  withVisibleListings,
+} from './utils/listing-visibility';
+import { SyncRunService } from '../sync/sync-run.service';
+import { SyncRunResult } from '../sync/interfaces/sync-run-result.interface';
+import { diffProperty } from '../sync/utils/property-diff';
+import { PropertyEventsService } from '../webhooks/property-events.service';
+import { SearchSynonymsService } from '../search-synonyms/search-synonyms.service';
+import { NeighborhoodsService } from '../neighborhoods/neighborhoods.service';
+import { MediaService } from '../media/media.service';
+import { ExchangeRatesService } from '../exchange-rates/exchange-rates.service';
+import {
+  buildSearchFields,
+  correctTerms,
+  expandSynonyms,
+  tokenizeQuery,
+} from './utils/text-search';
+import {
+  ComparableProperty,
+  PeerPrices,
+  compareProperties,
+  peerGroupKey,
+  pricePerM2,
+} from './utils/property-comparison';
+import {
+  ValuationCandidate,
+  ValuationSubject,
+  valueProperty,
+} from './utils/property-valuation';
+import {
+  RELAXATION_LEVELS,
+  buildRelaxedQuery,
+  scoreSimilarity,
+} from './utils/similarity-scoring';
+import {
+  BEDROOM_FACET_BOUNDARIES,
+  FacetGroups,
+  PRICE_FACET_BOUNDARIES,
+  toSearchFacets,
+} from './utils/search-facets';
 
-interface PropertyFeatures {
-  bedrooms: number;
-  bathrooms: number;
-  constructionSize: number;
-  lotSize: number;
-  parking: number;
-  floors: number;
-}
+// Earth radius used by MongoDB to convert distances to radians
+const EARTH_RADIUS_KM = 6378.1;
+
+const CITY_FACET_LIMIT = 20;
 
-interface Agent {
-  name: string;
-  company: string;
-  title: string;
-  image: string;
-  phone: string;
-  email: string;
-  experience: number;
-  activeListings: number;
+// Properties updated per bulk write when rebuilding the search fields
+const SEARCH_INDEX_BATCH_SIZE = 500;
+
+// How long the typo correction vocabulary (cities, states, types) is reused
+const SEARCH_VOCABULARY_TTL_MS = 5 * 60 * 1000;
+
+// Most candidates fetched per relaxation level of findSimilarProperties
+const MAX_SIMILAR_CANDIDATES = 100;
+
+// Listings considered as comparables for a valuation, most recently updated first
+const MAX_VALUATION_CANDIDATES = 200;
+
+// Below this many similar-bedroom listings, a valuation considers any bedrooms
+const MIN_VALUATION_CANDIDATES = 5;
+
+interface NearPoint {
+  coordinates: [number, number];
+  maxDistance: number;
 }
 
 @Injectable()
 export class PropertyService {
   private readonly logger = new Logger(PropertyService.name);
+  private searchVocabulary: { words: string[]; loadedAt: number } | null = null;
 
   constructor(
     @InjectModel(Property.name) private propertyModel: Model<PropertyDocument>,
+    private readonly propertySourceRegistry: PropertySourceRegistry,
+    private readonly configService: ConfigService,
+    private readonly syncRunService: SyncRunService,
+    private readonly propertyEventsService: PropertyEventsService,
+    private readonly searchSynonymsService: SearchSynonymsService,
+    private readonly neighborhoodsService: NeighborhoodsService,
+    private readonly mediaService: MediaService,
+    private readonly exchangeRatesService: ExchangeRatesService,
   ) {}
 
-  async create(createPropertyDto: CreatePropertyDto): Promise<Property> {
-    const createdProperty = new this.propertyModel(createPropertyDto);
-    return createdProperty.save();
+  /**
+   * Create a property
+   * @param createPropertyDto The property
+   * @param developmentId The development the property is a unit of, if any
+   * @returns The created property
+   */
+  async create(
+    createPropertyDto: CreatePropertyDto,
+    developmentId?: Types.ObjectId,
+  ): Promise<Property> {
+    const point = this.buildGeoPoint(createPropertyDto.location?.coordinates);
+    const createdProperty = new this.propertyModel({
+      ...createPropertyDto,
+      developmentId: developmentId ?? null,
+      location: {
+        ...createPropertyDto.location,
+        point,
+        neighborhood: await this.neighborhoodsService.findNameForPoint(point),
+      },
+      searchFields: buildSearchFields(createPropertyDto),
+      priceMXN: this.exchangeRatesService.toMXN(
+        createPropertyDto.price,
+        createPropertyDto.currency,
+      ),
+      priceHistory: [
+        this.buildPriceHistoryEntry(createPropertyDto.price, null, 'create'),
+      ],
+      ...(createPropertyDto.mediaIds || createPropertyDto.coverMediaId
+        ? await this.buildMediaFields(
+            createPropertyDto.mediaIds ?? [],
+            createPropertyDto.coverMediaId,
+          )
+        : {}),
+    });
+    const savedProperty = await createdProperty.save();
+    if (developmentId) {
+      await this.rollupDevelopment(developmentId);
+    }
+
+    await this.propertyEventsService.emit('property.created', {
+      propertyId: String(savedProperty._id),
+      property: savedProperty.toObject<Record<string, unknown>>(),
+      origin: 'api',
+    });
+    return savedProperty;
+  }
+
+  /**
+   * Add a unit (tipología) to a development; the fields the unit does not
+   * set, such as its location and agent, are taken from the development
+   * @param id The development ID
+   * @param unitData The unit's own fields: title, propertyType, price,
+   * features, status...
+   * @returns The created unit
+   */
+  async createUnit(
+    id: string,
+    unitData: Partial<CreatePropertyDto>,
+  ): Promise<Property> {
+    const development = await this.findDevelopment(id);
+
+    const dto = plainToInstance(CreatePropertyDto, {
+      description: development.description,
+      operationType: development.operationType,
+      currency: development.currency,
+      location: {
+        state: development.location.state,
+        city: development.location.city,
+        address: development.location.address,
+        coordinates: development.location.coordinates,
+      },
+      amenities: development.amenities ?? [],
+      agent: development.agent,
+      ...unitData,
+      type: 'property',
+    });
+    const validationErrors = await validate(dto, { whitelist: true });
+    if (validationErrors.length > 0) {
+      throw new BadRequestException(formatValidationErrors(validationErrors));
+    }
+
+    return this.create(dto, development._id);
+  }
+
+  /**
+   * List the units of a development, cheapest first
+   * @param id The development ID
+   * @returns The visible units, whatever their status
+   */
+  async findUnits(id: string): Promise<Property[]> {
+    const development = await this.findDevelopment(id);
+    return this.propertyModel
+      .find(withVisibleListings({ developmentId: development._id }), {
+        priceHistory: 0,
+        searchFields: 0,
+      })
+      .sort({ priceMXN: 1, _id: 1 })
+      .lean<Property[]>()
+      .exec();
   }
 
   async findAll(filters: PropertyFilters = {}) {
     const query = this.buildQuery(filters);
+    const page = resolvePage(
+      filters.sortBy ? this.buildSortQuery(filters.sortBy) : undefined,
+      { createdAt: -1 },
+      { limit: filters.limit, cursor: filters.cursor },
+      50,
+    );
 
-    const [properties, total] = await Promise.all([
-      this.propertyModel
-        .find(query)
-        .sort({ createdAt: -1 })
-        .limit(50)
-        .lean()
-        .exec(),
-      this.propertyModel.countDocuments(query),
-    ]);
+    // Matching development units are rolled up to their development
+    const [docs, total] = (await this.matchesUnits(query))
+      ? await this.findRolledUpPage([{ $match: query }], page)
+      : await Promise.all([
+          this.propertyModel
+            .find(this.withCursorFilter(query, page))
+            .sort(page.sort)
+            .limit(page.limit + 1)
+            .lean<Property[]>()
+            .exec(),
+          this.propertyModel.countDocuments(query),
+        ]);
+
+    const { data, pagination } = buildPage(docs, page);
+    const properties = this.exchangeRatesService.withDisplayPrice(
+      data,
+      filters.currency,
+    );
 
-    return { properties, total };
+    return { properties, total, pagination };
   }
 
   async findOne(id: string): Promise<Property> {
@@ -99,89 +363,509 @@ export class PropertyService {
   }
 
   /**
-   * Find similar properties based on property type, price range, location, and features
+   * Find the properties most similar to a given property, ranked by a weighted
+   * score over price, size, features, amenities and distance. Filters start
+   * strict (same city, ±20% price, ±1 room) and relax until `limit` is reached
    * @param property The property to find similar properties for
    * @param limit The maximum number of similar properties to return
-   * @returns Array of similar properties
+   * @returns Similar properties, most similar first, with their score and reasons
    */
   async findSimilarProperties(
     property: Property,
     limit: number = 4,
-  ): Promise<Property[]> {
+  ): Promise<SimilarProperty[]> {
     this.logger.log(
       `Finding similar properties for property with ID ${property['_id']}`,
     );
 
-    // Build query for similar properties
-    const query: any = {
-      // Exclude the current property
-      _id: { $ne: property['_id'] },
-      // Same property type
-      propertyType: property.propertyType,
-      // Same operation type
-      operationType: property.operationType,
-      // Available status
-      status: 'available',
-      // Similar price range (±20%)
-      price: {
-        $gte: property.price * 0.8,
-        $lte: property.price * 1.2,
-      },
-    };
+    const excludedIds = [String(property['_id'])];
+    const candidates: (Property & { _id: Types.ObjectId })[] = [];
+    const candidatesPerLevel = Math.min(
+      Math.max(limit * 5, 20),
+      MAX_SIMILAR_CANDIDATES,
+    );
+
+    for (const level of RELAXATION_LEVELS) {
+      const found = await this.propertyModel
+        .find(
+          withVisibleListings({
+            _id: { $nin: excludedIds },
+            // Same property type and operation type
+            propertyType: property.propertyType,
+            operationType: property.operationType,
+            // Available status
+            status: 'available',
+            ...buildRelaxedQuery(property, level),
+          }),
+          { priceHistory: 0 },
+        )
+        .sort({ updatedAt: -1 })
+        .limit(candidatesPerLevel)
+        .lean<(Property & { _id: Types.ObjectId })[]>()
+        .exec();
+
+      candidates.push(...found);
+      excludedIds.push(...found.map((candidate) => String(candidate._id)));
+      if (candidates.length >= limit) {
+        break;
+      }
+    }
+
+    return candidates
+      .map((candidate) => {
+        const { score, reasons } = scoreSimilarity(property, candidate);
+        return {
+          ...candidate,
+          similarityScore: score,
+          similarityReasons: reasons,
+        };
+      })
+      .sort((a, b) => b.similarityScore - a.similarityScore)
+      .slice(0, limit);
+  }
+
+  async update(
+    id: string,
+    updatePropertyDto: Partial<CreatePropertyDto>,
+  ): Promise<Property> {
+    const existingProperty = await this.propertyModel
+      .findById(id, { priceHistory: 0 })
+      .lean()
+      .exec();
 
-    // Add location similarity if available
-    if (property.location && property.location.city) {
-      query['location.city'] = property.location.city;
+    if (!existingProperty) {
+      throw new NotFoundException(`Property with ID ${id} not found`);
     }
 
-    // Add bedrooms similarity if available
-    if (property.features && property.features.bedrooms) {
-      query['features.bedrooms'] = {
-        $gte: Math.max(1, property.features.bedrooms - 1),
-        $lte: property.features.bedrooms + 1,
+    const update: Record<string, any> = { $set: { ...updatePropertyDto } };
+
+    // Keep the GeoJSON point and the colonia in sync with the coordinates
+    if (updatePropertyDto.location) {
+      const point = this.buildGeoPoint(updatePropertyDto.location.coordinates);
+      update.$set.location = {
+        ...updatePropertyDto.location,
+        point,
+        neighborhood: await this.neighborhoodsService.findNameForPoint(point),
       };
     }
 
-    // Add bathrooms similarity if available
-    if (property.features && property.features.bathrooms) {
-      query['features.bathrooms'] = {
-        $gte: Math.max(1, property.features.bathrooms - 1),
-        $lte: property.features.bathrooms + 1,
+    // Keep the normalized search fields in sync with the text they copy
+    if (
+      ['title', 'description', 'propertyType', 'location'].some(
+        (field) => field in updatePropertyDto,
+      )
+    ) {
+      update.$set.searchFields = buildSearchFields({
+        ...existingProperty,
+        ...updatePropertyDto,
+      });
+    }
+
+    // Reordering the images or changing the cover rebuilds images
+    if (
+      'mediaIds' in updatePropertyDto ||
+      'coverMediaId' in updatePropertyDto
+    ) {
+      const mediaIds =
+        updatePropertyDto.mediaIds ??
+        (existingProperty.mediaIds || []).map(String);
+      const currentCover = existingProperty.coverMediaId
+        ? String(existingProperty.coverMediaId)
+        : undefined;
+      Object.assign(
+        update.$set,
+        await this.buildMediaFields(
+          mediaIds,
+          'coverMediaId' in updatePropertyDto
+            ? updatePropertyDto.coverMediaId
+            : currentCover && mediaIds.includes(currentCover)
+              ? currentCover
+              : undefined,
+        ),
+      );
+    }
+
+    // Keep the rolled-up unit figures when the project details change
+    if (updatePropertyDto.development) {
+      delete update.$set.development;
+      for (const [field, value] of Object.entries(
+        updatePropertyDto.development,
+      )) {
+        update.$set[`development.${field}`] = value;
+      }
+    }
+
+    // Reprice in MXN when the price or its currency changes
+    if ('price' in updatePropertyDto || 'currency' in updatePropertyDto) {
+      update.$set.priceMXN = this.exchangeRatesService.toMXN(
+        updatePropertyDto.price ?? existingProperty.price,
+        updatePropertyDto.currency ?? existingProperty.currency,
+      );
+    }
+
+    // Record the price change, if any
+    if (
+      updatePropertyDto.price !== undefined &&
+      updatePropertyDto.price !== existingProperty.price
+    ) {
+      update.$push = {
+        priceHistory: this.buildPriceHistoryEntry(
+          updatePropertyDto.price,
+          existingProperty.price,
+          'update',
+        ),
       };
     }
 
-    // Find similar properties
-    const similarProperties = await this.propertyModel
-      .find(query)
-      .sort({ createdAt: -1 })
-      .limit(limit)
+    const updatedProperty = await this.propertyModel
+      .findByIdAndUpdate(id, update, { new: true })
       .lean()
       .exec();
 
-    return similarProperties;
+    if (!updatedProperty) {
+      throw new NotFoundException(`Property with ID ${id} not found`);
+    }
+
+    // A development with units keeps the price range of its units
+    let rolledUpProperty: Property | null = null;
+    if (updatedProperty.developmentId) {
+      await this.rollupDevelopment(updatedProperty.developmentId);
+    } else if (updatedProperty.development?.unitCount) {
+      rolledUpProperty = await this.rollupDevelopment(
+        updatedProperty._id as Types.ObjectId,
+      );
+    }
+
+    await this.propertyEventsService.emitChanges(
+      id,
+      diffProperty(
+        existingProperty as unknown as Record<string, unknown>,
+        update.$set as Record<string, unknown>,
+      ),
+      'api',
+    );
+    return rolledUpProperty ?? updatedProperty;
   }
 
-  async update(
-    id: string,
-    updatePropertyDto: Partial<CreatePropertyDto>,
-  ): Promise<Property> {
-    const updatedProperty = await this.propertyModel
-      .findByIdAndUpdate(id, updatePropertyDto, { new: true })
+  /**
+   * Get the price history of a property, oldest change first
+   * @param id The property ID
+   * @returns Array of price history entries
+   */
+  async getPriceHistory(id: string): Promise<PriceHistoryEntry[]> {
+    const property = await this.propertyModel
+      .findById(id, { priceHistory: 1 })
       .lean()
       .exec();
 
-    if (!updatedProperty) {
+    if (!property) {
+      throw new NotFoundException(`Property with ID ${id} not found`);
+    }
+
+    return property.priceHistory || [];
+  }
+
+  /**
+   * Estimate the market price of a stored listing from comparable listings
+   * @param id The property ID
+   * @returns The valuation, with the listing's price against the estimate
+   */
+  async getValuation(id: string): Promise<PropertyValuation> {
+    const property = Types.ObjectId.isValid(id)
+      ? await this.propertyModel
+          .findById(id, { priceHistory: 0 })
+          .lean<Property & { _id: Types.ObjectId }>()
+          .exec()
+      : null;
+
+    if (!property) {
       throw new NotFoundException(`Property with ID ${id} not found`);
     }
 
-    return updatedProperty;
+    return this.estimateValue(property, property.operationType, property._id);
+  }
+
+  /**
+   * Estimate the market price of a listing that is not saved yet
+   * @param propertyDto The listing
+   * @returns The valuation; a price of 0 is treated as unknown
+   */
+  async valueListing(
+    propertyDto: CreatePropertyDto,
+  ): Promise<PropertyValuation> {
+    return this.estimateValue(propertyDto, propertyDto.operationType);
+  }
+
+  /**
+   * Value a listing against the listings of the same type, operation and city,
+   * with a similar number of bedrooms when there are enough of them. Prices
+   * are compared, and the valuation returned, in MXN
+   */
+  private async estimateValue(
+    subject: ValuationSubject & {
+      location: { city: string; coordinates?: { lat: number; lng: number } };
+      currency?: Currency;
+      priceMXN?: number | null;
+    },
+    operationType: string,
+    excludeId?: Types.ObjectId,
+  ): Promise<PropertyValuation> {
+    const baseQuery = withVisibleListings({
+      ...(excludeId && { _id: { $ne: excludeId } }),
+      propertyType: subject.propertyType,
+      operationType,
+      'location.city': subject.location.city,
+      priceMXN: { $gt: 0 },
+    });
+    const findCandidates = async (query: Record<string, any>) => {
+      const candidates = await this.propertyModel
+        .find(query, {
+          title: 1,
+          propertyType: 1,
+          priceMXN: 1,
+          propertyAge: 1,
+          'location.coordinates': 1,
+          features: 1,
+        })
+        .sort({ updatedAt: -1 })
+        .limit(MAX_VALUATION_CANDIDATES)
+        .lean<(Omit<ValuationCandidate, 'price'> & { priceMXN: number })[]>()
+        .exec();
+      return candidates.map(
+        ({ priceMXN, ...candidate }): ValuationCandidate => ({
+          ...candidate,
+          price: priceMXN,
+        }),
+      );
+    };
+
+    const bedrooms = subject.features?.bedrooms;
+    let candidates = bedrooms
+      ? await findCandidates({
+          ...baseQuery,
+          'features.bedrooms': {
+            $gte: Math.max(0, bedrooms - 1),
+            $lte: bedrooms + 1,
+          },
+        })
+      : [];
+    if (candidates.length < MIN_VALUATION_CANDIDATES) {
+      candidates = await findCandidates(baseQuery);
+    }
+
+    const subjectPriceMXN =
+      subject.priceMXN ??
+      (subject.price
+        ? this.exchangeRatesService.toMXN(subject.price, subject.currency)
+        : subject.price);
+    return valueProperty({ ...subject, price: subjectPriceMXN }, candidates);
+  }
+
+  /**
+   * Compare properties side by side, with their prices in MXN
+   * @param ids The property IDs, in the order they should be shown
+   * @returns The aligned comparison
+   */
+  async compareProperties(ids: string[]): Promise<PropertyComparison> {
+    if (new Set(ids).size !== ids.length) {
+      throw new BadRequestException('Each property can be compared only once');
+    }
+
+    const found = await this.propertyModel
+      .find(
+        {
+          _id: { $in: ids.filter((id) => Types.ObjectId.isValid(id)) },
+          deletedAt: null,
+        },
+        { priceHistory: 0 },
+      )
+      .lean<(ComparableProperty & { priceMXN: number | null })[]>()
+      .exec();
+
+    // Listings in other currencies are compared at their MXN price
+    const propertiesById = new Map(
+      found.map(({ priceMXN, ...property }): [string, ComparableProperty] => [
+        property._id.toString(),
+        { ...property, price: priceMXN ?? property.price },
+      ]),
+    );
+    const missing = ids.filter((id) => !propertiesById.has(id));
+    if (missing.length > 0) {
+      throw new NotFoundException(
+        `Properties with IDs ${missing.join(', ')} not found`,
+      );
+    }
+    const properties = ids.map((id) => propertiesById.get(id)!);
+
+    // Prices of the comparable listings of each property, for the medians
+    const peers = new Map<string, PeerPrices>();
+    for (const property of properties) {
+      const key = peerGroupKey(property);
+      if (peers.has(key)) {
+        continue;
+      }
+
+      const peerListings = await this.propertyModel
+        .find(
+          withVisibleListings({
+            'location.city': property.location.city,
+            propertyType: property.propertyType,
+            operationType: property.operationType,
+            priceMXN: { $gt: 0 },
+          }),
+          { priceMXN: 1, 'features.constructionSize': 1 },
+        )
+        .lean<(Pick<ComparableProperty, 'features'> & { priceMXN: number })[]>()
+        .exec();
+
+      peers.set(key, {
+        prices: peerListings.map((listing) => listing.priceMXN),
+        pricesPerConstructionM2: peerListings
+          .map((listing) =>
+            pricePerM2(listing.priceMXN, listing.features?.constructionSize),
+          )
+          .filter((value): value is number => value !== null),
+      });
+    }
+
+    return compareProperties(properties, peers);
+  }
+
+  /**
+   * Build the $push recording the initial price on insert and any later price change
+   * @param existingProperty The stored property, or null if it is about to be created
+   * @param price The incoming price
+   * @param source What triggered the change
+   * @returns Update operators to merge into the upsert, empty if the price did not change
+   */
+  private buildPriceHistoryUpdate(
+    existingProperty: { price: number } | null,
+    price: number,
+    source: PriceChangeSource,
+  ): Record<string, any> {
+    if (existingProperty && existingProperty.price === price) {
+      return {};
+    }
+
+    return {
+      $push: {
+        priceHistory: this.buildPriceHistoryEntry(
+          price,
+          existingProperty ? existingProperty.price : null,
+          source,
+        ),
+      },
+    };
+  }
+
+  /**
+   * Fields identifying the same listing across syncs and imports
+   * @param propertyData The incoming property data
+   * @returns MongoDB query object matching the stored listing
+   */
+  private getUniqueIdentifier(propertyData: {
+    title?: string;
+    location?: { address?: string };
+    agent?: { name?: string };
+  }): Record<string, string> {
+    return {
+      title: propertyData.title || '',
+      'location.address': propertyData.location?.address || '',
+      'agent.name': propertyData.agent?.name || '',
+    };
+  }
+
+  private buildPriceHistoryEntry(
+    price: number,
+    previousPrice: number | null,
+    source: PriceChangeSource,
+  ): PriceHistoryEntry {
+    return {
+      price,
+      previousPrice,
+      changedAt: new Date(),
+      source,
+    };
   }
 
-  async remove(id: string): Promise<void> {
-    const result = await this.propertyModel.deleteOne({ _id: id }).exec();
-    if (result.deletedCount === 0) {
+  /**
+   * Archive a property; it is hidden from search and statistics but still
+   * found by ID, so conversations pointing at it keep working
+   * @param id The property ID
+   * @param deletedBy Who archived the property, if known
+   */
+  async remove(id: string, deletedBy?: string): Promise<void> {
+    const archivedProperty = await this.propertyModel
+      .findOneAndUpdate(
+        { _id: id, deletedAt: null },
+        { $set: { deletedAt: new Date(), deletedBy: deletedBy ?? null } },
+        { projection: { developmentId: 1 } },
+      )
+      .lean<{ developmentId?: Types.ObjectId | null }>()
+      .exec();
+    if (!archivedProperty) {
       throw new NotFoundException(`Property with ID ${id} not found`);
     }
+    if (archivedProperty.developmentId) {
+      await this.rollupDevelopment(archivedProperty.developmentId);
+    }
+
+    await this.propertyEventsService.emit('property.deleted', {
+      propertyId: id,
+      deletedBy: deletedBy ?? null,
+      origin: 'api',
+    });
+  }
+
+  /**
+   * Restore an archived property
+   * @param id The property ID
+   * @returns The restored property
+   */
+  async restore(id: string): Promise<Property> {
+    const archivedProperty = await this.propertyModel
+      .findOneAndUpdate(
+        { _id: id, deletedAt: { $ne: null } },
+        { $set: { deletedAt: null, deletedBy: null } },
+      )
+      .lean()
+      .exec();
+    if (!archivedProperty) {
+      throw new NotFoundException(`Archived property with ID ${id} not found`);
+    }
+    if (archivedProperty.developmentId) {
+      await this.rollupDevelopment(archivedProperty.developmentId);
+    }
+
+    await this.propertyEventsService.emitChanges(
+      id,
+      [{ field: 'deletedAt', from: archivedProperty.deletedAt, to: null }],
+      'api',
+    );
+    return { ...archivedProperty, deletedAt: null, deletedBy: null };
+  }
+
+  /**
+   * Permanently delete the properties archived longer than the retention period
+   * @param retentionDays Days to keep archived properties; defaults to the
+   * DELETED_PROPERTY_RETENTION_DAYS setting
+   * @returns Number of purged properties
+   */
+  async purgeDeletedProperties(
+    retentionDays: number = Number(
+      this.configService.get<number>('DELETED_PROPERTY_RETENTION_DAYS') ?? 30,
+    ),
+  ): Promise<{ purged: number; cutoff: Date }> {
+    const cutoff = new Date(Date.now() - retentionDays * 86400000);
+
+    const result = await this.propertyModel
+      .deleteMany({ deletedAt: { $ne: null, $lt: cutoff } })
+      .exec();
+
+    this.logger.log(
+      `Purged ${result.deletedCount} properties archived before ${cutoff.toISOString()}`,
+    );
+    return { purged: result.deletedCount, cutoff };
   }
 
   async getHomepageData(limit: number = 8): Promise<{
@@ -213,7 +897,9 @@ export class PropertyService {
       this.logger.log('Fetching homepage data...');
 
       // Get random featured properties (only available ones)
-      const featuredPropertiesQuery = { status: 'available' };
+      const featuredPropertiesQuery = withVisibleListings({
+        status: 'available',
+      });
       const featuredProperties = await this.propertyModel
         .aggregate([
           { $match: featuredPropertiesQuery },
@@ -228,21 +914,31 @@ export class PropertyService {
         soldProperties,
         rentedProperties,
       ] = await Promise.all([
-        this.propertyModel.countDocuments(),
-        this.propertyModel.countDocuments({ status: 'available' }),
-        this.propertyModel.countDocuments({ status: 'sold' }),
-        this.propertyModel.countDocuments({ status: 'rented' }),
+        this.propertyModel.countDocuments(COUNTED_LISTING_FILTER),
+        this.propertyModel.countDocuments({
+          ...COUNTED_LISTING_FILTER,
+          status: 'available',
+        }),
+        this.propertyModel.countDocuments({
+          ...COUNTED_LISTING_FILTER,
+          status: 'sold',
+        }),
+        this.propertyModel.countDocuments({
+          ...COUNTED_LISTING_FILTER,
+          status: 'rented',
+        }),
       ]);
 
       // Get price statistics
       const priceStats = await this.propertyModel
         .aggregate([
+          { $match: COUNTED_LISTING_FILTER },
           {
             $group: {
               _id: null,
-              averagePrice: { $avg: '$price' },
-              minPrice: { $min: '$price' },
-              maxPrice: { $max: '$price' },
+              averagePrice: { $avg: '$priceMXN' },
+              minPrice: { $min: '$priceMXN' },
+              maxPrice: { $max: '$priceMXN' },
             },
           },
         ])
@@ -251,6 +947,7 @@ export class PropertyService {
       // Get property type distribution
       const propertyTypeStats = await this.propertyModel
         .aggregate([
+          { $match: COUNTED_LISTING_FILTER },
           {
             $group: {
               _id: '$propertyType',
@@ -263,6 +960,7 @@ export class PropertyService {
       // Get operation type distribution
       const operationTypeStats = await this.propertyModel
         .aggregate([
+          { $match: COUNTED_LISTING_FILTER },
           {
             $group: {
               _id: '$operationType',
@@ -275,6 +973,7 @@ export class PropertyService {
       // Get city distribution
       const cityStats = await this.propertyModel
         .aggregate([
+          { $match: COUNTED_LISTING_FILTER },
           {
             $group: {
               _id: '$location.city',
@@ -289,6 +988,7 @@ export class PropertyService {
       // Get state distribution
       const stateStats = await this.propertyModel
         .aggregate([
+          { $match: COUNTED_LISTING_FILTER },
           {
             $group: {
               _id: '$location.state',
@@ -303,6 +1003,7 @@ export class PropertyService {
       // Get amenities distribution
       const amenitiesStats = await this.propertyModel
         .aggregate([
+          { $match: COUNTED_LISTING_FILTER },
           { $unwind: '$amenities' },
           {
             $group: {
@@ -317,6 +1018,7 @@ export class PropertyService {
       // Get bedrooms distribution
       const bedroomsStats = await this.propertyModel
         .aggregate([
+          { $match: COUNTED_LISTING_FILTER },
           {
             $group: {
               _id: '$features.bedrooms',
@@ -330,6 +1032,7 @@ export class PropertyService {
       // Get bathrooms distribution
       const bathroomsStats = await this.propertyModel
         .aggregate([
+          { $match: COUNTED_LISTING_FILTER },
           {
             $group: {
               _id: '$features.bathrooms',
@@ -343,6 +1046,7 @@ export class PropertyService {
       // Get average construction and lot size
       const sizeStats = await this.propertyModel
         .aggregate([
+          { $match: COUNTED_LISTING_FILTER },
           {
             $group: {
               _id: null,
@@ -357,6 +1061,7 @@ export class PropertyService {
       const thirtyDaysAgo = new Date();
       thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
       const newestProperties = await this.propertyModel.countDocuments({
+        ...COUNTED_LISTING_FILTER,
         createdAt: { $gte: thirtyDaysAgo },
       });
 
@@ -364,6 +1069,7 @@ export class PropertyService {
       const sevenDaysAgo = new Date();
       sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
       const updatedLastWeek = await this.propertyModel.countDocuments({
+        ...COUNTED_LISTING_FILTER,
         updatedAt: { $gte: sevenDaysAgo },
       });
 
@@ -437,185 +1143,469 @@ export class PropertyService {
     }
   }
 
-  async syncProperties(properties: any[]) {
+  /**
+   * Upsert raw feed records, mapped into the Property model by the source adapter
+   * Every record seen is stamped with the run start, and withdrawn listings
+   * that come back are restored; the run is recorded in the sync run history
+   * with the fields it changed on each listing
+   * @param properties The raw feed records
+   * @param source Name of the registered source adapter
+   * @param runStartedAt Start of the sync run, shared by all the batches of a run
+   * @param options Feed file and feed-wide listing category
+   * @returns Sync summary
+   */
+  async syncProperties(
+    properties: unknown[],
+    source: string = 'scraper',
+    runStartedAt: Date = new Date(),
+    options: SyncOptions = {},
+  ) {
+    const adapter = this.propertySourceRegistry.get(source);
     const startTime = Date.now();
-    const stats = {
+    const runId = await this.syncRunService.startRun(source, options.file);
+    const result: SyncRunResult = {
       processed: 0,
-      updated: 0,
       created: 0,
-      errors: 0,
+      updated: 0,
+      unchanged: 0,
+      restored: 0,
+      failed: 0,
+      changes: [],
+      failures: [],
     };
 
     try {
-      for (const rawProperty of properties) {
+      for (const [index, rawProperty] of properties.entries()) {
+        let sourceId: string | null = null;
         try {
-          stats.processed++;
+          result.processed++;
 
-          const propertyData = this.transformPropertyData(rawProperty);
+          const propertyData = adapter.transform(rawProperty);
+          if (options.listingCategory) {
+            propertyData.listingCategory = options.listingCategory;
+          }
+          if (propertyData.location) {
+            propertyData.location.point = this.buildGeoPoint(
+              propertyData.location.coordinates,
+            );
+            propertyData.location.neighborhood =
+              await this.neighborhoodsService.findNameForPoint(
+                propertyData.location.point,
+              );
+          }
+          propertyData.searchFields = buildSearchFields(propertyData);
+          propertyData.priceMXN = this.exchangeRatesService.toMXN(
+            propertyData.price ?? 0,
+            propertyData.currency,
+          );
 
-          const uniqueIdentifier = {
-            title: propertyData.title || '',
-            'location.address': propertyData.location?.address || '',
-            'agent.name': propertyData.agent?.name || '',
-          };
+          sourceId = adapter.getSourceId(rawProperty);
+          const uniqueIdentifier = this.getUniqueIdentifier(propertyData);
+
+          // Match by feed ID first; listings synced before feed IDs were
+          // recorded are still matched by the legacy identifier
+          const existingProperty = await this.propertyModel
+            .findOne(
+              sourceId
+                ? { $or: [{ source, sourceId }, uniqueIdentifier] }
+                : uniqueIdentifier,
+            )
+            .lean<Property & { _id: Types.ObjectId }>()
+            .exec();
+
+          const isRestored = existingProperty?.status === 'withdrawn';
+          if (isRestored) {
+            propertyData.status = propertyData.status || 'available';
+          }
+          const fieldChanges = existingProperty
+            ? diffProperty(
+                existingProperty as unknown as Record<string, unknown>,
+                propertyData as Record<string, unknown>,
+              )
+            : [];
+
+          // Only stamp the listings the feed did not change
+          if (existingProperty && !isRestored && fieldChanges.length === 0) {
+            await this.propertyModel
+              .updateOne(
+                { _id: existingProperty._id },
+                {
+                  $set: {
+                    source,
+                    ...(sourceId && { sourceId }),
+                    lastSeenAt: runStartedAt,
+                  },
+                },
+                // Seeing a listing again does not change it
+                { timestamps: false },
+              )
+              .exec();
+            result.unchanged++;
+            continue;
+          }
 
-          const result = await this.propertyModel.findOneAndUpdate(
-            uniqueIdentifier,
-            {
-              ...propertyData,
-              updatedAt: new Date(),
-            },
-            {
-              upsert: true,
-              new: true,
-              setDefaultsOnInsert: true,
-            },
+          const priceHistoryUpdate = this.buildPriceHistoryUpdate(
+            existingProperty,
+            propertyData.price ?? 0,
+            'sync',
           );
 
-          if (!result._id) {
-            stats.created++;
+          const saved = await this.propertyModel
+            .findOneAndUpdate(
+              existingProperty
+                ? { _id: existingProperty._id }
+                : uniqueIdentifier,
+              {
+                $set: {
+                  ...propertyData,
+                  source,
+                  ...(sourceId && { sourceId }),
+                  lastSeenAt: runStartedAt,
+                  withdrawnAt: null,
+                  updatedAt: new Date(),
+                },
+                ...priceHistoryUpdate,
+              },
+              {
+                upsert: true,
+                new: true,
+                setDefaultsOnInsert: true,
+              },
+            )
+            .lean<Property & { _id: Types.ObjectId }>()
+            .exec();
+
+          const action = !existingProperty
+            ? 'created'
+            : isRestored
+              ? 'restored'
+              : 'updated';
+          result.changes.push({
+            propertyId: saved?._id ?? null,
+            sourceId,
+            title: propertyData.title ?? '',
+            action,
+            fields: fieldChanges,
+          });
+
+          if (saved && action === 'created') {
+            await this.propertyEventsService.emit('property.created', {
+              propertyId: String(saved._id),
+              property: saved as unknown as Record<string, unknown>,
+              origin: `sync:${source}`,
+            });
+          } else if (saved) {
+            await this.propertyEventsService.emitChanges(
+              String(saved._id),
+              fieldChanges,
+              `sync:${source}`,
+            );
+          }
+
+          if (action === 'created') {
+            result.created++;
             this.logger.debug(`Created new property: ${propertyData.title}`);
           } else {
-            stats.updated++;
-            this.logger.debug(`Updated property: ${propertyData.title}`);
+            result.updated++;
+            if (isRestored) {
+              result.restored++;
+            }
+            this.logger.debug(
+              `${isRestored ? 'Restored' : 'Updated'} property: ${propertyData.title}`,
+            );
           }
         } catch (error) {
-          stats.errors++;
+          result.failed++;
+          result.failures.push({ index, sourceId, message: error.message });
           this.logger.error(`Error processing property: ${error.message}`);
         }
       }
-
-      const duration = Date.now() - startTime;
-      const summary = {
-        ...stats,
-        duration: `${duration}ms`,
-        timestamp: new Date(),
-      };
-
-      this.logger.log('Sync completed', summary);
-      return summary;
     } catch (error) {
       this.logger.error('Sync failed', error);
+      await this.syncRunService.finishRun(runId, result, error as Error);
       throw error;
     }
-  }
-
-  private transformPropertyData(rawProperty: any): Partial<Property> {
-    const price =
-      rawProperty.priceOperationTypes?.[0]?.prices?.[0]?.amount || 0;
-
-    const location: PropertyLocation = {
-      state: rawProperty.postingLocation?.location?.parent?.parent?.name || '',
-      city: rawProperty.postingLocation?.location?.parent?.name || '',
-      address: rawProperty.postingLocation?.address?.name || '',
-      coordinates: {
-        lat:
-          rawProperty.postingLocation?.postingGeolocation?.geolocation
-            ?.latitude || 0,
-        lng:
-          rawProperty.postingLocation?.postingGeolocation?.geolocation
-            ?.longitude || 0,
-      },
-    };
 
-    const features: PropertyFeatures = {
-      bedrooms: rawProperty.mainFeatures?.CFT2?.value
-        ? Number(rawProperty.mainFeatures?.CFT2?.value)
-        : 0,
-      bathrooms:
-        Number(rawProperty.mainFeatures?.CFT3?.value || 0) +
-        Number(rawProperty.mainFeatures?.CFT4?.value || 0),
-      constructionSize: rawProperty.mainFeatures?.CFT101?.value
-        ? Number(rawProperty.mainFeatures?.CFT101?.value)
-        : 0,
-      lotSize: rawProperty.mainFeatures?.CFT100?.value
-        ? Number(rawProperty.mainFeatures?.CFT100?.value)
-        : 0,
-      parking: rawProperty.mainFeatures?.CFT7?.value
-        ? Number(rawProperty.mainFeatures?.CFT7?.value)
-        : 0,
-      floors: 1,
+    await this.syncRunService.finishRun(runId, result);
+
+    const duration = Date.now() - startTime;
+    const summary = {
+      runId: String(runId),
+      processed: result.processed,
+      created: result.created,
+      updated: result.updated,
+      unchanged: result.unchanged,
+      restored: result.restored,
+      failed: result.failed,
+      duration: `${duration}ms`,
+      timestamp: new Date(),
     };
 
-    const agent: Agent = {
-      name: rawProperty.publisher?.name || 'Unknown',
-      company: rawProperty.publisher?.name || 'Unknown',
-      title: 'Agent',
-      image: rawProperty.publisher?.urlLogo || '',
-      phone: rawProperty.whatsApp || rawProperty.publisher?.mainPhone || '',
-      email: 'contact@example.com',
-      experience: 0,
-      activeListings: 0,
-    };
+    this.logger.log('Sync completed', summary);
+    return summary;
+  }
 
-    const amenities = (rawProperty.highlightedFeatures || []) as Amenity[];
+  /**
+   * Withdraw the available listings of a source missing from a complete sync run
+   * A listing is only withdrawn once it has been missing for longer than the
+   * SYNC_WITHDRAWAL_GRACE_HOURS setting, so a single bad feed cannot wipe out
+   * the inventory; nothing is withdrawn if the run saw no listing at all
+   * @param source Name of the source adapter
+   * @param runStartedAt Start of the complete sync run
+   * @returns Number of withdrawn listings
+   */
+  async withdrawMissingProperties(
+    source: string,
+    runStartedAt: Date,
+  ): Promise<{ withdrawn: number }> {
+    const seen = await this.propertyModel.countDocuments({
+      source,
+      lastSeenAt: { $gte: runStartedAt },
+    });
+    if (seen === 0) {
+      this.logger.warn(
+        `Sync run of ${source} saw no listings, skipping withdrawal`,
+      );
+      return { withdrawn: 0 };
+    }
 
-    const propertyType = this.mapPropertyType(rawProperty.realEstateType?.name);
-    const operationType = this.mapOperationType(
-      rawProperty.priceOperationTypes?.[0]?.operationType?.name,
+    const graceHours = Number(
+      this.configService.get<number>('SYNC_WITHDRAWAL_GRACE_HOURS') ?? 72,
     );
+    const cutoff = new Date(runStartedAt.getTime() - graceHours * 3600000);
 
-    return {
-      title: rawProperty.title,
-      description: rawProperty.descriptionNormalized || '',
-      propertyType,
-      operationType,
-      type:
-        rawProperty.postingType?.toLowerCase() === 'development'
-          ? 'development'
-          : 'property',
-      price,
-      location,
-      features,
-      amenities,
-      images:
-        rawProperty.visiblePictures?.pictures?.map((pic) => pic.url730x532) ||
-        [],
-      propertyAge: 0,
-      maintenanceFee: 0,
-      status: 'available',
-      agent,
-    };
-  }
+    // Listings synced before lastSeenAt was stamped have never been seen
+    const missingProperties = await this.propertyModel
+      .find(
+        {
+          source,
+          status: 'available',
+          $or: [{ lastSeenAt: { $lt: cutoff } }, { lastSeenAt: null }],
+        },
+        { _id: 1 },
+      )
+      .lean<{ _id: Types.ObjectId }[]>()
+      .exec();
 
-  private mapPropertyType(type: string): PropertyTypeName {
-    const typeMap: Record<string, PropertyTypeName> = {
-      'Desarrollos verticales': 'Desarrollos verticales',
-      'Desarrollos horizontales': 'Desarrollos horizontales',
-      Casas: 'Casas',
-      Departamentos: 'Departamentos',
-    };
-    return typeMap[type] || 'Casas';
-  }
+    // Withdraw one listing at a time, so only the listings actually withdrawn
+    // (and not changed in the meantime) publish an event
+    const withdrawnAt = new Date();
+    let withdrawn = 0;
+    for (const { _id } of missingProperties) {
+      const result = await this.propertyModel
+        .updateOne(
+          { _id, status: 'available' },
+          { $set: { status: 'withdrawn', withdrawnAt } },
+          { timestamps: false },
+        )
+        .exec();
+      if (result.modifiedCount === 0) {
+        continue;
+      }
 
-  private mapOperationType(type: string): OperationType {
-    const typeMap: Record<string, OperationType> = {
-      Venta: 'Venta',
-      Renta: 'Renta',
-      Desarrollo: 'Desarrollo',
-    };
-    return typeMap[type] || 'Venta';
-  }
+      withdrawn++;
+      await this.propertyEventsService.emit('property.status_changed', {
+        propertyId: String(_id),
+        from: 'available',
+        to: 'withdrawn',
+        origin: `sync:${source}`,
+      });
+    }
 
-  private buildQuery(filters: PropertyFilters): any {
-    const query: any = {};
+    this.logger.log(
+      `Withdrew ${withdrawn} ${source} listings not seen since ${cutoff.toISOString()}`,
+    );
+    return { withdrawn };
+  }
 
-    if (filters.propertyType?.length) {
-      query.propertyType = { $in: filters.propertyType };
+  /**
+   * Validate uploaded rows against CreatePropertyDto and upsert the valid ones
+   * Rows are matched to stored listings with the same identifier used by sync
+   * @param rows The parsed upload rows
+   * @param mapping Optional CreatePropertyDto path to source column mapping
+   * @param dryRun Validate and report without writing anything
+   * @returns Row-by-row import report
+   */
+  async importProperties(
+    rows: ParsedRow[],
+    mapping?: ColumnMapping,
+    dryRun: boolean = false,
+  ): Promise<ImportReport> {
+    if (
+      mapping &&
+      Object.values(mapping).some((source) => typeof source !== 'string')
+    ) {
+      throw new BadRequestException('Mapping values must be column names');
+    }
+
+    const report: ImportReport = {
+      dryRun,
+      total: rows.length,
+      created: 0,
+      updated: 0,
+      failed: 0,
+      rows: [],
+    };
+
+    for (const { row, values, error } of rows) {
+      const result = values
+        ? await this.importRow(row, values, mapping, dryRun)
+        : { row, status: 'failed' as const, errors: [error || 'Empty row'] };
+
+      report[result.status]++;
+      report.rows.push(result);
+    }
+
+    this.logger.log(
+      `Import ${dryRun ? 'dry run ' : ''}completed: ${report.created} created, ${report.updated} updated, ${report.failed} failed`,
+    );
+    return report;
+  }
+
+  private async importRow(
+    row: number,
+    values: Record<string, unknown>,
+    mapping: ColumnMapping | undefined,
+    dryRun: boolean,
+  ): Promise<ImportRowResult> {
+    const dto = plainToInstance(
+      CreatePropertyDto,
+      applyColumnMapping(values, mapping),
+      { enableImplicitConversion: true },
+    );
+    const validationErrors = await validate(dto, { whitelist: true });
+    if (validationErrors.length > 0) {
+      return {
+        row,
+        status: 'failed',
+        title: dto.title,
+        errors: formatValidationErrors(validationErrors),
+      };
+    }
+
+    try {
+      const uniqueIdentifier = this.getUniqueIdentifier(dto);
+      const existingProperty = await this.propertyModel
+        .findOne(uniqueIdentifier, { price: 1 })
+        .lean<{ _id: Types.ObjectId; price: number }>()
+        .exec();
+      const status = existingProperty ? 'updated' : 'created';
+
+      if (dryRun) {
+        return {
+          row,
+          status,
+          id: existingProperty?._id.toString(),
+          title: dto.title,
+        };
+      }
+
+      const point = this.buildGeoPoint(dto.location.coordinates);
+      const result = await this.propertyModel.findOneAndUpdate(
+        uniqueIdentifier,
+        {
+          $set: {
+            ...dto,
+            location: {
+              ...dto.location,
+              point,
+              neighborhood:
+                await this.neighborhoodsService.findNameForPoint(point),
+            },
+            searchFields: buildSearchFields(dto),
+            priceMXN: this.exchangeRatesService.toMXN(dto.price, dto.currency),
+          },
+          ...this.buildPriceHistoryUpdate(
+            existingProperty,
+            dto.price,
+            'import',
+          ),
+        },
+        { upsert: true, new: true, setDefaultsOnInsert: true },
+      );
+
+      return { row, status, id: String(result._id), title: dto.title };
+    } catch (error) {
+      this.logger.error(`Error importing row ${row}: ${error.message}`);
+      return {
+        row,
+        status: 'failed',
+        title: dto.title,
+        errors: [error.message],
+      };
+    }
+  }
+
+  /**
+   * Populate location.point for properties stored before the geospatial index existed
+   * @returns Number of properties updated
+   */
+  async backfillGeoPoints(): Promise<number> {
+    const result = await this.propertyModel
+      .updateMany(
+        {
+          'location.point': { $exists: false },
+          'location.coordinates.lat': { $nin: [0, null] },
+          'location.coordinates.lng': { $nin: [0, null] },
+        },
+        [
+          {
+            $set: {
+              'location.point': {
+                type: 'Point',
+                coordinates: [
+                  '$location.coordinates.lng',
+                  '$location.coordinates.lat',
+                ],
+              },
+            },
+          },
+        ],
+      )
+      .exec();
+
+    this.logger.log(`Backfilled ${result.modifiedCount} geo points`);
+    return result.modifiedCount;
+  }
+
+  private buildQuery(filters: PropertyFilters): any {
+    const query: any = {};
+
+    if (filters.propertyType?.length) {
+      query.propertyType = { $in: filters.propertyType };
     }
 
     if (filters.operationType?.length) {
       query.operationType = { $in: filters.operationType };
     }
 
+    if (filters.listingCategory?.length) {
+      const categories = [filters.listingCategory].flat();
+      // Listings stored before categories existed are standard listings
+      query.listingCategory = {
+        $in: categories.includes('standard')
+          ? [...categories, null]
+          : categories,
+      };
+    }
+
     if (filters.type?.length) {
       query.type = { $in: filters.type };
     }
 
+    // Price bounds are given in the caller's currency
     if (filters.minPrice || filters.maxPrice) {
-      query.price = {};
-      if (filters.minPrice) query.price.$gte = filters.minPrice;
-      if (filters.maxPrice) query.price.$lte = filters.maxPrice;
+      query.priceMXN = {};
+      if (filters.minPrice)
+        query.priceMXN.$gte = this.exchangeRatesService.toMXN(
+          Number(filters.minPrice),
+          filters.currency,
+        );
+      if (filters.maxPrice)
+        query.priceMXN.$lte = this.exchangeRatesService.toMXN(
+          Number(filters.maxPrice),
+          filters.currency,
+        );
     }
 
     if (filters.location) {
@@ -625,6 +1615,11 @@ export class PropertyService {
       if (filters.location.city?.length) {
         query['location.city'] = { $in: filters.location.city };
       }
+      if (filters.location.neighborhood?.length) {
+        query['location.neighborhood'] = {
+          $in: [filters.location.neighborhood].flat(),
+        };
+      }
     }
 
     if (filters.features) {
@@ -670,15 +1665,38 @@ export class PropertyService {
         query.maintenanceFee.$lte = filters.maintenanceFee.max;
     }
 
-    return query;
+    if (filters.rental) {
+      // Query strings carry the flags as "true" and "false"
+      for (const flag of [
+        'furnished',
+        'petsAllowed',
+        'utilitiesIncluded',
+      ] as const) {
+        if (filters.rental[flag] !== undefined) {
+          query[`rental.${flag}`] = String(filters.rental[flag]) === 'true';
+        }
+      }
+      if (filters.rental.maxLeaseMonths !== undefined) {
+        query['rental.minLeaseMonths'] = {
+          $lte: Number(filters.rental.maxLeaseMonths),
+        };
+      }
+      if (filters.rental.maxDepositMonths !== undefined) {
+        query['rental.depositMonths'] = {
+          $lte: Number(filters.rental.maxDepositMonths),
+        };
+      }
+    }
+
+    return withVisibleListings(query);
   }
 
-  private buildSortQuery(sortBy?: string): any {
+  private buildSortQuery(sortBy?: string): SortSpec {
     switch (sortBy) {
       case 'price asc':
-        return { price: 1 };
+        return { priceMXN: 1 };
       case 'price desc':
-        return { price: -1 };
+        return { priceMXN: -1 };
       case 'age asc':
         return { propertyAge: 1 };
       case 'age desc':
@@ -692,7 +1710,7 @@ export class PropertyService {
     executeQueryDto: ExecuteQueryDto,
   ): Promise<QueryResult<Property>> {
     const startTime = Date.now();
-    const { query, options = {} } = executeQueryDto;
+    const { query, options = {}, currency } = executeQueryDto;
 
     const parsedQuery = JSON.parse(query);
     await this.validateQuery(parsedQuery);
@@ -701,39 +1719,50 @@ export class PropertyService {
       await this.validateProjection(options.projection);
     }
 
-    // Check if we have a proximity filter
-    const proximityFilter = parsedQuery._proximityFilter;
-    let filteredData: any[] = [];
+    // Replace the proximity filter with a native geospatial query, so counts,
+    // statistics and the result page are all computed by MongoDB
+    const { baseQuery, matchQuery, proximityFilter } =
+      this.buildMatchQuery(parsedQuery);
+
+    // With a single point of interest, return the closest properties first
+    const nearPoint =
+      proximityFilter && !options.sort
+        ? this.getNearPoint(proximityFilter)
+        : null;
+
+    // Resolve the requested page; a cursor must come with the same sort
+    const page = resolvePage(
+      options.sort ? { ...options.sort, createdAt: -1 } : undefined,
+      nearPoint ? { distance: 1 } : { createdAt: -1 },
+      { limit: options.limit, cursor: options.cursor },
+    );
 
-    // Remove the proximity filter from the query before executing
-    if (proximityFilter) {
-      delete parsedQuery._proximityFilter;
-      this.logger.debug(
-        `Found proximity filter: ${JSON.stringify(proximityFilter)}`,
-      );
+    if ('distance' in page.sort && !nearPoint) {
+      throw new BadRequestException('Cursor does not match the current query');
     }
 
-    // Get total count in database for statistics
-    const totalInDatabase = await this.propertyModel.countDocuments();
-
-    // Get count of matching documents
-    let matchingResults = await this.propertyModel.countDocuments(parsedQuery);
-
-    // Calculate percentage match
-    let percentageMatch = (matchingResults / totalInDatabase) * 100;
+    // Get total count in database for statistics, a development standing
+    // for its units as in the result page
+    const totalInDatabase = await this.propertyModel.countDocuments(
+      LISTED_LISTING_FILTER,
+    );
 
-    // Get statistics based on the query
-    const [priceStats, cityStats] = await Promise.all([
-      // Price statistics
+    // Get statistics (and facets, when requested) based on the query
+    const [priceStats, cityStats, facets] = await Promise.all([
+      // Price statistics, in MXN
       this.propertyModel
-        .aggregate([
-          { $match: parsedQuery },
+        .aggregate<{
+          averagePrice: number | null;
+          minPrice: number | null;
+          maxPrice: number | null;
+        }>([
+          { $match: matchQuery },
           {
             $group: {
               _id: null,
-              averagePrice: { $avg: '$price' },
-              minPrice: { $min: '$price' },
-              maxPrice: { $max: '$price' },
+              averagePrice: { $avg: '$priceMXN' },
+              minPrice: { $min: '$priceMXN' },
+              maxPrice: { $max: '$priceMXN' },
             },
           },
         ])
@@ -742,7 +1771,7 @@ export class PropertyService {
       // City distribution
       this.propertyModel
         .aggregate([
-          { $match: parsedQuery },
+          { $match: matchQuery },
           {
             $group: {
               _id: '$location.city',
@@ -751,76 +1780,73 @@ export class PropertyService {
           },
         ])
         .exec(),
-    ]);
-
-    // Execute the main query with limit
-    let data = await this.propertyModel
-      .find(parsedQuery, options.projection)
-      .sort({ ...options.sort, createdAt: -1 })
-      .limit(20) // Always limit to 20 results
-      .lean()
-      .exec();
-
-    // Apply proximity filtering if needed
-    if (
-      proximityFilter &&
-      proximityFilter.coordinates &&
-      proximityFilter.coordinates.length > 0
-    ) {
-      this.logger.debug(
-        `Applying proximity filter with ${proximityFilter.coordinates.length} coordinates`,
-      );
 
-      // Filter properties by distance to nearby places
-      filteredData = this.filterPropertiesByProximity(
-        data,
-        proximityFilter.coordinates,
-        proximityFilter.maxDistance || 20, // Default to 20km
-        proximityFilter.logicalOperator || 'OR',
-      );
-
-      // Update data with filtered results
-      data = filteredData.slice(0, 20); // Limit to 20 results
+      // Facet counts
+      options.facets ? this.getSearchFacets(matchQuery) : undefined,
+    ]);
 
-      // Update matching results count
-      const filteredMatchingResults = filteredData.length;
-      this.logger.debug(
-        `Filtered from ${matchingResults} to ${filteredMatchingResults} results based on proximity`,
-      );
+    // Execute the main query for the requested page and count the matching
+    // documents, rolling matching development units up to their development
+    const projection = withSortFields(options.projection, page.sort);
+    const isNearPage = 'distance' in page.sort && !!nearPoint;
+    const [docs, matchingResults] = (await this.matchesUnits(matchQuery))
+      ? await this.findRolledUpPage(
+          isNearPage
+            ? [this.buildGeoNearStage(baseQuery, nearPoint)]
+            : [{ $match: matchQuery }],
+          page,
+          projection,
+        )
+      : await Promise.all([
+          isNearPage
+            ? this.findNearPage(baseQuery, nearPoint, page, projection)
+            : this.propertyModel
+                .find(this.withCursorFilter(matchQuery, page), projection)
+                .sort(page.sort)
+                .limit(page.limit + 1)
+                .lean<Property[]>()
+                .exec(),
+          this.propertyModel.countDocuments(matchQuery),
+        ]);
 
-      // Update statistics
-      if (filteredMatchingResults !== matchingResults) {
-        const filteredPercentageMatch =
-          (filteredMatchingResults / totalInDatabase) * 100;
+    // Calculate percentage match
+    const percentageMatch = (matchingResults / totalInDatabase) * 100;
 
-        // Update matching results and percentage match
-        matchingResults = filteredMatchingResults;
-        percentageMatch = filteredPercentageMatch;
-      }
-    }
+    const { data, pagination } = buildPage(docs, page);
 
     // Format the statistics
     const citiesDistribution = Object.fromEntries(
       cityStats.map((stat) => [stat._id, stat.count]),
     );
 
+    // Prices are returned in the caller's currency
+    const [prices] = priceStats;
+    const toDisplayPrice = (amount: number) =>
+      this.exchangeRatesService.fromMXN(amount, currency);
+
     const executionTime = Date.now() - startTime;
 
     return {
-      data,
+      data: this.exchangeRatesService.withDisplayPrice(data, currency),
+      ...(facets && { facets }),
       metadata: {
         executionTime,
+        pagination,
         statistics: {
           totalInDatabase,
           matchingResults,
           percentageMatch,
-          averagePrice: priceStats[0]?.averagePrice,
-          priceRange: priceStats[0]
-            ? {
-                min: priceStats[0].minPrice,
-                max: priceStats[0].maxPrice,
-              }
-            : undefined,
+          averagePrice:
+            prices?.averagePrice != null
+              ? toDisplayPrice(prices.averagePrice)
+              : undefined,
+          priceRange:
+            prices?.minPrice != null && prices.maxPrice != null
+              ? {
+                  min: toDisplayPrice(prices.minPrice),
+                  max: toDisplayPrice(prices.maxPrice),
+                }
+              : undefined,
           citiesDistribution,
         },
       },
@@ -828,108 +1854,588 @@ export class PropertyService {
   }
 
   /**
-   * Filter properties by proximity to coordinates
-   * @param properties Array of properties to filter
-   * @param coordinates Array of coordinates to check proximity against
-   * @param maxDistance Maximum distance in kilometers
-   * @param logicalOperator 'AND' or 'OR' operator for combining proximity conditions
-   * @returns Filtered array of properties
+   * Stream the properties matching the filters, or a stored MongoDB query, without a page cap
+   * @param filters The same filters accepted by findAll
+   * @param query Optional MongoDB query (JSON), as returned by the chat, taking precedence over the filters
+   * @returns Plain property objects, newest first
    */
-  private filterPropertiesByProximity(
-    properties: Property[],
-    coordinates: Array<{
-      lat: number;
-      lng: number;
-      name: string;
-      type: string;
-    }>,
-    maxDistance: number = 20,
-    logicalOperator: 'AND' | 'OR' = 'OR',
-  ): Property[] {
-    this.logger.debug(
-      `Filtering ${properties.length} properties by proximity to ${coordinates.length} coordinates`,
-    );
+  exportProperties(
+    filters: PropertyFilters = {},
+    query?: string,
+  ): AsyncIterable<Record<string, unknown>> {
+    let matchQuery: Record<string, any>;
+    if (query) {
+      let parsedQuery: Record<string, any>;
+      try {
+        parsedQuery = JSON.parse(query);
+      } catch {
+        throw new BadRequestException('query must be a valid JSON object');
+      }
+      this.validateQuery(parsedQuery);
+      matchQuery = this.buildMatchQuery(parsedQuery).matchQuery;
+    } else {
+      matchQuery = this.buildQuery(filters);
+    }
 
-    // Filter properties that have coordinates
-    const propertiesWithCoordinates = properties.filter(
-      (property) =>
-        property.location &&
-        property.location.coordinates &&
-        property.location.coordinates.lat &&
-        property.location.coordinates.lng,
-    );
+    // The query is validated before returning, so errors surface before streaming
+    return this.propertyModel
+      .find(matchQuery, { priceHistory: 0 })
+      .sort({ createdAt: -1, _id: -1 })
+      .lean<Record<string, unknown>>()
+      .cursor();
+  }
 
-    if (propertiesWithCoordinates.length === 0) {
-      this.logger.warn(
-        'No properties with coordinates found for proximity filtering',
-      );
-      return properties;
+  /**
+   * Check that stored search criteria can be run
+   * @param criteria findAll filters or a MongoDB query
+   */
+  validateSearchCriteria(criteria: SearchCriteria): void {
+    this.buildCriteriaQuery(criteria);
+  }
+
+  /**
+   * Find the listings matching stored search criteria that were created or
+   * updated after a date, oldest change first
+   * @param criteria findAll filters or a MongoDB query
+   * @param since Only listings changed after this date
+   * @param limit Maximum number of listings to return
+   * @param afterId Also return the listings changed at `since` whose ID sorts after this one
+   * @returns The IDs and timestamps of the changed listings
+   */
+  async findChangedSince(
+    criteria: SearchCriteria,
+    since: Date,
+    limit: number = 500,
+    afterId: Types.ObjectId | null = null,
+  ): Promise<{ _id: Types.ObjectId; createdAt: Date; updatedAt: Date }[]> {
+    return this.propertyModel
+      .find(
+        {
+          $and: [
+            this.buildCriteriaQuery(criteria),
+            afterId
+              ? buildCursorFilter({ updatedAt: 1, _id: 1 }, [since, afterId])
+              : { updatedAt: { $gt: since } },
+          ],
+        },
+        { _id: 1, createdAt: 1, updatedAt: 1 },
+      )
+      .sort({ updatedAt: 1, _id: 1 })
+      .limit(limit)
+      .lean<{ _id: Types.ObjectId; createdAt: Date; updatedAt: Date }[]>()
+      .exec();
+  }
+
+  private buildCriteriaQuery(criteria: SearchCriteria): Record<string, any> {
+    if (criteria.query) {
+      this.validateQuery(criteria.query);
+      return this.buildMatchQuery(criteria.query).matchQuery;
+    }
+    return this.buildQuery(criteria.filters || {});
+  }
+
+  /**
+   * Translate the _proximityFilter of a stored query into a $geoWithin condition,
+   * restricted to visible listings
+   * @param parsedQuery The parsed query
+   * @returns The query without the proximity filter, the MongoDB match query and the applied proximity filter, if any
+   */
+  private buildMatchQuery(parsedQuery: Record<string, any>): {
+    baseQuery: Record<string, any>;
+    matchQuery: Record<string, any>;
+    proximityFilter: ProximityFilter | null;
+  } {
+    const { _proximityFilter, ...query } = parsedQuery;
+    const baseQuery = withVisibleListings(query);
+    const proximityFilter = _proximityFilter as ProximityFilter | undefined;
+    if (!proximityFilter) {
+      return { baseQuery, matchQuery: baseQuery, proximityFilter: null };
     }
 
     this.logger.debug(
-      `Found ${propertiesWithCoordinates.length} properties with coordinates`,
+      `Found proximity filter: ${JSON.stringify(proximityFilter)}`,
     );
 
-    // Filter properties by distance
-    return propertiesWithCoordinates.filter((property) => {
-      // Calculate distance to each coordinate
-      const distances = coordinates.map((coord) => ({
-        distance: this.calculateDistance(
-          property.location.coordinates.lat,
-          property.location.coordinates.lng,
-          coord.lat,
-          coord.lng,
-        ),
-        name: coord.name,
-        type: coord.type,
-      }));
-
-      // Apply logical operator
-      if (logicalOperator === 'AND') {
-        // Property must be within maxDistance of ALL coordinates
-        return distances.every((d) => d.distance <= maxDistance);
-      } else {
-        // Property must be within maxDistance of ANY coordinate
-        return distances.some((d) => d.distance <= maxDistance);
+    const proximityQuery = this.buildProximityQuery(proximityFilter);
+    if (Object.keys(proximityQuery).length === 0) {
+      return { baseQuery, matchQuery: baseQuery, proximityFilter: null };
+    }
+
+    return {
+      baseQuery,
+      matchQuery: { $and: [baseQuery, proximityQuery] },
+      proximityFilter,
+    };
+  }
+
+  /**
+   * Count the matching properties per facet value in a single aggregation
+   * @param matchQuery The MongoDB query selecting the matching properties
+   * @returns Counts per property type, operation type, city, bedrooms, amenity and price range
+   */
+  private async getSearchFacets(
+    matchQuery: Record<string, any>,
+  ): Promise<SearchFacets> {
+    const countBy = (
+      field: string,
+      limit?: number,
+    ): PipelineStage.FacetPipelineStage[] => [
+      { $match: { [field]: { $nin: [null, ''] } } },
+      { $group: { _id: `$${field}`, count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+      ...(limit ? [{ $limit: limit }] : []),
+    ];
+    const bucketBy = (
+      field: string,
+      boundaries: number[],
+    ): PipelineStage.FacetPipelineStage[] => [
+      { $match: { [field]: { $type: 'number', $gte: boundaries[0] } } },
+      {
+        $bucket: {
+          groupBy: `$${field}`,
+          boundaries,
+          // Values at or above the last boundary fall into the last bucket
+          default: boundaries[boundaries.length - 1],
+          output: { count: { $sum: 1 } },
+        },
+      },
+      { $sort: { _id: 1 } },
+    ];
+
+    const [result] = await this.propertyModel
+      .aggregate<FacetGroups>([
+        { $match: matchQuery },
+        {
+          $facet: {
+            propertyType: countBy('propertyType'),
+            operationType: countBy('operationType'),
+            city: countBy('location.city', CITY_FACET_LIMIT),
+            bedrooms: bucketBy('features.bedrooms', BEDROOM_FACET_BOUNDARIES),
+            amenities: [{ $unwind: '$amenities' }, ...countBy('amenities')],
+            price: bucketBy('priceMXN', PRICE_FACET_BOUNDARIES),
+          },
+        },
+      ])
+      .exec();
+
+    return toSearchFacets(result);
+  }
+
+  /**
+   * Build a $geoWithin query from a proximity filter
+   * @param proximityFilter The proximity filter with the points of interest
+   * @returns MongoDB query object, or an empty object if there are no valid coordinates
+   */
+  private buildProximityQuery(
+    proximityFilter: ProximityFilter,
+  ): Record<string, any> {
+    const coordinates = this.getProximityCoordinates(proximityFilter);
+    if (coordinates.length === 0) {
+      this.logger.warn('No valid coordinates found for proximity filtering');
+      return {};
+    }
+
+    const maxDistance = proximityFilter.maxDistance || 20; // Default to 20km
+    const withinRange = (coordinate: ProximityCoordinate) => ({
+      'location.point': {
+        $geoWithin: {
+          $centerSphere: [
+            [coordinate.lng, coordinate.lat],
+            (coordinate.radius || maxDistance) / EARTH_RADIUS_KM,
+          ],
+        },
+      },
+    });
+
+    if (proximityFilter.logicalOperator === 'AND') {
+      // Property must be near at least one place of EACH type
+      const typeGroups = new Map<string, ProximityCoordinate[]>();
+      for (const coordinate of coordinates) {
+        const type = coordinate.type || 'place';
+        typeGroups.set(type, [...(typeGroups.get(type) || []), coordinate]);
       }
+
+      return {
+        $and: Array.from(typeGroups.values()).map((group) => ({
+          $or: group.map(withinRange),
+        })),
+      };
+    }
+
+    // Property must be near ANY of the places
+    return { $or: coordinates.map(withinRange) };
+  }
+
+  /**
+   * Get the point to sort by distance when the proximity filter has a single point
+   * @param proximityFilter The proximity filter with the points of interest
+   * @returns The point and search radius, or null if the filter has several points
+   */
+  private getNearPoint(proximityFilter: ProximityFilter): NearPoint | null {
+    const coordinates = this.getProximityCoordinates(proximityFilter);
+    if (coordinates.length !== 1) {
+      return null;
+    }
+
+    const [coordinate] = coordinates;
+    const maxDistance = coordinate.radius || proximityFilter.maxDistance || 20;
+
+    return {
+      coordinates: [coordinate.lng, coordinate.lat],
+      maxDistance: maxDistance * 1000, // Meters
+    };
+  }
+
+  /**
+   * Fetch a page of properties sorted by distance to a point with $geoNear,
+   * adding the distance in meters to each property
+   * @param query The MongoDB query without the proximity filter
+   * @param nearPoint The point to sort by distance
+   * @param page The page request
+   * @param projection Optional projection
+   * @returns Up to page.limit + 1 properties
+   */
+  private async findNearPage(
+    query: Record<string, any>,
+    nearPoint: NearPoint,
+    page: PageRequest,
+    projection?: Record<string, 1 | 0>,
+  ): Promise<any[]> {
+    const pipeline: any[] = [this.buildGeoNearStage(query, nearPoint)];
+
+    if (Object.keys(page.filter).length > 0) {
+      pipeline.push({ $match: page.filter });
+    }
+
+    pipeline.push({ $sort: page.sort }, { $limit: page.limit + 1 });
+
+    if (projection && Object.keys(projection).length > 0) {
+      pipeline.push({ $project: projection });
+    }
+
+    return this.propertyModel.aggregate(pipeline).exec();
+  }
+
+  /**
+   * Build the $geoNear stage selecting the properties near a point, adding
+   * the distance in meters to each property
+   * @param query The MongoDB query without the proximity filter
+   * @param nearPoint The point to sort by distance
+   * @returns The $geoNear stage
+   */
+  private buildGeoNearStage(
+    query: Record<string, any>,
+    nearPoint: NearPoint,
+  ): PipelineStage.GeoNear {
+    return {
+      $geoNear: {
+        near: { type: 'Point', coordinates: nearPoint.coordinates },
+        distanceField: 'distance',
+        maxDistance: nearPoint.maxDistance,
+        spherical: true,
+        key: 'location.point',
+        query,
+      },
+    };
+  }
+
+  /**
+   * Check whether any development unit matches a query
+   * @param query The MongoDB query
+   * @returns True if the page has to be rolled up
+   */
+  private async matchesUnits(query: Record<string, any>): Promise<boolean> {
+    const unit = await this.propertyModel.exists({
+      $and: [query, { developmentId: { $ne: null } }],
     });
+    return unit !== null;
   }
 
   /**
-   * Calculate distance between two coordinates using the Haversine formula
-   * @param lat1 Latitude of first point
-   * @param lng1 Longitude of first point
-   * @param lat2 Latitude of second point
-   * @param lng2 Longitude of second point
-   * @returns Distance in kilometers
+   * Fetch a page with the matching units replaced by their development,
+   * which lists the units that matched in matchingUnits. The distance and
+   * text score of the closest or best-scoring unit are kept for the sort
+   * @param source The stages selecting the matching properties
+   * @param page The page request
+   * @param projection Optional projection
+   * @returns The page documents (up to limit + 1) and the total
    */
-  private calculateDistance(
-    lat1: number,
-    lng1: number,
-    lat2: number,
-    lng2: number,
-  ): number {
-    const R = 6371; // Radius of the earth in km
-    const dLat = this.deg2rad(lat2 - lat1);
-    const dLng = this.deg2rad(lng2 - lng1);
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(this.deg2rad(lat1)) *
-        Math.cos(this.deg2rad(lat2)) *
-        Math.sin(dLng / 2) *
-        Math.sin(dLng / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    const distance = R * c; // Distance in km
-    return distance;
+  private async findRolledUpPage(
+    source: PipelineStage[],
+    page: PageRequest,
+    projection?: Record<string, 1 | 0>,
+  ): Promise<[Property[], number]> {
+    const rollUp: PipelineStage[] = [
+      ...source,
+      {
+        $group: {
+          _id: { $ifNull: ['$developmentId', '$_id'] },
+          distance: { $min: '$distance' },
+          score: { $max: '$score' },
+          matchingUnits: {
+            $push: {
+              $cond: [
+                { $ne: [{ $ifNull: ['$developmentId', null] }, null] },
+                {
+                  _id: '$_id',
+                  title: '$title',
+                  propertyType: '$propertyType',
+                  price: '$price',
+                  currency: '$currency',
+                  priceMXN: '$priceMXN',
+                  features: '$features',
+                  status: '$status',
+                },
+                null,
+              ],
+            },
+          },
+        },
+      },
+      {
+        $lookup: {
+          from: this.propertyModel.collection.name,
+          localField: '_id',
+          foreignField: '_id',
+          as: 'listing',
+        },
+      },
+      { $unwind: '$listing' },
+      {
+        $addFields: {
+          'listing.matchingUnits': {
+            $cond: [
+              { $eq: ['$listing.type', 'development'] },
+              {
+                $filter: {
+                  input: '$matchingUnits',
+                  cond: { $ne: ['$$this', null] },
+                },
+              },
+              '$$REMOVE',
+            ],
+          },
+          'listing.distance': { $ifNull: ['$distance', '$$REMOVE'] },
+          'listing.score': { $ifNull: ['$score', '$$REMOVE'] },
+        },
+      },
+      { $replaceRoot: { newRoot: '$listing' } },
+      // The development of a matching unit may itself be hidden
+      { $match: VISIBLE_LISTING_FILTER },
+    ];
+
+    // An inclusion projection still returns the matching units
+    const hasProjection = projection && Object.keys(projection).length > 0;
+    const isInclusion =
+      hasProjection &&
+      Object.entries(projection).some(
+        ([field, value]) => field !== '_id' && value === 1,
+      );
+
+    const [docs, [count]] = await Promise.all([
+      this.propertyModel
+        .aggregate<Property>([
+          ...rollUp,
+          { $match: page.filter },
+          { $sort: page.sort },
+          { $limit: page.limit + 1 },
+          ...(hasProjection
+            ? [
+                {
+                  $project: isInclusion
+                    ? { ...projection, matchingUnits: 1 }
+                    : projection,
+                },
+              ]
+            : []),
+        ])
+        .exec(),
+      this.propertyModel
+        .aggregate<{ total: number }>([...rollUp, { $count: 'total' }])
+        .exec(),
+    ]);
+    return [docs, count?.total ?? 0];
+  }
+
+  private async findDevelopment(
+    id: string,
+  ): Promise<Property & { _id: Types.ObjectId }> {
+    const development = Types.ObjectId.isValid(id)
+      ? await this.propertyModel
+          .findOne({ _id: id, deletedAt: null })
+          .lean<Property & { _id: Types.ObjectId }>()
+      : null;
+    if (!development) {
+      throw new NotFoundException(`Property with ID ${id} not found`);
+    }
+    if (development.type !== 'development') {
+      throw new BadRequestException(
+        `Property with ID ${id} is not a development`,
+      );
+    }
+    return development;
   }
 
   /**
-   * Convert degrees to radians
-   * @param deg Degrees
-   * @returns Radians
+   * Recompute the unit figures of a development from its visible units. The
+   * price range covers the available units, or every unit once all are sold,
+   * and the lower end becomes the development's price
+   * @param developmentId The development ID
+   * @returns The updated development
    */
-  private deg2rad(deg: number): number {
-    return deg * (Math.PI / 180);
+  private async rollupDevelopment(
+    developmentId: Types.ObjectId,
+  ): Promise<Property | null> {
+    const [units] = await this.propertyModel
+      .aggregate<{
+        unitCount: number;
+        availableUnits: number;
+        availableFrom: number | null;
+        availableTo: number | null;
+        priceFrom: number | null;
+        priceTo: number | null;
+      }>([
+        { $match: withVisibleListings({ developmentId }) },
+        {
+          $addFields: {
+            availablePriceMXN: {
+              $cond: [{ $eq: ['$status', 'available'] }, '$priceMXN', null],
+            },
+          },
+        },
+        {
+          $group: {
+            _id: null,
+            unitCount: { $sum: 1 },
+            availableUnits: {
+              $sum: { $cond: [{ $eq: ['$status', 'available'] }, 1, 0] },
+            },
+            // $min and $max skip the nulls of the unavailable units
+            availableFrom: { $min: '$availablePriceMXN' },
+            availableTo: { $max: '$availablePriceMXN' },
+            priceFrom: { $min: '$priceMXN' },
+            priceTo: { $max: '$priceMXN' },
+          },
+        },
+      ])
+      .exec();
+
+    const development = await this.propertyModel
+      .findById(developmentId, { currency: 1 })
+      .lean<{ currency?: Currency }>()
+      .exec();
+    if (!development) {
+      return null;
+    }
+
+    const fromMXN = units?.availableFrom ?? units?.priceFrom ?? null;
+    const toMXN = units?.availableTo ?? units?.priceTo ?? null;
+    const toCurrency = (amount: number | null) =>
+      amount === null
+        ? null
+        : this.exchangeRatesService.fromMXN(amount, development.currency);
+
+    return this.propertyModel
+      .findByIdAndUpdate(
+        developmentId,
+        {
+          $set: {
+            'development.unitCount': units?.unitCount ?? 0,
+            'development.availableUnits': units?.availableUnits ?? 0,
+            'development.priceFrom': toCurrency(fromMXN),
+            'development.priceTo': toCurrency(toMXN),
+            ...(fromMXN !== null && {
+              price: toCurrency(fromMXN),
+              priceMXN: fromMXN,
+            }),
+          },
+        },
+        // The roll-up is bookkeeping, not an edit of the development
+        { new: true, timestamps: false },
+      )
+      .lean<Property>()
+      .exec();
+  }
+
+  /**
+   * Restrict a query to the documents after the page cursor
+   */
+  private withCursorFilter(
+    query: Record<string, any>,
+    page: PageRequest,
+  ): Record<string, any> {
+    if (Object.keys(page.filter).length === 0) {
+      return query;
+    }
+    if (Object.keys(query).length === 0) {
+      return page.filter;
+    }
+    return { $and: [query, page.filter] };
+  }
+
+  private getProximityCoordinates(
+    proximityFilter: ProximityFilter,
+  ): ProximityCoordinate[] {
+    return (proximityFilter.coordinates || []).filter(
+      (coordinate) =>
+        typeof coordinate.lat === 'number' &&
+        typeof coordinate.lng === 'number',
+    );
+  }
+
+  /**
+   * Check the uploaded images of a listing and derive its images from them
+   * @param mediaIds The media IDs, in display order
+   * @param coverMediaId The cover, one of mediaIds; defaults to the first
+   * @returns The media fields to store, with images holding the URLs of the
+   * large variants, cover first
+   */
+  private async buildMediaFields(
+    mediaIds: string[],
+    coverMediaId?: string | null,
+  ): Promise<{
+    mediaIds: Types.ObjectId[];
+    coverMediaId: Types.ObjectId | null;
+    images: string[];
+  }> {
+    const uniqueIds = Array.from(new Set(mediaIds));
+    const media = await this.mediaService.findMany(uniqueIds);
+
+    const coverId = coverMediaId || uniqueIds[0] || null;
+    if (coverId && !uniqueIds.includes(coverId)) {
+      throw new BadRequestException(
+        `coverMediaId ${coverId} is not one of the property's mediaIds`,
+      );
+    }
+
+    const ordered = [
+      ...media.filter((item) => item.id === coverId),
+      ...media.filter((item) => item.id !== coverId),
+    ];
+    return {
+      mediaIds: media.map((item) => new Types.ObjectId(item.id)),
+      coverMediaId: coverId ? new Types.ObjectId(coverId) : null,
+      images: ordered.map((item) => this.mediaService.getUrl(item.id, 'large')),
+    };
+  }
+
+  /**
+   * Build the GeoJSON point for a location's coordinates
+   * @param coordinates The lat/lng coordinates
+   * @returns GeoJSON point, or undefined if the coordinates are missing
+   */
+  private buildGeoPoint(coordinates?: {
+    lat: number;
+    lng: number;
+  }): GeoPoint | undefined {
+    if (!coordinates || !coordinates.lat || !coordinates.lng) {
+      return undefined;
+    }
+
+    return {
+      type: 'Point',
+      coordinates: [coordinates.lng, coordinates.lat],
+    };
   }
 
   private validateQuery(query: any) {
@@ -964,8 +2470,10 @@ export class PropertyService {
       'title',
       'description',
       'price',
+      'currency',
       'location',
       'features',
+      'rental',
       'amenities',
       'images',
       'status',
@@ -983,56 +2491,191 @@ export class PropertyService {
     }
   }
 
+  /**
+   * Full-text search over the accent-folded search fields. Query terms are
+   * expanded with the synonym dictionary; when nothing matches, near-miss
+   * terms ("Gudalajara") are corrected against known cities, states, property
+   * types and synonyms and the search is retried
+   * @param searchDto The query and page options
+   * @returns The page of results with their relevance `score`
+   */
   async searchProperties(searchDto: SearchPropertiesDto) {
-    const { query } = searchDto;
+    const { query, limit, cursor, currency } = searchDto;
     const startTime = Date.now();
 
-    // Create text search query
-    const searchQuery = {
-      $text: { $search: query },
-    };
+    const synonymGroups = await this.searchSynonymsService.getSynonymGroups();
+    let terms = tokenizeQuery(query);
+    let searchTerms = expandSynonyms(terms, synonymGroups);
+    let searchQuery = this.buildTextSearchQuery(searchTerms, query);
 
-    // Get total count in database for statistics
-    const totalInDatabase = await this.propertyModel.countDocuments();
+    // Check for matching documents
+    let hasMatches = await this.propertyModel.exists(searchQuery);
 
-    // Get count of matching documents
-    const matchingResults =
-      await this.propertyModel.countDocuments(searchQuery);
+    // Retry with near-miss terms corrected
+    let corrections: Record<string, string> = {};
+    if (!hasMatches && terms.length > 0) {
+      corrections = correctTerms(
+        terms,
+        await this.getSearchVocabulary(synonymGroups),
+      );
+      if (Object.keys(corrections).length > 0) {
+        terms = terms.map((term) => corrections[term] ?? term);
+        searchTerms = expandSynonyms(terms, synonymGroups);
+        searchQuery = this.buildTextSearchQuery(searchTerms, query);
+        hasMatches = await this.propertyModel.exists(searchQuery);
+      }
+    }
 
-    // Execute search with scoring
-    const data = await this.propertyModel
-      .aggregate([
-        // Add text score
-        {
-          $match: searchQuery,
-        },
-        {
-          $addFields: {
-            score: { $meta: 'textScore' },
-          },
-        },
-        // Sort by score (descending) and creation date (newest first)
-        {
-          $sort: {
-            score: -1,
-            createdAt: -1,
-          },
-        },
-        // Limit results
-        {
-          $limit: 50,
+    // Sort by score (descending) and creation date (newest first)
+    const page = resolvePage(
+      undefined,
+      { score: -1, createdAt: -1 },
+      { limit, cursor },
+      50,
+    );
+
+    // Get total count in database for statistics, a development standing
+    // for its units as in the result page
+    const totalInDatabase = await this.propertyModel.countDocuments(
+      LISTED_LISTING_FILTER,
+    );
+
+    // Add text score
+    const scored: PipelineStage[] = [
+      {
+        $match: searchQuery,
+      },
+      {
+        $addFields: {
+          score: { $meta: 'textScore' },
         },
-      ])
-      .exec();
+      },
+    ];
+
+    // Execute search with scoring and count the matching documents, rolling
+    // matching units up to their development
+    const [docs, matchingResults] = (await this.matchesUnits(searchQuery))
+      ? await this.findRolledUpPage(scored, page, {
+          searchFields: 0,
+          priceHistory: 0,
+        })
+      : await Promise.all([
+          this.propertyModel
+            .aggregate<Property>([
+              ...scored,
+              // Skip the documents before the cursor
+              {
+                $match: page.filter,
+              },
+              {
+                $sort: page.sort,
+              },
+              // Limit results
+              {
+                $limit: page.limit + 1,
+              },
+              {
+                $project: { searchFields: 0, priceHistory: 0 },
+              },
+            ])
+            .exec(),
+          this.propertyModel.countDocuments(searchQuery),
+        ]);
+
+    const { data, pagination } = buildPage(docs, page);
 
     return {
-      data,
+      data: this.exchangeRatesService.withDisplayPrice(data, currency),
       metadata: {
         executionTime: Date.now() - startTime,
+        pagination,
         totalInDatabase,
         matchingResults,
         percentageMatch: (matchingResults / totalInDatabase) * 100,
+        searchTerms,
+        corrections,
       },
     };
   }
+
+  /**
+   * Populate the normalized search fields and replace the legacy text index
+   * with the Spanish, accent-insensitive one
+   * @returns Number of properties updated
+   */
+  async rebuildSearchIndex(): Promise<number> {
+    // Only one text index can exist per collection
+    const indexes = await this.propertyModel.collection.indexes();
+    if (indexes.some((index) => index.name === 'PropertyTextIndex')) {
+      await this.propertyModel.collection.dropIndex('PropertyTextIndex');
+      this.logger.log('Dropped the legacy PropertyTextIndex');
+    }
+
+    let updated = 0;
+    let batch: Parameters<typeof this.propertyModel.bulkWrite>[0] = [];
+    const cursor = this.propertyModel
+      .find({}, { title: 1, description: 1, propertyType: 1, location: 1 })
+      .lean<Property & { _id: Types.ObjectId }>()
+      .cursor();
+
+    for await (const property of cursor) {
+      batch.push({
+        updateOne: {
+          filter: { _id: property._id },
+          update: { $set: { searchFields: buildSearchFields(property) } },
+        },
+      });
+      if (batch.length === SEARCH_INDEX_BATCH_SIZE) {
+        updated += (await this.propertyModel.bulkWrite(batch)).modifiedCount;
+        batch = [];
+      }
+    }
+    if (batch.length > 0) {
+      updated += (await this.propertyModel.bulkWrite(batch)).modifiedCount;
+    }
+
+    await this.propertyModel.createIndexes();
+    this.logger.log(`Rebuilt the search fields of ${updated} properties`);
+    return updated;
+  }
+
+  private buildTextSearchQuery(
+    searchTerms: string[],
+    query: string,
+  ): Record<string, any> {
+    // $text matches any of the space-separated terms
+    return withVisibleListings({
+      $text: {
+        $search: searchTerms.length > 0 ? searchTerms.join(' ') : query,
+      },
+    });
+  }
+
+  /**
+   * Words the typo correction of searchProperties can suggest, cached for a few minutes
+   */
+  private async getSearchVocabulary(
+    synonymGroups: string[][],
+  ): Promise<string[]> {
+    if (
+      !this.searchVocabulary ||
+      Date.now() - this.searchVocabulary.loadedAt > SEARCH_VOCABULARY_TTL_MS
+    ) {
+      const [cities, states, propertyTypes] = await Promise.all([
+        this.propertyModel.distinct('location.city', VISIBLE_LISTING_FILTER),
+        this.propertyModel.distinct('location.state', VISIBLE_LISTING_FILTER),
+        this.propertyModel.distinct('propertyType', VISIBLE_LISTING_FILTER),
+      ]);
+      this.searchVocabulary = {
+        words: [...cities, ...states, ...propertyTypes]
+          .filter((value): value is string => typeof value === 'string')
+          .flatMap((value) => tokenizeQuery(value)),
+        loadedAt: Date.now(),
+      };
+    }
+
+    return Array.from(
+      new Set([...this.searchVocabulary.words, ...synonymGroups.flat()]),
+    );
+  }
 }
@@ -1,11 +1,14 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
-import { Document } from 'mongoose';
+import { Document, Schema as MongooseSchema, Types } from 'mongoose';
 import {
   PropertyTypeName,
   OperationType,
+  ListingCategory,
   PropertyEntityType,
   PropertyStatus,
   Amenity,
+  PriceChangeSource,
+  Currency,
 } from '../interfaces/property-filters.interface';
 
 export type PropertyDocument = Property & Document;
@@ -19,6 +22,21 @@ class Coordinates {
   lng: number;
 }
 
+/**
+ * GeoJSON point mirroring `coordinates`, used by the 2dsphere index
+ * Note: GeoJSON stores positions as [lng, lat]
+ */
+@Schema({ _id: false })
+export class GeoPoint {
+  @Prop({ required: true, type: String, enum: ['Point'], default: 'Point' })
+  type: 'Point';
+
+  @Prop({ required: true, type: [Number], default: undefined })
+  coordinates: number[];
+}
+
+const GeoPointSchema = SchemaFactory.createForClass(GeoPoint);
+
 @Schema()
 class PropertyLocation {
   @Prop({ required: true, type: String })
@@ -32,6 +50,13 @@ class PropertyLocation {
 
   @Prop({ required: true, type: Coordinates })
   coordinates: Coordinates;
+
+  @Prop({ type: GeoPointSchema })
+  point?: GeoPoint;
+
+  // Colonia whose imported polygon contains the point
+  @Prop({ type: String, default: null })
+  neighborhood?: string | null;
 }
 
 @Schema()
@@ -55,6 +80,60 @@ class PropertyFeatures {
   floors: number;
 }
 
+/**
+ * Terms of a rental listing; null when the listing does not say
+ */
+@Schema({ _id: false })
+export class RentalTerms {
+  @Prop({ type: Boolean, default: null })
+  furnished: boolean | null;
+
+  @Prop({ type: Boolean, default: null })
+  petsAllowed: boolean | null;
+
+  // Shortest lease accepted, in months
+  @Prop({ type: Number, default: null })
+  minLeaseMonths: number | null;
+
+  // Security deposit, in months of rent
+  @Prop({ type: Number, default: null })
+  depositMonths: number | null;
+
+  @Prop({ type: Boolean, default: null })
+  utilitiesIncluded: boolean | null;
+}
+
+const RentalTermsSchema = SchemaFactory.createForClass(RentalTerms);
+
+/**
+ * Project details of a development; the unit figures are rolled up from the
+ * listings whose developmentId points at it
+ */
+@Schema({ _id: false })
+export class DevelopmentDetails {
+  @Prop({ type: String, default: null })
+  builder: string | null;
+
+  @Prop({ type: Date, default: null })
+  deliveryDate: Date | null;
+
+  @Prop({ type: Number, default: 0 })
+  unitCount: number;
+
+  @Prop({ type: Number, default: 0 })
+  availableUnits: number;
+
+  // Price range of the available units ("desde"), in the development's currency
+  @Prop({ type: Number, default: null })
+  priceFrom: number | null;
+
+  @Prop({ type: Number, default: null })
+  priceTo: number | null;
+}
+
+const DevelopmentDetailsSchema =
+  SchemaFactory.createForClass(DevelopmentDetails);
+
 @Schema()
 class Agent {
   @Prop({ required: true, type: String })
@@ -82,6 +161,47 @@ class Agent {
   activeListings: number;
 }
 
+@Schema({ _id: false })
+export class PriceHistoryEntry {
+  @Prop({ required: true, type: Number })
+  price: number;
+
+  @Prop({ type: Number, default: null })
+  previousPrice: number | null;
+
+  @Prop({ required: true, type: Date, default: Date.now })
+  changedAt: Date;
+
+  @Prop({
+    required: true,
+    type: String,
+    enum: ['create', 'update', 'sync', 'import'],
+  })
+  source: PriceChangeSource;
+}
+
+const PriceHistoryEntrySchema = SchemaFactory.createForClass(PriceHistoryEntry);
+
+/**
+ * Accent-folded copies of the searchable fields, covered by the text index
+ */
+@Schema({ _id: false })
+export class SearchFields {
+  @Prop({ type: String, default: '' })
+  title: string;
+
+  @Prop({ type: String, default: '' })
+  description: string;
+
+  @Prop({ type: String, default: '' })
+  location: string;
+
+  @Prop({ type: String, default: '' })
+  propertyType: string;
+}
+
+const SearchFieldsSchema = SchemaFactory.createForClass(SearchFields);
+
 @Schema({
   timestamps: true,
   toJSON: {
@@ -128,6 +248,13 @@ export class Property {
   })
   operationType: OperationType;
 
+  @Prop({
+    type: String,
+    enum: ['standard', 'foreclosure', 'vacation'],
+    default: 'standard',
+  })
+  listingCategory: ListingCategory;
+
   @Prop({
     required: true,
     type: String,
@@ -138,12 +265,32 @@ export class Property {
   @Prop({ required: true, type: Number })
   price: number;
 
+  @Prop({ type: String, enum: ['MXN', 'USD'], default: 'MXN' })
+  currency: Currency;
+
+  // price converted with the current exchange rate, used to filter and sort
+  // listings priced in different currencies
+  @Prop({ type: Number, default: null })
+  priceMXN: number | null;
+
   @Prop({ required: true, type: PropertyLocation })
   location: PropertyLocation;
 
   @Prop({ required: true, type: PropertyFeatures })
   features: PropertyFeatures;
 
+  // Only set on rentals (operationType Renta)
+  @Prop({ type: RentalTermsSchema })
+  rental?: RentalTerms;
+
+  // Only set on developments (type development)
+  @Prop({ type: DevelopmentDetailsSchema })
+  development?: DevelopmentDetails;
+
+  // Development this listing is a unit of
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'Property', default: null })
+  developmentId: Types.ObjectId | null;
+
   @Prop({
     type: [String],
     enum: [
@@ -160,6 +307,17 @@ export class Property {
   @Prop({ required: true, type: [String] })
   images: string[];
 
+  // Uploaded images (see /media), in display order; images then holds their
+  // URLs, cover first
+  @Prop({
+    type: [{ type: MongooseSchema.Types.ObjectId, ref: 'Media' }],
+    default: [],
+  })
+  mediaIds: Types.ObjectId[];
+
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'Media', default: null })
+  coverMediaId: Types.ObjectId | null;
+
   @Prop({ type: Number })
   propertyAge: number;
 
@@ -169,34 +327,108 @@ export class Property {
   @Prop({
     required: true,
     type: String,
-    enum: ['available', 'sold', 'rented'],
+    enum: ['available', 'sold', 'rented', 'withdrawn'],
     default: 'available',
   })
   status: PropertyStatus;
 
+  // Set when the listing disappeared from its source feed
+  @Prop({ type: Date, default: null })
+  withdrawnAt: Date | null;
+
+  // Set when the listing is archived through DELETE /properties/:id; archived
+  // listings are purged after the retention period
+  @Prop({ type: Date, default: null })
+  deletedAt: Date | null;
+
+  @Prop({ type: String, default: null })
+  deletedBy: string | null;
+
+  // Source adapter the listing was synced from, and its ID in that feed
+  @Prop({ type: String })
+  source?: string;
+
+  @Prop({ type: String })
+  sourceId?: string;
+
+  // Start of the last sync run that included the listing
+  @Prop({ type: Date })
+  lastSeenAt?: Date;
+
+  // Canonical listing this one duplicates; duplicates are hidden from search
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'Property', default: null })
+  duplicateOf: Types.ObjectId | null;
+
   @Prop({ required: true, type: Agent })
   agent: Agent;
+
+  @Prop({ type: [PriceHistoryEntrySchema], default: [] })
+  priceHistory: PriceHistoryEntry[];
+
+  @Prop({ type: SearchFieldsSchema })
+  searchFields?: SearchFields;
 }
 
 export const PropertySchema = SchemaFactory.createForClass(Property);
 
-// Add text index for search
+// Add text index for search, over the accent-folded fields with Spanish
+// stemming; replaces PropertyTextIndex (see the rebuild-search-index script)
 PropertySchema.index(
   {
-    title: 'text',
-    description: 'text',
-    'location.address': 'text',
-    'location.city': 'text',
-    'location.state': 'text',
+    'searchFields.title': 'text',
+    'searchFields.description': 'text',
+    'searchFields.location': 'text',
+    'searchFields.propertyType': 'text',
   },
   {
     weights: {
-      title: 10,
-      description: 5,
-      'location.address': 3,
-      'location.city': 2,
-      'location.state': 1,
+      'searchFields.title': 10,
+      'searchFields.propertyType': 6,
+      'searchFields.description': 5,
+      'searchFields.location': 3,
     },
-    name: 'PropertyTextIndex',
+    default_language: 'spanish',
+    language_override: 'searchLanguage',
+    name: 'PropertySpanishTextIndex',
   },
 );
+
+// Add geospatial index for proximity search
+PropertySchema.index(
+  { 'location.point': '2dsphere' },
+  { name: 'PropertyLocationIndex' },
+);
+
+// Indexes to match synced listings and find the ones missing from a run,
+// and to list the duplicates of a listing
+PropertySchema.index({ source: 1, sourceId: 1 });
+PropertySchema.index({ source: 1, lastSeenAt: 1 });
+PropertySchema.index({ duplicateOf: 1 });
+
+// Index to list the units of a development
+PropertySchema.index({ developmentId: 1 });
+
+// Index for the foreclosure and vacation rental filters
+PropertySchema.index({ listingCategory: 1, operationType: 1 });
+
+// Index for the price filters and sorts
+PropertySchema.index({ priceMXN: 1 });
+
+// Index for the rental filters
+PropertySchema.index({
+  operationType: 1,
+  'rental.furnished': 1,
+  'rental.petsAllowed': 1,
+});
+
+// Index to find the archived listings to purge
+PropertySchema.index({ deletedAt: 1 });
+
+// Index to find the listings using an uploaded image
+PropertySchema.index({ mediaIds: 1 });
+
+// Index for the neighborhood filter and breakdown
+PropertySchema.index({ 'location.neighborhood': 1 });
+
+// Index for the saved search matcher, which looks for recently changed listings
+PropertySchema.index({ updatedAt: 1 });
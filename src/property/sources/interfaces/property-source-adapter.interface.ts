@@ -0,0 +1,18 @@
+/**
+ * Property Source Adapter Interface
+ *
+ * Changes:
+ * - Created the interface implemented by every property feed adapter
+ * - Each adapter maps one raw feed record into the Property model
+ * - Added getSourceId to track which feed records each sync run saw
+ */
+import { Property } from '../../schemas/property.schema';
+
+export interface PropertySourceAdapter {
+  /** Name used to select the adapter, e.g. with `--source` in the sync script */
+  name: string;
+  description: string;
+  transform(rawProperty: unknown): Partial<Property>;
+  /** Stable ID of the record in the feed, or null if the feed has none */
+  getSourceId(rawProperty: unknown): string | null;
+}
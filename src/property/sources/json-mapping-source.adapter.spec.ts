@@ -0,0 +1,75 @@
+import { JsonMappingSourceAdapter } from './json-mapping-source.adapter';
+
+describe('JsonMappingSourceAdapter', () => {
+  const adapter = new JsonMappingSourceAdapter({
+    name: 'broker',
+    idPath: 'ref.id',
+    fields: {
+      title: 'name',
+      price: { path: ['pricing.sale', 'pricing.rent'], type: 'number' },
+      operationType: {
+        path: 'pricing.kind',
+        values: { sale: 'Venta', rent: 'Renta' },
+        default: 'Venta',
+      },
+      'location.city': 'address.city',
+      'location.coordinates.lat': { path: 'geo.0', type: 'number' },
+      'location.coordinates.lng': { path: 'geo.1', type: 'number' },
+      'features.bedrooms': { path: 'rooms', type: 'number', default: 0 },
+      amenities: {
+        path: 'extras',
+        type: 'array',
+        itemPath: 'label',
+        values: { Pool: 'Alberca', Gym: 'Gimnasio' },
+      },
+      images: { path: 'photo', type: 'array' },
+    },
+    defaults: { status: 'available', 'location.state': 'Jalisco' },
+  });
+
+  it('should map fields by path, translating and coercing values', () => {
+    const property = adapter.transform({
+      name: 'Casa en Zapopan',
+      pricing: { sale: '', rent: '18000', kind: 'rent' },
+      address: { city: 'Zapopan' },
+      geo: [20.72, -103.39],
+      rooms: 'n/a',
+      extras: [{ label: 'Pool' }, { label: 'Gym' }, {}],
+      photo: 'https://example.com/1.jpg',
+    });
+
+    expect(property).toEqual({
+      title: 'Casa en Zapopan',
+      price: 18000,
+      operationType: 'Renta',
+      status: 'available',
+      location: {
+        state: 'Jalisco',
+        city: 'Zapopan',
+        coordinates: { lat: 20.72, lng: -103.39 },
+      },
+      features: { bedrooms: 0 },
+      amenities: ['Alberca', 'Gimnasio'],
+      images: ['https://example.com/1.jpg'],
+    });
+  });
+
+  it('should use defaults for missing values', () => {
+    const property = adapter.transform({ name: 'Terreno' });
+
+    expect(property.operationType).toBe('Venta');
+    expect(property.price).toBeUndefined();
+    expect(property.amenities).toBeUndefined();
+  });
+
+  it('should read the record ID from the configured path', () => {
+    expect(adapter.getSourceId({ ref: { id: 42 } })).toBe('42');
+    expect(adapter.getSourceId({ ref: {} })).toBeNull();
+  });
+
+  it('should require a name and fields', () => {
+    expect(
+      () => new JsonMappingSourceAdapter({ name: '', fields: {} }),
+    ).toThrow();
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * JSON Mapping Source Adapter
+ *
+ * Changes:
+ * - Created a generic adapter mapping arbitrary JSON feed records into the
+ *   Property model through a declarative field-path configuration
+ * - Added idPath to the config, identifying records across sync runs
+ */
+import { Property } from '../schemas/property.schema';
+import { getPath, setPath } from '../utils/object-path';
+import { PropertySourceAdapter } from './interfaces/property-source-adapter.interface';
+
+export interface JsonFieldMapping {
+  /** Source path(s); with several paths the first non-empty value is used */
+  path: string | string[];
+  type?: 'string' | 'number' | 'boolean' | 'array';
+  /** For arrays of objects, the path to read inside each item */
+  itemPath?: string;
+  /** Translation of source values, e.g. { "Sale": "Venta" } */
+  values?: Record<string, unknown>;
+  /** Value to use when the source value is missing */
+  default?: unknown;
+}
+
+export interface JsonMappingConfig {
+  /** Source name, used with `--source` in the sync script */
+  name: string;
+  description?: string;
+  /** Path of the record ID in the feed, used to detect withdrawn listings */
+  idPath?: string;
+  /**
+   * Property path (e.g. `location.city`) to source path or field mapping
+   * e.g. { "title": "name", "price": { "path": "pricing.amount", "type": "number" } }
+   */
+  fields: Record<string, string | JsonFieldMapping>;
+  /** Constant values set on every record, overridden by mapped fields */
+  defaults?: Record<string, unknown>;
+}
+
+const TRUE_VALUES = ['true', '1', 'yes', 'si', 'sí'];
+
+export class JsonMappingSourceAdapter implements PropertySourceAdapter {
+  name: string;
+  description: string;
+
+  constructor(private readonly config: JsonMappingConfig) {
+    if (!config?.name || !config.fields) {
+      throw new Error('A JSON mapping config requires a name and fields');
+    }
+
+    this.name = config.name;
+    this.description =
+      config.description || `JSON feed mapped by the ${config.name} config`;
+  }
+
+  transform(rawProperty: unknown): Partial<Property> {
+    const result: Record<string, unknown> = {};
+
+    for (const [target, value] of Object.entries(this.config.defaults || {})) {
+      setPath(result, target, value);
+    }
+
+    for (const [target, field] of Object.entries(this.config.fields)) {
+      const mapping = typeof field === 'string' ? { path: field } : field;
+      const value = this.resolveField(rawProperty, mapping);
+      if (value !== undefined) {
+        setPath(result, target, value);
+      }
+    }
+
+    return result as Partial<Property>;
+  }
+
+  getSourceId(rawProperty: unknown): string | null {
+    if (!this.config.idPath) {
+      return null;
+    }
+    const id = getPath(rawProperty, this.config.idPath);
+    return typeof id === 'string' || typeof id === 'number' ? String(id) : null;
+  }
+
+  private resolveField(
+    rawProperty: unknown,
+    mapping: JsonFieldMapping,
+  ): unknown {
+    const paths = Array.isArray(mapping.path) ? mapping.path : [mapping.path];
+    const raw = paths
+      .map((path) => getPath(rawProperty, path))
+      .find((value) => value !== undefined && value !== null && value !== '');
+
+    if (raw === undefined) {
+      return mapping.default;
+    }
+
+    if (mapping.type === 'array') {
+      const items: unknown[] = Array.isArray(raw) ? raw : [raw];
+      return items
+        .map((item) =>
+          mapping.itemPath ? getPath(item, mapping.itemPath) : item,
+        )
+        .filter((item) => item !== undefined && item !== null)
+        .map((item) => this.translate(item, mapping));
+    }
+
+    const value = this.translate(raw, mapping);
+    switch (mapping.type) {
+      case 'number': {
+        const number = Number(value);
+        return Number.isFinite(number) ? number : mapping.default;
+      }
+      case 'boolean':
+        return typeof value === 'boolean'
+          ? value
+          : TRUE_VALUES.includes(String(value).toLowerCase());
+      case 'string':
+        return String(value);
+      default:
+        return value;
+    }
+  }
+
+  private translate(value: unknown, mapping: JsonFieldMapping): unknown {
+    if (!mapping.values) {
+      return value;
+    }
+    const key = String(value);
+    return key in mapping.values ? mapping.values[key] : value;
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Property Source Registry
+ *
+ * Changes:
+ * - Created the registry of property feed adapters used by the sync
+ */
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { PropertySourceAdapter } from './interfaces/property-source-adapter.interface';
+
+@Injectable()
+export class PropertySourceRegistry {
+  private readonly logger = new Logger(PropertySourceRegistry.name);
+  private adapters = new Map<string, PropertySourceAdapter>();
+
+  register(adapter: PropertySourceAdapter) {
+    this.adapters.set(adapter.name, adapter);
+    this.logger.log(`Registered property source: ${adapter.name}`);
+  }
+
+  /**
+   * Get the adapter registered under a source name
+   * @param name The source name
+   * @returns The adapter
+   */
+  get(name: string): PropertySourceAdapter {
+    const adapter = this.adapters.get(name);
+    if (!adapter) {
+      throw new NotFoundException(
+        `Unknown property source "${name}", available sources: ${this.list()
+          .map((source) => source.name)
+          .join(', ')}`,
+      );
+    }
+    return adapter;
+  }
+
+  list(): PropertySourceAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+}
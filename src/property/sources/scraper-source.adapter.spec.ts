@@ -0,0 +1,71 @@
+import { ScraperSourceAdapter } from './scraper-source.adapter';
+
+describe('ScraperSourceAdapter', () => {
+  const adapter = new ScraperSourceAdapter();
+
+  const posting = (
+    operationName: string,
+    title = 'Casa en Chapultepec',
+    currency?: string,
+  ) => ({
+    postingId: 123,
+    title,
+    priceOperationTypes: [
+      {
+        operationType: { name: operationName },
+        prices: [{ amount: 1500000, currency }],
+      },
+    ],
+  });
+
+  it('should read the posting ID as the source ID', () => {
+    expect(adapter.getSourceId(posting('Venta'))).toBe('123');
+    expect(adapter.getSourceId({})).toBeNull();
+  });
+
+  it('should map foreclosures and vacation rentals to their category', () => {
+    expect(adapter.transform(posting('Remate'))).toMatchObject({
+      operationType: 'Venta',
+      listingCategory: 'foreclosure',
+    });
+    expect(adapter.transform(posting('Renta vacacional'))).toMatchObject({
+      operationType: 'Renta',
+      listingCategory: 'vacation',
+    });
+    expect(adapter.transform(posting('Renta'))).toMatchObject({
+      operationType: 'Renta',
+      listingCategory: 'standard',
+    });
+  });
+
+  it('should read the currency of the price, defaulting to MXN', () => {
+    expect(
+      adapter.transform(posting('Venta', 'Casa en Cabo', 'USD')),
+    ).toMatchObject({ price: 1500000, currency: 'USD' });
+    expect(adapter.transform(posting('Venta', 'Casa', 'MN'))).toMatchObject({
+      currency: 'MXN',
+    });
+    expect(adapter.transform(posting('Venta'))).toMatchObject({
+      currency: 'MXN',
+    });
+  });
+
+  it('should read the rental terms of rentals only', () => {
+    expect(
+      adapter.transform(
+        posting('Renta', 'Departamento amueblado, acepta mascotas'),
+      ),
+    ).toMatchObject({
+      rental: { furnished: true, petsAllowed: true, minLeaseMonths: null },
+    });
+    expect(
+      adapter.transform(posting('Venta', 'Casa amueblada')),
+    ).not.toHaveProperty('rental');
+  });
+
+  it('should detect foreclosures mentioned in the title', () => {
+    expect(
+      adapter.transform(posting('Venta', 'REMATE BANCARIO casa en Otay')),
+    ).toMatchObject({ operationType: 'Venta', listingCategory: 'foreclosure' });
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Scraper Source Adapter
+ *
+ * Changes:
+ * - Moved the scraped portal JSON mapping out of PropertyService.transformPropertyData
+ *   (postingLocation, mainFeatures.CFT*, priceOperationTypes, publisher)
+ * - Added getSourceId, reading the portal posting ID
+ * - Added listingCategory: the portal's foreclosure and vacation rental
+ *   operation names, or a foreclosure mention in the title
+ * - Added currency, read from the price in priceOperationTypes (MXN when the
+ *   portal omits it)
+ * - Rentals get their rental terms from the title and description
+ */
+import { Injectable } from '@nestjs/common';
+import { Property } from '../schemas/property.schema';
+import {
+  PropertyTypeName,
+  OperationType,
+  ListingCategory,
+  Amenity,
+} from '../interfaces/property-filters.interface';
+import { PropertySourceAdapter } from './interfaces/property-source-adapter.interface';
+import { parseCurrency } from '../../exchange-rates/utils/currency';
+import { extractRentalTerms } from '../utils/rental-terms';
+
+interface PropertyLocation {
+  state: string;
+  city: string;
+  address: string;
+  coordinates: {
+    lat: number;
+    lng: number;
+  };
+}
+
+interface PropertyFeatures {
+  bedrooms: number;
+  bathrooms: number;
+  constructionSize: number;
+  lotSize: number;
+  parking: number;
+  floors: number;
+}
+
+interface Agent {
+  name: string;
+  company: string;
+  title: string;
+  image: string;
+  phone: string;
+  email: string;
+  experience: number;
+  activeListings: number;
+}
+
+@Injectable()
+export class ScraperSourceAdapter implements PropertySourceAdapter {
+  name = 'scraper';
+  description = 'Scraped portal listings (scrap.*.json files)';
+
+  getSourceId(rawProperty: { postingId?: string | number }): string | null {
+    return rawProperty?.postingId ? String(rawProperty.postingId) : null;
+  }
+
+  transform(rawProperty: any): Partial<Property> {
+    const price =
+      rawProperty.priceOperationTypes?.[0]?.prices?.[0]?.amount || 0;
+    const currency =
+      parseCurrency(
+        rawProperty.priceOperationTypes?.[0]?.prices?.[0]?.currency,
+      ) ?? 'MXN';
+
+    const location: PropertyLocation = {
+      state: rawProperty.postingLocation?.location?.parent?.parent?.name || '',
+      city: rawProperty.postingLocation?.location?.parent?.name || '',
+      address: rawProperty.postingLocation?.address?.name || '',
+      coordinates: {
+        lat:
+          rawProperty.postingLocation?.postingGeolocation?.geolocation
+            ?.latitude || 0,
+        lng:
+          rawProperty.postingLocation?.postingGeolocation?.geolocation
+            ?.longitude || 0,
+      },
+    };
+
+    const features: PropertyFeatures = {
+      bedrooms: rawProperty.mainFeatures?.CFT2?.value
+        ? Number(rawProperty.mainFeatures?.CFT2?.value)
+        : 0,
+      bathrooms:
+        Number(rawProperty.mainFeatures?.CFT3?.value || 0) +
+        Number(rawProperty.mainFeatures?.CFT4?.value || 0),
+      constructionSize: rawProperty.mainFeatures?.CFT101?.value
+        ? Number(rawProperty.mainFeatures?.CFT101?.value)
+        : 0,
+      lotSize: rawProperty.mainFeatures?.CFT100?.value
+        ? Number(rawProperty.mainFeatures?.CFT100?.value)
+        : 0,
+      parking: rawProperty.mainFeatures?.CFT7?.value
+        ? Number(rawProperty.mainFeatures?.CFT7?.value)
+        : 0,
+      floors: 1,
+    };
+
+    const agent: Agent = {
+      name: rawProperty.publisher?.name || 'Unknown',
+      company: rawProperty.publisher?.name || 'Unknown',
+      title: 'Agent',
+      image: rawProperty.publisher?.urlLogo || '',
+      phone: rawProperty.whatsApp || rawProperty.publisher?.mainPhone || '',
+      email: 'contact@example.com',
+      experience: 0,
+      activeListings: 0,
+    };
+
+    const amenities = (rawProperty.highlightedFeatures || []) as Amenity[];
+
+    const propertyType = this.mapPropertyType(rawProperty.realEstateType?.name);
+    const operationName =
+      rawProperty.priceOperationTypes?.[0]?.operationType?.name;
+    const operationType = this.mapOperationType(operationName);
+    const listingCategory = this.mapListingCategory(
+      operationName,
+      rawProperty.title,
+    );
+
+    return {
+      title: rawProperty.title,
+      description: rawProperty.descriptionNormalized || '',
+      propertyType,
+      operationType,
+      listingCategory,
+      type:
+        rawProperty.postingType?.toLowerCase() === 'development'
+          ? 'development'
+          : 'property',
+      price,
+      currency,
+      location,
+      features,
+      ...(operationType === 'Renta' && {
+        rental: extractRentalTerms(
+          `${rawProperty.title || ''}\n${rawProperty.descriptionNormalized || ''}`,
+        ),
+      }),
+      amenities,
+      images:
+        rawProperty.visiblePictures?.pictures?.map((pic) => pic.url730x532) ||
+        [],
+      propertyAge: 0,
+      maintenanceFee: 0,
+      status: 'available',
+      agent,
+    };
+  }
+
+  private mapPropertyType(type: string): PropertyTypeName {
+    const typeMap: Record<string, PropertyTypeName> = {
+      'Desarrollos verticales': 'Desarrollos verticales',
+      'Desarrollos horizontales': 'Desarrollos horizontales',
+      Casas: 'Casas',
+      Departamentos: 'Departamentos',
+    };
+    return typeMap[type] || 'Casas';
+  }
+
+  private mapOperationType(type: string): OperationType {
+    const typeMap: Record<string, OperationType> = {
+      Venta: 'Venta',
+      Renta: 'Renta',
+      Desarrollo: 'Desarrollo',
+      Remate: 'Venta',
+      'Renta vacacional': 'Renta',
+      'Renta temporal': 'Renta',
+    };
+    return typeMap[type] || 'Venta';
+  }
+
+  private mapListingCategory(type: string, title: string): ListingCategory {
+    const typeMap: Record<string, ListingCategory> = {
+      Remate: 'foreclosure',
+      'Renta vacacional': 'vacation',
+      'Renta temporal': 'vacation',
+    };
+    if (typeMap[type]) {
+      return typeMap[type];
+    }
+    return /\b(remate|adjudicad[ao]|recuperaci[oó]n bancaria)\b/i.test(
+      title || '',
+    )
+      ? 'foreclosure'
+      : 'standard';
+  }
+}
@@ -0,0 +1,227 @@
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import {
+  buildCursorFilter,
+  buildPage,
+  decodeCursor,
+  encodeCursor,
+  resolvePage,
+  withSortFields,
+} from './cursor-pagination';
+
+describe('cursor pagination', () => {
+  describe('resolvePage', () => {
+    it('should use the default sort with an _id tie-breaker', () => {
+      const page = resolvePage(undefined, { createdAt: -1 });
+
+      expect(page.sort).toEqual({ createdAt: -1, _id: -1 });
+      expect(page.limit).toBe(20);
+      expect(page.filter).toEqual({});
+    });
+
+    it('should clamp the page size', () => {
+      expect(
+        resolvePage(undefined, { createdAt: -1 }, { limit: 500 }).limit,
+      ).toBe(100);
+      expect(
+        resolvePage(undefined, { createdAt: -1 }, { limit: '5' }).limit,
+      ).toBe(5);
+      expect(
+        resolvePage(undefined, { createdAt: -1 }, { limit: 'abc' }).limit,
+      ).toBe(20);
+    });
+
+    it('should restore the sort, page size and values from the cursor', () => {
+      const id = new Types.ObjectId();
+      const createdAt = new Date('2025-01-01T00:00:00.000Z');
+      const cursor = encodeCursor(
+        { price: 1, createdAt: -1, _id: -1 },
+        { _id: id, price: 1000000, createdAt },
+        10,
+      );
+
+      const page = resolvePage(
+        { price: 1, createdAt: -1 },
+        { createdAt: -1 },
+        { cursor },
+      );
+
+      expect(page.sort).toEqual({ price: 1, createdAt: -1, _id: -1 });
+      expect(page.limit).toBe(10);
+      expect(page.filter).toEqual({
+        $or: [
+          { price: { $gt: 1000000 } },
+          { price: 1000000, createdAt: { $not: { $gte: createdAt } } },
+          {
+            price: 1000000,
+            createdAt,
+            _id: { $not: { $gte: id } },
+          },
+        ],
+      });
+    });
+
+    it('should reject a cursor that does not match the requested sort', () => {
+      const cursor = encodeCursor(
+        { createdAt: -1, _id: -1 },
+        { _id: new Types.ObjectId(), createdAt: new Date() },
+        20,
+      );
+
+      expect(() =>
+        resolvePage({ price: 1 }, { createdAt: -1 }, { cursor }),
+      ).toThrow(BadRequestException);
+    });
+
+    it('should reject a cursor whose sort differs from the default sort', () => {
+      const cursor = encodeCursor(
+        { price: 1, _id: 1 },
+        { _id: new Types.ObjectId(), price: 1000000 },
+        20,
+      );
+
+      expect(() =>
+        resolvePage(undefined, { createdAt: -1 }, { cursor }),
+      ).toThrow(BadRequestException);
+    });
+
+    it('should reject cursors with invalid directions or operator values', () => {
+      const forge = (payload: unknown) =>
+        Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+      expect(() =>
+        resolvePage(
+          { price: 1 },
+          { createdAt: -1 },
+          {
+            cursor: forge({
+              sort: [
+                ['price', 1],
+                ['_id', 1],
+              ],
+              values: [
+                { t: 'value', v: { $ne: null } },
+                { t: 'value', v: 1 },
+              ],
+              limit: 20,
+            }),
+          },
+        ),
+      ).toThrow(BadRequestException);
+      expect(() =>
+        decodeCursor(
+          forge({
+            sort: [['price', 'asc']],
+            values: [{ t: 'value', v: 1 }],
+            limit: 20,
+          }),
+        ),
+      ).toThrow(BadRequestException);
+      expect(() =>
+        decodeCursor(
+          forge({
+            sort: [['$where', 1]],
+            values: [{ t: 'value', v: 1 }],
+            limit: 20,
+          }),
+        ),
+      ).toThrow(BadRequestException);
+      expect(() =>
+        resolvePage(
+          undefined,
+          { createdAt: -1 },
+          {
+            cursor: forge({
+              sort: [
+                ['createdAt', -1],
+                ['_id', -1],
+              ],
+              values: [
+                { t: 'date', v: 'not-a-date' },
+                { t: 'value', v: 1 },
+              ],
+              limit: 20,
+            }),
+          },
+        ),
+      ).toThrow(BadRequestException);
+    });
+
+    it('should reject a malformed cursor', () => {
+      expect(() =>
+        resolvePage(undefined, { createdAt: -1 }, { cursor: 'not-a-cursor' }),
+      ).toThrow(BadRequestException);
+      expect(() => decodeCursor('')).toThrow(BadRequestException);
+    });
+  });
+
+  describe('buildCursorFilter', () => {
+    it('should match non-null values after a null in ascending order', () => {
+      const id = new Types.ObjectId();
+
+      expect(buildCursorFilter({ propertyAge: 1, _id: 1 }, [null, id])).toEqual(
+        {
+          $or: [
+            { propertyAge: { $ne: null } },
+            { propertyAge: null, _id: { $gt: id } },
+          ],
+        },
+      );
+    });
+  });
+
+  describe('buildPage', () => {
+    it('should return a next cursor when there are more documents', () => {
+      const page = resolvePage(undefined, { createdAt: -1 }, { limit: 2 });
+      const docs = [1, 2, 3].map((day) => ({
+        _id: new Types.ObjectId(),
+        createdAt: new Date(2025, 0, day),
+      }));
+
+      const { data, pagination } = buildPage(docs, page);
+
+      expect(data).toHaveLength(2);
+      expect(pagination.hasMore).toBe(true);
+      expect(pagination.limit).toBe(2);
+
+      const next = resolvePage(
+        undefined,
+        { createdAt: -1 },
+        {
+          cursor: pagination.nextCursor!,
+        },
+      );
+      expect((next.filter.$or as unknown[])[0]).toEqual({
+        createdAt: { $not: { $gte: docs[1].createdAt } },
+      });
+    });
+
+    it('should not return a next cursor on the last page', () => {
+      const page = resolvePage(undefined, { createdAt: -1 }, { limit: 2 });
+      const docs = [{ _id: new Types.ObjectId(), createdAt: new Date() }];
+
+      const { data, pagination } = buildPage(docs, page);
+
+      expect(data).toHaveLength(1);
+      expect(pagination).toEqual({
+        limit: 2,
+        hasMore: false,
+        nextCursor: null,
+      });
+    });
+  });
+
+  describe('withSortFields', () => {
+    it('should include the sort fields in an inclusion projection', () => {
+      expect(
+        withSortFields({ title: 1 }, { price: 1, createdAt: -1, _id: -1 }),
+      ).toEqual({ title: 1, price: 1, createdAt: 1, _id: 1 });
+    });
+
+    it('should not exclude the sort fields in an exclusion projection', () => {
+      expect(
+        withSortFields({ description: 0, price: 0 }, { price: 1, _id: 1 }),
+      ).toEqual({ description: 0 });
+    });
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * Cursor Pagination Utilities
+ *
+ * Changes:
+ * - Created utilities for keyset pagination with opaque cursor tokens
+ * - A cursor encodes the page size, the sort keys and the sort values of the
+ *   last returned document, with _id as tie-breaker
+ * - Cursors are only accepted for the sort the endpoint resolves for the
+ *   request, and their directions and values are checked when decoded, so a
+ *   crafted token cannot inject sort fields or query operators
+ */
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+
+export type SortSpec = Record<string, 1 | -1>;
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export interface PaginationOptions {
+  limit?: number | string;
+  cursor?: string;
+}
+
+export interface PageRequest {
+  /** Sort specification, always ending with the _id tie-breaker */
+  sort: SortSpec;
+  limit: number;
+  /** Keyset condition selecting the documents after the cursor */
+  filter: Record<string, any>;
+}
+
+export interface PageInfo {
+  limit: number;
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+type EncodedValue =
+  | { t: 'date'; v: string }
+  | { t: 'oid'; v: string }
+  | { t: 'value'; v: unknown };
+
+interface CursorPayload {
+  sort: [string, 1 | -1][];
+  values: EncodedValue[];
+  limit: number;
+}
+
+/**
+ * Resolve the sort, page size and keyset filter for a page request
+ * @param requestedSort Sort explicitly requested by the caller, if any
+ * @param defaultSort Sort to use when none is requested
+ * @param options The page size and cursor sent by the caller
+ * @param defaultLimit Page size to use when none is requested
+ * @returns The page request
+ */
+export function resolvePage(
+  requestedSort: SortSpec | undefined,
+  defaultSort: SortSpec,
+  options: PaginationOptions = {},
+  defaultLimit: number = DEFAULT_PAGE_SIZE,
+): PageRequest {
+  if (!options.cursor) {
+    return {
+      sort: withTieBreaker(requestedSort || defaultSort),
+      limit: parseLimit(options.limit, defaultLimit),
+      filter: {},
+    };
+  }
+
+  const cursor = decodeCursor(options.cursor);
+  const sort = withTieBreaker(requestedSort || defaultSort);
+
+  // The client repeats the sort with every page; the cursor only resumes it
+  if (!isSameSort(sort, cursor.sort)) {
+    throw new BadRequestException('Cursor does not match the requested sort');
+  }
+
+  return {
+    sort,
+    limit: parseLimit(options.limit, cursor.limit),
+    filter: buildCursorFilter(
+      sort,
+      cursor.values.map((value) => decodeValue(value)),
+    ),
+  };
+}
+
+/**
+ * Build the page info for a result fetched with `limit + 1` documents
+ * @param docs The fetched documents (up to limit + 1)
+ * @param page The page request used to fetch them
+ * @returns The page documents and the page info
+ */
+export function buildPage<T>(
+  docs: T[],
+  page: PageRequest,
+): { data: T[]; pagination: PageInfo } {
+  const hasMore = docs.length > page.limit;
+  const data = hasMore ? docs.slice(0, page.limit) : docs;
+  const last = data[data.length - 1];
+
+  return {
+    data,
+    pagination: {
+      limit: page.limit,
+      hasMore,
+      nextCursor:
+        hasMore && last
+          ? encodeCursor(page.sort, last as Record<string, any>, page.limit)
+          : null,
+    },
+  };
+}
+
+/**
+ * Make sure a projection keeps the fields needed to build the next cursor
+ * @param projection The requested projection
+ * @param sort The sort specification
+ * @returns The adjusted projection
+ */
+export function withSortFields(
+  projection: Record<string, 1 | 0> | undefined,
+  sort: SortSpec,
+): Record<string, 1 | 0> | undefined {
+  if (!projection || Object.keys(projection).length === 0) {
+    return projection;
+  }
+
+  const adjusted = { ...projection };
+  const isInclusion = Object.entries(adjusted).some(
+    ([field, value]) => field !== '_id' && value === 1,
+  );
+
+  for (const field of Object.keys(sort)) {
+    if (isInclusion) {
+      adjusted[field] = 1;
+    } else {
+      delete adjusted[field];
+    }
+  }
+
+  return adjusted;
+}
+
+export function encodeCursor(
+  sort: SortSpec,
+  doc: Record<string, any>,
+  limit: number,
+): string {
+  const payload: CursorPayload = {
+    sort: Object.entries(sort),
+    values: Object.keys(sort).map((field) =>
+      encodeValue(getFieldValue(doc, field)),
+    ),
+    limit,
+  };
+
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+export function decodeCursor(token: string): CursorPayload {
+  try {
+    const payload = JSON.parse(
+      Buffer.from(token, 'base64url').toString('utf-8'),
+    ) as CursorPayload;
+
+    if (
+      !Array.isArray(payload.sort) ||
+      !Array.isArray(payload.values) ||
+      payload.sort.length === 0 ||
+      payload.sort.length !== payload.values.length ||
+      !payload.sort.every(isSortEntry)
+    ) {
+      throw new Error('Malformed cursor payload');
+    }
+
+    return payload;
+  } catch {
+    throw new BadRequestException('Invalid pagination cursor');
+  }
+}
+
+/**
+ * Build the keyset condition selecting documents that sort after the given values
+ * For a sort (a, b, _id) this is: a > va OR (a = va AND b > vb) OR (a = va AND b = vb AND _id > vid)
+ * @param sort The sort specification
+ * @param values The sort values of the last document of the previous page
+ * @returns MongoDB query object
+ */
+export function buildCursorFilter(
+  sort: SortSpec,
+  values: unknown[],
+): Record<string, any> {
+  const fields = Object.entries(sort);
+  const branches: Record<string, any>[] = [];
+
+  fields.forEach(([field, direction], index) => {
+    const comparison = compareAfter(values[index], direction);
+    if (!comparison) {
+      return;
+    }
+
+    const branch: Record<string, any> = {};
+    fields.slice(0, index).forEach(([previousField], previousIndex) => {
+      branch[previousField] = values[previousIndex];
+    });
+    branch[field] = comparison;
+    branches.push(branch);
+  });
+
+  return branches.length === 1 ? branches[0] : { $or: branches };
+}
+
+function compareAfter(
+  value: unknown,
+  direction: 1 | -1,
+): Record<string, any> | null {
+  // Nulls sort first in MongoDB and comparison operators never match them,
+  // so in descending order nulls come after any value
+  if (value === null || value === undefined) {
+    return direction === 1 ? { $ne: null } : null;
+  }
+
+  return direction === 1 ? { $gt: value } : { $not: { $gte: value } };
+}
+
+function isSortEntry(entry: unknown): boolean {
+  if (!Array.isArray(entry) || entry.length !== 2) {
+    return false;
+  }
+  const [field, direction] = entry as unknown[];
+  return (
+    typeof field === 'string' &&
+    field.length > 0 &&
+    !field.startsWith('$') &&
+    (direction === 1 || direction === -1)
+  );
+}
+
+function withTieBreaker(sort: SortSpec): SortSpec {
+  if ('_id' in sort) {
+    return sort;
+  }
+  const directions = Object.values(sort);
+  return { ...sort, _id: directions[directions.length - 1] || -1 };
+}
+
+function isSameSort(sort: SortSpec, entries: [string, 1 | -1][]): boolean {
+  return JSON.stringify(Object.entries(sort)) === JSON.stringify(entries);
+}
+
+function parseLimit(limit: number | string | undefined, fallback: number) {
+  const parsed = Number(limit);
+  if (!limit || !Number.isFinite(parsed) || parsed < 1) {
+    return fallback;
+  }
+  return Math.min(Math.floor(parsed), MAX_PAGE_SIZE);
+}
+
+function getFieldValue(doc: Record<string, any>, field: string): unknown {
+  return field
+    .split('.')
+    .reduce<unknown>(
+      (value, key) =>
+        value == null ? undefined : (value as Record<string, unknown>)[key],
+      doc,
+    );
+}
+
+function encodeValue(value: unknown): EncodedValue {
+  if (value instanceof Date) {
+    return { t: 'date', v: value.toISOString() };
+  }
+  if (value instanceof Types.ObjectId) {
+    return { t: 'oid', v: value.toHexString() };
+  }
+  return { t: 'value', v: value ?? null };
+}
+
+function decodeValue(value: EncodedValue): unknown {
+  switch (value?.t) {
+    case 'date': {
+      const date = new Date(value.v);
+      if (typeof value.v !== 'string' || Number.isNaN(date.getTime())) {
+        throw new BadRequestException('Invalid pagination cursor');
+      }
+      return date;
+    }
+    case 'oid':
+      if (typeof value.v !== 'string' || !Types.ObjectId.isValid(value.v)) {
+        throw new BadRequestException('Invalid pagination cursor');
+      }
+      return new Types.ObjectId(value.v);
+    case 'value':
+      // Only scalars; an object here would be read as a query operator
+      if (value.v !== null && typeof value.v === 'object') {
+        throw new BadRequestException('Invalid pagination cursor');
+      }
+      return value.v;
+    default:
+      throw new BadRequestException('Invalid pagination cursor');
+  }
+}
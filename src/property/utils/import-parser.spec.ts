@@ -0,0 +1,163 @@
+import 'reflect-metadata';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { CreatePropertyDto } from '../dto/create-property.dto';
+import {
+  applyColumnMapping,
+  detectImportFormat,
+  formatValidationErrors,
+  parseCsv,
+  parseNdjson,
+} from './import-parser';
+
+describe('import parser', () => {
+  describe('parseCsv', () => {
+    it('should parse quoted fields, escaped quotes and embedded newlines', () => {
+      const rows = parseCsv(
+        'title,description\r\n"Casa, centro","Dice ""hola""\nen dos líneas"\r\n',
+      );
+
+      expect(rows).toEqual([
+        {
+          row: 1,
+          values: {
+            title: 'Casa, centro',
+            description: 'Dice "hola"\nen dos líneas',
+          },
+        },
+      ]);
+    });
+
+    it('should skip blank lines and report rows with a wrong column count', () => {
+      const rows = parseCsv('a,b\n1,2\n\n3\n');
+
+      expect(rows).toEqual([
+        { row: 1, values: { a: '1', b: '2' } },
+        { row: 3, error: 'Expected 2 columns, found 1' },
+      ]);
+    });
+  });
+
+  describe('parseNdjson', () => {
+    it('should report invalid lines without failing the whole file', () => {
+      const rows = parseNdjson('{"title":"Casa"}\n\nnot json\n[1]\n');
+
+      expect(rows).toEqual([
+        { row: 1, values: { title: 'Casa' } },
+        { row: 3, error: 'Invalid JSON' },
+        { row: 4, error: 'Line is not a JSON object' },
+      ]);
+    });
+  });
+
+  describe('detectImportFormat', () => {
+    it('should detect the format from the file name or MIME type', () => {
+      expect(detectImportFormat('listings.CSV')).toBe('csv');
+      expect(detectImportFormat('listings.jsonl')).toBe('ndjson');
+      expect(detectImportFormat('upload', 'application/x-ndjson')).toBe(
+        'ndjson',
+      );
+      expect(detectImportFormat('listings.xlsx')).toBeNull();
+    });
+  });
+
+  describe('applyColumnMapping', () => {
+    it('should map source columns to nested paths and split list fields', () => {
+      const result = applyColumnMapping(
+        {
+          Nombre: 'Casa',
+          Ciudad: ' Mérida ',
+          Amenidades: 'Alberca | Gimnasio',
+          Notas: '',
+        },
+        {
+          title: 'Nombre',
+          'location.city': 'Ciudad',
+          amenities: 'Amenidades',
+          maintenanceFee: 'Notas',
+        },
+      );
+
+      expect(result).toEqual({
+        title: 'Casa',
+        location: { city: 'Mérida' },
+        amenities: ['Alberca', 'Gimnasio'],
+      });
+    });
+
+    it('should use columns as paths without a mapping', () => {
+      expect(
+        applyColumnMapping({ 'features.bedrooms': '3', price: 100 }),
+      ).toEqual({ features: { bedrooms: '3' }, price: 100 });
+    });
+
+    it('should read nested NDJSON values through the mapping', () => {
+      expect(
+        applyColumnMapping(
+          { listing: { name: 'Casa' } },
+          { title: 'listing.name' },
+        ),
+      ).toEqual({ title: 'Casa' });
+    });
+  });
+
+  describe('rental terms', () => {
+    it('should read yes/no cells as booleans', async () => {
+      const [row] = parseCsv(
+        'rental.furnished,rental.petsAllowed,rental.utilitiesIncluded\n' +
+          'false,Sí,no\n',
+      );
+      const dto = plainToInstance(
+        CreatePropertyDto,
+        applyColumnMapping(row.values || {}),
+        { enableImplicitConversion: true },
+      );
+
+      expect({ ...dto.rental }).toEqual({
+        furnished: false,
+        petsAllowed: true,
+        utilitiesIncluded: false,
+      });
+      expect(formatValidationErrors(await validate(dto))).not.toContainEqual(
+        expect.stringMatching(/^rental\./),
+      );
+    });
+
+    it('should report cells that are not a yes or no', async () => {
+      const dto = plainToInstance(
+        CreatePropertyDto,
+        applyColumnMapping({ 'rental.furnished': 'a veces' }),
+        { enableImplicitConversion: true },
+      );
+
+      expect(formatValidationErrors(await validate(dto))).toContain(
+        'rental.furnished must be a boolean value',
+      );
+    });
+  });
+
+  describe('formatValidationErrors', () => {
+    it('should prefix nested errors with their path', async () => {
+      const dto = plainToInstance(
+        CreatePropertyDto,
+        applyColumnMapping({
+          price: 'abc',
+          'location.city': 'Mérida',
+          'location.coordinates.lat': '20.97',
+          'location.coordinates.lng': '-89.62',
+        }),
+        { enableImplicitConversion: true },
+      );
+      const messages = formatValidationErrors(await validate(dto));
+
+      expect(dto.location.coordinates.lat).toBe(20.97);
+      expect(messages).toContain(
+        'price must be a number conforming to the specified constraints',
+      );
+      expect(messages).toContain('location.state should not be empty');
+      expect(messages).not.toContainEqual(
+        expect.stringMatching(/^location\.coordinates/),
+      );
+    });
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Import Parser Utilities
+ *
+ * Changes:
+ * - Created parsers for CSV and NDJSON listing uploads
+ * - Added column mapping from source columns to CreatePropertyDto paths
+ * - Added flattening of class-validator errors into row-level messages
+ * - Moved the dot-path helpers to object-path
+ */
+import { ValidationError } from 'class-validator';
+import { getPath, setPath } from './object-path';
+
+export type ImportFormat = 'csv' | 'ndjson';
+
+/**
+ * Maps a CreatePropertyDto path (e.g. `location.city`) to the source column
+ * (CSV header or NDJSON key path) holding its value
+ */
+export type ColumnMapping = Record<string, string>;
+
+export interface ParsedRow {
+  /** 1-based row number in the upload, excluding the CSV header */
+  row: number;
+  values?: Record<string, unknown>;
+  error?: string;
+}
+
+// Fields accepting several values in a single CSV cell, separated by `|`
+const LIST_FIELDS = ['amenities', 'images'];
+const LIST_SEPARATOR = '|';
+
+/**
+ * Detect the upload format from the file name or MIME type
+ * @param fileName The original file name
+ * @param mimeType The MIME type sent by the client
+ * @returns The detected format, or null if it cannot be detected
+ */
+export function detectImportFormat(
+  fileName: string = '',
+  mimeType: string = '',
+): ImportFormat | null {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.csv') || mimeType === 'text/csv') {
+    return 'csv';
+  }
+  if (
+    name.endsWith('.ndjson') ||
+    name.endsWith('.jsonl') ||
+    mimeType === 'application/x-ndjson'
+  ) {
+    return 'ndjson';
+  }
+  return null;
+}
+
+/**
+ * Parse an upload into rows of raw values
+ * @param content The file content
+ * @param format The file format
+ * @returns The parsed rows
+ */
+export function parseImportFile(
+  content: string,
+  format: ImportFormat,
+): ParsedRow[] {
+  return format === 'csv' ? parseCsv(content) : parseNdjson(content);
+}
+
+/**
+ * Parse CSV content (RFC 4180: quoted fields, escaped quotes, embedded newlines)
+ * The first record is the header; blank records are skipped
+ * @param content The CSV content
+ * @returns One row per record, keyed by header
+ */
+export function parseCsv(content: string): ParsedRow[] {
+  const records = splitCsvRecords(content.replace(/^\uFEFF/, ''));
+  const header = records.shift()?.map((column) => column.trim()) || [];
+
+  const rows: ParsedRow[] = [];
+  records.forEach((fields, index) => {
+    if (fields.every((field) => field.trim() === '')) {
+      return;
+    }
+
+    const row = index + 1;
+    if (fields.length !== header.length) {
+      rows.push({
+        row,
+        error: `Expected ${header.length} columns, found ${fields.length}`,
+      });
+      return;
+    }
+
+    rows.push({
+      row,
+      values: Object.fromEntries(
+        header.map((column, columnIndex) => [column, fields[columnIndex]]),
+      ),
+    });
+  });
+
+  return rows;
+}
+
+/**
+ * Parse NDJSON content, one JSON object per line; blank lines are skipped
+ * @param content The NDJSON content
+ * @returns One row per line
+ */
+export function parseNdjson(content: string): ParsedRow[] {
+  const rows: ParsedRow[] = [];
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '') {
+      return;
+    }
+
+    const row = index + 1;
+    try {
+      const values: unknown = JSON.parse(line);
+      if (!values || typeof values !== 'object' || Array.isArray(values)) {
+        rows.push({ row, error: 'Line is not a JSON object' });
+        return;
+      }
+      rows.push({ row, values: values as Record<string, unknown> });
+    } catch {
+      rows.push({ row, error: 'Invalid JSON' });
+    }
+  });
+
+  return rows;
+}
+
+/**
+ * Build a nested property object from raw row values
+ * Without a mapping, source columns are used as target paths as-is
+ * Empty values are dropped so optional fields stay unset
+ * @param values The raw row values
+ * @param mapping Target path to source column mapping
+ * @returns The property object, ready to be validated
+ */
+export function applyColumnMapping(
+  values: Record<string, unknown>,
+  mapping?: ColumnMapping,
+): Record<string, unknown> {
+  const entries: [string, unknown][] = mapping
+    ? Object.entries(mapping).map(([target, source]) => [
+        target,
+        getColumn(values, source),
+      ])
+    : Object.entries(values);
+
+  const result: Record<string, unknown> = {};
+  for (const [target, value] of entries) {
+    if (value === undefined || value === null || value === '') {
+      continue;
+    }
+    setPath(result, target, normalizeValue(target, value));
+  }
+
+  return result;
+}
+
+/**
+ * Flatten class-validator errors into messages prefixed by the property path
+ * @param errors The validation errors
+ * @param parentPath Path of the parent object, for nested errors
+ * @returns One message per failed constraint
+ */
+export function formatValidationErrors(
+  errors: ValidationError[],
+  parentPath: string = '',
+): string[] {
+  return errors.flatMap((error) => {
+    const path = parentPath
+      ? `${parentPath}.${error.property}`
+      : error.property;
+    const messages = Object.values(error.constraints || {}).map((message) =>
+      message.startsWith(error.property)
+        ? `${path}${message.slice(error.property.length)}`
+        : `${path}: ${message}`,
+    );
+    return [...messages, ...formatValidationErrors(error.children || [], path)];
+  });
+}
+
+function normalizeValue(target: string, value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const trimmed = value.trim();
+  if (LIST_FIELDS.includes(target)) {
+    return trimmed
+      .split(LIST_SEPARATOR)
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+  return trimmed;
+}
+
+function getColumn(source: Record<string, unknown>, path: string): unknown {
+  // A column named with dots (e.g. a CSV header) takes precedence
+  return path in source ? source[path] : getPath(source, path);
+}
+
+function splitCsvRecords(content: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+}
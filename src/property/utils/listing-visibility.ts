@@ -0,0 +1,56 @@
+/**
+ * Listing Visibility
+ *
+ * Changes:
+ * - Created the filter hiding withdrawn listings from search and stats
+ * - Duplicate listings are hidden in favor of their canonical listing
+ * - Archived (soft-deleted) listings are hidden until restored
+ * - Added the filter counting a development with units through its units
+ * - Added the filter counting listings as search results list them, a
+ *   development standing for its units
+ */
+
+/**
+ * Conditions a listing must meet to appear in search results and statistics
+ */
+export const VISIBLE_LISTING_FILTER: Record<string, any> = {
+  status: { $ne: 'withdrawn' },
+  duplicateOf: null,
+  deletedAt: null,
+};
+
+/**
+ * Visible listings to count in statistics: a development with units is
+ * counted through its units, otherwise the project and its tipologías would
+ * be counted twice
+ */
+export const COUNTED_LISTING_FILTER: Record<string, any> = {
+  ...VISIBLE_LISTING_FILTER,
+  'development.unitCount': { $not: { $gt: 0 } },
+};
+
+/**
+ * Visible listings as search results list them: the units of a development
+ * are rolled up to it, so the project and its tipologías count once
+ */
+export const LISTED_LISTING_FILTER: Record<string, any> = {
+  ...VISIBLE_LISTING_FILTER,
+  developmentId: null,
+};
+
+/**
+ * Restrict a query to visible listings; fields the query already filters on
+ * are left alone, so e.g. an explicit status filter still finds withdrawn listings
+ * @param query The MongoDB query
+ * @returns The restricted query
+ */
+export function withVisibleListings(
+  query: Record<string, any> = {},
+): Record<string, any> {
+  const conditions = Object.entries(VISIBLE_LISTING_FILTER).filter(
+    ([field]) => !(field in query),
+  );
+  return conditions.length > 0
+    ? { ...query, ...Object.fromEntries(conditions) }
+    : query;
+}
@@ -0,0 +1,46 @@
+/**
+ * Object Path Utilities
+ *
+ * Changes:
+ * - Created dot-path accessors shared by the import, export and source adapters
+ */
+
+/**
+ * Read a value by dot path; numeric segments index into arrays
+ * @param source The object to read from
+ * @param path The dot path, e.g. `location.coordinates.lat`
+ * @returns The value, or undefined if any segment is missing
+ */
+export function getPath(source: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>(
+      (value, key) =>
+        value == null ? undefined : (value as Record<string, unknown>)[key],
+      source,
+    );
+}
+
+/**
+ * Write a value by dot path, creating intermediate objects as needed
+ * @param target The object to write to
+ * @param path The dot path, e.g. `location.coordinates.lat`
+ * @param value The value to write
+ */
+export function setPath(
+  target: Record<string, unknown>,
+  path: string,
+  value: unknown,
+): void {
+  const keys = path.split('.');
+  const last = keys.pop() as string;
+
+  let current = target;
+  for (const key of keys) {
+    if (!current[key] || typeof current[key] !== 'object') {
+      current[key] = {};
+    }
+    current = current[key] as Record<string, unknown>;
+  }
+  current[last] = value;
+}
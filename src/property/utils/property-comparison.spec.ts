@@ -0,0 +1,141 @@
+import {
+  ComparableProperty,
+  compareProperties,
+  formatComparisonSummary,
+  isComparisonRequest,
+  median,
+  peerGroupKey,
+} from './property-comparison';
+
+const property = (
+  id: string,
+  overrides: Partial<ComparableProperty> = {},
+): ComparableProperty => ({
+  _id: id,
+  title: `Casa ${id}`,
+  propertyType: 'Casas',
+  operationType: 'Venta',
+  price: 3000000,
+  maintenanceFee: null,
+  amenities: [],
+  images: [],
+  location: { city: 'Zapopan', state: 'Jalisco' },
+  features: { bedrooms: 3, bathrooms: 2, constructionSize: 150, lotSize: 200 },
+  ...overrides,
+});
+
+describe('compareProperties', () => {
+  it('aligns values and computes deltas against the first property', () => {
+    const comparison = compareProperties(
+      [
+        property('a'),
+        property('b', {
+          price: 3600000,
+          features: { bedrooms: 4, constructionSize: 200 },
+        }),
+      ],
+      new Map(),
+    );
+
+    const price = comparison.fields.find((field) => field.field === 'price');
+    expect(price).toEqual({
+      field: 'price',
+      values: [3000000, 3600000],
+      deltas: [0, 600000],
+      best: 0,
+    });
+
+    const perM2 = comparison.fields.find(
+      (field) => field.field === 'pricePerConstructionM2',
+    );
+    expect(perM2?.values).toEqual([20000, 18000]);
+    expect(perM2?.best).toBe(1);
+
+    // Missing values have no delta, and a tie has no winner
+    const bathrooms = comparison.fields.find(
+      (field) => field.field === 'features.bathrooms',
+    );
+    expect(bathrooms?.deltas).toEqual([0, null]);
+    expect(bathrooms?.best).toBeNull();
+  });
+
+  it('aligns amenities across properties', () => {
+    const comparison = compareProperties(
+      [
+        property('a', { amenities: ['Jardín'] }),
+        property('b', { amenities: ['Alberca', 'Jardín'] }),
+      ],
+      new Map(),
+    );
+
+    expect(comparison.amenities).toEqual([
+      { amenity: 'Alberca', values: [false, true] },
+      { amenity: 'Jardín', values: [true, true] },
+    ]);
+  });
+
+  it('positions each property against the median of its peers', () => {
+    const a = property('a', { price: 2000000 });
+    const b = property('b', { price: 3100000 });
+    const comparison = compareProperties(
+      [a, b],
+      new Map([
+        [
+          peerGroupKey(a),
+          {
+            prices: [2500000, 3000000, 3500000],
+            pricesPerConstructionM2: [20000],
+          },
+        ],
+      ]),
+    );
+
+    expect(comparison.properties[0].marketPosition).toMatchObject({
+      sampleSize: 3,
+      medianPrice: 3000000,
+      priceVsMedian: -33.33,
+      position: 'below',
+    });
+    expect(comparison.properties[1].marketPosition.position).toBe('at');
+    expect(formatComparisonSummary(comparison)).toContain(
+      'Casa a está 33% debajo de la mediana de Casas en Zapopan.',
+    );
+  });
+});
+
+describe('median', () => {
+  it('handles even and odd sample sizes', () => {
+    expect(median([])).toBeNull();
+    expect(median([3, 1, 2])).toBe(2);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+  });
+});
+
+describe('isComparisonRequest', () => {
+  it('detects requests to compare listings', () => {
+    expect(isComparisonRequest('¿Cuál es mejor?', 2)).toBe(true);
+    expect(isComparisonRequest('cuál me conviene más', 3)).toBe(true);
+    expect(isComparisonRequest('compáralas', 2)).toBe(true);
+    expect(isComparisonRequest('busco una casa mejor ubicada', 2)).toBe(false);
+  });
+
+  it('needs at least two discussed listings', () => {
+    expect(isComparisonRequest('¿Cuál es mejor?', 0)).toBe(false);
+    expect(isComparisonRequest('¿Cuál es mejor?', 1)).toBe(false);
+  });
+
+  it('ignores questions that name their own subject', () => {
+    expect(
+      isComparisonRequest(
+        '¿Cuál es mejor zona para vivir en Guadalajara, Zapopan o Tlaquepaque?',
+        2,
+      ),
+    ).toBe(false);
+    expect(
+      isComparisonRequest('cual es mejor opción para invertir en monterrey', 2),
+    ).toBe(false);
+    expect(
+      isComparisonRequest('¿qué colonia me recomiendas, cuál es mejor?', 3),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,372 @@
+/**
+ * Property Comparison Utilities
+ *
+ * Changes:
+ * - Created the side-by-side comparison of listings: aligned values, deltas
+ *   against the first listing, price per m² and position against the median
+ *   of comparable listings
+ * - Added the Spanish summary the chat answers "¿cuál es mejor?" with
+ * - A comparison request needs two discussed listings and must not name its
+ *   own subject ("¿cuál es mejor zona?"), which the agents answer instead
+ */
+import {
+  ComparisonAmenity,
+  ComparisonField,
+  MarketPosition,
+  PropertyComparison,
+} from '../interfaces/property-comparison.interface';
+import {
+  OperationType,
+  PropertyTypeName,
+} from '../interfaces/property-filters.interface';
+
+// Listings can be compared two to four at a time
+export const MIN_COMPARED_PROPERTIES = 2;
+export const MAX_COMPARED_PROPERTIES = 4;
+
+// Prices within this percentage of the median count as "at" the median
+const MEDIAN_TOLERANCE_PERCENT = 5;
+
+export interface ComparableProperty {
+  _id: { toString(): string };
+  title: string;
+  propertyType: PropertyTypeName;
+  operationType: OperationType;
+  price: number;
+  maintenanceFee?: number | null;
+  propertyAge?: number | null;
+  amenities?: string[];
+  images?: string[];
+  location: { city: string; state: string };
+  features?: {
+    bedrooms?: number | null;
+    bathrooms?: number | null;
+    constructionSize?: number | null;
+    lotSize?: number | null;
+    parking?: number | null;
+    floors?: number | null;
+  };
+}
+
+// Prices of the listings a property is measured against
+export interface PeerPrices {
+  prices: number[];
+  pricesPerConstructionM2: number[];
+}
+
+interface FieldDefinition {
+  field: string;
+  // Whether a higher value is the better one
+  higherIsBetter: boolean;
+  value: (property: ComparableProperty) => number | null | undefined;
+}
+
+const COMPARED_FIELDS: FieldDefinition[] = [
+  { field: 'price', higherIsBetter: false, value: (p) => p.price },
+  {
+    field: 'pricePerConstructionM2',
+    higherIsBetter: false,
+    value: (p) => pricePerM2(p.price, p.features?.constructionSize),
+  },
+  {
+    field: 'pricePerLotM2',
+    higherIsBetter: false,
+    value: (p) => pricePerM2(p.price, p.features?.lotSize),
+  },
+  {
+    field: 'maintenanceFee',
+    higherIsBetter: false,
+    value: (p) => p.maintenanceFee,
+  },
+  {
+    field: 'features.bedrooms',
+    higherIsBetter: true,
+    value: (p) => p.features?.bedrooms,
+  },
+  {
+    field: 'features.bathrooms',
+    higherIsBetter: true,
+    value: (p) => p.features?.bathrooms,
+  },
+  {
+    field: 'features.constructionSize',
+    higherIsBetter: true,
+    value: (p) => p.features?.constructionSize,
+  },
+  {
+    field: 'features.lotSize',
+    higherIsBetter: true,
+    value: (p) => p.features?.lotSize,
+  },
+  {
+    field: 'features.parking',
+    higherIsBetter: true,
+    value: (p) => p.features?.parking,
+  },
+  {
+    field: 'features.floors',
+    higherIsBetter: true,
+    value: (p) => p.features?.floors,
+  },
+  {
+    field: 'propertyAge',
+    higherIsBetter: false,
+    value: (p) => p.propertyAge,
+  },
+  {
+    field: 'amenities',
+    higherIsBetter: true,
+    value: (p) => p.amenities?.length ?? 0,
+  },
+];
+
+// Labels of the fields mentioned in the chat summary
+const FIELD_LABELS: Record<string, string> = {
+  price: 'el precio más bajo',
+  pricePerConstructionM2: 'el mejor precio por m² de construcción',
+  'features.constructionSize': 'la mayor construcción',
+  'features.bedrooms': 'más recámaras',
+  'features.bathrooms': 'más baños',
+  maintenanceFee: 'el mantenimiento más bajo',
+  amenities: 'más amenidades',
+};
+
+// "¿cuál es mejor?", "¿cuál me conviene?", "compáralas"...
+const COMPARISON_REQUEST =
+  /\bcual(es)?\s+(es\s+|son\s+)?(me\s+)?(mejor|conviene|recomiendas)\b|\bcompar[a-z]*\b/;
+
+// Questions about something other than the listings: "¿cuál es mejor zona?",
+// "¿cuál me conviene para invertir en Monterrey?"
+const OWN_SUBJECT =
+  /\b(zonas?|colonias?|ciudad(es)?|municipios?|barrios?|fraccionamientos?|delegacion(es)?|alcaldias?|region(es)?|credito|hipoteca|bancos?)\b|\b(vivir|invertir|rentar|comprar)\s+en\b/;
+
+/**
+ * Compare listings side by side
+ * @param properties The listings, in the order they should be shown
+ * @param peers Prices of comparable listings, keyed by peerGroupKey
+ * @returns The aligned comparison
+ */
+export function compareProperties(
+  properties: ComparableProperty[],
+  peers: Map<string, PeerPrices>,
+): PropertyComparison {
+  const fields: ComparisonField[] = COMPARED_FIELDS.map((definition) => {
+    const values = properties.map((property) =>
+      toComparableValue(definition.value(property)),
+    );
+    const baseline = values[0];
+    return {
+      field: definition.field,
+      values,
+      deltas: values.map((value) =>
+        value === null || baseline === null ? null : round(value - baseline),
+      ),
+      best: findBest(values, definition.higherIsBetter),
+    };
+  });
+
+  const amenityNames = Array.from(
+    new Set(properties.flatMap((property) => property.amenities || [])),
+  ).sort();
+  const amenities: ComparisonAmenity[] = amenityNames.map((amenity) => ({
+    amenity,
+    values: properties.map(
+      (property) => property.amenities?.includes(amenity) ?? false,
+    ),
+  }));
+
+  return {
+    properties: properties.map((property) => ({
+      _id: property._id.toString(),
+      title: property.title,
+      propertyType: property.propertyType,
+      operationType: property.operationType,
+      city: property.location.city,
+      state: property.location.state,
+      image: property.images?.[0] ?? null,
+      marketPosition: getMarketPosition(
+        property,
+        peers.get(peerGroupKey(property)),
+      ),
+    })),
+    fields,
+    amenities,
+  };
+}
+
+/**
+ * Key of the comparable listings of a property: same city, property type and
+ * operation type (sale and rent prices are not comparable)
+ */
+export function peerGroupKey(property: {
+  propertyType: string;
+  operationType: string;
+  location: { city: string };
+}): string {
+  return [
+    property.location.city,
+    property.propertyType,
+    property.operationType,
+  ].join('|');
+}
+
+/**
+ * Price per square meter, or null without a usable size
+ */
+export function pricePerM2(
+  price: number,
+  size: number | null | undefined,
+): number | null {
+  return size && size > 0 && price > 0 ? round(price / size) : null;
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
+
+/**
+ * Summarize a comparison for the chat, in Spanish
+ * @param comparison The comparison
+ * @returns The summary
+ */
+export function formatComparisonSummary(
+  comparison: PropertyComparison,
+): string {
+  const { properties, fields } = comparison;
+  const lines = [`Comparé ${properties.length} propiedades:`];
+
+  for (const field of fields) {
+    const label = FIELD_LABELS[field.field];
+    if (!label || field.best === null) {
+      continue;
+    }
+    lines.push(`- ${properties[field.best].title} tiene ${label}.`);
+  }
+
+  for (const property of properties) {
+    const { priceVsMedian, position, propertyType, city } =
+      property.marketPosition;
+    if (position === null || priceVsMedian === null) {
+      continue;
+    }
+    const description =
+      position === 'at'
+        ? 'está en la mediana'
+        : `está ${Math.abs(Math.round(priceVsMedian))}% ${position === 'below' ? 'debajo' : 'arriba'} de la mediana`;
+    lines.push(
+      `- ${property.title} ${description} de ${propertyType} en ${city}.`,
+    );
+  }
+
+  // Count which listing wins the most fields
+  const wins = properties.map(
+    (_, index) => fields.filter((field) => field.best === index).length,
+  );
+  const topWins = Math.max(...wins);
+  const leaders = wins.filter((count) => count === topWins).length;
+  if (topWins > 0 && leaders === 1) {
+    lines.push(
+      `En general, ${properties[wins.indexOf(topWins)].title} sale mejor en más aspectos, aunque depende de lo que sea más importante para ti.`,
+    );
+  } else {
+    lines.push(
+      'Ninguna destaca claramente; depende de lo que sea más importante para ti.',
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Check whether a chat message asks to compare the listings being discussed
+ * @param message The user's message
+ * @param discussedCount Number of listings discussed recently in the chat
+ * @returns True for requests such as "¿cuál es mejor?" about two or more listings
+ */
+export function isComparisonRequest(
+  message: string,
+  discussedCount: number,
+): boolean {
+  const text = message
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+
+  return (
+    discussedCount >= MIN_COMPARED_PROPERTIES &&
+    COMPARISON_REQUEST.test(text) &&
+    !OWN_SUBJECT.test(text)
+  );
+}
+
+function getMarketPosition(
+  property: ComparableProperty,
+  peers: PeerPrices = { prices: [], pricesPerConstructionM2: [] },
+): MarketPosition {
+  const medianPrice = median(peers.prices);
+  const medianPricePerConstructionM2 = median(peers.pricesPerConstructionM2);
+  const priceVsMedian = percentDifference(property.price, medianPrice);
+
+  return {
+    city: property.location.city,
+    propertyType: property.propertyType,
+    operationType: property.operationType,
+    sampleSize: peers.prices.length,
+    medianPrice,
+    medianPricePerConstructionM2,
+    priceVsMedian,
+    pricePerConstructionM2VsMedian: percentDifference(
+      pricePerM2(property.price, property.features?.constructionSize),
+      medianPricePerConstructionM2,
+    ),
+    position:
+      priceVsMedian === null
+        ? null
+        : Math.abs(priceVsMedian) <= MEDIAN_TOLERANCE_PERCENT
+          ? 'at'
+          : priceVsMedian < 0
+            ? 'below'
+            : 'above',
+  };
+}
+
+function findBest(
+  values: (number | null)[],
+  higherIsBetter: boolean,
+): number | null {
+  const present = values.filter((value): value is number => value !== null);
+  if (present.length < 2) {
+    return null;
+  }
+
+  const bestValue = higherIsBetter
+    ? Math.max(...present)
+    : Math.min(...present);
+  // A tie is not a winner
+  const winners = values.filter((value) => value === bestValue).length;
+  return winners === 1 ? values.indexOf(bestValue) : null;
+}
+
+function toComparableValue(value: number | null | undefined): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function percentDifference(
+  value: number | null,
+  reference: number | null,
+): number | null {
+  return value === null || !reference
+    ? null
+    : round(((value - reference) / reference) * 100);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,147 @@
+import 'reflect-metadata';
+import { Types } from 'mongoose';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { CreatePropertyDto } from '../dto/create-property.dto';
+import { flattenProperty, serializeProperties } from './property-export';
+import { applyColumnMapping, parseCsv } from './import-parser';
+
+interface FeatureCollection {
+  type: string;
+  features: { geometry: unknown; properties: Record<string, unknown> }[];
+}
+
+async function* fromArray(items: Record<string, unknown>[]) {
+  for (const item of items) {
+    yield await Promise.resolve(item);
+  }
+}
+
+async function collect(
+  items: Record<string, unknown>[],
+  format: 'csv' | 'geojson' | 'kml',
+): Promise<string> {
+  let output = '';
+  for await (const chunk of serializeProperties(fromArray(items), format)) {
+    output += chunk;
+  }
+  return output;
+}
+
+describe('property export', () => {
+  const id = new Types.ObjectId();
+  const property = {
+    _id: id,
+    title: 'Casa "Las Palmas", Mérida',
+    price: 2500000,
+    location: {
+      state: 'Yucatán',
+      city: 'Mérida',
+      address: 'Calle 60 & 45',
+      coordinates: { lat: 20.97, lng: -89.62 },
+    },
+    features: { bedrooms: 3 },
+    amenities: ['Alberca', 'Jardín'],
+    agent: { name: 'Ana' },
+    createdAt: new Date('2024-01-02T03:04:05.000Z'),
+  };
+  const withoutCoordinates = {
+    _id: new Types.ObjectId(),
+    title: 'Terreno',
+    location: { coordinates: { lat: 0, lng: 0 } },
+  };
+
+  it('should flatten nested fields into columns', () => {
+    const flat = flattenProperty(property);
+
+    expect(flat._id).toBe(id.toHexString());
+    expect(flat['location.city']).toBe('Mérida');
+    expect(flat['features.bedrooms']).toBe(3);
+    expect(flat['features.bathrooms']).toBeNull();
+    expect(flat.amenities).toBe('Alberca|Jardín');
+    expect(flat['agent.name']).toBe('Ana');
+    expect(flat.createdAt).toBe('2024-01-02T03:04:05.000Z');
+  });
+
+  it('should escape CSV values', async () => {
+    const lines = (await collect([property], 'csv')).split('\r\n');
+
+    expect(lines[0].startsWith('_id,title,description,')).toBe(true);
+    expect(lines[1]).toContain('"Casa ""Las Palmas"", Mérida"');
+    expect(lines).toHaveLength(3);
+  });
+
+  it('should export CSV that re-imports without a column mapping', async () => {
+    const rental = {
+      ...property,
+      description: 'Departamento amueblado',
+      propertyType: 'Departamentos',
+      operationType: 'Renta',
+      type: 'property',
+      price: 1500,
+      currency: 'USD',
+      amenities: ['Gimnasio'],
+      rental: {
+        furnished: true,
+        petsAllowed: true,
+        minLeaseMonths: 12,
+        depositMonths: 1.5,
+        utilitiesIncluded: true,
+      },
+      agent: {
+        name: 'Ana',
+        company: 'Inmobiliaria Sur',
+        image: 'https://example.com/ana.jpg',
+        phone: '9991234567',
+        email: 'ana@example.com',
+      },
+    };
+
+    const [row] = parseCsv(await collect([rental], 'csv'));
+    const dto = plainToInstance(
+      CreatePropertyDto,
+      applyColumnMapping(row.values || {}),
+      { enableImplicitConversion: true },
+    );
+
+    expect(await validate(dto, { whitelist: true })).toEqual([]);
+    expect(dto.price).toBe(1500);
+    expect(dto.currency).toBe('USD');
+    expect({ ...dto.rental }).toEqual(rental.rental);
+    expect(dto.location.coordinates).toEqual({ lat: 20.97, lng: -89.62 });
+  });
+
+  it('should build a FeatureCollection skipping properties without coordinates', async () => {
+    const collection = JSON.parse(
+      await collect([property, withoutCoordinates, property], 'geojson'),
+    ) as FeatureCollection;
+
+    expect(collection.type).toBe('FeatureCollection');
+    expect(collection.features).toHaveLength(2);
+    expect(collection.features[0].geometry).toEqual({
+      type: 'Point',
+      coordinates: [-89.62, 20.97],
+    });
+    expect(collection.features[0].properties['location.city']).toBe('Mérida');
+    expect(
+      collection.features[0].properties['location.coordinates.lat'],
+    ).toBeUndefined();
+  });
+
+  it('should return an empty FeatureCollection without properties', async () => {
+    expect(JSON.parse(await collect([], 'geojson'))).toEqual({
+      type: 'FeatureCollection',
+      features: [],
+    });
+  });
+
+  it('should escape KML placemarks', async () => {
+    const kml = await collect([property, withoutCoordinates], 'kml');
+
+    expect(kml.match(/<Placemark/g)).toHaveLength(1);
+    expect(kml).toContain('<name>Casa &quot;Las Palmas&quot;, Mérida</name>');
+    expect(kml).toContain('Calle 60 &amp; 45');
+    expect(kml).toContain('<coordinates>-89.62,20.97</coordinates>');
+    expect(kml.trim().endsWith('</Document></kml>')).toBe(true);
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Property Export Utilities
+ *
+ * Changes:
+ * - Created serializers streaming properties as CSV, GeoJSON and KML
+ * - CSV columns are CreatePropertyDto paths, so an export can be re-imported
+ *   through POST /properties/import without a column mapping
+ * - Moved the dot-path helpers to object-path
+ * - Added the currency and rental terms columns, which the import accepts
+ */
+import { getPath } from './object-path';
+
+export type ExportFormat = 'csv' | 'geojson' | 'kml';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'geojson', 'kml'];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  geojson: 'application/geo+json',
+  kml: 'application/vnd.google-earth.kml+xml',
+};
+
+// Flattened columns, in export order
+const EXPORT_COLUMNS = [
+  '_id',
+  'title',
+  'description',
+  'propertyType',
+  'operationType',
+  'listingCategory',
+  'type',
+  'status',
+  'price',
+  'currency',
+  'maintenanceFee',
+  'propertyAge',
+  'location.state',
+  'location.city',
+  'location.address',
+  'location.coordinates.lat',
+  'location.coordinates.lng',
+  'features.bedrooms',
+  'features.bathrooms',
+  'features.constructionSize',
+  'features.lotSize',
+  'features.parking',
+  'features.floors',
+  'rental.furnished',
+  'rental.petsAllowed',
+  'rental.minLeaseMonths',
+  'rental.depositMonths',
+  'rental.utilitiesIncluded',
+  'amenities',
+  'images',
+  'agent.name',
+  'agent.title',
+  'agent.company',
+  'agent.image',
+  'agent.phone',
+  'agent.email',
+  'agent.experience',
+  'agent.activeListings',
+  'createdAt',
+  'updatedAt',
+];
+
+// Columns holding the point geometry in GeoJSON and KML
+const COORDINATE_COLUMNS = [
+  'location.coordinates.lat',
+  'location.coordinates.lng',
+];
+
+// Separator for list values, matching the import parser
+const LIST_SEPARATOR = '|';
+
+type FlatProperty = Record<string, string | number | null>;
+
+/**
+ * Serialize a stream of properties into the requested format, chunk by chunk
+ * @param properties The properties to export, as plain objects
+ * @param format The export format
+ * @returns The serialized chunks
+ */
+export async function* serializeProperties(
+  properties: AsyncIterable<Record<string, unknown>>,
+  format: ExportFormat,
+): AsyncGenerator<string> {
+  switch (format) {
+    case 'csv':
+      yield* toCsv(properties);
+      break;
+    case 'geojson':
+      yield* toGeoJson(properties);
+      break;
+    case 'kml':
+      yield* toKml(properties);
+      break;
+  }
+}
+
+/**
+ * Flatten a property into one value per export column
+ * @param property The property as a plain object
+ * @returns The flattened property
+ */
+export function flattenProperty(
+  property: Record<string, unknown>,
+): FlatProperty {
+  return Object.fromEntries(
+    EXPORT_COLUMNS.map((column) => [
+      column,
+      toFlatValue(getPath(property, column)),
+    ]),
+  );
+}
+
+async function* toCsv(
+  properties: AsyncIterable<Record<string, unknown>>,
+): AsyncGenerator<string> {
+  yield EXPORT_COLUMNS.join(',') + '\r\n';
+
+  for await (const property of properties) {
+    const flat = flattenProperty(property);
+    yield EXPORT_COLUMNS.map((column) => escapeCsv(flat[column])).join(',') +
+      '\r\n';
+  }
+}
+
+async function* toGeoJson(
+  properties: AsyncIterable<Record<string, unknown>>,
+): AsyncGenerator<string> {
+  yield '{"type":"FeatureCollection","features":[';
+
+  let first = true;
+  for await (const property of properties) {
+    const point = getPoint(property);
+    if (!point) {
+      continue;
+    }
+
+    const feature = {
+      type: 'Feature',
+      id: String(property._id),
+      geometry: { type: 'Point', coordinates: [point.lng, point.lat] },
+      properties: withoutCoordinates(flattenProperty(property)),
+    };
+    yield (first ? '' : ',') + JSON.stringify(feature);
+    first = false;
+  }
+
+  yield ']}';
+}
+
+async function* toKml(
+  properties: AsyncIterable<Record<string, unknown>>,
+): AsyncGenerator<string> {
+  yield '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<kml xmlns="http://www.opengis.net/kml/2.2"><Document><name>Properties</name>\n';
+
+  for await (const property of properties) {
+    const point = getPoint(property);
+    if (!point) {
+      continue;
+    }
+
+    const flat = withoutCoordinates(flattenProperty(property));
+    const data = Object.entries(flat)
+      .filter(([, value]) => value !== null)
+      .map(
+        ([column, value]) =>
+          `<Data name="${escapeXml(column)}"><value>${escapeXml(String(value))}</value></Data>`,
+      )
+      .join('');
+
+    yield `<Placemark id="${escapeXml(String(property._id))}">` +
+      `<name>${escapeXml(String(flat.title ?? ''))}</name>` +
+      `<ExtendedData>${data}</ExtendedData>` +
+      `<Point><coordinates>${point.lng},${point.lat}</coordinates></Point>` +
+      '</Placemark>\n';
+  }
+
+  yield '</Document></kml>\n';
+}
+
+function getPoint(
+  property: Record<string, unknown>,
+): { lat: number; lng: number } | null {
+  const lat = getPath(property, 'location.coordinates.lat');
+  const lng = getPath(property, 'location.coordinates.lng');
+
+  // Properties without coordinates are stored with 0,0
+  if (typeof lat !== 'number' || typeof lng !== 'number' || !lat || !lng) {
+    return null;
+  }
+  return { lat, lng };
+}
+
+function withoutCoordinates(flat: FlatProperty): FlatProperty {
+  return Object.fromEntries(
+    Object.entries(flat).filter(
+      ([column]) => !COORDINATE_COLUMNS.includes(column),
+    ),
+  );
+}
+
+function toFlatValue(value: unknown): string | number | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => String(item)).join(LIST_SEPARATOR);
+  }
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'object') {
+    // ObjectId and other BSON values
+    return (value as { toString(): string }).toString();
+  }
+  return String(value as string | boolean);
+}
+
+function escapeCsv(value: string | number | null): string {
+  if (value === null) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,104 @@
+import {
+  ValuationCandidate,
+  distanceInMeters,
+  getValuationBasis,
+  valueProperty,
+} from './property-valuation';
+
+const candidate = (
+  id: string,
+  price: number,
+  constructionSize: number,
+  bedrooms = 3,
+): ValuationCandidate => ({
+  _id: id,
+  title: `Casa ${id}`,
+  propertyType: 'Casas',
+  price,
+  features: { bedrooms, constructionSize },
+});
+
+describe('valueProperty', () => {
+  it('scales comparables by price per m² and weights them by similarity', () => {
+    const valuation = valueProperty(
+      {
+        propertyType: 'Casas',
+        price: 4000000,
+        features: { bedrooms: 3, constructionSize: 200 },
+      },
+      [
+        candidate('a', 3000000, 150),
+        candidate('b', 4000000, 200),
+        candidate('c', 5000000, 250),
+      ],
+    );
+
+    // Every comparable is worth 20,000 per m²
+    expect(valuation.basis).toBe('constructionSize');
+    expect(valuation.estimatedPrice).toBe(4000000);
+    expect(valuation.priceRange).toEqual({ min: 4000000, max: 4000000 });
+    expect(valuation.pricePerM2).toBe(20000);
+    expect(valuation.marketPosition).toBe('within');
+    expect(valuation.comparables.map((c) => c._id)).toEqual(['b', 'c', 'a']);
+    expect(valuation.comparables[0].weight).toBe(1);
+  });
+
+  it('flags a listing priced above the range', () => {
+    const valuation = valueProperty(
+      {
+        propertyType: 'Casas',
+        price: 6000000,
+        features: { constructionSize: 200 },
+      },
+      [
+        candidate('a', 3600000, 200),
+        candidate('b', 4000000, 200),
+        candidate('c', 4400000, 200),
+      ],
+    );
+
+    expect(valuation.estimatedPrice).toBe(4000000);
+    expect(valuation.marketPosition).toBe('above');
+    expect(valuation.priceVsEstimate).toBe(50);
+    expect(valuation.confidence).toBeGreaterThan(0);
+    expect(valuation.confidence).toBeLessThan(1);
+  });
+
+  it('returns no estimate without comparables', () => {
+    const valuation = valueProperty(
+      { propertyType: 'Casas', features: { constructionSize: 200 } },
+      [],
+    );
+
+    expect(valuation.estimatedPrice).toBeNull();
+    expect(valuation.confidence).toBe(0);
+  });
+});
+
+describe('getValuationBasis', () => {
+  it('values lots by land and buildings by construction', () => {
+    expect(
+      getValuationBasis({
+        propertyType: 'Terrenos',
+        features: { lotSize: 300 },
+      }),
+    ).toBe('lotSize');
+    expect(
+      getValuationBasis({
+        propertyType: 'Casas',
+        features: { constructionSize: 150, lotSize: 300 },
+      }),
+    ).toBe('constructionSize');
+    expect(getValuationBasis({ propertyType: 'Casas' })).toBe('price');
+  });
+});
+
+describe('distanceInMeters', () => {
+  it('measures the distance between two coordinates', () => {
+    const distance = distanceInMeters(
+      { lat: 20.6736, lng: -103.344 },
+      { lat: 20.6826, lng: -103.344 },
+    );
+    expect(Math.round(distance)).toBe(1001);
+  });
+});
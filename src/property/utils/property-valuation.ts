@@ -0,0 +1,285 @@
+/**
+ * Property Valuation Utilities
+ *
+ * Changes:
+ * - Created the comparable-based valuation: comparables are weighted by
+ *   similarity, their prices scaled by price per m² to the valued property,
+ *   and combined into an estimate, a range and a confidence score
+ */
+import {
+  PropertyValuation,
+  ValuationBasis,
+  ValuationComparable,
+} from '../interfaces/property-valuation.interface';
+
+// Comparables used for an estimate, most similar first
+export const MAX_VALUATION_COMPARABLES = 10;
+
+// Below this many comparables the valuation is not trusted
+const MIN_CONFIDENT_COMPARABLES = 5;
+
+// Property types valued by land rather than construction
+const LAND_PROPERTY_TYPES = ['Terrenos', 'Terrenos comerciales'];
+
+// Distance at which a comparable's location stops counting for similarity
+const MAX_COMPARABLE_DISTANCE_METERS = 5000;
+
+export interface ValuationSubject {
+  _id?: { toString(): string };
+  propertyType: string;
+  price?: number | null;
+  propertyAge?: number | null;
+  location?: { coordinates?: { lat: number; lng: number } | null };
+  features?: {
+    bedrooms?: number | null;
+    bathrooms?: number | null;
+    constructionSize?: number | null;
+    lotSize?: number | null;
+  };
+}
+
+export interface ValuationCandidate extends ValuationSubject {
+  _id: { toString(): string };
+  title: string;
+  price: number;
+}
+
+/**
+ * Estimate the price of a property from comparable listings
+ * @param subject The property to value
+ * @param candidates Listings of the same type, operation and city
+ * @returns The valuation, with the comparables it used
+ */
+export function valueProperty(
+  subject: ValuationSubject,
+  candidates: ValuationCandidate[],
+): PropertyValuation {
+  const basis = getValuationBasis(subject);
+  const subjectSize = basis === 'price' ? null : subject.features?.[basis];
+
+  const comparables = candidates
+    .filter((candidate) => candidate.price > 0)
+    .map((candidate) => toComparable(subject, candidate, basis, subjectSize))
+    .filter((comparable): comparable is ValuationComparable => !!comparable)
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, MAX_VALUATION_COMPARABLES);
+
+  const listingPrice =
+    subject.price && subject.price > 0 ? subject.price : null;
+  if (comparables.length === 0) {
+    return {
+      estimatedPrice: null,
+      priceRange: null,
+      pricePerM2: null,
+      basis,
+      confidence: 0,
+      listingPrice,
+      priceVsEstimate: null,
+      marketPosition: null,
+      comparables: [],
+    };
+  }
+
+  const totalWeight = comparables.reduce((sum, c) => sum + c.weight, 0);
+  const estimatedPrice =
+    comparables.reduce((sum, c) => sum + c.adjustedPrice * c.weight, 0) /
+    totalWeight;
+  const variance =
+    comparables.reduce(
+      (sum, c) => sum + c.weight * (c.adjustedPrice - estimatedPrice) ** 2,
+      0,
+    ) / totalWeight;
+  const deviation = Math.sqrt(variance);
+  const priceRange = {
+    min: roundPrice(Math.max(0, estimatedPrice - deviation)),
+    max: roundPrice(estimatedPrice + deviation),
+  };
+
+  const priceVsEstimate =
+    listingPrice === null
+      ? null
+      : round(((listingPrice - estimatedPrice) / estimatedPrice) * 100);
+
+  return {
+    estimatedPrice: roundPrice(estimatedPrice),
+    priceRange,
+    pricePerM2:
+      subjectSize && subjectSize > 0
+        ? round(estimatedPrice / subjectSize)
+        : null,
+    basis,
+    confidence: getConfidence(comparables, deviation / estimatedPrice),
+    listingPrice,
+    priceVsEstimate,
+    marketPosition:
+      listingPrice === null
+        ? null
+        : listingPrice < priceRange.min
+          ? 'below'
+          : listingPrice > priceRange.max
+            ? 'above'
+            : 'within',
+    comparables,
+  };
+}
+
+/**
+ * Size the comparables' prices are scaled by: land for lots, otherwise
+ * construction, falling back to the raw price without a usable size
+ */
+export function getValuationBasis(subject: ValuationSubject): ValuationBasis {
+  const { constructionSize, lotSize } = subject.features || {};
+  if (LAND_PROPERTY_TYPES.includes(subject.propertyType)) {
+    return lotSize ? 'lotSize' : 'price';
+  }
+  if (constructionSize) {
+    return 'constructionSize';
+  }
+  return lotSize ? 'lotSize' : 'price';
+}
+
+/**
+ * Distance between two coordinates in meters (haversine)
+ */
+export function distanceInMeters(
+  a: { lat: number; lng: number },
+  b: { lat: number; lng: number },
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) *
+      Math.cos(toRadians(b.lat)) *
+      Math.sin(dLng / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.sqrt(h));
+}
+
+function toComparable(
+  subject: ValuationSubject,
+  candidate: ValuationCandidate,
+  basis: ValuationBasis,
+  subjectSize: number | null | undefined,
+): ValuationComparable | null {
+  const candidateSize =
+    basis === 'price' ? null : candidate.features?.[basis] || null;
+
+  // A size-based valuation needs comparables with that size
+  if (basis !== 'price' && !candidateSize) {
+    return null;
+  }
+
+  const pricePerM2 = candidateSize ? candidate.price / candidateSize : null;
+  const adjustedPrice =
+    pricePerM2 !== null && subjectSize
+      ? pricePerM2 * subjectSize
+      : candidate.price;
+  const distanceMeters = getDistance(subject, candidate);
+
+  return {
+    _id: candidate._id.toString(),
+    title: candidate.title,
+    price: candidate.price,
+    bedrooms: candidate.features?.bedrooms ?? null,
+    bathrooms: candidate.features?.bathrooms ?? null,
+    constructionSize: candidate.features?.constructionSize ?? null,
+    lotSize: candidate.features?.lotSize ?? null,
+    distanceMeters: distanceMeters === null ? null : Math.round(distanceMeters),
+    pricePerM2: pricePerM2 === null ? null : round(pricePerM2),
+    adjustedPrice: roundPrice(adjustedPrice),
+    weight: round(
+      getSimilarity(
+        subject,
+        candidate,
+        subjectSize,
+        candidateSize,
+        distanceMeters,
+      ),
+    ),
+  };
+}
+
+/**
+ * Similarity from 0 to 1: size, rooms, distance and age each scale it down
+ */
+function getSimilarity(
+  subject: ValuationSubject,
+  candidate: ValuationCandidate,
+  subjectSize: number | null | undefined,
+  candidateSize: number | null,
+  distanceMeters: number | null,
+): number {
+  let similarity = 1;
+
+  if (subjectSize && candidateSize) {
+    const sizeRatio =
+      Math.min(subjectSize, candidateSize) /
+      Math.max(subjectSize, candidateSize);
+    similarity *= 0.4 + 0.6 * sizeRatio;
+  }
+
+  for (const field of ['bedrooms', 'bathrooms'] as const) {
+    const subjectValue = subject.features?.[field];
+    const candidateValue = candidate.features?.[field];
+    if (subjectValue && candidateValue) {
+      similarity *= Math.max(
+        0.5,
+        1 - 0.15 * Math.abs(subjectValue - candidateValue),
+      );
+    }
+  }
+
+  if (distanceMeters !== null) {
+    similarity *=
+      1 - 0.5 * Math.min(distanceMeters / MAX_COMPARABLE_DISTANCE_METERS, 1);
+  }
+
+  if (
+    typeof subject.propertyAge === 'number' &&
+    typeof candidate.propertyAge === 'number'
+  ) {
+    similarity *= Math.max(
+      0.7,
+      1 - 0.02 * Math.abs(subject.propertyAge - candidate.propertyAge),
+    );
+  }
+
+  return similarity;
+}
+
+/**
+ * Confidence from the number of comparables, how similar they are and how
+ * much their adjusted prices agree
+ */
+function getConfidence(
+  comparables: ValuationComparable[],
+  coefficientOfVariation: number,
+): number {
+  const coverage = Math.min(comparables.length / MIN_CONFIDENT_COMPARABLES, 1);
+  const similarity =
+    comparables.reduce((sum, c) => sum + c.weight, 0) / comparables.length;
+  const agreement = 1 - Math.min(coefficientOfVariation, 1);
+  return round(0.4 * coverage + 0.3 * similarity + 0.3 * agreement);
+}
+
+function getDistance(
+  subject: ValuationSubject,
+  candidate: ValuationCandidate,
+): number | null {
+  const a = subject.location?.coordinates;
+  const b = candidate.location?.coordinates;
+  // Properties without coordinates are stored with 0,0
+  if (!a?.lat || !a?.lng || !b?.lat || !b?.lng) {
+    return null;
+  }
+  return distanceInMeters(a, b);
+}
+
+function roundPrice(value: number): number {
+  return Math.round(value);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
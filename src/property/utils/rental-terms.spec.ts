@@ -0,0 +1,48 @@
+import { extractRentalTerms } from './rental-terms';
+
+describe('extractRentalTerms', () => {
+  it('reads the terms mentioned in a listing', () => {
+    expect(
+      extractRentalTerms(
+        'Departamento AMUEBLADO en renta, pet friendly. Contrato mínimo de 6 meses, un mes de depósito. Servicios incluidos.',
+      ),
+    ).toEqual({
+      furnished: true,
+      petsAllowed: true,
+      minLeaseMonths: 6,
+      depositMonths: 1,
+      utilitiesIncluded: true,
+    });
+  });
+
+  it('reads negations and lease terms given in years', () => {
+    expect(
+      extractRentalTerms(
+        'Casa sin amueblar, no se aceptan mascotas. Contrato por 1 año, sin depósito, servicios no incluidos.',
+      ),
+    ).toEqual({
+      furnished: false,
+      petsAllowed: false,
+      minLeaseMonths: 12,
+      depositMonths: 0,
+      utilitiesIncluded: false,
+    });
+  });
+
+  it('leaves unmentioned terms unknown', () => {
+    expect(extractRentalTerms('Bonito departamento con vista al mar')).toEqual({
+      furnished: null,
+      petsAllowed: null,
+      minLeaseMonths: null,
+      depositMonths: null,
+      utilitiesIncluded: null,
+    });
+  });
+
+  it('reads the deposit written after the word', () => {
+    expect(
+      extractRentalTerms('Depósito de 2 meses y renta adelantada')
+        .depositMonths,
+    ).toBe(2);
+  });
+});
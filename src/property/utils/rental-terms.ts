@@ -0,0 +1,81 @@
+/**
+ * Rental Terms
+ *
+ * Changes:
+ * - Created the extraction of rental terms (furnished, pets, minimum lease,
+ *   deposit, utilities) from the free text of a listing
+ */
+import { RentalTerms } from '../schemas/property.schema';
+import { foldText } from './text-search';
+
+// Spelled-out counts used in listings ("un mes de depósito", "contrato de seis meses")
+const NUMBER_WORDS: Record<string, number> = {
+  un: 1,
+  una: 1,
+  uno: 1,
+  dos: 2,
+  tres: 3,
+  cuatro: 4,
+  seis: 6,
+  doce: 12,
+};
+
+const COUNT = `(\\d+|${Object.keys(NUMBER_WORDS).join('|')})`;
+
+const NOT_FURNISHED =
+  /\b(sin amueblar|no amueblad[oa]s?|sin muebles|desamueblad[oa]s?|unfurnished)\b/;
+const FURNISHED =
+  /\b(semi ?amueblad[oa]s?|amueblad[oa]s?|con muebles|furnished)\b/;
+const NO_PETS =
+  /\b(no (se )?(aceptan?|admiten?|permiten?) mascotas|sin mascotas|no pets)\b/;
+const PETS =
+  /\b(pet ?friendly|(se )?(aceptan?|admiten?|permiten?) mascotas|mascotas (permitidas|bienvenidas))\b/;
+const NO_UTILITIES = /\b(servicios no incluidos|no incluye servicios)\b/;
+const UTILITIES =
+  /\b(servicios incluidos|incluye (los )?servicios|con servicios)\b/;
+const MIN_LEASE = new RegExp(
+  `\\b(?:(?:contrato|plazo|estancia|renta) (?:minim[oa] )?(?:de |por )?|minimo (?:de )?)${COUNT} (mes|meses|ano|anos)\\b`,
+);
+const NO_DEPOSIT = /\bsin deposito\b/;
+const DEPOSIT = new RegExp(
+  `\\b(?:${COUNT} (?:mes|meses) (?:de )?deposito|deposito (?:de )?${COUNT} (?:mes|meses))\\b`,
+);
+
+/**
+ * Read the rental terms a listing mentions in its title or description
+ * @param text The title and description
+ * @returns The terms; the ones the text does not mention are null
+ */
+export function extractRentalTerms(text: string): RentalTerms {
+  const folded = foldText(text).replace(/\s+/g, ' ');
+
+  const lease = MIN_LEASE.exec(folded);
+  const deposit = DEPOSIT.exec(folded);
+  const depositCount = deposit ? (deposit[1] ?? deposit[2]) : null;
+
+  return {
+    furnished: readFlag(folded, FURNISHED, NOT_FURNISHED),
+    petsAllowed: readFlag(folded, PETS, NO_PETS),
+    minLeaseMonths: lease
+      ? parseCount(lease[1]) * (lease[2].startsWith('ano') ? 12 : 1)
+      : null,
+    depositMonths: NO_DEPOSIT.test(folded)
+      ? 0
+      : depositCount
+        ? parseCount(depositCount)
+        : null,
+    utilitiesIncluded: readFlag(folded, UTILITIES, NO_UTILITIES),
+  };
+}
+
+// Negations are checked first, since "no acepta mascotas" contains "acepta mascotas"
+function readFlag(text: string, yes: RegExp, no: RegExp): boolean | null {
+  if (no.test(text)) {
+    return false;
+  }
+  return yes.test(text) ? true : null;
+}
+
+function parseCount(count: string): number {
+  return NUMBER_WORDS[count] ?? Number(count);
+}
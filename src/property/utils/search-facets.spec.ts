@@ -0,0 +1,76 @@
+import {
+  PRICE_FACET_BOUNDARIES,
+  toFacetCounts,
+  toRangeFacetCounts,
+  toSearchFacets,
+} from './search-facets';
+
+describe('search facets', () => {
+  describe('toFacetCounts', () => {
+    it('should map the group ids to string values', () => {
+      expect(
+        toFacetCounts([
+          { _id: 'Casa', count: 3 },
+          { _id: 2, count: 1 },
+        ]),
+      ).toEqual([
+        { value: 'Casa', count: 3 },
+        { value: '2', count: 1 },
+      ]);
+      expect(toFacetCounts(undefined)).toEqual([]);
+    });
+  });
+
+  describe('toRangeFacetCounts', () => {
+    it('should close each range at the next boundary', () => {
+      expect(
+        toRangeFacetCounts(
+          [
+            { _id: 0, count: 4 },
+            { _id: 50000, count: 2 },
+          ],
+          PRICE_FACET_BOUNDARIES,
+        ),
+      ).toEqual([
+        { min: 0, max: 10000, count: 4 },
+        { min: 50000, max: 500000, count: 2 },
+      ]);
+    });
+
+    it('should leave the top range open-ended', () => {
+      expect(
+        toRangeFacetCounts(
+          [{ _id: 10000000, count: 7 }],
+          PRICE_FACET_BOUNDARIES,
+        ),
+      ).toEqual([{ min: 10000000, max: null, count: 7 }]);
+    });
+  });
+
+  describe('toSearchFacets', () => {
+    it('should label the last bedroom bucket as "5+"', () => {
+      const facets = toSearchFacets({
+        bedrooms: [
+          { _id: 3, count: 10 },
+          { _id: 5, count: 2 },
+        ],
+      });
+
+      expect(facets.bedrooms).toEqual([
+        { value: '3', count: 10 },
+        { value: '5+', count: 2 },
+      ]);
+    });
+
+    it('should return empty facets when nothing matched', () => {
+      expect(toSearchFacets()).toEqual({
+        propertyType: [],
+        operationType: [],
+        city: [],
+        bedrooms: [],
+        amenities: [],
+        price: [],
+      });
+    });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Search Facets
+ *
+ * Changes:
+ * - Moved the mapping of the facet aggregation groups to facet counts out of
+ *   PropertyService, including the "5+" bedrooms label and the open-ended
+ *   top price range
+ */
+import {
+  FacetCount,
+  RangeFacetCount,
+  SearchFacets,
+} from '../interfaces/search-facets.interface';
+
+// Facet bucket boundaries; the last bucket is open-ended
+export const BEDROOM_FACET_BOUNDARIES = [0, 1, 2, 3, 4, 5];
+export const PRICE_FACET_BOUNDARIES = [
+  0, 10000, 20000, 50000, 500000, 1000000, 2000000, 5000000, 10000000,
+];
+
+/** A group returned by the $group or $bucket stages of the facet aggregation */
+export interface FacetGroup {
+  _id: string | number;
+  count: number;
+}
+
+export type FacetGroups = Partial<Record<keyof SearchFacets, FacetGroup[]>>;
+
+/**
+ * Map value groups to facet counts
+ * @param groups The groups keyed by facet value
+ * @returns The count per value
+ */
+export function toFacetCounts(groups: FacetGroup[] = []): FacetCount[] {
+  return groups.map((group) => ({
+    value: String(group._id),
+    count: group.count,
+  }));
+}
+
+/**
+ * Map $bucket groups to ranges; the last boundary opens a range without upper bound
+ * @param groups The groups keyed by the lower boundary of their bucket
+ * @param boundaries The boundaries used to bucket the values
+ * @returns The count per range
+ */
+export function toRangeFacetCounts(
+  groups: FacetGroup[] = [],
+  boundaries: number[],
+): RangeFacetCount[] {
+  return groups.map((group) => {
+    const min = Number(group._id);
+    const index = boundaries.indexOf(min);
+    return {
+      min,
+      max: index < boundaries.length - 1 ? boundaries[index + 1] : null,
+      count: group.count,
+    };
+  });
+}
+
+/**
+ * Build the search facets from the result of the facet aggregation
+ * @param groups The groups per facet, missing when nothing matched
+ * @returns Counts per property type, operation type, city, bedrooms, amenity and price range
+ */
+export function toSearchFacets(groups: FacetGroups = {}): SearchFacets {
+  const lastBedroom =
+    BEDROOM_FACET_BOUNDARIES[BEDROOM_FACET_BOUNDARIES.length - 1];
+
+  return {
+    propertyType: toFacetCounts(groups.propertyType),
+    operationType: toFacetCounts(groups.operationType),
+    city: toFacetCounts(groups.city),
+    // The last bedroom bucket also holds the larger values
+    bedrooms: toFacetCounts(groups.bedrooms).map((facet) =>
+      facet.value === String(lastBedroom)
+        ? { ...facet, value: `${lastBedroom}+` }
+        : facet,
+    ),
+    amenities: toFacetCounts(groups.amenities),
+    price: toRangeFacetCounts(groups.price, PRICE_FACET_BOUNDARIES),
+  };
+}
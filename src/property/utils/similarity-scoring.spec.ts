@@ -0,0 +1,92 @@
+import {
+  RELAXATION_LEVELS,
+  SimilarityListing,
+  buildRelaxedQuery,
+  scoreSimilarity,
+} from './similarity-scoring';
+
+const subject: SimilarityListing = {
+  price: 3000000,
+  amenities: ['Alberca', 'Jardín'],
+  location: {
+    city: 'Zapopan',
+    state: 'Jalisco',
+    coordinates: { lat: 20.7, lng: -103.4 },
+  },
+  features: { bedrooms: 3, bathrooms: 2, constructionSize: 180 },
+};
+
+describe('scoreSimilarity', () => {
+  it('scores a near-identical listing close to 1 with its reasons', () => {
+    const { score, reasons } = scoreSimilarity(subject, {
+      ...subject,
+      price: 3100000,
+      location: {
+        ...subject.location,
+        coordinates: { lat: 20.701, lng: -103.4 },
+      },
+    });
+
+    expect(score).toBeGreaterThan(0.9);
+    expect(reasons).toEqual([
+      'precio similar',
+      'mismo barrio',
+      'mismo número de recámaras y baños',
+    ]);
+  });
+
+  it('ranks closer matches higher', () => {
+    const near = scoreSimilarity(subject, {
+      ...subject,
+      price: 3500000,
+    });
+    const far = scoreSimilarity(subject, {
+      price: 6000000,
+      amenities: [],
+      location: { city: 'Tlaquepaque', state: 'Jalisco' },
+      features: { bedrooms: 5, bathrooms: 4, constructionSize: 400 },
+    });
+
+    expect(near.score).toBeGreaterThan(far.score);
+    expect(far.reasons).toEqual([]);
+  });
+
+  it('leaves out components without data', () => {
+    const { score, reasons } = scoreSimilarity(
+      { price: 1000000, location: { city: 'Colima' } },
+      { price: 1000000, location: { city: 'Colima' } },
+    );
+
+    expect(score).toBeCloseTo((0.3 + 0.25 * 0.6) / 0.55, 2);
+    expect(reasons).toEqual(['precio similar', 'misma ciudad']);
+  });
+
+  it('compares the prices in MXN', () => {
+    const { reasons } = scoreSimilarity(
+      { price: 3000000, priceMXN: 3000000, location: { city: 'Colima' } },
+      { price: 150000, priceMXN: 2900000, location: { city: 'Colima' } },
+    );
+
+    expect(reasons).toContain('precio similar');
+  });
+});
+
+describe('buildRelaxedQuery', () => {
+  it('widens the filters level by level', () => {
+    expect(buildRelaxedQuery(subject, RELAXATION_LEVELS[0])).toEqual({
+      priceMXN: { $gte: 2400000, $lte: 3600000 },
+      'location.city': 'Zapopan',
+      'features.bedrooms': { $gte: 2, $lte: 4 },
+      'features.bathrooms': { $gte: 1, $lte: 3 },
+    });
+    expect(buildRelaxedQuery(subject, RELAXATION_LEVELS[4])).toEqual({
+      'location.state': 'Jalisco',
+    });
+    expect(
+      buildRelaxedQuery(
+        subject,
+        RELAXATION_LEVELS[RELAXATION_LEVELS.length - 1],
+      ),
+    ).toEqual({});
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Similarity Scoring Utilities
+ *
+ * Changes:
+ * - Created the weighted similarity score between two listings over price,
+ *   size, features, amenities and geographic distance, with the reasons
+ *   shown to users ("mismo barrio", "precio similar")
+ * - Added the relaxation levels findSimilarProperties widens its candidate
+ *   search through until it has enough listings
+ * - Prices are compared in MXN (priceMXN), so listings priced in other
+ *   currencies are scored and filtered against the same scale
+ */
+import { distanceInMeters } from './property-valuation';
+
+export interface SimilarityListing {
+  _id?: { toString(): string };
+  price: number;
+  priceMXN?: number | null;
+  amenities?: string[];
+  location?: {
+    city?: string;
+    state?: string;
+    coordinates?: { lat: number; lng: number } | null;
+  };
+  features?: {
+    bedrooms?: number | null;
+    bathrooms?: number | null;
+    constructionSize?: number | null;
+    lotSize?: number | null;
+    parking?: number | null;
+  };
+}
+
+export interface SimilarityScore {
+  // From 0 (nothing in common) to 1
+  score: number;
+  reasons: string[];
+}
+
+/**
+ * Candidate filters, from the strictest to the loosest; property type,
+ * operation type and visibility always apply
+ */
+export interface RelaxationLevel {
+  priceTolerance: number | null;
+  roomsTolerance: number | null;
+  area: 'city' | 'state' | 'any';
+}
+
+export const RELAXATION_LEVELS: RelaxationLevel[] = [
+  { priceTolerance: 0.2, roomsTolerance: 1, area: 'city' },
+  { priceTolerance: 0.35, roomsTolerance: 2, area: 'city' },
+  { priceTolerance: 0.5, roomsTolerance: null, area: 'city' },
+  { priceTolerance: 0.5, roomsTolerance: null, area: 'state' },
+  { priceTolerance: null, roomsTolerance: null, area: 'state' },
+  { priceTolerance: null, roomsTolerance: null, area: 'any' },
+];
+
+const WEIGHTS = {
+  price: 0.3,
+  location: 0.25,
+  features: 0.2,
+  size: 0.15,
+  amenities: 0.1,
+};
+
+// Price difference at which price similarity reaches 0
+const MAX_PRICE_DIFFERENCE = 0.5;
+
+// Distance at which geographic similarity reaches 0
+const MAX_DISTANCE_METERS = 20000;
+
+// Listings this close are in the same neighborhood
+const NEIGHBORHOOD_METERS = 1000;
+
+const MAX_REASONS = 3;
+
+type Component = keyof typeof WEIGHTS;
+
+/**
+ * Score how similar a candidate is to a listing; components either listing
+ * lacks data for are left out and the remaining weights rescaled
+ * @param subject The listing similar properties are searched for
+ * @param candidate A candidate listing
+ * @returns The score and the main reasons, most important first
+ */
+export function scoreSimilarity(
+  subject: SimilarityListing,
+  candidate: SimilarityListing,
+): SimilarityScore {
+  const components: { component: Component; value: number; reason?: string }[] =
+    [];
+
+  const subjectPrice = toComparablePrice(subject);
+  const candidatePrice = toComparablePrice(candidate);
+  if (subjectPrice > 0 && candidatePrice > 0) {
+    const difference = Math.abs(subjectPrice - candidatePrice) / subjectPrice;
+    components.push({
+      component: 'price',
+      value: 1 - Math.min(difference / MAX_PRICE_DIFFERENCE, 1),
+      reason: difference <= 0.1 ? 'precio similar' : undefined,
+    });
+  }
+
+  const location = compareLocation(subject, candidate);
+  if (location) {
+    components.push({ component: 'location', ...location });
+  }
+
+  const features = compareFeatures(subject, candidate);
+  if (features) {
+    components.push({ component: 'features', ...features });
+  }
+
+  const subjectSize =
+    subject.features?.constructionSize || subject.features?.lotSize;
+  const candidateSize =
+    candidate.features?.constructionSize || candidate.features?.lotSize;
+  if (subjectSize && candidateSize) {
+    const ratio =
+      Math.min(subjectSize, candidateSize) /
+      Math.max(subjectSize, candidateSize);
+    components.push({
+      component: 'size',
+      value: ratio,
+      reason: ratio >= 0.85 ? 'tamaño similar' : undefined,
+    });
+  }
+
+  const subjectAmenities = subject.amenities || [];
+  const candidateAmenities = candidate.amenities || [];
+  if (subjectAmenities.length > 0) {
+    const shared = subjectAmenities.filter((amenity) =>
+      candidateAmenities.includes(amenity),
+    );
+    const union = new Set([...subjectAmenities, ...candidateAmenities]);
+    components.push({
+      component: 'amenities',
+      value: shared.length / union.size,
+      reason:
+        shared.length > 0
+          ? `amenidades en común: ${shared.join(', ')}`
+          : undefined,
+    });
+  }
+
+  const totalWeight = components.reduce(
+    (sum, { component }) => sum + WEIGHTS[component],
+    0,
+  );
+  if (totalWeight === 0) {
+    return { score: 0, reasons: [] };
+  }
+
+  const score =
+    components.reduce(
+      (sum, { component, value }) => sum + WEIGHTS[component] * value,
+      0,
+    ) / totalWeight;
+
+  const reasons = components
+    .filter((component) => component.reason)
+    .sort(
+      (a, b) => WEIGHTS[b.component] * b.value - WEIGHTS[a.component] * a.value,
+    )
+    .slice(0, MAX_REASONS)
+    .map((component) => component.reason as string);
+
+  return { score: Math.round(score * 100) / 100, reasons };
+}
+
+/**
+ * Build the candidate query of a relaxation level
+ * @param subject The listing similar properties are searched for
+ * @param level The relaxation level
+ * @returns MongoDB conditions to merge into the base query
+ */
+export function buildRelaxedQuery(
+  subject: SimilarityListing,
+  level: RelaxationLevel,
+): Record<string, any> {
+  const query: Record<string, any> = {};
+
+  const price = toComparablePrice(subject);
+  if (level.priceTolerance !== null && price > 0) {
+    query.priceMXN = {
+      $gte: price * (1 - level.priceTolerance),
+      $lte: price * (1 + level.priceTolerance),
+    };
+  }
+
+  if (level.area === 'city' && subject.location?.city) {
+    query['location.city'] = subject.location.city;
+  } else if (level.area !== 'any' && subject.location?.state) {
+    query['location.state'] = subject.location.state;
+  }
+
+  if (level.roomsTolerance !== null) {
+    for (const field of ['bedrooms', 'bathrooms'] as const) {
+      const value = subject.features?.[field];
+      if (value) {
+        query[`features.${field}`] = {
+          $gte: Math.max(1, value - level.roomsTolerance),
+          $lte: value + level.roomsTolerance,
+        };
+      }
+    }
+  }
+
+  return query;
+}
+
+function compareLocation(
+  subject: SimilarityListing,
+  candidate: SimilarityListing,
+): { value: number; reason?: string } | null {
+  const a = subject.location?.coordinates;
+  const b = candidate.location?.coordinates;
+
+  // Properties without coordinates are stored with 0,0
+  if (a?.lat && a?.lng && b?.lat && b?.lng) {
+    const distance = distanceInMeters(a, b);
+    if (distance <= NEIGHBORHOOD_METERS) {
+      return {
+        value: 1 - distance / MAX_DISTANCE_METERS,
+        reason: 'mismo barrio',
+      };
+    }
+    return {
+      value: 1 - Math.min(distance / MAX_DISTANCE_METERS, 1),
+      reason:
+        distance <= 5000 ? `a ${(distance / 1000).toFixed(1)} km` : undefined,
+    };
+  }
+
+  if (!subject.location?.city || !candidate.location) {
+    return null;
+  }
+  if (subject.location.city === candidate.location.city) {
+    return { value: 0.6, reason: 'misma ciudad' };
+  }
+  return subject.location.state === candidate.location.state
+    ? { value: 0.3 }
+    : { value: 0 };
+}
+
+function compareFeatures(
+  subject: SimilarityListing,
+  candidate: SimilarityListing,
+): { value: number; reason?: string } | null {
+  const similarities: number[] = [];
+  const matches: string[] = [];
+  const labels = {
+    bedrooms: 'recámaras',
+    bathrooms: 'baños',
+    parking: 'estacionamientos',
+  };
+
+  for (const field of ['bedrooms', 'bathrooms', 'parking'] as const) {
+    const subjectValue = subject.features?.[field];
+    const candidateValue = candidate.features?.[field];
+    if (!subjectValue || !candidateValue) {
+      continue;
+    }
+    similarities.push(
+      1 - Math.min(Math.abs(subjectValue - candidateValue) / 3, 1),
+    );
+    if (subjectValue === candidateValue) {
+      matches.push(labels[field]);
+    }
+  }
+
+  if (similarities.length === 0) {
+    return null;
+  }
+  return {
+    value:
+      similarities.reduce((sum, value) => sum + value, 0) / similarities.length,
+    reason:
+      matches.length > 0
+        ? `mismo número de ${matches.slice(0, -1).join(', ')}${matches.length > 1 ? ' y ' : ''}${matches[matches.length - 1]}`
+        : undefined,
+  };
+}
+
+// Listings saved before priceMXN existed fall back to their own price
+function toComparablePrice(listing: SimilarityListing): number {
+  return listing.priceMXN ?? listing.price;
+}
@@ -0,0 +1,78 @@
+import {
+  buildSearchFields,
+  correctTerms,
+  editDistance,
+  expandSynonyms,
+  foldText,
+  tokenizeQuery,
+} from './text-search';
+
+describe('foldText', () => {
+  it('lowercases and strips accents but keeps ñ as n', () => {
+    expect(foldText('Recámara Única en Peñasco')).toBe(
+      'recamara unica en penasco',
+    );
+  });
+});
+
+describe('buildSearchFields', () => {
+  it('folds the searchable fields of a property', () => {
+    expect(
+      buildSearchFields({
+        title: 'Depa con Terraza',
+        description: 'Cerca del Andador',
+        propertyType: 'Departamentos',
+        location: { address: 'Av. México 123', city: 'Guadalajara' },
+      }),
+    ).toEqual({
+      title: 'depa con terraza',
+      description: 'cerca del andador',
+      location: 'av. mexico 123 guadalajara',
+      propertyType: 'departamentos',
+    });
+  });
+});
+
+describe('tokenizeQuery', () => {
+  it('splits the query into distinct folded terms without stopwords', () => {
+    expect(tokenizeQuery('Casa con 3 recámaras en Zapopan, casa')).toEqual([
+      'casa',
+      '3',
+      'recamaras',
+      'zapopan',
+    ]);
+  });
+});
+
+describe('expandSynonyms', () => {
+  it('brings in the whole group of a matching term', () => {
+    expect(
+      expandSynonyms(
+        ['depa', 'zapopan'],
+        [
+          ['departamento', 'depa', 'departamentos'],
+          ['alberca', 'piscina'],
+        ],
+      ),
+    ).toEqual(['depa', 'zapopan', 'departamento', 'departamentos']);
+  });
+});
+
+describe('correctTerms', () => {
+  it('corrects near-miss terms against the vocabulary', () => {
+    expect(
+      correctTerms(
+        ['gudalajara', 'casa', 'zapopna', 'xyzw'],
+        ['guadalajara', 'zapopan', 'casa'],
+      ),
+    ).toEqual({ gudalajara: 'guadalajara', zapopna: 'zapopan' });
+  });
+});
+
+describe('editDistance', () => {
+  it('counts adjacent transpositions as one edit', () => {
+    expect(editDistance('zapopna', 'zapopan')).toBe(1);
+    expect(editDistance('casa', 'casas')).toBe(1);
+    expect(editDistance('casa', 'lote')).toBe(4);
+  });
+});
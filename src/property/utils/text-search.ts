@@ -0,0 +1,181 @@
+/**
+ * Text Search Utilities
+ *
+ * Changes:
+ * - Created the accent folding behind the normalized searchFields of a
+ *   property, and the query helpers of POST /properties/search: synonym
+ *   expansion and typo correction against a vocabulary
+ */
+
+// Words that never narrow a search
+const QUERY_STOPWORDS = new Set([
+  'a',
+  'al',
+  'con',
+  'de',
+  'del',
+  'el',
+  'en',
+  'la',
+  'las',
+  'los',
+  'para',
+  'por',
+  'que',
+  'un',
+  'una',
+  'y',
+]);
+
+// Terms shorter than this are never corrected
+const MIN_FUZZY_TERM_LENGTH = 4;
+
+export interface SearchFields {
+  title: string;
+  description: string;
+  location: string;
+  propertyType: string;
+}
+
+/**
+ * Lowercase a text and strip its accents, so "Recámara" matches "recamara"
+ * @param text The text
+ * @returns The folded text
+ */
+export function foldText(text: string = ''): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * Build the accent-folded copies of the searchable fields of a property
+ * @param property The property, or the fields being written
+ * @returns The normalized fields covered by the text index
+ */
+export function buildSearchFields(property: {
+  title?: string;
+  description?: string;
+  propertyType?: string;
+  location?: { address?: string; city?: string; state?: string };
+}): SearchFields {
+  return {
+    title: foldText(property.title),
+    description: foldText(property.description),
+    location: foldText(
+      [
+        property.location?.address,
+        property.location?.city,
+        property.location?.state,
+      ]
+        .filter(Boolean)
+        .join(' '),
+    ),
+    propertyType: foldText(property.propertyType),
+  };
+}
+
+/**
+ * Split a search query into folded terms, dropping stopwords
+ * @param query The user's query
+ * @returns The distinct terms, in query order
+ */
+export function tokenizeQuery(query: string): string[] {
+  return Array.from(
+    new Set(
+      foldText(query)
+        .split(/[^a-z0-9]+/)
+        .filter((term) => term.length > 0 && !QUERY_STOPWORDS.has(term)),
+    ),
+  );
+}
+
+/**
+ * Add the synonyms of each term; a term matching any word of a group brings
+ * in the whole group
+ * @param terms Folded query terms
+ * @param groups Synonym groups, folded
+ * @returns The terms followed by the synonyms they brought in
+ */
+export function expandSynonyms(terms: string[], groups: string[][]): string[] {
+  const expanded = new Set(terms);
+  for (const term of terms) {
+    for (const group of groups) {
+      if (group.includes(term)) {
+        group.forEach((synonym) => expanded.add(synonym));
+      }
+    }
+  }
+  return Array.from(expanded);
+}
+
+/**
+ * Replace the terms missing from a vocabulary with their closest entry
+ * @param terms Folded query terms
+ * @param vocabulary Folded words known to appear in listings
+ * @returns Corrections by original term; terms without a close entry are left out
+ */
+export function correctTerms(
+  terms: string[],
+  vocabulary: string[],
+): Record<string, string> {
+  const known = new Set(vocabulary);
+  const corrections: Record<string, string> = {};
+
+  for (const term of terms) {
+    if (term.length < MIN_FUZZY_TERM_LENGTH || known.has(term)) {
+      continue;
+    }
+
+    // One typo for short words, two for longer ones
+    const maxDistance = term.length < 7 ? 1 : 2;
+    let best: { word: string; distance: number } | null = null;
+    for (const word of known) {
+      if (Math.abs(word.length - term.length) > maxDistance) {
+        continue;
+      }
+      const distance = editDistance(term, word);
+      if (distance <= maxDistance && (!best || distance < best.distance)) {
+        best = { word, distance };
+      }
+    }
+
+    if (best) {
+      corrections[term] = best.word;
+    }
+  }
+
+  return corrections;
+}
+
+/**
+ * Damerau-Levenshtein distance (optimal string alignment): insertions,
+ * deletions, substitutions and adjacent transpositions each count as one
+ */
+export function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const columns = b.length + 1;
+  const distances: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: columns }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)),
+  );
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < columns; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      distances[i][j] = Math.min(
+        distances[i - 1][j] + 1,
+        distances[i][j - 1] + 1,
+        distances[i - 1][j - 1] + cost,
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distances[i][j] = Math.min(
+          distances[i][j],
+          distances[i - 2][j - 2] + 1,
+        );
+      }
+    }
+  }
+
+  return distances[rows - 1][columns - 1];
+}
@@ -0,0 +1,28 @@
+import { IsNotEmpty, IsObject, IsOptional, IsString } from 'class-validator';
+import { PropertyFilters } from '../../property/interfaces/property-filters.interface';
+
+/**
+ * Give `filters`, a `mongoQuery`, or the `sessionId` of a chat whose current
+ * search is saved
+ */
+export class CreateSavedSearchDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsString()
+  @IsNotEmpty()
+  ownerId: string;
+
+  @IsObject()
+  @IsOptional()
+  filters?: PropertyFilters;
+
+  @IsObject()
+  @IsOptional()
+  mongoQuery?: Record<string, any>;
+
+  @IsString()
+  @IsOptional()
+  sessionId?: string;
+}
@@ -0,0 +1,26 @@
+import { Types } from 'mongoose';
+import { Property } from '../../property/schemas/property.schema';
+import { PageInfo } from '../../property/utils/cursor-pagination';
+import { SavedSearchMatchReason } from '../schemas/saved-search-match.schema';
+
+export interface SavedSearchRunResult {
+  newMatches: number;
+  properties: Property[];
+  total: number;
+  pagination?: PageInfo;
+}
+
+export interface SavedSearchMatchView {
+  _id: Types.ObjectId;
+  reason: SavedSearchMatchReason;
+  matchedAt: Date;
+  seenAt: Date | null;
+  property: Property | null;
+}
+
+export interface SavedSearchMatcherSummary {
+  searches: number;
+  newMatches: number;
+  duration: string;
+  timestamp: Date;
+}
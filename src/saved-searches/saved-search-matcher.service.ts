@@ -0,0 +1,66 @@
+/**
+ * Saved Search Matcher Service
+ *
+ * Changes:
+ * - Created the scheduled matcher recording the new matches of every saved
+ *   search every SAVED_SEARCH_MATCH_INTERVAL_MS
+ */
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SavedSearchesService } from './saved-searches.service';
+
+@Injectable()
+export class SavedSearchMatcherService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(SavedSearchMatcherService.name);
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly savedSearchesService: SavedSearchesService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    const interval = Number(
+      this.configService.get<number>('SAVED_SEARCH_MATCH_INTERVAL_MS') ??
+        900000,
+    );
+    if (interval > 0) {
+      this.timer = setInterval(() => void this.runMatcher(), interval);
+      // Do not keep scripts alive just for the matcher
+      this.timer.unref();
+    }
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async runMatcher(): Promise<void> {
+    // Skip a tick while the previous run is still going
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.savedSearchesService.detectAllMatches();
+    } catch (error) {
+      this.logger.error(
+        `Saved search matching failed: ${(error as Error).message}`,
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Saved Searches Controller
+ *
+ * Changes:
+ * - Created the endpoints to save, list, run and delete searches, and to
+ *   fetch and acknowledge their new matches
+ */
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  Query,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { SavedSearchesService } from './saved-searches.service';
+import { CreateSavedSearchDto } from './dto/create-saved-search.dto';
+import { SavedSearch } from './schemas/saved-search.schema';
+import {
+  SavedSearchMatchView,
+  SavedSearchRunResult,
+} from './interfaces/saved-search-run.interface';
+
+@Controller('saved-searches')
+export class SavedSearchesController {
+  constructor(private readonly savedSearchesService: SavedSearchesService) {}
+
+  @Post()
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async create(@Body() createDto: CreateSavedSearchDto): Promise<SavedSearch> {
+    return this.savedSearchesService.create(createDto);
+  }
+
+  @Get()
+  async findAll(@Query('ownerId') ownerId?: string): Promise<SavedSearch[]> {
+    return this.savedSearchesService.findAll(ownerId);
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string): Promise<SavedSearch> {
+    return this.savedSearchesService.findOne(id);
+  }
+
+  @Delete(':id')
+  async remove(@Param('id') id: string): Promise<void> {
+    return this.savedSearchesService.remove(id);
+  }
+
+  @Post(':id/run')
+  @HttpCode(200)
+  async run(
+    @Param('id') id: string,
+    @Query('limit') limit?: string,
+    @Query('cursor') cursor?: string,
+  ): Promise<SavedSearchRunResult> {
+    return this.savedSearchesService.run(id, { limit, cursor });
+  }
+
+  @Get(':id/matches')
+  async findMatches(
+    @Param('id') id: string,
+    @Query('all') all?: string,
+  ): Promise<SavedSearchMatchView[]> {
+    return this.savedSearchesService.findMatches(id, all !== 'true');
+  }
+
+  @Post(':id/matches/seen')
+  @HttpCode(200)
+  async markMatchesSeen(
+    @Param('id') id: string,
+    @Body('matchIds') matchIds?: string[],
+  ): Promise<{ seen: number }> {
+    return this.savedSearchesService.markMatchesSeen(id, matchIds);
+  }
+}
@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { SavedSearchesController } from './saved-searches.controller';
+import { SavedSearchesService } from './saved-searches.service';
+import { SavedSearchMatcherService } from './saved-search-matcher.service';
+import { SavedSearch, SavedSearchSchema } from './schemas/saved-search.schema';
+import {
+  SavedSearchMatch,
+  SavedSearchMatchSchema,
+} from './schemas/saved-search-match.schema';
+import { Property, PropertySchema } from '../property/schemas/property.schema';
+import { PropertyModule } from '../property/property.module';
+import { ConversationModule } from '../conversation/conversation.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: SavedSearch.name, schema: SavedSearchSchema },
+      { name: SavedSearchMatch.name, schema: SavedSearchMatchSchema },
+      { name: Property.name, schema: PropertySchema },
+    ]),
+    PropertyModule,
+    ConversationModule,
+  ],
+  controllers: [SavedSearchesController],
+  providers: [SavedSearchesService, SavedSearchMatcherService],
+  exports: [SavedSearchesService],
+})
+export class SavedSearchesModule {}
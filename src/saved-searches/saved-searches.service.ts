@@ -0,0 +1,351 @@
+/**
+ * Saved Searches Service
+ *
+ * Changes:
+ * - Created saved searches: findAll filters or a chat session's MongoDB query
+ *   stored with a name and an owner
+ * - Added new-match detection: listings created or updated since the search
+ *   last ran are recorded as matches until the owner has seen them
+ * - A partial run stores the (updatedAt, _id) of its last listing, so the
+ *   next run picks up listings updated at the same instant
+ */
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  SavedSearch,
+  SavedSearchDocument,
+} from './schemas/saved-search.schema';
+import {
+  SavedSearchMatch,
+  SavedSearchMatchDocument,
+} from './schemas/saved-search-match.schema';
+import {
+  Property,
+  PropertyDocument,
+} from '../property/schemas/property.schema';
+import { CreateSavedSearchDto } from './dto/create-saved-search.dto';
+import {
+  SavedSearchMatchView,
+  SavedSearchMatcherSummary,
+  SavedSearchRunResult,
+} from './interfaces/saved-search-run.interface';
+import { PropertyService } from '../property/property.service';
+import { ConversationService } from '../conversation/conversation.service';
+import { SearchCriteria } from '../property/interfaces/search-criteria.interface';
+import { PaginationOptions } from '../property/utils/cursor-pagination';
+
+// Listings recorded per search and run; the rest are picked up by the next run
+const MAX_MATCHES_PER_RUN = 500;
+
+const MATCH_PROPERTY_PROJECTION = {
+  title: 1,
+  price: 1,
+  propertyType: 1,
+  operationType: 1,
+  location: 1,
+  features: 1,
+  images: { $slice: 1 },
+  status: 1,
+};
+
+type SavedSearchRecord = SavedSearch & { _id: Types.ObjectId };
+
+@Injectable()
+export class SavedSearchesService {
+  private readonly logger = new Logger(SavedSearchesService.name);
+
+  constructor(
+    @InjectModel(SavedSearch.name)
+    private savedSearchModel: Model<SavedSearchDocument>,
+    @InjectModel(SavedSearchMatch.name)
+    private matchModel: Model<SavedSearchMatchDocument>,
+    @InjectModel(Property.name) private propertyModel: Model<PropertyDocument>,
+    private readonly propertyService: PropertyService,
+    private readonly conversationService: ConversationService,
+  ) {}
+
+  /**
+   * Save a search; only listings changing after this point become matches
+   * @param createDto The search: filters, a MongoDB query, or a chat session
+   * @returns The saved search
+   */
+  async create(createDto: CreateSavedSearchDto): Promise<SavedSearchRecord> {
+    const { name, ownerId, filters, sessionId } = createDto;
+    let mongoQuery = createDto.mongoQuery ?? null;
+
+    if (!filters && !mongoQuery && sessionId) {
+      const searchContext = (await this.conversationService.getSearchContext(
+        sessionId,
+      )) as { mongoQuery?: Record<string, any> } | null;
+      mongoQuery = searchContext?.mongoQuery ?? null;
+      if (!mongoQuery) {
+        throw new BadRequestException(
+          `Session ${sessionId} has no search to save`,
+        );
+      }
+    }
+
+    if (!filters && !mongoQuery) {
+      throw new BadRequestException(
+        'Provide filters, mongoQuery or the sessionId of a chat search',
+      );
+    }
+
+    this.propertyService.validateSearchCriteria({
+      filters,
+      query: mongoQuery,
+    });
+
+    const savedSearch = await this.savedSearchModel.create({
+      name,
+      ownerId,
+      filters: filters ?? null,
+      mongoQuery,
+      sessionId: sessionId ?? null,
+      lastRunAt: new Date(),
+    });
+    return savedSearch.toObject<SavedSearchRecord>();
+  }
+
+  async findAll(ownerId?: string): Promise<SavedSearchRecord[]> {
+    return this.savedSearchModel
+      .find(ownerId ? { ownerId } : {})
+      .sort({ createdAt: -1 })
+      .lean<SavedSearchRecord[]>()
+      .exec();
+  }
+
+  async findOne(id: string): Promise<SavedSearchRecord> {
+    const savedSearch = Types.ObjectId.isValid(id)
+      ? await this.savedSearchModel
+          .findById(id)
+          .lean<SavedSearchRecord>()
+          .exec()
+      : null;
+
+    if (!savedSearch) {
+      throw new NotFoundException(`Saved search with ID ${id} not found`);
+    }
+    return savedSearch;
+  }
+
+  async remove(id: string): Promise<void> {
+    const savedSearch = await this.findOne(id);
+    await Promise.all([
+      this.savedSearchModel.deleteOne({ _id: savedSearch._id }).exec(),
+      this.matchModel.deleteMany({ savedSearchId: savedSearch._id }).exec(),
+    ]);
+  }
+
+  /**
+   * Run a saved search: record its new matches, then return its current results
+   * @param id The saved search ID
+   * @param options Page size and cursor of the results
+   * @returns The number of new matches and the current results
+   */
+  async run(
+    id: string,
+    options: PaginationOptions = {},
+  ): Promise<SavedSearchRunResult> {
+    const savedSearch = await this.findOne(id);
+    const newMatches = await this.detectMatches(savedSearch);
+
+    if (savedSearch.mongoQuery) {
+      const result = await this.propertyService.executeQuery({
+        query: JSON.stringify(savedSearch.mongoQuery),
+        options: {
+          limit: options.limit ? Number(options.limit) : undefined,
+          cursor: options.cursor,
+        },
+      });
+      return {
+        newMatches,
+        properties: result.data,
+        total: result.metadata.statistics.matchingResults,
+        pagination: result.metadata.pagination,
+      };
+    }
+
+    const { properties, total, pagination } =
+      await this.propertyService.findAll({
+        ...savedSearch.filters,
+        limit: options.limit ? Number(options.limit) : undefined,
+        cursor: options.cursor,
+      });
+    return { newMatches, properties, total, pagination };
+  }
+
+  /**
+   * Record the new matches of every saved search
+   * @returns Run summary
+   */
+  async detectAllMatches(): Promise<SavedSearchMatcherSummary> {
+    const startTime = Date.now();
+    let searches = 0;
+    let newMatches = 0;
+
+    const cursor = this.savedSearchModel
+      .find()
+      .lean<SavedSearchRecord>()
+      .cursor();
+    for await (const savedSearch of cursor) {
+      searches++;
+      try {
+        newMatches += await this.detectMatches(savedSearch);
+      } catch (error) {
+        this.logger.error(
+          `Error matching saved search ${String(savedSearch._id)}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    const summary = {
+      searches,
+      newMatches,
+      duration: `${Date.now() - startTime}ms`,
+      timestamp: new Date(),
+    };
+    this.logger.log('Saved search matching completed', summary);
+    return summary;
+  }
+
+  /**
+   * List the matches of a saved search, newest first
+   * @param id The saved search ID
+   * @param unseenOnly Only the matches the owner has not seen yet
+   * @returns The matches with a summary of their listing
+   */
+  async findMatches(
+    id: string,
+    unseenOnly: boolean = true,
+  ): Promise<SavedSearchMatchView[]> {
+    const savedSearch = await this.findOne(id);
+    const matches = await this.matchModel
+      .find({
+        savedSearchId: savedSearch._id,
+        ...(unseenOnly && { seenAt: null }),
+      })
+      .sort({ matchedAt: -1 })
+      .limit(MAX_MATCHES_PER_RUN)
+      .lean<(SavedSearchMatch & { _id: Types.ObjectId })[]>()
+      .exec();
+
+    const properties = await this.propertyModel
+      .find(
+        { _id: { $in: matches.map((match) => match.propertyId) } },
+        MATCH_PROPERTY_PROJECTION,
+      )
+      .lean<(Property & { _id: Types.ObjectId })[]>()
+      .exec();
+    const propertiesById = new Map(
+      properties.map((property) => [String(property._id), property]),
+    );
+
+    return matches.map((match) => ({
+      _id: match._id,
+      reason: match.reason,
+      matchedAt: match.matchedAt,
+      seenAt: match.seenAt,
+      property: propertiesById.get(String(match.propertyId)) ?? null,
+    }));
+  }
+
+  /**
+   * Mark matches of a saved search as seen
+   * @param id The saved search ID
+   * @param matchIds The matches to mark; all unseen matches when omitted
+   * @returns Number of matches marked as seen
+   */
+  async markMatchesSeen(
+    id: string,
+    matchIds?: string[],
+  ): Promise<{ seen: number }> {
+    const savedSearch = await this.findOne(id);
+    const result = await this.matchModel
+      .updateMany(
+        {
+          savedSearchId: savedSearch._id,
+          seenAt: null,
+          ...(matchIds && {
+            _id: {
+              $in: matchIds.filter((matchId) =>
+                Types.ObjectId.isValid(matchId),
+              ),
+            },
+          }),
+        },
+        { $set: { seenAt: new Date() } },
+      )
+      .exec();
+    return { seen: result.modifiedCount };
+  }
+
+  /**
+   * Record the listings that changed since the search last ran as matches
+   * @param savedSearch The saved search
+   * @returns Number of new or renewed matches
+   */
+  private async detectMatches(savedSearch: SavedSearchRecord): Promise<number> {
+    const criteria: SearchCriteria = {
+      filters: savedSearch.filters,
+      query: savedSearch.mongoQuery,
+    };
+    const runAt = new Date();
+    const changed = await this.propertyService.findChangedSince(
+      criteria,
+      savedSearch.lastRunAt,
+      MAX_MATCHES_PER_RUN,
+      savedSearch.lastRunPropertyId,
+    );
+
+    if (changed.length > 0) {
+      await this.matchModel.bulkWrite(
+        changed.map((property) => ({
+          updateOne: {
+            filter: {
+              savedSearchId: savedSearch._id,
+              propertyId: property._id,
+            },
+            update: {
+              $set: {
+                reason:
+                  property.createdAt > savedSearch.lastRunAt
+                    ? 'new'
+                    : 'updated',
+                matchedAt: runAt,
+                seenAt: null,
+              },
+            },
+            upsert: true,
+          },
+        })),
+      );
+    }
+
+    // With a full batch, resume after the last listing recorded
+    const last =
+      changed.length === MAX_MATCHES_PER_RUN
+        ? changed[changed.length - 1]
+        : null;
+    await this.savedSearchModel
+      .updateOne(
+        { _id: savedSearch._id },
+        {
+          $set: {
+            lastRunAt: last ? last.updatedAt : runAt,
+            lastRunPropertyId: last ? last._id : null,
+            lastMatchCount: changed.length,
+          },
+        },
+      )
+      .exec();
+
+    return changed.length;
+  }
+}
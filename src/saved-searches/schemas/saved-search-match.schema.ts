@@ -0,0 +1,46 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema, Types } from 'mongoose';
+
+export type SavedSearchMatchDocument = SavedSearchMatch & Document;
+
+export type SavedSearchMatchReason = 'new' | 'updated';
+
+/**
+ * A listing that started matching a saved search, or changed while matching
+ * it, since the search last ran
+ */
+@Schema({ timestamps: true })
+export class SavedSearchMatch {
+  @Prop({
+    required: true,
+    type: MongooseSchema.Types.ObjectId,
+    ref: 'SavedSearch',
+  })
+  savedSearchId: Types.ObjectId;
+
+  @Prop({
+    required: true,
+    type: MongooseSchema.Types.ObjectId,
+    ref: 'Property',
+  })
+  propertyId: Types.ObjectId;
+
+  @Prop({ required: true, type: String, enum: ['new', 'updated'] })
+  reason: SavedSearchMatchReason;
+
+  @Prop({ required: true, type: Date })
+  matchedAt: Date;
+
+  // Reset when the listing matches again
+  @Prop({ type: Date, default: null })
+  seenAt: Date | null;
+}
+
+export const SavedSearchMatchSchema =
+  SchemaFactory.createForClass(SavedSearchMatch);
+
+SavedSearchMatchSchema.index(
+  { savedSearchId: 1, propertyId: 1 },
+  { unique: true },
+);
+SavedSearchMatchSchema.index({ savedSearchId: 1, seenAt: 1, matchedAt: -1 });
@@ -0,0 +1,42 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema, Types } from 'mongoose';
+import { PropertyFilters } from '../../property/interfaces/property-filters.interface';
+
+export type SavedSearchDocument = SavedSearch & Document;
+
+@Schema({ timestamps: true })
+export class SavedSearch {
+  @Prop({ required: true, type: String })
+  name: string;
+
+  // User ID, or chat session ID for anonymous users
+  @Prop({ required: true, type: String })
+  ownerId: string;
+
+  // Either findAll filters or a MongoDB query (e.g. from a chat session)
+  @Prop({ type: MongooseSchema.Types.Mixed, default: null })
+  filters: PropertyFilters | null;
+
+  @Prop({ type: MongooseSchema.Types.Mixed, default: null })
+  mongoQuery: Record<string, any> | null;
+
+  // Chat session the query was saved from, if any
+  @Prop({ type: String, default: null })
+  sessionId: string | null;
+
+  // Listings changed after this date are new matches on the next run
+  @Prop({ required: true, type: Date })
+  lastRunAt: Date;
+
+  // After a partial run, the last listing recorded among those updated at
+  // lastRunAt; the next run resumes after it instead of skipping its ties
+  @Prop({ type: MongooseSchema.Types.ObjectId, default: null })
+  lastRunPropertyId: Types.ObjectId | null;
+
+  @Prop({ type: Number, default: 0 })
+  lastMatchCount: number;
+}
+
+export const SavedSearchSchema = SchemaFactory.createForClass(SavedSearch);
+
+SavedSearchSchema.index({ ownerId: 1, createdAt: -1 });
@@ -0,0 +1,29 @@
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from '../app.module';
+import { ExchangeRatesService } from '../exchange-rates/exchange-rates.service';
+
+async function bootstrap() {
+  try {
+    // Create a standalone NestJS application context
+    const app = await NestFactory.createApplicationContext(AppModule);
+    const exchangeRatesService = app.get(ExchangeRatesService);
+
+    console.log('Normalizing listing prices to MXN...');
+
+    const repriced = await exchangeRatesService.repriceListings();
+
+    console.log(`Backfill Results: ${repriced} properties updated`);
+
+    // Cleanup
+    await app.close();
+    process.exit(0);
+  } catch (error) {
+    console.error('Error during backfill:', error);
+    process.exit(1);
+  }
+}
+
+bootstrap().catch((error) => {
+  console.error('Error during backfill:', error);
+  process.exitCode = 1;
+});
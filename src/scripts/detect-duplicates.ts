@@ -0,0 +1,39 @@
+/**
+ * Duplicate Detection Script
+ *
+ * Changes:
+ * - Created the script running a duplicate detection pass, e.g. after a sync
+ * - A rejected bootstrap is logged and sets a failing exit code
+ *
+ * Usage:
+ *   npm run detect-duplicates
+ */
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from '../app.module';
+import { DuplicatesService } from '../duplicates/duplicates.service';
+
+async function bootstrap() {
+  try {
+    // Create a standalone NestJS application context
+    const app = await NestFactory.createApplicationContext(AppModule);
+    const duplicatesService = app.get(DuplicatesService);
+
+    console.log('Starting duplicate detection...');
+
+    const summary = await duplicatesService.detectDuplicates();
+
+    console.log('Detection Results:', summary);
+
+    // Cleanup
+    await app.close();
+    process.exit(0);
+  } catch (error) {
+    console.error('Error during duplicate detection:', error);
+    process.exit(1);
+  }
+}
+
+bootstrap().catch((error) => {
+  console.error('Error during duplicate detection:', error);
+  process.exitCode = 1;
+});
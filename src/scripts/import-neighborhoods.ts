@@ -0,0 +1,76 @@
+/**
+ * Neighborhood Import Script
+ *
+ * Changes:
+ * - Created the import of colonia polygons from GeoJSON files, followed by
+ *   the reassignment of location.neighborhood on the stored listings
+ * - The bootstrap promise is handled; a rejection exits with code 1
+ *
+ * Usage:
+ *   npm run import-neighborhoods -- data/colonias.guadalajara.geojson
+ *   npm run import-neighborhoods -- --city Zapopan --state Jalisco data/zapopan.geojson
+ */
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from '../app.module';
+import { NeighborhoodsService } from '../neighborhoods/neighborhoods.service';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parseArgs } from 'util';
+
+async function bootstrap() {
+  try {
+    const { values: options, positionals: files } = parseArgs({
+      options: {
+        // Used for features that do not name their city or state
+        city: { type: 'string' },
+        state: { type: 'string' },
+      },
+      allowPositionals: true,
+    });
+    if (files.length === 0) {
+      throw new Error('No GeoJSON files given');
+    }
+
+    // Create a standalone NestJS application context
+    const app = await NestFactory.createApplicationContext(AppModule);
+    const neighborhoodsService = app.get(NeighborhoodsService);
+
+    for (const geojsonPath of files) {
+      const geojson: unknown = JSON.parse(
+        await fs.readFile(geojsonPath, 'utf-8'),
+      );
+      const result = await neighborhoodsService.importGeoJson(
+        geojson,
+        path.basename(geojsonPath),
+        options,
+      );
+
+      console.log(`Import Results for ${geojsonPath}:`);
+      console.log(`- Imported: ${result.imported}`);
+      console.log(`- Failed: ${result.failed}`);
+      result.failures.forEach((failure) =>
+        console.log(
+          `  - Feature ${failure.feature}${failure.name ? ` (${failure.name})` : ''}: ${failure.reason}`,
+        ),
+      );
+    }
+
+    console.log('Assigning neighborhoods to the stored listings...');
+    const assignment = await neighborhoodsService.assignProperties();
+    console.log(
+      `Assignment Results: ${assignment.updated} of ${assignment.scanned} listings updated`,
+    );
+
+    // Cleanup
+    await app.close();
+    process.exit(0);
+  } catch (error) {
+    console.error('Error during import:', error);
+    process.exit(1);
+  }
+}
+
+bootstrap().catch((error) => {
+  console.error('Error during import:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,57 @@
+/**
+ * Purge Deleted Properties Script
+ *
+ * Changes:
+ * - Created the script permanently removing the properties archived longer
+ *   than the retention period (DELETED_PROPERTY_RETENTION_DAYS, or --days)
+ * - Failures outside the purge itself are logged too and fail the run
+ *
+ * Usage:
+ *   npm run purge-deleted-properties
+ *   npm run purge-deleted-properties -- --days 90
+ */
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from '../app.module';
+import { PropertyService } from '../property/property.service';
+import { parseArgs } from 'util';
+
+async function bootstrap() {
+  try {
+    const { values: options } = parseArgs({
+      options: {
+        days: { type: 'string' },
+      },
+    });
+
+    const retentionDays =
+      options.days !== undefined ? Number(options.days) : undefined;
+    if (
+      retentionDays !== undefined &&
+      (!Number.isFinite(retentionDays) || retentionDays < 0)
+    ) {
+      throw new Error(`Invalid --days value "${options.days}"`);
+    }
+
+    // Create a standalone NestJS application context
+    const app = await NestFactory.createApplicationContext(AppModule);
+    const propertyService = app.get(PropertyService);
+
+    console.log('Purging archived properties...');
+
+    const result = await propertyService.purgeDeletedProperties(retentionDays);
+
+    console.log('Purge Results:', result);
+
+    // Cleanup
+    await app.close();
+    process.exit(0);
+  } catch (error) {
+    console.error('Error during purge:', error);
+    process.exit(1);
+  }
+}
+
+bootstrap().catch((error) => {
+  console.error('Error during purge:', error);
+  process.exitCode = 1;
+});
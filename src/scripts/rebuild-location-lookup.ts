@@ -0,0 +1,32 @@
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from '../app.module';
+import { LocationsService } from '../locations/locations.service';
+
+async function bootstrap() {
+  try {
+    // Create a standalone NestJS application context
+    const app = await NestFactory.createApplicationContext(AppModule);
+    const locationsService = app.get(LocationsService);
+
+    console.log('Rebuilding the location lookup...');
+
+    const summary = await locationsService.rebuildLookup();
+
+    console.log('Rebuild Results:');
+    console.log(`- Listings scanned: ${summary.scanned}`);
+    console.log(`- Lookup entries: ${summary.entries}`);
+    console.log(`- Stale entries removed: ${summary.removed}`);
+
+    // Cleanup
+    await app.close();
+    process.exit(0);
+  } catch (error) {
+    console.error('Error during rebuild:', error);
+    process.exit(1);
+  }
+}
+
+bootstrap().catch((error) => {
+  console.error('Error during rebuild:', error);
+  process.exitCode = 1;
+});
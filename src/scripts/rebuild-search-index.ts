@@ -0,0 +1,29 @@
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from '../app.module';
+import { PropertyService } from '../property/property.service';
+
+async function bootstrap() {
+  try {
+    // Create a standalone NestJS application context
+    const app = await NestFactory.createApplicationContext(AppModule);
+    const propertyService = app.get(PropertyService);
+
+    console.log('Rebuilding the text search index...');
+
+    const updated = await propertyService.rebuildSearchIndex();
+
+    console.log(`Rebuild Results: ${updated} properties updated`);
+
+    // Cleanup
+    await app.close();
+    process.exit(0);
+  } catch (error) {
+    console.error('Error during rebuild:', error);
+    process.exit(1);
+  }
+}
+
+bootstrap().catch((error) => {
+  console.error('Error during rebuild:', error);
+  process.exitCode = 1;
+});
@@ -1,50 +1,137 @@
+/**
+ * Property Sync Script
+ *
+ * Changes:
+ * - Added a --source option selecting the registered source adapter used to
+ *   map the feed records (default: scraper)
+ * - Added a --mapping option registering a JSON mapping adapter from a config
+ *   file; its name is used as the source unless --source is given
+ * - Input files can be passed as arguments; the scraper source falls back to
+ *   the bundled scrap.*.json files
+ * - Added a --complete flag for runs covering the whole feed: listings of the
+ *   source missing from the run are withdrawn after the grace period
+ * - Each file is recorded as a run in the sync run history (GET /sync/runs)
+ * - Listings of scrap.remate.* and scrap.vacacional.* files are categorized as
+ *   foreclosures and vacation rentals
+ *
+ * Usage:
+ *   npm run sync-properties -- --complete
+ *   npm run sync-properties -- --mapping feeds/broker.json data/broker.json
+ */
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from '../app.module';
 import { PropertyService } from '../property/property.service';
+import { PropertySourceRegistry } from '../property/sources/property-source.registry';
+import {
+  JsonMappingConfig,
+  JsonMappingSourceAdapter,
+} from '../property/sources/json-mapping-source.adapter';
+import { ListingCategory } from '../property/interfaces/property-filters.interface';
 import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parseArgs } from 'util';
+
+const DEFAULT_SCRAPER_PATHS = [
+  'src/data/scrap.compra.guadalajara.json',
+  'src/data/scrap.compra.mazatlan.json',
+  'src/data/scrap.compra.monterrey.json',
+  'src/data/scrap.compra.tijuana.json',
+  'src/data/scrap.desarrollo.guadalajara.json',
+  'src/data/scrap.desarrollo.mazatlan.json',
+  'src/data/scrap.desarrollo.monterrey.json',
+  'src/data/scrap.desarrollo.tijuana.json',
+  'src/data/scrap.renta.guadalajara.json',
+  'src/data/scrap.renta.mazatlan.json',
+  'src/data/scrap.renta.monterrey.json',
+  'src/data/scrap.renta.tijuana.json',
+  'src/data/scrap.remate.guadalajara.json',
+  'src/data/scrap.remate.mazatlan.json',
+  'src/data/scrap.remate.monterrey.json',
+  'src/data/scrap.remate.tijuana.json',
+  'src/data/scrap.vacacional.guadalajara.json',
+  'src/data/scrap.vacacional.mazatlan.json',
+  'src/data/scrap.vacacional.monterrey.json',
+  'src/data/scrap.vacacional.tijuana.json',
+];
+
+// Scraped feeds of a single category, by file name segment
+const SCRAPER_FILE_CATEGORIES: Record<string, ListingCategory> = {
+  remate: 'foreclosure',
+  vacacional: 'vacation',
+};
+
+function getListingCategory(jsonPath: string): ListingCategory | undefined {
+  const match = path.basename(jsonPath).match(/^scrap\.([a-z]+)\./);
+  return match ? SCRAPER_FILE_CATEGORIES[match[1]] : undefined;
+}
 
 async function bootstrap() {
   try {
+    const { values: options, positionals: files } = parseArgs({
+      options: {
+        source: { type: 'string' },
+        mapping: { type: 'string' },
+        complete: { type: 'boolean' },
+      },
+      allowPositionals: true,
+    });
+
     // Create a standalone NestJS application context
     const app = await NestFactory.createApplicationContext(AppModule);
     const propertyService = app.get(PropertyService);
+    const propertySourceRegistry = app.get(PropertySourceRegistry);
+
+    let source = options.source || 'scraper';
+    if (options.mapping) {
+      const config = JSON.parse(
+        await fs.readFile(options.mapping, 'utf-8'),
+      ) as JsonMappingConfig;
+      propertySourceRegistry.register(new JsonMappingSourceAdapter(config));
+      source = options.source || config.name;
+    }
 
-    console.log('Starting property sync...');
-
-    // Read the JSON file
-    const paths = [
-      'src/data/scrap.compra.guadalajara.json',
-      'src/data/scrap.compra.mazatlan.json',
-      'src/data/scrap.compra.monterrey.json',
-      'src/data/scrap.compra.tijuana.json',
-      'src/data/scrap.desarrollo.guadalajara.json',
-      'src/data/scrap.desarrollo.mazatlan.json',
-      'src/data/scrap.desarrollo.monterrey.json',
-      'src/data/scrap.desarrollo.tijuana.json',
-      'src/data/scrap.renta.guadalajara.json',
-      'src/data/scrap.renta.mazatlan.json',
-      'src/data/scrap.renta.monterrey.json',
-      'src/data/scrap.renta.tijuana.json',
-      'src/data/scrap.remate.guadalajara.json',
-      'src/data/scrap.remate.mazatlan.json',
-      'src/data/scrap.remate.monterrey.json',
-      'src/data/scrap.remate.tijuana.json',
-      'src/data/scrap.vacacional.guadalajara.json',
-      'src/data/scrap.vacacional.mazatlan.json',
-      'src/data/scrap.vacacional.monterrey.json',
-      'src/data/scrap.vacacional.tijuana.json',
-    ];
+    // Fail early on an unknown source
+    propertySourceRegistry.get(source);
+
+    const paths =
+      files.length > 0
+        ? files
+        : source === 'scraper'
+          ? DEFAULT_SCRAPER_PATHS
+          : [];
+    if (paths.length === 0) {
+      throw new Error(`No input files given for source "${source}"`);
+    }
+
+    console.log(`Starting property sync from source "${source}"...`);
+
+    // All the files of a run share its start, to find the listings it missed
+    const runStartedAt = new Date();
 
     for (const jsonPath of paths) {
+      // Read the JSON file
       const rawData = await fs.readFile(jsonPath, 'utf-8');
       const properties = JSON.parse(rawData);
 
       // Perform the sync
-      const result = await propertyService.syncProperties(properties);
+      const result = await propertyService.syncProperties(
+        properties,
+        source,
+        runStartedAt,
+        { file: jsonPath, listingCategory: getListingCategory(jsonPath) },
+      );
 
       console.log('Sync Results:', result);
     }
 
+    if (options.complete) {
+      const result = await propertyService.withdrawMissingProperties(
+        source,
+        runStartedAt,
+      );
+      console.log('Withdrawal Results:', result);
+    }
+
     // Cleanup
     await app.close();
     process.exit(0);
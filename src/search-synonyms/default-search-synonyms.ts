@@ -0,0 +1,18 @@
+/**
+ * Real-estate slang loaded into an empty synonym dictionary
+ */
+export const DEFAULT_SEARCH_SYNONYMS: { term: string; synonyms: string[] }[] = [
+  { term: 'departamento', synonyms: ['depa', 'depto', 'departamentos'] },
+  { term: 'recamara', synonyms: ['habitacion', 'cuarto', 'dormitorio'] },
+  { term: 'bano', synonyms: ['banos', 'sanitario', 'wc'] },
+  { term: 'alberca', synonyms: ['piscina', 'pileta'] },
+  { term: 'estacionamiento', synonyms: ['cochera', 'cajon', 'garage'] },
+  { term: 'casa', synonyms: ['casas', 'residencia', 'vivienda', 'chante'] },
+  { term: 'terreno', synonyms: ['terrenos', 'lote', 'predio'] },
+  { term: 'local', synonyms: ['locales', 'comercio'] },
+  { term: 'bodega', synonyms: ['bodegas', 'almacen'] },
+  { term: 'oficina', synonyms: ['oficinas', 'despacho'] },
+  { term: 'jardin', synonyms: ['patio', 'jardines'] },
+  { term: 'amueblado', synonyms: ['amueblada', 'equipado', 'equipada'] },
+  { term: 'fraccionamiento', synonyms: ['fracc', 'coto', 'privada'] },
+];
@@ -0,0 +1,33 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+
+export class CreateSearchSynonymDto {
+  @IsString()
+  @IsNotEmpty()
+  term: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  synonyms: string[];
+}
+
+export class UpdateSearchSynonymDto {
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  term?: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @IsOptional()
+  synonyms?: string[];
+}
@@ -0,0 +1,19 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type SearchSynonymDocument = SearchSynonym & Document;
+
+/**
+ * A group of words that mean the same in a property search, e.g. "depa" and
+ * "departamento"; stored accent-folded
+ */
+@Schema({ timestamps: true })
+export class SearchSynonym {
+  @Prop({ required: true, type: String, unique: true })
+  term: string;
+
+  @Prop({ required: true, type: [String] })
+  synonyms: string[];
+}
+
+export const SearchSynonymSchema = SchemaFactory.createForClass(SearchSynonym);
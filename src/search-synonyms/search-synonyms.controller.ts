@@ -0,0 +1,60 @@
+/**
+ * Search Synonyms Controller
+ *
+ * Changes:
+ * - Created the admin endpoints managing the synonyms of the text search
+ */
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { SearchSynonymsService } from './search-synonyms.service';
+import {
+  CreateSearchSynonymDto,
+  UpdateSearchSynonymDto,
+} from './dto/search-synonym.dto';
+import { SearchSynonym } from './schemas/search-synonym.schema';
+
+@Controller('admin/search-synonyms')
+export class SearchSynonymsController {
+  constructor(private readonly searchSynonymsService: SearchSynonymsService) {}
+
+  @Get()
+  async findAll(): Promise<SearchSynonym[]> {
+    return this.searchSynonymsService.findAll();
+  }
+
+  @Post()
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async create(
+    @Body() createDto: CreateSearchSynonymDto,
+  ): Promise<SearchSynonym> {
+    return this.searchSynonymsService.create(createDto);
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string): Promise<SearchSynonym> {
+    return this.searchSynonymsService.findOne(id);
+  }
+
+  @Patch(':id')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateSearchSynonymDto,
+  ): Promise<SearchSynonym> {
+    return this.searchSynonymsService.update(id, updateDto);
+  }
+
+  @Delete(':id')
+  async remove(@Param('id') id: string): Promise<void> {
+    return this.searchSynonymsService.remove(id);
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { SearchSynonymsController } from './search-synonyms.controller';
+import { SearchSynonymsService } from './search-synonyms.service';
+import {
+  SearchSynonym,
+  SearchSynonymSchema,
+} from './schemas/search-synonym.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: SearchSynonym.name, schema: SearchSynonymSchema },
+    ]),
+  ],
+  controllers: [SearchSynonymsController],
+  providers: [SearchSynonymsService],
+  exports: [SearchSynonymsService],
+})
+export class SearchSynonymsModule {}
@@ -0,0 +1,164 @@
+/**
+ * Search Synonyms Service
+ *
+ * Changes:
+ * - Created the managed synonym dictionary used to expand text searches,
+ *   seeded with real-estate slang when empty and cached between searches
+ */
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  SearchSynonym,
+  SearchSynonymDocument,
+} from './schemas/search-synonym.schema';
+import {
+  CreateSearchSynonymDto,
+  UpdateSearchSynonymDto,
+} from './dto/search-synonym.dto';
+import { DEFAULT_SEARCH_SYNONYMS } from './default-search-synonyms';
+import { foldText } from '../property/utils/text-search';
+
+// Other instances pick up dictionary changes after this long
+const SYNONYM_CACHE_TTL_MS = 60 * 1000;
+
+type SearchSynonymRecord = SearchSynonym & { _id: Types.ObjectId };
+
+@Injectable()
+export class SearchSynonymsService implements OnModuleInit {
+  private readonly logger = new Logger(SearchSynonymsService.name);
+  private cachedGroups: { groups: string[][]; loadedAt: number } | null = null;
+
+  constructor(
+    @InjectModel(SearchSynonym.name)
+    private searchSynonymModel: Model<SearchSynonymDocument>,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      if ((await this.searchSynonymModel.estimatedDocumentCount()) === 0) {
+        await this.searchSynonymModel.insertMany(
+          DEFAULT_SEARCH_SYNONYMS.map((entry) => this.normalize(entry)),
+        );
+        this.logger.log(
+          `Seeded ${DEFAULT_SEARCH_SYNONYMS.length} search synonyms`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error seeding search synonyms: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  async findAll(): Promise<SearchSynonymRecord[]> {
+    return this.searchSynonymModel
+      .find()
+      .sort({ term: 1 })
+      .lean<SearchSynonymRecord[]>()
+      .exec();
+  }
+
+  async findOne(id: string): Promise<SearchSynonymRecord> {
+    const synonym = Types.ObjectId.isValid(id)
+      ? await this.searchSynonymModel
+          .findById(id)
+          .lean<SearchSynonymRecord>()
+          .exec()
+      : null;
+
+    if (!synonym) {
+      throw new NotFoundException(`Search synonym with ID ${id} not found`);
+    }
+    return synonym;
+  }
+
+  async create(
+    createDto: CreateSearchSynonymDto,
+  ): Promise<SearchSynonymRecord> {
+    const entry = this.normalize(createDto);
+    if (await this.searchSynonymModel.exists({ term: entry.term })) {
+      throw new BadRequestException(`Term ${entry.term} already exists`);
+    }
+
+    const synonym = await this.searchSynonymModel.create(entry);
+    this.cachedGroups = null;
+    return synonym.toObject<SearchSynonymRecord>();
+  }
+
+  async update(
+    id: string,
+    updateDto: UpdateSearchSynonymDto,
+  ): Promise<SearchSynonymRecord> {
+    const existing = await this.findOne(id);
+    const entry = this.normalize({
+      term: updateDto.term ?? existing.term,
+      synonyms: updateDto.synonyms ?? existing.synonyms,
+    });
+    if (
+      entry.term !== existing.term &&
+      (await this.searchSynonymModel.exists({ term: entry.term }))
+    ) {
+      throw new BadRequestException(`Term ${entry.term} already exists`);
+    }
+
+    const synonym = await this.searchSynonymModel
+      .findByIdAndUpdate(id, { $set: entry }, { new: true })
+      .lean<SearchSynonymRecord>()
+      .exec();
+    if (!synonym) {
+      throw new NotFoundException(`Search synonym with ID ${id} not found`);
+    }
+    this.cachedGroups = null;
+    return synonym;
+  }
+
+  async remove(id: string): Promise<void> {
+    const synonym = await this.findOne(id);
+    await this.searchSynonymModel.deleteOne({ _id: synonym._id }).exec();
+    this.cachedGroups = null;
+  }
+
+  /**
+   * Get the synonym groups (each term with its synonyms) used to expand searches
+   * @returns Accent-folded groups
+   */
+  async getSynonymGroups(): Promise<string[][]> {
+    if (
+      this.cachedGroups &&
+      Date.now() - this.cachedGroups.loadedAt < SYNONYM_CACHE_TTL_MS
+    ) {
+      return this.cachedGroups.groups;
+    }
+
+    const synonyms = await this.searchSynonymModel
+      .find({}, { term: 1, synonyms: 1 })
+      .lean<Pick<SearchSynonymRecord, 'term' | 'synonyms'>[]>()
+      .exec();
+    const groups = synonyms.map((synonym) => [
+      synonym.term,
+      ...synonym.synonyms,
+    ]);
+    this.cachedGroups = { groups, loadedAt: Date.now() };
+    return groups;
+  }
+
+  private normalize(entry: { term: string; synonyms: string[] }): {
+    term: string;
+    synonyms: string[];
+  } {
+    const term = foldText(entry.term).trim();
+    return {
+      term,
+      synonyms: Array.from(
+        new Set(entry.synonyms.map((synonym) => foldText(synonym).trim())),
+      ).filter((synonym) => synonym.length > 0 && synonym !== term),
+    };
+  }
+}
@@ -0,0 +1,49 @@
+import {
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+/**
+ * Give `userId`, or the `sessionId` of an anonymous chat
+ */
+export class CreateShortlistDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsString()
+  @IsOptional()
+  userId?: string;
+
+  @IsString()
+  @IsOptional()
+  sessionId?: string;
+}
+
+export class UpdateShortlistDto {
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  name?: string;
+}
+
+export class AddShortlistItemDto {
+  @IsMongoId()
+  propertyId: string;
+
+  @IsString()
+  @MaxLength(2000)
+  @IsOptional()
+  note?: string;
+}
+
+export class UpdateShortlistItemDto {
+  // null clears the note
+  @IsString()
+  @MaxLength(2000)
+  @IsOptional()
+  note?: string | null;
+}
@@ -0,0 +1,15 @@
+/**
+ * Who a shortlist belongs to: a user, or an anonymous chat session
+ */
+export interface ShortlistOwner {
+  userId?: string | null;
+  sessionId?: string | null;
+}
+
+/**
+ * Flags added to properties returned to a shortlist owner
+ */
+export interface ShortlistFlags {
+  shortlisted: boolean;
+  shortlistIds: string[];
+}
@@ -0,0 +1,51 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema, Types } from 'mongoose';
+
+export type ShortlistDocument = Shortlist & Document;
+
+@Schema({ _id: false })
+export class ShortlistItem {
+  @Prop({
+    required: true,
+    type: MongooseSchema.Types.ObjectId,
+    ref: 'Property',
+  })
+  propertyId: Types.ObjectId;
+
+  @Prop({ type: String, default: null })
+  note: string | null;
+
+  @Prop({ required: true, type: Date, default: Date.now })
+  addedAt: Date;
+}
+
+const ShortlistItemSchema = SchemaFactory.createForClass(ShortlistItem);
+
+/**
+ * A named list of properties, owned by a user or by an anonymous chat session
+ */
+@Schema({ timestamps: true })
+export class Shortlist {
+  @Prop({ required: true, type: String })
+  name: string;
+
+  @Prop({ type: String, default: null })
+  userId: string | null;
+
+  @Prop({ type: String, default: null })
+  sessionId: string | null;
+
+  // The owner's favorites list, which the chat adds properties to
+  @Prop({ type: Boolean, default: false })
+  isFavorites: boolean;
+
+  @Prop({ type: [ShortlistItemSchema], default: [] })
+  items: ShortlistItem[];
+}
+
+export const ShortlistSchema = SchemaFactory.createForClass(Shortlist);
+
+// Indexes to list an owner's shortlists and to flag shortlisted properties
+ShortlistSchema.index({ userId: 1, createdAt: -1 });
+ShortlistSchema.index({ sessionId: 1, createdAt: -1 });
+ShortlistSchema.index({ 'items.propertyId': 1 });
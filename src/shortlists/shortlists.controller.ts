@@ -0,0 +1,92 @@
+/**
+ * Shortlists Controller
+ *
+ * Changes:
+ * - Created the endpoints to manage shortlists and their items; lists are
+ *   looked up by `userId` or `sessionId`
+ */
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ShortlistsService } from './shortlists.service';
+import {
+  AddShortlistItemDto,
+  CreateShortlistDto,
+  UpdateShortlistDto,
+  UpdateShortlistItemDto,
+} from './dto/shortlist.dto';
+import { Shortlist } from './schemas/shortlist.schema';
+
+@Controller('shortlists')
+export class ShortlistsController {
+  constructor(private readonly shortlistsService: ShortlistsService) {}
+
+  @Post()
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async create(@Body() createDto: CreateShortlistDto): Promise<Shortlist> {
+    return this.shortlistsService.create(createDto);
+  }
+
+  @Get()
+  async findAll(
+    @Query('userId') userId?: string,
+    @Query('sessionId') sessionId?: string,
+  ): Promise<Shortlist[]> {
+    return this.shortlistsService.findAll({ userId, sessionId });
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string): Promise<Shortlist> {
+    return this.shortlistsService.findOne(id);
+  }
+
+  @Patch(':id')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateShortlistDto,
+  ): Promise<Shortlist> {
+    return this.shortlistsService.update(id, updateDto);
+  }
+
+  @Delete(':id')
+  async remove(@Param('id') id: string): Promise<void> {
+    return this.shortlistsService.remove(id);
+  }
+
+  @Post(':id/items')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async addItem(
+    @Param('id') id: string,
+    @Body() itemDto: AddShortlistItemDto,
+  ): Promise<Shortlist> {
+    return this.shortlistsService.addItem(id, itemDto);
+  }
+
+  @Patch(':id/items/:propertyId')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async updateItem(
+    @Param('id') id: string,
+    @Param('propertyId') propertyId: string,
+    @Body() itemDto: UpdateShortlistItemDto,
+  ): Promise<Shortlist> {
+    return this.shortlistsService.updateItem(id, propertyId, itemDto);
+  }
+
+  @Delete(':id/items/:propertyId')
+  async removeItem(
+    @Param('id') id: string,
+    @Param('propertyId') propertyId: string,
+  ): Promise<Shortlist> {
+    return this.shortlistsService.removeItem(id, propertyId);
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ShortlistsController } from './shortlists.controller';
+import { ShortlistsService } from './shortlists.service';
+import { Shortlist, ShortlistSchema } from './schemas/shortlist.schema';
+import { Property, PropertySchema } from '../property/schemas/property.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Shortlist.name, schema: ShortlistSchema },
+      { name: Property.name, schema: PropertySchema },
+    ]),
+  ],
+  controllers: [ShortlistsController],
+  providers: [ShortlistsService],
+  exports: [ShortlistsService],
+})
+export class ShortlistsModule {}
@@ -0,0 +1,305 @@
+/**
+ * Shortlists Service
+ *
+ * Changes:
+ * - Created named shortlists of properties with a note per item, owned by a
+ *   user ID or an anonymous chat sessionId
+ * - Added the owner's favorites list used by the chat, and the flags telling
+ *   property responses which listings the owner already shortlisted
+ */
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Shortlist, ShortlistDocument } from './schemas/shortlist.schema';
+import {
+  Property,
+  PropertyDocument,
+} from '../property/schemas/property.schema';
+import {
+  AddShortlistItemDto,
+  CreateShortlistDto,
+  UpdateShortlistDto,
+  UpdateShortlistItemDto,
+} from './dto/shortlist.dto';
+import {
+  ShortlistFlags,
+  ShortlistOwner,
+} from './interfaces/shortlist-owner.interface';
+
+// Name of the list the chat saves properties to
+export const FAVORITES_SHORTLIST_NAME = 'Favoritos';
+
+type ShortlistRecord = Shortlist & { _id: Types.ObjectId };
+
+@Injectable()
+export class ShortlistsService {
+  constructor(
+    @InjectModel(Shortlist.name)
+    private shortlistModel: Model<ShortlistDocument>,
+    @InjectModel(Property.name) private propertyModel: Model<PropertyDocument>,
+  ) {}
+
+  async create(createDto: CreateShortlistDto): Promise<ShortlistRecord> {
+    const owner = this.resolveOwner(createDto);
+    const shortlist = await this.shortlistModel.create({
+      name: createDto.name,
+      ...owner,
+    });
+    return shortlist.toObject<ShortlistRecord>();
+  }
+
+  /**
+   * List the shortlists of a user or a chat session, newest first
+   * @param owner The user ID and/or session ID
+   * @returns The owner's shortlists
+   */
+  async findAll(owner: ShortlistOwner): Promise<ShortlistRecord[]> {
+    return this.shortlistModel
+      .find(this.ownerFilter(this.resolveOwner(owner)))
+      .sort({ createdAt: -1 })
+      .lean<ShortlistRecord[]>()
+      .exec();
+  }
+
+  async findOne(id: string): Promise<ShortlistRecord> {
+    const shortlist = Types.ObjectId.isValid(id)
+      ? await this.shortlistModel.findById(id).lean<ShortlistRecord>().exec()
+      : null;
+
+    if (!shortlist) {
+      throw new NotFoundException(`Shortlist with ID ${id} not found`);
+    }
+    return shortlist;
+  }
+
+  async update(
+    id: string,
+    updateDto: UpdateShortlistDto,
+  ): Promise<ShortlistRecord> {
+    await this.findOne(id);
+    return this.findAndUpdate(id, { $set: { ...updateDto } });
+  }
+
+  async remove(id: string): Promise<void> {
+    const shortlist = await this.findOne(id);
+    await this.shortlistModel.deleteOne({ _id: shortlist._id }).exec();
+  }
+
+  /**
+   * Add a property to a shortlist; a property already in it only gets its note updated
+   * @param id The shortlist ID
+   * @param itemDto The property and an optional note
+   * @returns The updated shortlist
+   */
+  async addItem(
+    id: string,
+    itemDto: AddShortlistItemDto,
+  ): Promise<ShortlistRecord> {
+    const shortlist = await this.findOne(id);
+    const propertyId = await this.findPropertyId(itemDto.propertyId);
+
+    const alreadyListed = shortlist.items.some((item) =>
+      item.propertyId.equals(propertyId),
+    );
+    if (alreadyListed) {
+      return itemDto.note === undefined
+        ? shortlist
+        : this.updateItem(id, itemDto.propertyId, { note: itemDto.note });
+    }
+
+    // The filter keeps a concurrent add from listing the property twice
+    const updated = await this.shortlistModel
+      .findOneAndUpdate(
+        { _id: shortlist._id, 'items.propertyId': { $ne: propertyId } },
+        {
+          $push: {
+            items: {
+              propertyId,
+              note: itemDto.note ?? null,
+              addedAt: new Date(),
+            },
+          },
+        },
+        { new: true },
+      )
+      .lean<ShortlistRecord>()
+      .exec();
+    return updated ?? this.findOne(id);
+  }
+
+  async updateItem(
+    id: string,
+    propertyId: string,
+    itemDto: UpdateShortlistItemDto,
+  ): Promise<ShortlistRecord> {
+    const shortlist = await this.findOne(id);
+    const listed =
+      Types.ObjectId.isValid(propertyId) &&
+      shortlist.items.some((item) => item.propertyId.equals(propertyId));
+    if (!listed) {
+      throw new NotFoundException(
+        `Property ${propertyId} is not in shortlist ${id}`,
+      );
+    }
+
+    return this.findAndUpdate(
+      {
+        _id: shortlist._id,
+        'items.propertyId': new Types.ObjectId(propertyId),
+      },
+      { $set: { 'items.$.note': itemDto.note ?? null } },
+    );
+  }
+
+  async removeItem(id: string, propertyId: string): Promise<ShortlistRecord> {
+    const shortlist = await this.findOne(id);
+    if (!Types.ObjectId.isValid(propertyId)) {
+      return shortlist;
+    }
+    return this.findAndUpdate(id, {
+      $pull: { items: { propertyId: new Types.ObjectId(propertyId) } },
+    });
+  }
+
+  /**
+   * Add a property to the owner's favorites list, creating the list if needed
+   * @param owner The user ID or session ID
+   * @param propertyId The property to add
+   * @returns The favorites list
+   */
+  async addFavorite(
+    owner: ShortlistOwner,
+    propertyId: string,
+  ): Promise<ShortlistRecord> {
+    const resolvedOwner = this.resolveOwner(owner);
+    // Prefer the user's list when the chat knows the user
+    const favoritesOwner = resolvedOwner.userId
+      ? { userId: resolvedOwner.userId, sessionId: null }
+      : resolvedOwner;
+
+    const favorites = await this.shortlistModel
+      .findOneAndUpdate(
+        { ...favoritesOwner, isFavorites: true },
+        {
+          $setOnInsert: {
+            ...favoritesOwner,
+            name: FAVORITES_SHORTLIST_NAME,
+            isFavorites: true,
+            items: [],
+          },
+        },
+        { upsert: true, new: true },
+      )
+      .lean<ShortlistRecord>()
+      .exec();
+
+    return this.addItem(String(favorites._id), { propertyId });
+  }
+
+  /**
+   * Flag the properties the owner has in any of their shortlists
+   * @param properties The properties returned to the owner
+   * @param owner The user ID and/or session ID; properties are returned as-is without one
+   * @returns The properties with `shortlisted` and `shortlistIds`
+   */
+  async flagShortlisted<T extends object>(
+    properties: T[],
+    owner: ShortlistOwner,
+  ): Promise<(T & Partial<ShortlistFlags>)[]> {
+    if ((!owner.userId && !owner.sessionId) || properties.length === 0) {
+      return properties;
+    }
+
+    const propertyIds = properties.map((property) => propertyKey(property));
+    const shortlists = await this.shortlistModel
+      .find(
+        {
+          ...this.ownerFilter(owner),
+          'items.propertyId': {
+            $in: propertyIds
+              .filter((propertyId) => Types.ObjectId.isValid(propertyId))
+              .map((propertyId) => new Types.ObjectId(propertyId)),
+          },
+        },
+        { 'items.propertyId': 1 },
+      )
+      .lean<Pick<ShortlistRecord, '_id' | 'items'>[]>()
+      .exec();
+
+    const shortlistIdsByProperty = new Map<string, string[]>();
+    for (const shortlist of shortlists) {
+      for (const item of shortlist.items) {
+        const key = String(item.propertyId);
+        shortlistIdsByProperty.set(key, [
+          ...(shortlistIdsByProperty.get(key) || []),
+          String(shortlist._id),
+        ]);
+      }
+    }
+
+    return properties.map((property) => {
+      const shortlistIds =
+        shortlistIdsByProperty.get(propertyKey(property)) || [];
+      return {
+        ...property,
+        shortlisted: shortlistIds.length > 0,
+        shortlistIds,
+      };
+    });
+  }
+
+  private async findAndUpdate(
+    filter: string | Record<string, any>,
+    update: Record<string, any>,
+  ): Promise<ShortlistRecord> {
+    const query =
+      typeof filter === 'string'
+        ? this.shortlistModel.findByIdAndUpdate(filter, update, { new: true })
+        : this.shortlistModel.findOneAndUpdate(filter, update, { new: true });
+    const shortlist = await query.lean<ShortlistRecord>().exec();
+    if (!shortlist) {
+      throw new NotFoundException('Shortlist not found');
+    }
+    return shortlist;
+  }
+
+  private async findPropertyId(propertyId: string): Promise<Types.ObjectId> {
+    const property = Types.ObjectId.isValid(propertyId)
+      ? await this.propertyModel
+          .findOne({ _id: propertyId, deletedAt: null }, { _id: 1 })
+          .lean<{ _id: Types.ObjectId }>()
+          .exec()
+      : null;
+
+    if (!property) {
+      throw new NotFoundException(`Property with ID ${propertyId} not found`);
+    }
+    return property._id;
+  }
+
+  private resolveOwner(owner: ShortlistOwner): {
+    userId: string | null;
+    sessionId: string | null;
+  } {
+    if (!owner.userId && !owner.sessionId) {
+      throw new BadRequestException('Provide a userId or a sessionId');
+    }
+    return { userId: owner.userId || null, sessionId: owner.sessionId || null };
+  }
+
+  private ownerFilter(owner: ShortlistOwner): Record<string, any> {
+    const conditions = [
+      ...(owner.userId ? [{ userId: owner.userId }] : []),
+      ...(owner.sessionId ? [{ sessionId: owner.sessionId }] : []),
+    ];
+    return conditions.length === 1 ? conditions[0] : { $or: conditions };
+  }
+}
+
+function propertyKey(property: object): string {
+  return String((property as { _id?: unknown })._id);
+}
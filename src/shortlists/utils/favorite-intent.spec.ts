@@ -0,0 +1,43 @@
+import { isAddToFavoritesRequest } from './favorite-intent';
+
+describe('isAddToFavoritesRequest', () => {
+  it('detects requests to save the property to the favorites', () => {
+    expect(isAddToFavoritesRequest('guárdala en mis favoritos')).toBe(true);
+    expect(isAddToFavoritesRequest('Agrégala a favoritos por favor')).toBe(
+      true,
+    );
+    expect(isAddToFavoritesRequest('me gusta, márcala como favorita')).toBe(
+      true,
+    );
+    expect(
+      isAddToFavoritesRequest('agrégamela por favor a mis favoritos'),
+    ).toBe(true);
+  });
+
+  it('ignores other messages about favorites', () => {
+    expect(isAddToFavoritesRequest('muéstrame mis favoritos')).toBe(false);
+    expect(isAddToFavoritesRequest('no la guardes en favoritos')).toBe(false);
+    expect(isAddToFavoritesRequest('guarda mi búsqueda')).toBe(false);
+  });
+
+  it('ignores searches that mention favorites or similar verbs', () => {
+    expect(
+      isAddToFavoritesRequest(
+        'Busco casa de 200 metros cuadrados, mis colonias favoritas son Polanco y Condesa',
+      ),
+    ).toBe(false);
+    expect(
+      isAddToFavoritesRequest(
+        'Que incluya alberca, mi zona favorita es Providencia',
+      ),
+    ).toBe(false);
+    expect(
+      isAddToFavoritesRequest('márcala como vendida, mis favoritos son otros'),
+    ).toBe(false);
+    expect(
+      isAddToFavoritesRequest(
+        'pon el precio máximo en 3 millones, es mi favorito',
+      ),
+    ).toBe(false);
+  });
+});
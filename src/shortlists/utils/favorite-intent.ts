@@ -0,0 +1,34 @@
+/**
+ * Favorite Intent Utilities
+ *
+ * Changes:
+ * - Created the detection of chat messages asking to save the current
+ *   property to the favorites, e.g. "guárdala en mis favoritos"
+ * - Only an imperative with an object pronoun (guárdala, agrégamelo, ponla)
+ *   followed by "a/en/como (mis) favoritos" counts as a request; other
+ *   mentions of favorites or of those verbs are left to the agents
+ */
+
+// Imperative with a clitic: guárdala, agrégala, añádemela, ponla, métela, márcalo...
+const ADD_VERB =
+  '(?:guarda|agrega|anade|pon|mete|incluye|marca)(?:me|nos)?l[ao]s?';
+
+// "guárdala en mis favoritos", "márcala, por favor, como favorita"
+const ADD_TO_FAVORITES = new RegExp(
+  `\\b${ADD_VERB}\\b(?:\\s+\\S+){0,3}?\\s+(?:a|en|entre|como)\\s+(?:(?:mis|mi|los|las)\\s+)?favorit[ao]s?\\b`,
+);
+
+/**
+ * Check whether a chat message asks to add the property being discussed to
+ * the favorites
+ * @param message The user's message
+ * @returns True for requests such as "guárdala en mis favoritos"
+ */
+export function isAddToFavoritesRequest(message: string): boolean {
+  const text = message
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+
+  return ADD_TO_FAVORITES.test(text);
+}
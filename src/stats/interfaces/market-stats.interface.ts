@@ -1,3 +1,5 @@
+import { Currency } from '../../property/interfaces/property-filters.interface';
+
 export interface PriceStats {
   average: number;
   median: number;
@@ -41,6 +43,16 @@ export interface LocationStats {
     averagePrice: number;
     priceRange: { min: number; max: number };
   }[];
+  // Only listings placed in an imported colonia
+  byNeighborhood: {
+    neighborhood: string;
+    city: string;
+    state: string;
+    count: number;
+    percentage: number;
+    averagePrice: number;
+    priceRange: { min: number; max: number };
+  }[];
 }
 
 export interface PropertyTypeStats {
@@ -50,6 +62,12 @@ export interface PropertyTypeStats {
     percentage: number;
     averagePrice: number;
   }[];
+  byListingCategory: {
+    category: string;
+    count: number;
+    percentage: number;
+    averagePrice: number;
+  }[];
   byOperationType: {
     operation: string;
     count: number;
@@ -64,6 +82,15 @@ export interface PropertyTypeStats {
   }[];
 }
 
+export interface DevelopmentStats {
+  developments: number;
+  // Developments with at least one unit listed
+  withUnits: number;
+  units: number;
+  availableUnits: number;
+  averageUnitsPerDevelopment: number;
+}
+
 export interface FeaturesStats {
   bedrooms: {
     average: number;
@@ -109,6 +136,8 @@ export interface MarketTrends {
 
 export interface MarketStats {
   timestamp: Date;
+  // Currency of every price in the statistics
+  currency: Currency;
   totalProperties: number;
   prices: PriceStats;
   sizes: SizeStats;
@@ -116,6 +145,7 @@ export interface MarketStats {
   propertyTypes: PropertyTypeStats;
   features: FeaturesStats;
   trends: MarketTrends;
+  developments: DevelopmentStats;
   summary: {
     mostExpensiveAreas: {
       city: string;
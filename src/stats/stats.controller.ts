@@ -1,4 +1,4 @@
-import { Controller, Get } from '@nestjs/common';
+import { Controller, Get, Query } from '@nestjs/common';
 import { CacheInterceptor, CacheTTL } from '@nestjs/cache-manager';
 import { UseInterceptors } from '@nestjs/common';
 import { StatsService } from './stats.service';
@@ -11,7 +11,9 @@ export class StatsController {
 
   @Get()
   @CacheTTL(3600) // Cache for 1 hour
-  async getMarketStats(): Promise<MarketStats> {
-    return this.statsService.getMarketStats();
+  async getMarketStats(
+    @Query('currency') currency?: string,
+  ): Promise<MarketStats> {
+    return this.statsService.getMarketStats(currency);
   }
 }
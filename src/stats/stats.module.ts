@@ -4,6 +4,7 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { StatsController } from './stats.controller';
 import { StatsService } from './stats.service';
 import { Property, PropertySchema } from '../property/schemas/property.schema';
+import { ExchangeRatesModule } from '../exchange-rates/exchange-rates.module';
 
 @Module({
   imports: [
@@ -14,6 +15,7 @@ import { Property, PropertySchema } from '../property/schemas/property.schema';
     MongooseModule.forFeature([
       { name: Property.name, schema: PropertySchema },
     ]),
+    ExchangeRatesModule,
   ],
   controllers: [StatsController],
   providers: [StatsService],
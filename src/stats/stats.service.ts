@@ -1,7 +1,28 @@
+/**
+ * Stats Service
+ *
+ * Changes:
+ * - Statistics only cover visible listings (withdrawn listings are excluded)
+ * - Added the listing category breakdown (standard, foreclosure, vacation)
+ * - Added the breakdown by colonia (location.neighborhood)
+ * - Prices are aggregated from the normalized priceMXN and reported in the
+ *   requested currency
+ * - Developments with units are counted through their units, and the
+ *   development figures (projects, units, available units) are reported
+ * - The aggregation rows are typed per query, and the trends carry the
+ *   period, type and location fields MarketTrends describes
+ * - The price drop rate measures from the first known price, so listings
+ *   whose history began at a later change are counted correctly
+ */
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { Model, PipelineStage } from 'mongoose';
 import { Property } from '../property/schemas/property.schema';
+import {
+  COUNTED_LISTING_FILTER,
+  VISIBLE_LISTING_FILTER,
+} from '../property/utils/listing-visibility';
+import { ExchangeRatesService } from '../exchange-rates/exchange-rates.service';
 import {
   MarketStats,
   PriceStats,
@@ -10,6 +31,7 @@ import {
   PropertyTypeStats,
   FeaturesStats,
   MarketTrends,
+  DevelopmentStats,
 } from './interfaces/market-stats.interface';
 
 interface LocationStatsBase {
@@ -31,15 +53,93 @@ interface CityStats extends LocationStatsBase {
   state: string;
 }
 
+interface NeighborhoodStats extends CityStats {
+  neighborhood: string;
+}
+
+// Rows returned by the $group and $bucket stages of the aggregations
+interface BucketRow {
+  _id: number | 'Other';
+  count: number;
+}
+
+interface AveragePriceRow<Id = string> {
+  _id: Id;
+  count: number;
+  averagePrice: number;
+}
+
+interface LocationRow
+  extends AveragePriceRow<{
+    state: string;
+    city: string;
+    neighborhood: string;
+  }> {
+  minPrice: number;
+  maxPrice: number;
+}
+
+type OperationTypeRow = AveragePriceRow<{ operation: string; type: string }>;
+
+// Labels the daily groups of the trends (_id.year, _id.month, _id.day) as YYYY-MM-DD
+const TREND_PERIOD_STAGE: PipelineStage.AddFields = {
+  $addFields: {
+    period: {
+      $dateToString: {
+        format: '%Y-%m-%d',
+        date: {
+          $dateFromParts: {
+            year: '$_id.year',
+            month: '$_id.month',
+            day: '$_id.day',
+          },
+        },
+      },
+    },
+  },
+};
+
 @Injectable()
 export class StatsService {
   private readonly logger = new Logger(StatsService.name);
 
   constructor(
     @InjectModel(Property.name) private propertyModel: Model<Property>,
+    private readonly exchangeRatesService: ExchangeRatesService,
   ) {}
 
-  async getMarketStats(): Promise<MarketStats> {
+  /**
+   * Run an aggregation over the listings visible in search, counting the
+   * units of a development instead of the development
+   * @param pipeline The aggregation pipeline
+   * @param rate Pesos per unit of the currency displayPrice is given in
+   * @returns The aggregation
+   */
+  private aggregateListings<T = any>(
+    pipeline: PipelineStage[],
+    rate: number = 1,
+  ) {
+    return this.propertyModel.aggregate<T>([
+      { $match: COUNTED_LISTING_FILTER },
+      // Listings priced before priceMXN existed are in pesos
+      {
+        $addFields: {
+          displayPrice: {
+            $divide: [{ $ifNull: ['$priceMXN', '$price'] }, rate],
+          },
+        },
+      },
+      ...pipeline,
+    ]);
+  }
+
+  /**
+   * Market statistics of the visible listings
+   * @param currency Currency the prices are reported in; defaults to MXN
+   */
+  async getMarketStats(currency: string = 'MXN'): Promise<MarketStats> {
+    const code = this.exchangeRatesService.assertCurrency(currency);
+    const rate = this.exchangeRatesService.getRate(code);
     const startTime = Date.now();
     this.logger.log('Starting market stats calculation...');
 
@@ -52,15 +152,17 @@ export class StatsService {
       features,
       trends,
       summary,
+      developments,
     ] = await Promise.all([
       this.getTotalProperties(),
-      this.calculatePriceStats(),
+      this.calculatePriceStats(rate),
       this.calculateSizeStats(),
-      this.calculateLocationStats(),
-      this.calculatePropertyTypeStats(),
-      this.calculateFeaturesStats(),
-      this.calculateMarketTrends(),
-      this.calculateMarketSummary(),
+      this.calculateLocationStats(rate),
+      this.calculatePropertyTypeStats(rate),
+      this.calculateFeaturesStats(rate),
+      this.calculateMarketTrends(rate),
+      this.calculateMarketSummary(rate),
+      this.calculateDevelopmentStats(),
     ]);
 
     const executionTime = Date.now() - startTime;
@@ -68,6 +170,7 @@ export class StatsService {
 
     return {
       timestamp: new Date(),
+      currency: code,
       totalProperties,
       prices,
       sizes,
@@ -76,32 +179,68 @@ export class StatsService {
       features,
       trends,
       summary,
+      developments,
+    };
+  }
+
+  private async calculateDevelopmentStats(): Promise<DevelopmentStats> {
+    const [stats] = await this.propertyModel
+      .aggregate<Omit<DevelopmentStats, 'averageUnitsPerDevelopment'>>([
+        { $match: { ...VISIBLE_LISTING_FILTER, type: 'development' } },
+        {
+          $group: {
+            _id: null,
+            developments: { $sum: 1 },
+            withUnits: {
+              $sum: {
+                $cond: [{ $gt: ['$development.unitCount', 0] }, 1, 0],
+              },
+            },
+            units: { $sum: { $ifNull: ['$development.unitCount', 0] } },
+            availableUnits: {
+              $sum: { $ifNull: ['$development.availableUnits', 0] },
+            },
+          },
+        },
+        { $project: { _id: 0 } },
+      ])
+      .exec();
+
+    return {
+      developments: stats?.developments ?? 0,
+      withUnits: stats?.withUnits ?? 0,
+      units: stats?.units ?? 0,
+      availableUnits: stats?.availableUnits ?? 0,
+      averageUnitsPerDevelopment: stats?.withUnits
+        ? stats.units / stats.withUnits
+        : 0,
     };
   }
 
   private async getTotalProperties(): Promise<number> {
-    return this.propertyModel.countDocuments();
+    return this.propertyModel.countDocuments(COUNTED_LISTING_FILTER);
   }
 
-  private async calculatePriceStats(): Promise<PriceStats> {
+  private async calculatePriceStats(rate: number): Promise<PriceStats> {
     const [priceStats, distribution] = await Promise.all([
-      this.propertyModel
-        .aggregate([
+      this.aggregateListings<{ average: number; min: number; max: number }>(
+        [
           {
             $group: {
               _id: null,
-              average: { $avg: '$price' },
-              min: { $min: '$price' },
-              max: { $max: '$price' },
+              average: { $avg: '$displayPrice' },
+              min: { $min: '$displayPrice' },
+              max: { $max: '$displayPrice' },
             },
           },
-        ])
-        .exec(),
-      this.propertyModel
-        .aggregate([
+        ],
+        rate,
+      ).exec(),
+      this.aggregateListings<BucketRow>(
+        [
           {
             $bucket: {
-              groupBy: '$price',
+              groupBy: '$displayPrice',
               boundaries: [
                 0,
                 500000,
@@ -118,8 +257,9 @@ export class StatsService {
               },
             },
           },
-        ])
-        .exec(),
+        ],
+        rate,
+      ).exec(),
     ]);
 
     const total = await this.getTotalProperties();
@@ -130,7 +270,7 @@ export class StatsService {
     }));
 
     // Calculate median price
-    const medianPrice = await this.calculateMedianPrice();
+    const medianPrice = await this.calculateMedianPrice(rate);
 
     return {
       average: priceStats[0]?.average || 0,
@@ -141,36 +281,41 @@ export class StatsService {
     };
   }
 
-  private async calculateMedianPrice(): Promise<number> {
-    const prices = await this.propertyModel
-      .find({}, { price: 1 })
-      .sort({ price: 1 })
-      .lean()
-      .exec();
+  private async calculateMedianPrice(rate: number): Promise<number> {
+    const prices = await this.aggregateListings<{ displayPrice: number }>(
+      [
+        { $sort: { displayPrice: 1 } },
+        { $project: { _id: 0, displayPrice: 1 } },
+      ],
+      rate,
+    ).exec();
 
     const length = prices.length;
     if (length === 0) return 0;
 
     const midIndex = Math.floor(length / 2);
     if (length % 2 === 0) {
-      return (prices[midIndex - 1].price + prices[midIndex].price) / 2;
+      return (
+        (prices[midIndex - 1].displayPrice + prices[midIndex].displayPrice) / 2
+      );
     } else {
-      return prices[midIndex].price;
+      return prices[midIndex].displayPrice;
     }
   }
 
   private async calculateSizeStats(): Promise<SizeStats> {
-    const sizeStats = await this.propertyModel
-      .aggregate([
-        {
-          $group: {
-            _id: null,
-            averageConstruction: { $avg: '$features.constructionSize' },
-            averageLot: { $avg: '$features.lotSize' },
-          },
+    const sizeStats = await this.aggregateListings<{
+      averageConstruction: number;
+      averageLot: number;
+    }>([
+      {
+        $group: {
+          _id: null,
+          averageConstruction: { $avg: '$features.constructionSize' },
+          averageLot: { $avg: '$features.lotSize' },
         },
-      ])
-      .exec();
+      },
+    ]).exec();
 
     const [constructionDist, lotDist] = await Promise.all([
       this.calculateSizeDistribution('constructionSize'),
@@ -188,20 +333,18 @@ export class StatsService {
   private async calculateSizeDistribution(
     field: 'constructionSize' | 'lotSize',
   ): Promise<{ range: string; count: number; percentage: number }[]> {
-    const distribution = await this.propertyModel
-      .aggregate([
-        {
-          $bucket: {
-            groupBy: `$features.${field}`,
-            boundaries: [0, 50, 100, 150, 200, 300, 500, Infinity],
-            default: 'Other',
-            output: {
-              count: { $sum: 1 },
-            },
+    const distribution = await this.aggregateListings<BucketRow>([
+      {
+        $bucket: {
+          groupBy: `$features.${field}`,
+          boundaries: [0, 50, 100, 150, 200, 300, 500, Infinity],
+          default: 'Other',
+          output: {
+            count: { $sum: 1 },
           },
         },
-      ])
-      .exec();
+      },
+    ]).exec();
 
     const total = await this.getTotalProperties();
     return distribution.map((range) => ({
@@ -211,28 +354,39 @@ export class StatsService {
     }));
   }
 
-  private async calculateLocationStats(): Promise<LocationStats> {
-    const [byState, byCity] = await Promise.all([
-      this.calculateLocationBreakdown('state'),
-      this.calculateLocationBreakdown('city'),
+  private async calculateLocationStats(rate: number): Promise<LocationStats> {
+    const [byState, byCity, byNeighborhood] = await Promise.all([
+      this.calculateLocationBreakdown('state', rate),
+      this.calculateLocationBreakdown('city', rate),
+      this.calculateLocationBreakdown('neighborhood', rate),
     ]);
 
-    return { byState, byCity };
+    return { byState, byCity, byNeighborhood };
   }
 
   private async calculateLocationBreakdown(
     level: 'state',
+    rate: number,
   ): Promise<StateStats[]>;
-  private async calculateLocationBreakdown(level: 'city'): Promise<CityStats[]>;
   private async calculateLocationBreakdown(
-    level: 'state' | 'city',
-  ): Promise<StateStats[] | CityStats[] | undefined> {
+    level: 'city',
+    rate: number,
+  ): Promise<CityStats[]>;
+  private async calculateLocationBreakdown(
+    level: 'neighborhood',
+    rate: number,
+  ): Promise<NeighborhoodStats[]>;
+  private async calculateLocationBreakdown(
+    level: 'state' | 'city' | 'neighborhood',
+    rate: number,
+  ): Promise<StateStats[] | CityStats[] | NeighborhoodStats[] | undefined> {
     type PipelineStage =
       | {
           $group: {
             _id: {
               state: string;
               city: string;
+              neighborhood: string;
             };
             count: { $sum: number };
             averagePrice: { $avg: string };
@@ -252,11 +406,12 @@ export class StatsService {
           _id: {
             state: '$location.state',
             city: '$location.city',
+            neighborhood: '$location.neighborhood',
           },
           count: { $sum: 1 },
-          averagePrice: { $avg: '$price' },
-          minPrice: { $min: '$price' },
-          maxPrice: { $max: '$price' },
+          averagePrice: { $avg: '$displayPrice' },
+          minPrice: { $min: '$displayPrice' },
+          maxPrice: { $max: '$displayPrice' },
         },
       },
       {
@@ -266,7 +421,10 @@ export class StatsService {
       },
     ];
 
-    const stats = await this.propertyModel.aggregate(pipeline).exec();
+    const stats = await this.aggregateListings<LocationRow>(
+      pipeline,
+      rate,
+    ).exec();
     const total = await this.getTotalProperties();
 
     if (level === 'state') {
@@ -282,7 +440,7 @@ export class StatsService {
       >();
 
       stats.forEach((stat) => {
-        const state = stat._id.state as string;
+        const state = stat._id.state;
         if (!stateStats.has(state)) {
           stateStats.set(state, {
             count: 0,
@@ -356,30 +514,53 @@ export class StatsService {
           },
         }),
       );
+    } else if (level === 'neighborhood') {
+      // Each group is already one colonia; listings outside every colonia are left out
+      return stats
+        .filter((stat) => stat._id.neighborhood)
+        .map(
+          (stat): NeighborhoodStats => ({
+            neighborhood: stat._id.neighborhood,
+            city: stat._id.city,
+            state: stat._id.state,
+            count: stat.count,
+            percentage: (stat.count / total) * 100,
+            averagePrice: stat.averagePrice,
+            priceRange: {
+              min: stat.minPrice,
+              max: stat.maxPrice,
+            },
+          }),
+        );
     }
   }
 
-  private async calculatePropertyTypeStats(): Promise<PropertyTypeStats> {
-    const [distribution, byOperationType] = await Promise.all([
-      this.calculateTypeDistribution(),
-      this.calculateOperationTypeDistribution(),
-    ]);
+  private async calculatePropertyTypeStats(
+    rate: number,
+  ): Promise<PropertyTypeStats> {
+    const [distribution, byListingCategory, byOperationType] =
+      await Promise.all([
+        this.calculateTypeDistribution(rate),
+        this.calculateListingCategoryDistribution(rate),
+        this.calculateOperationTypeDistribution(rate),
+      ]);
 
-    return { distribution, byOperationType };
+    return { distribution, byListingCategory, byOperationType };
   }
 
-  private async calculateTypeDistribution() {
-    const stats = await this.propertyModel
-      .aggregate([
+  private async calculateTypeDistribution(rate: number) {
+    const stats = await this.aggregateListings<AveragePriceRow>(
+      [
         {
           $group: {
             _id: '$propertyType',
             count: { $sum: 1 },
-            averagePrice: { $avg: '$price' },
+            averagePrice: { $avg: '$displayPrice' },
           },
         },
-      ])
-      .exec();
+      ],
+      rate,
+    ).exec();
 
     const total = await this.getTotalProperties();
     return stats.map((stat) => ({
@@ -390,9 +571,34 @@ export class StatsService {
     }));
   }
 
-  private async calculateOperationTypeDistribution() {
-    const stats = await this.propertyModel
-      .aggregate([
+  private async calculateListingCategoryDistribution(rate: number) {
+    const stats = await this.aggregateListings<AveragePriceRow>(
+      [
+        {
+          $group: {
+            // Listings stored before categories existed are standard listings
+            _id: { $ifNull: ['$listingCategory', 'standard'] },
+            count: { $sum: 1 },
+            averagePrice: { $avg: '$displayPrice' },
+          },
+        },
+        { $sort: { count: -1 } },
+      ],
+      rate,
+    ).exec();
+
+    const total = await this.getTotalProperties();
+    return stats.map((stat) => ({
+      category: stat._id,
+      count: stat.count,
+      percentage: (stat.count / total) * 100,
+      averagePrice: stat.averagePrice,
+    }));
+  }
+
+  private async calculateOperationTypeDistribution(rate: number) {
+    const stats = await this.aggregateListings<OperationTypeRow>(
+      [
         {
           $group: {
             _id: {
@@ -400,24 +606,25 @@ export class StatsService {
               type: '$propertyType',
             },
             count: { $sum: 1 },
-            averagePrice: { $avg: '$price' },
+            averagePrice: { $avg: '$displayPrice' },
           },
         },
-      ])
-      .exec();
+      ],
+      rate,
+    ).exec();
 
     const total = await this.getTotalProperties();
     const grouped = this.groupByOperationType(stats, total);
     return grouped;
   }
 
-  private async calculateFeaturesStats(): Promise<FeaturesStats> {
+  private async calculateFeaturesStats(rate: number): Promise<FeaturesStats> {
     const [bedroomStats, bathroomStats, parkingStats, amenityStats] =
       await Promise.all([
         this.calculateFeatureDistribution('bedrooms'),
         this.calculateFeatureDistribution('bathrooms'),
         this.calculateFeatureDistribution('parking'),
-        this.calculateAmenityStats(),
+        this.calculateAmenityStats(rate),
       ]);
 
     return {
@@ -431,18 +638,16 @@ export class StatsService {
   private async calculateFeatureDistribution(
     feature: 'bedrooms' | 'bathrooms' | 'parking',
   ) {
-    const stats = await this.propertyModel
-      .aggregate([
-        {
-          $group: {
-            _id: `$features.${feature}`,
-            count: { $sum: 1 },
-            average: { $avg: `$features.${feature}` },
-          },
+    const stats = await this.aggregateListings<{ _id: number; count: number }>([
+      {
+        $group: {
+          _id: `$features.${feature}`,
+          count: { $sum: 1 },
+          average: { $avg: `$features.${feature}` },
         },
-        { $sort: { _id: 1 } },
-      ])
-      .exec();
+      },
+      { $sort: { _id: 1 } },
+    ]).exec();
 
     const total = await this.getTotalProperties();
     const distribution = stats.map((stat) => ({
@@ -460,20 +665,21 @@ export class StatsService {
     };
   }
 
-  private async calculateAmenityStats() {
-    const stats = await this.propertyModel
-      .aggregate([
+  private async calculateAmenityStats(rate: number) {
+    const stats = await this.aggregateListings<AveragePriceRow>(
+      [
         { $unwind: '$amenities' },
         {
           $group: {
             _id: '$amenities',
             count: { $sum: 1 },
-            averagePrice: { $avg: '$price' },
+            averagePrice: { $avg: '$displayPrice' },
           },
         },
         { $sort: { count: -1 } },
-      ])
-      .exec();
+      ],
+      rate,
+    ).exec();
 
     const total = await this.getTotalProperties();
     return stats.map((stat) => ({
@@ -484,15 +690,15 @@ export class StatsService {
     }));
   }
 
-  private async calculateMarketTrends(): Promise<MarketTrends> {
+  private async calculateMarketTrends(rate: number): Promise<MarketTrends> {
     const thirtyDaysAgo = new Date();
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
 
     const [priceEvolution, propertyTypeTrends, locationTrends] =
       await Promise.all([
-        this.calculatePriceEvolution(thirtyDaysAgo),
-        this.calculatePropertyTypeTrends(thirtyDaysAgo),
-        this.calculateLocationTrends(thirtyDaysAgo),
+        this.calculatePriceEvolution(thirtyDaysAgo, rate),
+        this.calculatePropertyTypeTrends(thirtyDaysAgo, rate),
+        this.calculateLocationTrends(thirtyDaysAgo, rate),
       ]);
 
     return {
@@ -502,9 +708,9 @@ export class StatsService {
     };
   }
 
-  private async calculatePriceEvolution(startDate: Date) {
-    return this.propertyModel
-      .aggregate([
+  private async calculatePriceEvolution(startDate: Date, rate: number) {
+    return this.aggregateListings<MarketTrends['priceEvolution'][number]>(
+      [
         {
           $match: {
             createdAt: { $gte: startDate },
@@ -517,20 +723,22 @@ export class StatsService {
               month: { $month: '$createdAt' },
               day: { $dayOfMonth: '$createdAt' },
             },
-            averagePrice: { $avg: '$price' },
-            medianPrice: { $avg: '$price' },
+            averagePrice: { $avg: '$displayPrice' },
+            medianPrice: { $avg: '$displayPrice' },
             totalProperties: { $sum: 1 },
             newListings: { $sum: 1 },
           },
         },
         { $sort: { '_id.year': 1, '_id.month': 1, '_id.day': 1 } },
-      ])
-      .exec();
+        TREND_PERIOD_STAGE,
+      ],
+      rate,
+    ).exec();
   }
 
-  private async calculatePropertyTypeTrends(startDate: Date) {
-    return this.propertyModel
-      .aggregate([
+  private async calculatePropertyTypeTrends(startDate: Date, rate: number) {
+    return this.aggregateListings<MarketTrends['propertyTypeTrends'][number]>(
+      [
         {
           $match: {
             createdAt: { $gte: startDate },
@@ -544,18 +752,21 @@ export class StatsService {
               day: { $dayOfMonth: '$createdAt' },
               type: '$propertyType',
             },
-            averagePrice: { $avg: '$price' },
+            averagePrice: { $avg: '$displayPrice' },
             count: { $sum: 1 },
           },
         },
         { $sort: { '_id.year': 1, '_id.month': 1, '_id.day': 1 } },
-      ])
-      .exec();
+        TREND_PERIOD_STAGE,
+        { $addFields: { type: '$_id.type' } },
+      ],
+      rate,
+    ).exec();
   }
 
-  private async calculateLocationTrends(startDate: Date) {
-    return this.propertyModel
-      .aggregate([
+  private async calculateLocationTrends(startDate: Date, rate: number) {
+    return this.aggregateListings<MarketTrends['locationTrends'][number]>(
+      [
         {
           $match: {
             createdAt: { $gte: startDate },
@@ -569,23 +780,26 @@ export class StatsService {
               day: { $dayOfMonth: '$createdAt' },
               location: '$location.city',
             },
-            averagePrice: { $avg: '$price' },
+            averagePrice: { $avg: '$displayPrice' },
             count: { $sum: 1 },
           },
         },
         { $sort: { '_id.year': 1, '_id.month': 1, '_id.day': 1 } },
-      ])
-      .exec();
+        TREND_PERIOD_STAGE,
+        { $addFields: { location: '$_id.location' } },
+      ],
+      rate,
+    ).exec();
   }
 
-  private async calculateMarketSummary() {
+  private async calculateMarketSummary(rate: number) {
     const [
       mostExpensiveAreas,
       mostActiveAreas,
       popularAmenities,
       marketHealth,
     ] = await Promise.all([
-      this.getMostExpensiveAreas(),
+      this.getMostExpensiveAreas(rate),
       this.getMostActiveAreas(),
       this.getPopularAmenities(),
       this.getMarketHealth(),
@@ -599,15 +813,17 @@ export class StatsService {
     };
   }
 
-  private async getMostExpensiveAreas(limit: number = 10) {
-    return this.propertyModel
-      .aggregate([
+  private async getMostExpensiveAreas(rate: number, limit: number = 10) {
+    return this.aggregateListings<
+      MarketStats['summary']['mostExpensiveAreas'][number]
+    >(
+      [
         {
           $group: {
             _id: {
               city: '$location.city',
             },
-            averagePrice: { $avg: '$price' },
+            averagePrice: { $avg: '$displayPrice' },
             propertyCount: { $sum: 1 },
           },
         },
@@ -626,64 +842,65 @@ export class StatsService {
         },
         { $sort: { averagePrice: -1 } },
         { $limit: limit },
-      ])
-      .exec();
+      ],
+      rate,
+    ).exec();
   }
 
   private async getMostActiveAreas(limit: number = 10) {
     const total = await this.getTotalProperties();
-    const areas = await this.propertyModel
-      .aggregate([
-        {
-          $group: {
-            _id: {
-              city: '$location.city',
-            },
-            propertyCount: { $sum: 1 },
+    const areas = await this.aggregateListings<
+      MarketStats['summary']['mostActiveAreas'][number]
+    >([
+      {
+        $group: {
+          _id: {
+            city: '$location.city',
           },
+          propertyCount: { $sum: 1 },
         },
-        {
-          $project: {
-            _id: 0,
-            city: '$_id.city',
-            propertyCount: 1,
-            percentageOfTotal: {
-              $multiply: [{ $divide: ['$propertyCount', total] }, 100],
-            },
+      },
+      {
+        $project: {
+          _id: 0,
+          city: '$_id.city',
+          propertyCount: 1,
+          percentageOfTotal: {
+            $multiply: [{ $divide: ['$propertyCount', total] }, 100],
           },
         },
-        { $sort: { propertyCount: -1 } },
-        { $limit: limit },
-      ])
-      .exec();
+      },
+      { $sort: { propertyCount: -1 } },
+      { $limit: limit },
+    ]).exec();
 
     return areas;
   }
 
   private async getPopularAmenities(limit: number = 10) {
     const total = await this.getTotalProperties();
-    return this.propertyModel
-      .aggregate([
-        { $unwind: '$amenities' },
-        {
-          $group: {
-            _id: '$amenities',
-            count: { $sum: 1 },
-          },
+    return this.aggregateListings<
+      MarketStats['summary']['popularAmenities'][number]
+    >([
+      { $unwind: '$amenities' },
+      {
+        $group: {
+          _id: '$amenities',
+          count: { $sum: 1 },
         },
-        {
-          $project: {
-            name: '$_id',
-            count: 1,
-            percentageOfProperties: {
-              $multiply: [{ $divide: ['$count', total] }, 100],
-            },
+      },
+      {
+        $project: {
+          name: '$_id',
+          count: 1,
+          percentageOfProperties: {
+            $multiply: [{ $divide: ['$count', total] }, 100],
           },
         },
-        { $sort: { count: -1 } },
-        { $limit: limit },
-      ])
-      .exec();
+      },
+      { $sort: { count: -1 } },
+      { $limit: limit },
+    ]).exec();
   }
 
   private async getMarketHealth() {
@@ -694,6 +911,7 @@ export class StatsService {
       await Promise.all([
         this.getTotalProperties(),
         this.propertyModel.countDocuments({
+          ...COUNTED_LISTING_FILTER,
           createdAt: { $gte: thirtyDaysAgo },
         }),
         this.calculateAverageDaysOnMarket(),
@@ -709,71 +927,81 @@ export class StatsService {
   }
 
   private async calculateAverageDaysOnMarket(): Promise<number> {
-    const result = await this.propertyModel
-      .aggregate([
-        {
-          $project: {
-            daysOnMarket: {
-              $divide: [
-                { $subtract: [new Date(), '$createdAt'] },
-                1000 * 60 * 60 * 24, // Convert milliseconds to days
-              ],
-            },
+    const result = await this.aggregateListings<{ averageDays: number }>([
+      {
+        $project: {
+          daysOnMarket: {
+            $divide: [
+              { $subtract: [new Date(), '$createdAt'] },
+              1000 * 60 * 60 * 24, // Convert milliseconds to days
+            ],
           },
         },
-        {
-          $group: {
-            _id: null,
-            averageDays: { $avg: '$daysOnMarket' },
-          },
+      },
+      {
+        $group: {
+          _id: null,
+          averageDays: { $avg: '$daysOnMarket' },
         },
-      ])
-      .exec();
+      },
+    ]).exec();
 
     return result[0]?.averageDays || 0;
   }
 
   private async calculatePriceDropRate(since: Date): Promise<number> {
-    const result = await this.propertyModel
-      .aggregate([
-        {
-          $match: {
-            updatedAt: { $gte: since },
-            'priceHistory.1': { $exists: true }, // At least one price change
-          },
+    const result = await this.aggregateListings<{ dropRate: number }>([
+      {
+        $match: {
+          updatedAt: { $gte: since },
+          // At least one price change. Listings created before the history
+          // existed start it at their first change, which carries the
+          // previous price; listings without any change are left out
+          $or: [
+            { 'priceHistory.1': { $exists: true } },
+            { 'priceHistory.0.previousPrice': { $ne: null } },
+          ],
         },
-        {
-          $project: {
-            hasDropped: {
-              $cond: {
-                if: {
-                  $lt: ['$price', { $arrayElemAt: ['$priceHistory.price', 0] }],
-                },
-                then: 1,
-                else: 0,
+      },
+      {
+        $project: {
+          hasDropped: {
+            $cond: {
+              if: {
+                $lt: [
+                  '$price',
+                  {
+                    $ifNull: [
+                      { $arrayElemAt: ['$priceHistory.previousPrice', 0] },
+                      { $arrayElemAt: ['$priceHistory.price', 0] },
+                    ],
+                  },
+                ],
               },
+              then: 1,
+              else: 0,
             },
           },
         },
-        {
-          $group: {
-            _id: null,
-            totalWithHistory: { $sum: 1 },
-            totalDropped: { $sum: '$hasDropped' },
-          },
+      },
+      {
+        $group: {
+          _id: null,
+          totalWithHistory: { $sum: 1 },
+          totalDropped: { $sum: '$hasDropped' },
         },
-        {
-          $project: {
-            dropRate: {
-              $multiply: [
-                { $divide: ['$totalDropped', '$totalWithHistory'] },
-                100,
-              ],
-            },
+      },
+      {
+        $project: {
+          dropRate: {
+            $multiply: [
+              { $divide: ['$totalDropped', '$totalWithHistory'] },
+              100,
+            ],
           },
         },
-      ])
-      .exec();
+      },
+    ]).exec();
 
     return result[0]?.dropRate || 0;
   }
@@ -792,8 +1020,14 @@ export class StatsService {
     return `${value}m² - ${value * 2}m²`;
   }
 
-  private groupByOperationType(stats: any[], total: number) {
-    const operationTypes = new Map();
+  private groupByOperationType(
+    stats: OperationTypeRow[],
+    total: number,
+  ): PropertyTypeStats['byOperationType'] {
+    const operationTypes = new Map<
+      string,
+      PropertyTypeStats['byOperationType'][number]
+    >();
 
     for (const stat of stats) {
       const { operation, type } = stat._id;
@@ -807,7 +1041,7 @@ export class StatsService {
         });
       }
 
-      const opType = operationTypes.get(operation);
+      const opType = operationTypes.get(operation)!;
       opType.count += stat.count;
       opType.types.push({
         type,
@@ -818,7 +1052,7 @@ export class StatsService {
     }
 
     // Calculate operation type percentages and average prices
-    for (const [_, value] of operationTypes) {
+    for (const value of operationTypes.values()) {
       value.percentage = (value.count / total) * 100;
       value.averagePrice =
         value.types.reduce(
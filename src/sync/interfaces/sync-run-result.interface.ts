@@ -0,0 +1,15 @@
+import { SyncFailure, SyncListingChange } from '../schemas/sync-run.schema';
+
+export interface SyncRunCounts {
+  processed: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  restored: number;
+  failed: number;
+}
+
+export interface SyncRunResult extends SyncRunCounts {
+  changes: SyncListingChange[];
+  failures: SyncFailure[];
+}
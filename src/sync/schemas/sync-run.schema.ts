@@ -0,0 +1,125 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema, Types } from 'mongoose';
+
+export type SyncRunDocument = SyncRun & Document;
+
+export type SyncRunStatus = 'running' | 'completed' | 'failed';
+
+export type SyncChangeAction = 'created' | 'updated' | 'restored';
+
+@Schema({ _id: false })
+export class SyncFieldChange {
+  // Dot path of the changed field, e.g. `features.bedrooms`
+  @Prop({ required: true, type: String })
+  field: string;
+
+  @Prop({ type: MongooseSchema.Types.Mixed, default: null })
+  from: unknown;
+
+  @Prop({ type: MongooseSchema.Types.Mixed, default: null })
+  to: unknown;
+}
+
+const SyncFieldChangeSchema = SchemaFactory.createForClass(SyncFieldChange);
+
+@Schema({ _id: false })
+export class SyncListingChange {
+  @Prop({ type: MongooseSchema.Types.ObjectId, ref: 'Property', default: null })
+  propertyId: Types.ObjectId | null;
+
+  @Prop({ type: String, default: null })
+  sourceId: string | null;
+
+  @Prop({ type: String, default: '' })
+  title: string;
+
+  @Prop({
+    required: true,
+    type: String,
+    enum: ['created', 'updated', 'restored'],
+  })
+  action: SyncChangeAction;
+
+  // Only recorded for updated and restored listings
+  @Prop({ type: [SyncFieldChangeSchema], default: [] })
+  fields: SyncFieldChange[];
+}
+
+const SyncListingChangeSchema = SchemaFactory.createForClass(SyncListingChange);
+
+@Schema({ _id: false })
+export class SyncFailure {
+  // 0-based position of the record in the feed
+  @Prop({ required: true, type: Number })
+  index: number;
+
+  @Prop({ type: String, default: null })
+  sourceId: string | null;
+
+  @Prop({ required: true, type: String })
+  message: string;
+}
+
+const SyncFailureSchema = SchemaFactory.createForClass(SyncFailure);
+
+@Schema({ timestamps: true })
+export class SyncRun {
+  @Prop({ required: true, type: String })
+  source: string;
+
+  // Feed file the run read, if any
+  @Prop({ type: String, default: null })
+  file: string | null;
+
+  @Prop({ required: true, type: Date })
+  startedAt: Date;
+
+  @Prop({ type: Date, default: null })
+  finishedAt: Date | null;
+
+  @Prop({
+    required: true,
+    type: String,
+    enum: ['running', 'completed', 'failed'],
+    default: 'running',
+  })
+  status: SyncRunStatus;
+
+  @Prop({ type: Number, default: 0 })
+  processed: number;
+
+  @Prop({ type: Number, default: 0 })
+  created: number;
+
+  @Prop({ type: Number, default: 0 })
+  updated: number;
+
+  @Prop({ type: Number, default: 0 })
+  unchanged: number;
+
+  // Withdrawn listings back in the feed; also counted as updated
+  @Prop({ type: Number, default: 0 })
+  restored: number;
+
+  @Prop({ type: Number, default: 0 })
+  failed: number;
+
+  @Prop({ type: [SyncListingChangeSchema], default: [] })
+  changes: SyncListingChange[];
+
+  @Prop({ type: [SyncFailureSchema], default: [] })
+  failures: SyncFailure[];
+
+  // Set when more changes or failures happened than the run keeps
+  @Prop({ type: Boolean, default: false })
+  truncated: boolean;
+
+  // Set when the run aborted
+  @Prop({ type: String, default: null })
+  error: string | null;
+}
+
+export const SyncRunSchema = SchemaFactory.createForClass(SyncRun);
+
+SyncRunSchema.index({ startedAt: -1 });
+SyncRunSchema.index({ source: 1, startedAt: -1 });
@@ -0,0 +1,130 @@
+/**
+ * Sync Run Service
+ *
+ * Changes:
+ * - Created the sync run history: each sync run is recorded with its counts,
+ *   the fields it changed on each listing and the records it failed on
+ */
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  SyncRun,
+  SyncRunDocument,
+  SyncRunStatus,
+} from './schemas/sync-run.schema';
+import { SyncRunResult } from './interfaces/sync-run-result.interface';
+import {
+  PageInfo,
+  PaginationOptions,
+  buildPage,
+  resolvePage,
+} from '../property/utils/cursor-pagination';
+
+// Keeps a run document well under the MongoDB document size limit
+const MAX_RECORDED_CHANGES = 2000;
+const MAX_RECORDED_FAILURES = 500;
+
+type SyncRunRecord = SyncRun & { _id: Types.ObjectId };
+
+@Injectable()
+export class SyncRunService {
+  private readonly logger = new Logger(SyncRunService.name);
+
+  constructor(
+    @InjectModel(SyncRun.name) private syncRunModel: Model<SyncRunDocument>,
+  ) {}
+
+  /**
+   * Record the start of a sync run
+   * @param source Name of the source adapter
+   * @param file Feed file the run reads, if any
+   * @returns The run ID
+   */
+  async startRun(source: string, file?: string): Promise<Types.ObjectId> {
+    const run = await this.syncRunModel.create({
+      source,
+      file: file ?? null,
+      startedAt: new Date(),
+      status: 'running',
+    });
+    return run._id as Types.ObjectId;
+  }
+
+  /**
+   * Record the outcome of a sync run
+   * Changes and failures beyond the recorded limits are counted but not kept
+   * @param id The run ID
+   * @param result Counts, listing changes and failures of the run
+   * @param error The error that aborted the run, if any
+   */
+  async finishRun(
+    id: Types.ObjectId,
+    result: SyncRunResult,
+    error?: Error,
+  ): Promise<void> {
+    const { changes, failures, ...counts } = result;
+    const status: SyncRunStatus = error ? 'failed' : 'completed';
+
+    await this.syncRunModel
+      .updateOne(
+        { _id: id },
+        {
+          $set: {
+            ...counts,
+            status,
+            finishedAt: new Date(),
+            changes: changes.slice(0, MAX_RECORDED_CHANGES),
+            failures: failures.slice(0, MAX_RECORDED_FAILURES),
+            truncated:
+              changes.length > MAX_RECORDED_CHANGES ||
+              failures.length > MAX_RECORDED_FAILURES,
+            error: error?.message ?? null,
+          },
+        },
+      )
+      .exec();
+
+    this.logger.log(`Sync run ${String(id)} ${status}`);
+  }
+
+  /**
+   * List sync runs, newest first, without their changes and failures
+   * @param source Optional source to filter by
+   * @param options Page size and cursor
+   * @returns The runs and the page info
+   */
+  async findRuns(
+    source?: string,
+    options: PaginationOptions = {},
+  ): Promise<{ runs: SyncRunRecord[]; pagination: PageInfo }> {
+    const query = source ? { source } : {};
+    const page = resolvePage(undefined, { startedAt: -1 }, options);
+
+    const docs = await this.syncRunModel
+      .find(
+        Object.keys(page.filter).length > 0
+          ? { $and: [query, page.filter] }
+          : query,
+        { changes: 0, failures: 0 },
+      )
+      .sort(page.sort)
+      .limit(page.limit + 1)
+      .lean<SyncRunRecord[]>()
+      .exec();
+
+    const { data, pagination } = buildPage(docs, page);
+    return { runs: data, pagination };
+  }
+
+  async findRun(id: string): Promise<SyncRunRecord> {
+    const run = Types.ObjectId.isValid(id)
+      ? await this.syncRunModel.findById(id).lean<SyncRunRecord>().exec()
+      : null;
+
+    if (!run) {
+      throw new NotFoundException(`Sync run with ID ${id} not found`);
+    }
+    return run;
+  }
+}
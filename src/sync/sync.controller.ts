@@ -0,0 +1,30 @@
+/**
+ * Sync Controller
+ *
+ * Changes:
+ * - Created the endpoints listing the sync run history and showing one run
+ *   with its per-listing changes and failures
+ */
+import { Controller, Get, Param, Query } from '@nestjs/common';
+import { SyncRunService } from './sync-run.service';
+import { SyncRun } from './schemas/sync-run.schema';
+import { PageInfo } from '../property/utils/cursor-pagination';
+
+@Controller('sync')
+export class SyncController {
+  constructor(private readonly syncRunService: SyncRunService) {}
+
+  @Get('runs')
+  async findRuns(
+    @Query('source') source?: string,
+    @Query('limit') limit?: string,
+    @Query('cursor') cursor?: string,
+  ): Promise<{ runs: SyncRun[]; pagination: PageInfo }> {
+    return this.syncRunService.findRuns(source, { limit, cursor });
+  }
+
+  @Get('runs/:id')
+  async findRun(@Param('id') id: string): Promise<SyncRun> {
+    return this.syncRunService.findRun(id);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { SyncController } from './sync.controller';
+import { SyncRunService } from './sync-run.service';
+import { SyncRun, SyncRunSchema } from './schemas/sync-run.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: SyncRun.name, schema: SyncRunSchema }]),
+  ],
+  controllers: [SyncController],
+  providers: [SyncRunService],
+  exports: [SyncRunService],
+})
+export class SyncModule {}
@@ -0,0 +1,50 @@
+import { diffProperty } from './property-diff';
+
+describe('diffProperty', () => {
+  const existing = {
+    title: 'Casa en Chapalita',
+    price: 3200000,
+    location: { city: 'Guadalajara', coordinates: { lat: 20.67, lng: -103.4 } },
+    features: { bedrooms: 3, bathrooms: null },
+    amenities: ['Jardín'],
+    updatedAt: new Date('2024-01-01'),
+  };
+
+  it('returns no changes for identical data', () => {
+    expect(
+      diffProperty(existing, {
+        title: 'Casa en Chapalita',
+        price: 3200000,
+        location: { city: 'Guadalajara' },
+        features: { bedrooms: 3 },
+        amenities: ['Jardín'],
+      }),
+    ).toEqual([]);
+  });
+
+  it('reports nested changes by dot path', () => {
+    expect(
+      diffProperty(existing, {
+        price: 3000000,
+        location: { coordinates: { lat: 20.67, lng: -103.41 } },
+        amenities: ['Jardín', 'Alberca'],
+      }),
+    ).toEqual([
+      { field: 'price', from: 3200000, to: 3000000 },
+      { field: 'location.coordinates.lng', from: -103.4, to: -103.41 },
+      { field: 'amenities', from: ['Jardín'], to: ['Jardín', 'Alberca'] },
+    ]);
+  });
+
+  it('treats missing and null alike and ignores bookkeeping fields', () => {
+    expect(
+      diffProperty(existing, {
+        features: { bathrooms: undefined, parking: null },
+        updatedAt: new Date(),
+      }),
+    ).toEqual([]);
+    expect(diffProperty(existing, { features: { bathrooms: 2 } })).toEqual([
+      { field: 'features.bathrooms', from: null, to: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Property Diff Utilities
+ *
+ * Changes:
+ * - Created the field-level comparison recording what a sync changed on a listing
+ */
+import { getPath } from '../../property/utils/object-path';
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+// Bookkeeping fields rewritten by every sync, and fields derived from others
+const IGNORED_FIELDS = [
+  'createdAt',
+  'updatedAt',
+  'priceHistory',
+  'lastSeenAt',
+  'withdrawnAt',
+  'searchFields',
+];
+
+/**
+ * List the fields of an incoming listing that differ from the stored one
+ * Only fields present in the incoming data are compared; arrays, dates and
+ * other non-plain objects are compared as whole values
+ * @param existing The stored listing, as a plain object
+ * @param incoming The listing data about to be written
+ * @returns One change per differing field, by dot path
+ */
+export function diffProperty(
+  existing: Record<string, unknown>,
+  incoming: Record<string, unknown>,
+): FieldChange[] {
+  return flatten(incoming)
+    .filter(([field]) => !IGNORED_FIELDS.includes(field.split('.')[0]))
+    .filter(([field, value]) => !isSameValue(getPath(existing, field), value))
+    .map(([field, value]) => ({
+      field,
+      from: getPath(existing, field) ?? null,
+      to: value ?? null,
+    }));
+}
+
+function flatten(
+  value: Record<string, unknown>,
+  prefix: string = '',
+): [string, unknown][] {
+  return Object.entries(value).flatMap(([key, child]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (child === undefined) {
+      return [];
+    }
+    return isPlainObject(child) ? flatten(child, path) : [[path, child]];
+  });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Object.prototype.toString.call(value) === '[object Object]';
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  // Missing and null fields are treated alike
+  if (a == null || b == null) {
+    return a == null && b == null;
+  }
+  if (a instanceof Date || b instanceof Date) {
+    return new Date(a as Date).getTime() === new Date(b as Date).getTime();
+  }
+  if (typeof a === 'object' || typeof b === 'object') {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return a === b;
+}
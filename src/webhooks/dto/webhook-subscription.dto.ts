@@ -0,0 +1,53 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MinLength,
+} from 'class-validator';
+import {
+  PROPERTY_EVENT_TYPES,
+  PropertyEventType,
+} from '../interfaces/property-event.interface';
+
+export class CreateWebhookSubscriptionDto {
+  @IsUrl({ protocols: ['http', 'https'], require_tld: false })
+  url: string;
+
+  // Omit to receive every event
+  @IsArray()
+  @IsIn(PROPERTY_EVENT_TYPES, { each: true })
+  @IsOptional()
+  events?: PropertyEventType[];
+
+  // Generated when omitted
+  @IsString()
+  @MinLength(16)
+  @IsOptional()
+  secret?: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+}
+
+export class UpdateWebhookSubscriptionDto {
+  @IsUrl({ protocols: ['http', 'https'], require_tld: false })
+  @IsOptional()
+  url?: string;
+
+  @IsArray()
+  @IsIn(PROPERTY_EVENT_TYPES, { each: true })
+  @IsOptional()
+  events?: PropertyEventType[];
+
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+}
@@ -0,0 +1,40 @@
+import { FieldChange } from '../../sync/utils/property-diff';
+
+export type PropertyEventType =
+  | 'property.created'
+  | 'property.updated'
+  | 'property.price_changed'
+  | 'property.status_changed'
+  | 'property.deleted';
+
+export const PROPERTY_EVENT_TYPES: PropertyEventType[] = [
+  'property.created',
+  'property.updated',
+  'property.price_changed',
+  'property.status_changed',
+  'property.deleted',
+];
+
+export interface PropertyEventData {
+  propertyId: string;
+  /** The created listing (property.created) */
+  property?: Record<string, unknown>;
+  /** Changed fields by dot path (property.updated) */
+  changes?: FieldChange[];
+  /** Previous and new value (property.price_changed, property.status_changed) */
+  from?: unknown;
+  to?: unknown;
+  /** What triggered the change, e.g. `api` or `sync:scraper` */
+  origin?: string;
+  deletedBy?: string | null;
+}
+
+/**
+ * Event body sent to the webhook subscribers
+ */
+export interface PropertyEvent {
+  id: string;
+  type: PropertyEventType;
+  occurredAt: Date;
+  data: PropertyEventData;
+}
@@ -0,0 +1,134 @@
+/**
+ * Property Events Service
+ *
+ * Changes:
+ * - Created the publisher of property domain events: each event is written
+ *   to the webhook outbox, once per matching subscription, and delivered by
+ *   the WebhookDispatcherService
+ */
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  WebhookSubscription,
+  WebhookSubscriptionDocument,
+} from './schemas/webhook-subscription.schema';
+import {
+  WebhookDelivery,
+  WebhookDeliveryDocument,
+} from './schemas/webhook-delivery.schema';
+import {
+  PropertyEvent,
+  PropertyEventData,
+  PropertyEventType,
+} from './interfaces/property-event.interface';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+import { FieldChange } from '../sync/utils/property-diff';
+
+@Injectable()
+export class PropertyEventsService {
+  private readonly logger = new Logger(PropertyEventsService.name);
+
+  constructor(
+    @InjectModel(WebhookSubscription.name)
+    private subscriptionModel: Model<WebhookSubscriptionDocument>,
+    @InjectModel(WebhookDelivery.name)
+    private deliveryModel: Model<WebhookDeliveryDocument>,
+    private readonly webhookDispatcher: WebhookDispatcherService,
+  ) {}
+
+  /**
+   * Publish a property event to the subscribed webhooks
+   * Errors are logged and swallowed: a failing outbox must not fail the change
+   * that triggered the event
+   * @param type The event type
+   * @param data The event data
+   * @returns The published event, or null if it could not be stored
+   */
+  async emit(
+    type: PropertyEventType,
+    data: PropertyEventData,
+  ): Promise<PropertyEvent | null> {
+    const event: PropertyEvent = {
+      id: uuidv4(),
+      type,
+      occurredAt: new Date(),
+      data,
+    };
+
+    try {
+      const subscriptions = await this.subscriptionModel
+        .find(
+          {
+            active: true,
+            $or: [{ events: { $size: 0 } }, { events: type }],
+          },
+          { _id: 1 },
+        )
+        .lean<{ _id: Types.ObjectId }[]>()
+        .exec();
+
+      if (subscriptions.length === 0) {
+        return event;
+      }
+
+      const body = JSON.stringify(event);
+      await this.deliveryModel.insertMany(
+        subscriptions.map((subscription) => ({
+          subscriptionId: subscription._id,
+          eventId: event.id,
+          eventType: type,
+          body,
+        })),
+      );
+
+      this.webhookDispatcher.trigger();
+      return event;
+    } catch (error) {
+      this.logger.error(
+        `Error publishing ${type} for property ${data.propertyId}: ${(error as Error).message}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Publish the events describing a change to a listing: property.updated,
+   * plus property.price_changed and property.status_changed when those changed
+   * @param propertyId The property ID
+   * @param changes The changed fields
+   * @param origin What triggered the change
+   */
+  async emitChanges(
+    propertyId: string,
+    changes: FieldChange[],
+    origin: string,
+  ): Promise<void> {
+    if (changes.length === 0) {
+      return;
+    }
+
+    await this.emit('property.updated', { propertyId, changes, origin });
+
+    const price = changes.find((change) => change.field === 'price');
+    if (price) {
+      await this.emit('property.price_changed', {
+        propertyId,
+        from: price.from,
+        to: price.to,
+        origin,
+      });
+    }
+
+    const status = changes.find((change) => change.field === 'status');
+    if (status) {
+      await this.emit('property.status_changed', {
+        propertyId,
+        from: status.from,
+        to: status.to,
+        origin,
+      });
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema, Types } from 'mongoose';
+import {
+  PROPERTY_EVENT_TYPES,
+  PropertyEventType,
+} from '../interfaces/property-event.interface';
+
+export type WebhookDeliveryDocument = WebhookDelivery & Document;
+
+/**
+ * - pending: in the outbox, waiting for its next attempt
+ * - delivered: the subscriber answered with a 2xx status
+ * - failed: every attempt failed; can be redelivered manually
+ */
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+@Schema({ _id: false })
+export class WebhookAttempt {
+  @Prop({ required: true, type: Date })
+  attemptedAt: Date;
+
+  // HTTP status answered by the subscriber, null on network errors
+  @Prop({ type: Number, default: null })
+  statusCode: number | null;
+
+  @Prop({ type: String, default: null })
+  error: string | null;
+
+  @Prop({ type: Number, default: 0 })
+  durationMs: number;
+}
+
+const WebhookAttemptSchema = SchemaFactory.createForClass(WebhookAttempt);
+
+/**
+ * One event for one subscription: the outbox entry while pending, and the
+ * delivery log afterwards
+ */
+@Schema({ timestamps: true })
+export class WebhookDelivery {
+  @Prop({
+    required: true,
+    type: MongooseSchema.Types.ObjectId,
+    ref: 'WebhookSubscription',
+  })
+  subscriptionId: Types.ObjectId;
+
+  @Prop({ required: true, type: String })
+  eventId: string;
+
+  @Prop({ required: true, type: String, enum: PROPERTY_EVENT_TYPES })
+  eventType: PropertyEventType;
+
+  // The serialized event, signed and sent as-is on every attempt
+  @Prop({ required: true, type: String })
+  body: string;
+
+  @Prop({
+    required: true,
+    type: String,
+    enum: ['pending', 'delivered', 'failed'],
+    default: 'pending',
+  })
+  status: WebhookDeliveryStatus;
+
+  @Prop({ type: Number, default: 0 })
+  attempts: number;
+
+  @Prop({ type: Date, default: () => new Date() })
+  nextAttemptAt: Date | null;
+
+  // Claimed by a dispatcher until then, so deliveries are not sent twice
+  @Prop({ type: Date, default: null })
+  lockedUntil: Date | null;
+
+  @Prop({ type: Date, default: null })
+  deliveredAt: Date | null;
+
+  @Prop({ type: [WebhookAttemptSchema], default: [] })
+  attemptLog: WebhookAttempt[];
+}
+
+export const WebhookDeliverySchema =
+  SchemaFactory.createForClass(WebhookDelivery);
+
+// Index for the outbox scan, and for the delivery log of a subscription
+WebhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+WebhookDeliverySchema.index({ subscriptionId: 1, createdAt: -1 });
@@ -0,0 +1,33 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import {
+  PROPERTY_EVENT_TYPES,
+  PropertyEventType,
+} from '../interfaces/property-event.interface';
+
+export type WebhookSubscriptionDocument = WebhookSubscription & Document;
+
+@Schema({ timestamps: true })
+export class WebhookSubscription {
+  @Prop({ required: true, type: String })
+  url: string;
+
+  // Shared secret signing the deliveries; never returned after creation
+  @Prop({ required: true, type: String, select: false })
+  secret: string;
+
+  // Events delivered to the subscriber; empty means every event
+  @Prop({ type: [String], enum: PROPERTY_EVENT_TYPES, default: [] })
+  events: PropertyEventType[];
+
+  @Prop({ type: Boolean, default: true })
+  active: boolean;
+
+  @Prop({ type: String, default: '' })
+  description: string;
+}
+
+export const WebhookSubscriptionSchema =
+  SchemaFactory.createForClass(WebhookSubscription);
+
+WebhookSubscriptionSchema.index({ active: 1, events: 1 });
@@ -0,0 +1,51 @@
+import { createHmac } from 'crypto';
+import {
+  generateWebhookSecret,
+  getRetryDelay,
+  signWebhookBody,
+  verifyWebhookSignature,
+} from './webhook-signature';
+
+describe('webhook signature', () => {
+  const secret = 'whsec_test_secret_value';
+  const body = '{"type":"property.created"}';
+
+  it('signs the timestamp and body with HMAC-SHA256', () => {
+    const expected = createHmac('sha256', secret)
+      .update(`1700000000.${body}`)
+      .digest('hex');
+
+    expect(signWebhookBody(secret, 1700000000, body)).toBe(
+      `sha256=${expected}`,
+    );
+  });
+
+  it('verifies signatures and rejects tampered requests', () => {
+    const signature = signWebhookBody(secret, 1700000000, body);
+
+    expect(verifyWebhookSignature(secret, 1700000000, body, signature)).toBe(
+      true,
+    );
+    expect(verifyWebhookSignature(secret, 1700000001, body, signature)).toBe(
+      false,
+    );
+    expect(
+      verifyWebhookSignature(secret, 1700000000, body + ' ', signature),
+    ).toBe(false);
+    expect(verifyWebhookSignature(secret, 1700000000, body, 'sha256=')).toBe(
+      false,
+    );
+  });
+
+  it('generates distinct secrets', () => {
+    expect(generateWebhookSecret()).toMatch(/^whsec_[0-9a-f]{48}$/);
+    expect(generateWebhookSecret()).not.toBe(generateWebhookSecret());
+  });
+
+  it('backs off exponentially with a cap', () => {
+    expect(getRetryDelay(1)).toBeGreaterThanOrEqual(30000);
+    expect(getRetryDelay(1)).toBeLessThanOrEqual(33000);
+    expect(getRetryDelay(3)).toBeGreaterThanOrEqual(120000);
+    expect(getRetryDelay(20)).toBeLessThanOrEqual(6 * 60 * 60 * 1000 * 1.1);
+  });
+});
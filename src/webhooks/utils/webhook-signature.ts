@@ -0,0 +1,76 @@
+/**
+ * Webhook Signature Utilities
+ *
+ * Changes:
+ * - Created the HMAC signing of webhook deliveries and the retry schedule
+ */
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+export const WEBHOOK_EVENT_HEADER = 'X-Webhook-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-Webhook-Delivery';
+
+// Attempts before a delivery is marked as failed
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+// Delay before the first retry, doubled on each following one
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Sign a delivery body: HMAC-SHA256 of `<timestamp>.<body>` with the
+ * subscription secret; subscribers recompute it to authenticate the request
+ * and reject old timestamps to prevent replays
+ * @param secret The subscription secret
+ * @param timestamp Unix time in seconds, sent in X-Webhook-Timestamp
+ * @param body The raw request body
+ * @returns The signature header value, `sha256=<hex digest>`
+ */
+export function signWebhookBody(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Check a signature header against the body, in constant time
+ * @param secret The subscription secret
+ * @param timestamp The X-Webhook-Timestamp value
+ * @param body The raw request body
+ * @param signature The X-Webhook-Signature value
+ * @returns Whether the signature matches
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string,
+): boolean {
+  const expected = Buffer.from(signWebhookBody(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Delay before the next attempt, with exponential backoff and jitter
+ * @param attempts Attempts made so far (at least 1)
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(attempts: number): number {
+  const delay = Math.min(
+    RETRY_BASE_DELAY_MS * 2 ** (attempts - 1),
+    RETRY_MAX_DELAY_MS,
+  );
+  // Up to 10% jitter spreads the retries of a subscriber that went down
+  return Math.round(delay * (1 + Math.random() * 0.1));
+}
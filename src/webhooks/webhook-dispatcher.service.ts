@@ -0,0 +1,245 @@
+/**
+ * Webhook Dispatcher Service
+ *
+ * Changes:
+ * - Created the outbox dispatcher: pending deliveries are claimed, signed and
+ *   POSTed to their subscription, and retried with exponential backoff until
+ *   they succeed or run out of attempts; every attempt is logged
+ */
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import axios from 'axios';
+import {
+  WebhookSubscription,
+  WebhookSubscriptionDocument,
+} from './schemas/webhook-subscription.schema';
+import {
+  WebhookAttempt,
+  WebhookDelivery,
+  WebhookDeliveryDocument,
+} from './schemas/webhook-delivery.schema';
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  getRetryDelay,
+  signWebhookBody,
+} from './utils/webhook-signature';
+
+// Deliveries sent per dispatch pass
+const DISPATCH_BATCH_SIZE = 50;
+
+type DeliveryRecord = WebhookDelivery & { _id: Types.ObjectId };
+
+@Injectable()
+export class WebhookDispatcherService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebhookDispatcherService.name);
+  private timer: NodeJS.Timeout | null = null;
+  private dispatching: Promise<number> | null = null;
+
+  constructor(
+    @InjectModel(WebhookSubscription.name)
+    private subscriptionModel: Model<WebhookSubscriptionDocument>,
+    @InjectModel(WebhookDelivery.name)
+    private deliveryModel: Model<WebhookDeliveryDocument>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    const interval = Number(
+      this.configService.get<number>('WEBHOOK_DISPATCH_INTERVAL_MS') ?? 15000,
+    );
+    if (interval > 0) {
+      this.timer = setInterval(() => this.trigger(), interval);
+      // Do not keep scripts alive just for the dispatcher
+      this.timer.unref();
+    }
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Start a dispatch pass in the background, unless one is running
+   */
+  trigger(): void {
+    void this.dispatchDue().catch((error: Error) =>
+      this.logger.error(`Webhook dispatch failed: ${error.message}`),
+    );
+  }
+
+  /**
+   * Send the deliveries whose next attempt is due
+   * Concurrent calls share the running pass
+   * @returns Number of deliveries attempted
+   */
+  async dispatchDue(): Promise<number> {
+    if (!this.dispatching) {
+      this.dispatching = this.runDispatch().finally(() => {
+        this.dispatching = null;
+      });
+    }
+    return this.dispatching;
+  }
+
+  private async runDispatch(): Promise<number> {
+    let attempted = 0;
+
+    while (attempted < DISPATCH_BATCH_SIZE) {
+      const delivery = await this.claimNextDelivery();
+      if (!delivery) {
+        break;
+      }
+      await this.attemptDelivery(delivery);
+      attempted++;
+    }
+
+    if (attempted > 0) {
+      this.logger.log(`Attempted ${attempted} webhook deliveries`);
+    }
+    return attempted;
+  }
+
+  private async claimNextDelivery(): Promise<DeliveryRecord | null> {
+    const now = new Date();
+    return this.deliveryModel
+      .findOneAndUpdate(
+        {
+          status: 'pending',
+          nextAttemptAt: { $lte: now },
+          $or: [{ lockedUntil: null }, { lockedUntil: { $lt: now } }],
+        },
+        {
+          $set: {
+            lockedUntil: new Date(now.getTime() + this.getTimeout() * 2),
+          },
+        },
+        { new: true, sort: { nextAttemptAt: 1 } },
+      )
+      .lean<DeliveryRecord>()
+      .exec();
+  }
+
+  private async attemptDelivery(delivery: DeliveryRecord): Promise<void> {
+    const subscription = await this.subscriptionModel
+      .findById(delivery.subscriptionId)
+      .select('+secret')
+      .lean<WebhookSubscription>()
+      .exec();
+
+    const attemptedAt = new Date();
+    let attempt: WebhookAttempt;
+
+    if (!subscription?.active) {
+      attempt = {
+        attemptedAt,
+        statusCode: null,
+        error: 'Subscription is disabled',
+        durationMs: 0,
+      };
+    } else {
+      attempt = await this.send(subscription, delivery, attemptedAt);
+    }
+
+    const attempts = delivery.attempts + 1;
+    const delivered =
+      attempt.statusCode !== null &&
+      attempt.statusCode >= 200 &&
+      attempt.statusCode < 300;
+    const exhausted = !subscription?.active || attempts >= WEBHOOK_MAX_ATTEMPTS;
+
+    await this.deliveryModel
+      .updateOne(
+        { _id: delivery._id },
+        {
+          $set: {
+            attempts,
+            lockedUntil: null,
+            ...(delivered
+              ? {
+                  status: 'delivered',
+                  deliveredAt: attemptedAt,
+                  nextAttemptAt: null,
+                }
+              : exhausted
+                ? { status: 'failed', nextAttemptAt: null }
+                : {
+                    nextAttemptAt: new Date(
+                      attemptedAt.getTime() + getRetryDelay(attempts),
+                    ),
+                  }),
+          },
+          $push: { attemptLog: attempt },
+        },
+      )
+      .exec();
+
+    if (!delivered) {
+      this.logger.warn(
+        `Webhook delivery ${String(delivery._id)} attempt ${attempts} failed: ${attempt.error}`,
+      );
+    }
+  }
+
+  private async send(
+    subscription: WebhookSubscription,
+    delivery: DeliveryRecord,
+    attemptedAt: Date,
+  ): Promise<WebhookAttempt> {
+    const timestamp = Math.floor(attemptedAt.getTime() / 1000);
+
+    try {
+      const response = await axios.post(subscription.url, delivery.body, {
+        headers: {
+          'Content-Type': 'application/json',
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookBody(
+            subscription.secret,
+            timestamp,
+            delivery.body,
+          ),
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_EVENT_HEADER]: delivery.eventType,
+          [WEBHOOK_DELIVERY_HEADER]: String(delivery._id),
+        },
+        timeout: this.getTimeout(),
+        maxRedirects: 0,
+        // Any answer is logged; only 2xx counts as delivered
+        validateStatus: () => true,
+      });
+
+      const ok = response.status >= 200 && response.status < 300;
+      return {
+        attemptedAt,
+        statusCode: response.status,
+        error: ok ? null : `Subscriber answered ${response.status}`,
+        durationMs: Date.now() - attemptedAt.getTime(),
+      };
+    } catch (error) {
+      return {
+        attemptedAt,
+        statusCode: null,
+        error: (error as Error).message,
+        durationMs: Date.now() - attemptedAt.getTime(),
+      };
+    }
+  }
+
+  private getTimeout(): number {
+    return Number(
+      this.configService.get<number>('WEBHOOK_TIMEOUT_MS') ?? 10000,
+    );
+  }
+}
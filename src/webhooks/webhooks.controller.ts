@@ -0,0 +1,99 @@
+/**
+ * Webhooks Controller
+ *
+ * Changes:
+ * - Created the webhook subscription endpoints, the delivery log and manual
+ *   redelivery
+ */
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { WebhooksService } from './webhooks.service';
+import {
+  CreateWebhookSubscriptionDto,
+  UpdateWebhookSubscriptionDto,
+} from './dto/webhook-subscription.dto';
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from './schemas/webhook-delivery.schema';
+import { WebhookSubscription } from './schemas/webhook-subscription.schema';
+import { PageInfo } from '../property/utils/cursor-pagination';
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = [
+  'pending',
+  'delivered',
+  'failed',
+];
+
+@Controller('webhooks')
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  @Post()
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async create(
+    @Body() createDto: CreateWebhookSubscriptionDto,
+  ): Promise<WebhookSubscription> {
+    return this.webhooksService.create(createDto);
+  }
+
+  @Get()
+  async findAll(): Promise<WebhookSubscription[]> {
+    return this.webhooksService.findAll();
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string): Promise<WebhookSubscription> {
+    return this.webhooksService.findOne(id);
+  }
+
+  @Patch(':id')
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateWebhookSubscriptionDto,
+  ): Promise<WebhookSubscription> {
+    return this.webhooksService.update(id, updateDto);
+  }
+
+  @Delete(':id')
+  async remove(@Param('id') id: string): Promise<void> {
+    return this.webhooksService.remove(id);
+  }
+
+  @Get(':id/deliveries')
+  async findDeliveries(
+    @Param('id') id: string,
+    @Query('status') status?: WebhookDeliveryStatus,
+    @Query('limit') limit?: string,
+    @Query('cursor') cursor?: string,
+  ): Promise<{ deliveries: WebhookDelivery[]; pagination: PageInfo }> {
+    if (status && !DELIVERY_STATUSES.includes(status)) {
+      throw new BadRequestException(
+        `status must be one of: ${DELIVERY_STATUSES.join(', ')}`,
+      );
+    }
+    return this.webhooksService.findDeliveries(id, status, { limit, cursor });
+  }
+
+  @Post(':id/deliveries/:deliveryId/redeliver')
+  @HttpCode(200)
+  async redeliver(
+    @Param('id') id: string,
+    @Param('deliveryId') deliveryId: string,
+  ): Promise<WebhookDelivery> {
+    return this.webhooksService.redeliver(id, deliveryId);
+  }
+}
@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { WebhooksController } from './webhooks.controller';
+import { WebhooksService } from './webhooks.service';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+import { PropertyEventsService } from './property-events.service';
+import {
+  WebhookSubscription,
+  WebhookSubscriptionSchema,
+} from './schemas/webhook-subscription.schema';
+import {
+  WebhookDelivery,
+  WebhookDeliverySchema,
+} from './schemas/webhook-delivery.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: WebhookSubscription.name, schema: WebhookSubscriptionSchema },
+      { name: WebhookDelivery.name, schema: WebhookDeliverySchema },
+    ]),
+  ],
+  controllers: [WebhooksController],
+  providers: [WebhooksService, WebhookDispatcherService, PropertyEventsService],
+  exports: [PropertyEventsService],
+})
+export class WebhooksModule {}
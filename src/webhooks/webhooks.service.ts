@@ -0,0 +1,180 @@
+/**
+ * Webhooks Service
+ *
+ * Changes:
+ * - Created the webhook subscription management and the delivery log
+ */
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  WebhookSubscription,
+  WebhookSubscriptionDocument,
+} from './schemas/webhook-subscription.schema';
+import {
+  WebhookDelivery,
+  WebhookDeliveryDocument,
+  WebhookDeliveryStatus,
+} from './schemas/webhook-delivery.schema';
+import {
+  CreateWebhookSubscriptionDto,
+  UpdateWebhookSubscriptionDto,
+} from './dto/webhook-subscription.dto';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+import { generateWebhookSecret } from './utils/webhook-signature';
+import {
+  PageInfo,
+  PaginationOptions,
+  buildPage,
+  resolvePage,
+} from '../property/utils/cursor-pagination';
+
+type SubscriptionRecord = WebhookSubscription & { _id: Types.ObjectId };
+type DeliveryRecord = WebhookDelivery & { _id: Types.ObjectId };
+
+@Injectable()
+export class WebhooksService {
+  private readonly logger = new Logger(WebhooksService.name);
+
+  constructor(
+    @InjectModel(WebhookSubscription.name)
+    private subscriptionModel: Model<WebhookSubscriptionDocument>,
+    @InjectModel(WebhookDelivery.name)
+    private deliveryModel: Model<WebhookDeliveryDocument>,
+    private readonly webhookDispatcher: WebhookDispatcherService,
+  ) {}
+
+  /**
+   * Create a subscription
+   * @param createDto The subscription
+   * @returns The subscription, including its secret; later reads omit it
+   */
+  async create(
+    createDto: CreateWebhookSubscriptionDto,
+  ): Promise<SubscriptionRecord> {
+    const subscription = await this.subscriptionModel.create({
+      ...createDto,
+      secret: createDto.secret || generateWebhookSecret(),
+    });
+
+    this.logger.log(`Created webhook subscription for ${createDto.url}`);
+    return subscription.toObject<SubscriptionRecord>();
+  }
+
+  async findAll(): Promise<SubscriptionRecord[]> {
+    return this.subscriptionModel
+      .find()
+      .sort({ createdAt: -1 })
+      .lean<SubscriptionRecord[]>()
+      .exec();
+  }
+
+  async findOne(id: string): Promise<SubscriptionRecord> {
+    const subscription = Types.ObjectId.isValid(id)
+      ? await this.subscriptionModel
+          .findById(id)
+          .lean<SubscriptionRecord>()
+          .exec()
+      : null;
+
+    if (!subscription) {
+      throw new NotFoundException(
+        `Webhook subscription with ID ${id} not found`,
+      );
+    }
+    return subscription;
+  }
+
+  async update(
+    id: string,
+    updateDto: UpdateWebhookSubscriptionDto,
+  ): Promise<SubscriptionRecord> {
+    await this.findOne(id);
+    return (await this.subscriptionModel
+      .findByIdAndUpdate(id, { $set: updateDto }, { new: true })
+      .lean<SubscriptionRecord>()
+      .exec()) as SubscriptionRecord;
+  }
+
+  /**
+   * Delete a subscription and its delivery log
+   * @param id The subscription ID
+   */
+  async remove(id: string): Promise<void> {
+    await this.findOne(id);
+    await Promise.all([
+      this.subscriptionModel.deleteOne({ _id: id }).exec(),
+      this.deliveryModel.deleteMany({ subscriptionId: id }).exec(),
+    ]);
+  }
+
+  /**
+   * List the deliveries of a subscription, newest first
+   * @param id The subscription ID
+   * @param status Optional delivery status to filter by
+   * @param options Page size and cursor
+   * @returns The deliveries, with their attempts, and the page info
+   */
+  async findDeliveries(
+    id: string,
+    status?: WebhookDeliveryStatus,
+    options: PaginationOptions = {},
+  ): Promise<{ deliveries: DeliveryRecord[]; pagination: PageInfo }> {
+    const subscription = await this.findOne(id);
+    const query = {
+      subscriptionId: subscription._id,
+      ...(status && { status }),
+    };
+    const page = resolvePage(undefined, { createdAt: -1 }, options);
+
+    const docs = await this.deliveryModel
+      .find(
+        Object.keys(page.filter).length > 0
+          ? { $and: [query, page.filter] }
+          : query,
+      )
+      .sort(page.sort)
+      .limit(page.limit + 1)
+      .lean<DeliveryRecord[]>()
+      .exec();
+
+    const { data, pagination } = buildPage(docs, page);
+    return { deliveries: data, pagination };
+  }
+
+  /**
+   * Put a delivery back in the outbox for an immediate attempt
+   * @param id The subscription ID
+   * @param deliveryId The delivery ID
+   * @returns The delivery
+   */
+  async redeliver(id: string, deliveryId: string): Promise<DeliveryRecord> {
+    const subscription = await this.findOne(id);
+    const delivery = Types.ObjectId.isValid(deliveryId)
+      ? await this.deliveryModel
+          .findOneAndUpdate(
+            { _id: deliveryId, subscriptionId: subscription._id },
+            {
+              $set: {
+                status: 'pending',
+                nextAttemptAt: new Date(),
+                lockedUntil: null,
+                attempts: 0,
+              },
+            },
+            { new: true },
+          )
+          .lean<DeliveryRecord>()
+          .exec()
+      : null;
+
+    if (!delivery) {
+      throw new NotFoundException(
+        `Webhook delivery with ID ${deliveryId} not found`,
+      );
+    }
+
+    this.webhookDispatcher.trigger();
+    return delivery;
+  }
+}